@@ -14,6 +14,8 @@ import { useWalletValidation } from "@/hooks/useWalletValidation";
 import { useModalState } from "@/hooks/useModalState";
 import { useFundingActions } from "@/hooks/useFundingActions";
 import { useAutoRegistration } from "@/hooks/useAutoRegistration";
+import { useTransactionTracker } from "@/hooks/useTransactionTracker";
+import { usePaymentRequestWatcher } from "@/hooks/usePaymentRequestWatcher";
 import { WALLET_ACTIONS, type WalletAction } from "@/constants/wallet";
 import { ENV_CONFIG } from "@/config/environment";
 import { Toaster } from "@/components/ui/toaster";
@@ -24,7 +26,7 @@ const Wallet = () => {
 
     // Custom hooks
     const { validationError, clearValidationError } = useWalletValidation();
-    const { balance: usdcBalance, isLoading: isLoadingBalance, refetch: refetchBalance } = useWalletBalance(ENV_CONFIG.usdcMintAddress);
+    const { balance: usdcBalance, balances: tokenBalances, isLoading: isLoadingBalance, refetch: refetchBalance } = useWalletBalance();
     const { activeModal, openModal, closeModal } = useModalState();
     const { handleTopUp, result, error, clearResults, hasResults } = useFundingActions();
     
@@ -45,10 +47,16 @@ const Wallet = () => {
 
     // Handle transaction success (refresh balance)
     const handleTransactionSuccess = useCallback(() => {
-        // Refresh USDC balance after successful transaction
+        // Refresh token balances after successful transaction
         refetchBalance();
     }, [refetchBalance]);
 
+    // Pick up transactions left in flight by a page reload
+    useTransactionTracker(handleTransactionSuccess);
+
+    // Refresh the balance when a Solana Pay request gets paid
+    usePaymentRequestWatcher(handleTransactionSuccess);
+
     // Show loading state
     if (isComponentLoading) {
         return (
@@ -69,6 +77,7 @@ const Wallet = () => {
                     <WalletCard
                         onAction={handleAction}
                         usdcBalance={parseFloat(usdcBalance)}
+                        tokenBalances={tokenBalances}
                     />
 
                     {validationError && (
@@ -91,6 +100,7 @@ const Wallet = () => {
                     activeModal={activeModal}
                     onClose={closeModal}
                     usdcBalance={usdcBalance}
+                    tokenBalances={tokenBalances}
                     usdcMintAddress={ENV_CONFIG.usdcMintAddress}
                     onTransactionSuccess={handleTransactionSuccess}
                 />
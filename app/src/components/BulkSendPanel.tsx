@@ -0,0 +1,234 @@
+import { ChangeEvent, useState } from "react";
+import { Loader2, AlertCircle, CheckCircle, Upload, Download, RotateCcw } from "lucide-react";
+import { useBulkSend } from "@/hooks/useBulkSend";
+import { TokenInfo } from "@/services/tokenRegistry";
+import { BulkSendRowStatus } from "@/services/bulkSend";
+import { DEFAULT_ESCROW_EXPIRY_HOURS, ESCROW_EXPIRY_OPTIONS } from "@/services/escrowExpiry";
+import { useToast } from "@/hooks/use-toast";
+
+interface BulkSendPanelProps {
+    token: TokenInfo;
+    available: string; // Balance of the token, in token units
+    onClose: () => void;
+    onTransactionSuccess?: () => void;
+}
+
+const STATUS_STYLES: Record<BulkSendRowStatus, string> = {
+    pending: 'text-gray-500',
+    prepared: 'text-blue-600',
+    sent: 'text-green-600',
+    failed: 'text-red-600',
+};
+
+/**
+ * Bulk send mode of the send modal: import a CSV of `email, amount, memo`, review, then sign once
+ */
+const BulkSendPanel = ({ token, available, onClose, onTransactionSuccess }: BulkSendPanelProps) => {
+    const [payOwnFee, setPayOwnFee] = useState(false);
+    const [expiresInHours, setExpiresInHours] = useState(DEFAULT_ESCROW_EXPIRY_HOURS);
+    const {
+        results,
+        parseErrors,
+        batches,
+        importCsv,
+        prepare,
+        confirm,
+        cancel,
+        reset,
+        getReportCsv,
+        isPreparing,
+        isSending,
+        error
+    } = useBulkSend();
+    const { toast } = useToast();
+
+    const remaining = results.filter(row => row.status === 'pending' || row.status === 'failed');
+    const remainingTotal = remaining.reduce((sum, row) => sum + Number(row.amount), 0);
+    const sentCount = results.filter(row => row.status === 'sent').length;
+    const failedCount = results.filter(row => row.status === 'failed').length;
+    const overBalance = remainingTotal > parseFloat(available);
+    const isBusy = isPreparing || isSending;
+
+    const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            importCsv(await file.text(), token);
+        }
+        event.target.value = '';
+    };
+
+    const handleConfirm = async () => {
+        if (await confirm()) {
+            onTransactionSuccess?.();
+            toast({ title: "Bulk send finished", description: "See the report for each payment." });
+        }
+    };
+
+    const downloadReport = () => {
+        const url = URL.createObjectURL(new Blob([getReportCsv()], { type: 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `bulk-send-report-${new Date().toISOString().slice(0, 10)}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* CSV import */}
+            <label className="flex items-center justify-center w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+                <Upload className="w-4 h-4 mr-2" />
+                {results.length > 0 ? 'Import another CSV' : 'Import CSV (email, amount, memo)'}
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} disabled={isBusy || !!batches} />
+            </label>
+
+            {parseErrors.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg text-sm text-amber-800 space-y-1">
+                    {parseErrors.map(parseError => (
+                        <p key={parseError.line}>Line {parseError.line}: {parseError.message}</p>
+                    ))}
+                </div>
+            )}
+
+            {/* Per-row report */}
+            {results.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {results.map(row => (
+                        <div key={row.line} className="p-2 text-sm">
+                            <div className="flex justify-between">
+                                <span className="truncate mr-2">{row.email}</span>
+                                <span className="font-medium whitespace-nowrap">{row.amount} {token.symbol}</span>
+                            </div>
+                            <div className="flex justify-between text-xs">
+                                <span className="text-gray-500 truncate mr-2">
+                                    {row.type === 'escrow' ? 'Escrow' : row.type === 'direct' ? 'Direct' : ''}
+                                    {row.memo ? ` · ${row.memo}` : ''}
+                                </span>
+                                <span className={STATUS_STYLES[row.status]}>
+                                    {row.signature ? `${row.status} · ${row.signature.slice(0, 8)}…` : row.status}
+                                </span>
+                            </div>
+                            {row.error && <p className="text-xs text-red-600 mt-1">{row.error}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {results.length > 0 && (
+                <p className="text-gray-500 text-sm">
+                    {sentCount} sent, {failedCount} failed, {remaining.length} to send ({remainingTotal.toFixed(2)} {token.symbol}).
+                    Available: {available} {token.symbol}
+                </p>
+            )}
+
+            {/* Error Display */}
+            {(error || overBalance) && (
+                <div className="flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
+                    <AlertCircle className="w-5 h-5" />
+                    <span className="text-sm">{error || "Insufficient balance for these payments"}</span>
+                </div>
+            )}
+
+            {batches ? (
+                <div className="space-y-3">
+                    <div className="flex items-center space-x-2 text-blue-700 bg-blue-50 p-3 rounded-lg text-sm">
+                        <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                        <span>
+                            {results.filter(row => row.status === 'prepared').length} payments in {batches.length} transaction(s),
+                            simulated successfully. Your wallet will ask for one signature.
+                        </span>
+                    </div>
+                    <div className="flex space-x-3">
+                        <button
+                            onClick={cancel}
+                            disabled={isSending}
+                            className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleConfirm}
+                            disabled={isSending}
+                            className="flex-1 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                        >
+                            {isSending ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                    Sending...
+                                </>
+                            ) : (
+                                'Confirm & send all'
+                            )}
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {remaining.length > 0 && (
+                        <>
+                            <label className="flex items-center justify-between text-sm text-gray-700">
+                                <span>Claim window for escrows</span>
+                                <select
+                                    value={expiresInHours}
+                                    onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                                    className="px-2 py-1 border border-gray-300 rounded-lg"
+                                    disabled={isBusy}
+                                >
+                                    {ESCROW_EXPIRY_OPTIONS.map(option => (
+                                        <option key={option.hours} value={option.hours}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                                <input type="checkbox" checked={payOwnFee} onChange={(e) => setPayOwnFee(e.target.checked)} />
+                                <span>Pay network fees myself (needs SOL, avoids sponsorship limits)</span>
+                            </label>
+                        </>
+                    )}
+                    <div className="flex space-x-3">
+                        <button
+                            onClick={results.length > 0 && remaining.length === 0 ? onClose : reset}
+                            className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                            disabled={isBusy}
+                        >
+                            {results.length > 0 && remaining.length === 0 ? 'Done' : 'Clear'}
+                        </button>
+                        <button
+                            onClick={() => prepare(payOwnFee, 'normal', expiresInHours)}
+                            disabled={remaining.length === 0 || overBalance || isBusy}
+                            className="flex-1 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                        >
+                            {isPreparing ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                    Preparing...
+                                </>
+                            ) : failedCount > 0 && failedCount === remaining.length ? (
+                                <>
+                                    <RotateCcw className="w-4 h-4 mr-2" />
+                                    Retry {failedCount} failed
+                                </>
+                            ) : (
+                                `Prepare ${remaining.length} payments`
+                            )}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {(sentCount > 0 || failedCount > 0) && !batches && (
+                <button
+                    onClick={downloadReport}
+                    className="w-full py-2 text-sm text-blue-600 hover:text-blue-700 flex items-center justify-center"
+                >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download report
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default BulkSendPanel;
@@ -5,6 +5,9 @@ import { useVault } from '@/hooks/useVault';
 import { useToast } from '@/hooks/use-toast';
 import { APYService, Protocol } from '@/services/apyService';
 import { SimpleRebalancingService } from '@/services/simpleRebalancingService';
+import { TransactionResult } from '@/services/transactionService';
+import TransactionPreview from '@/components/TransactionPreview';
+import { PriorityLevel } from '@/services/priorityFees';
 
 interface EarnModalProps {
   onClose: () => void;
@@ -16,6 +19,7 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
   const [amount, setAmount] = useState('');
   const [isDepositing, setIsDepositing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ action: 'deposit' | 'withdraw'; amount: number; prepared: TransactionResult } | null>(null);
   const [currentProtocol, setCurrentProtocol] = useState<Protocol>({
     name: 'Kamino Finance',
     apy: 5.5,
@@ -29,6 +33,8 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
     totalDeposits,
     hasDeposit,
     isLoading: vaultLoading,
+    prepareDeposit,
+    prepareWithdraw,
     deposit,
     withdraw,
     refreshBalance,
@@ -75,18 +81,56 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
     return true;
   };
 
+  // Build and simulate first; the signer only opens from the preview
+  const handlePrepare = async (action: 'deposit' | 'withdraw', amountInLamports: number, priority: PriorityLevel = 'normal') => {
+    setIsDepositing(true);
+    setError(null);
+    clearVaultError();
+
+    const result = action === 'deposit'
+      ? await prepareDeposit(amountInLamports, priority)
+      : await prepareWithdraw(amountInLamports, priority);
+
+    if (result.success && result.prepared) {
+      setPreview({ action, amount: amountInLamports, prepared: result.prepared });
+    } else {
+      setError(result.error || (action === 'deposit' ? 'Deposit failed' : 'Withdrawal failed'));
+    }
+
+    setIsDepositing(false);
+  };
+
   const handleDeposit = async () => {
     if (!validateAmount()) return;
 
+    await handlePrepare('deposit', Math.round(depositAmount * 1_000_000));
+  };
+
+  const handleWithdraw = async () => {
+    if (vaultBalance === 0) {
+      setError('No funds to withdraw');
+      return;
+    }
+
+    await handlePrepare('withdraw', vaultBalance);
+  };
+
+  const handleConfirm = () => {
+    if (!preview) return;
+
+    return preview.action === 'deposit'
+      ? confirmDeposit(preview.amount, preview.prepared)
+      : confirmWithdraw(preview.amount, preview.prepared);
+  };
+
+  const confirmDeposit = async (amountInLamports: number, prepared: TransactionResult) => {
     setIsDepositing(true);
     setError(null);
     clearVaultError();
 
     try {
-      const amountInLamports = Math.round(depositAmount * 1_000_000);
-      
       // Your existing vault deposit
-      const result = await deposit(amountInLamports);
+      const result = await deposit(amountInLamports, prepared);
 
       if (result.success) {
         // Trigger rebalancing
@@ -119,21 +163,17 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
       setError('Deposit failed. Please try again.');
     } finally {
       setIsDepositing(false);
+      setPreview(null);
     }
   };
 
-  const handleWithdraw = async () => {
-    if (vaultBalance === 0) {
-      setError('No funds to withdraw');
-      return;
-    }
-
+  const confirmWithdraw = async (amountInLamports: number, prepared: TransactionResult) => {
     setIsDepositing(true);
     setError(null);
     clearVaultError();
 
     try {
-      const result = await withdraw(vaultBalance);
+      const result = await withdraw(amountInLamports, prepared);
 
       if (result.success) {
         toast({
@@ -158,6 +198,7 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
       setError('Withdrawal failed. Please try again.');
     } finally {
       setIsDepositing(false);
+      setPreview(null);
     }
   };
 
@@ -229,7 +270,7 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
               setError(null);
             }}
             className="fy-input"
-            disabled={isDepositing}
+            disabled={isDepositing || !!preview}
             step="0.01"
             min="0"
             max={availableBalance}
@@ -271,10 +312,92 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
         )}
       </div>
       
-      <div className="fy-flex fy-gap-3">
-        {hasDeposit ? (
-          <>
-            {/* Deposit Button */}
+      {preview ? (
+        <TransactionPreview
+          simulation={preview.prepared.simulation}
+          confirmLabel={preview.action === 'deposit' ? 'Confirm deposit' : 'Confirm withdrawal'}
+          isConfirming={isDepositing}
+          onConfirm={handleConfirm}
+          onCancel={() => setPreview(null)}
+          priorityFee={preview.prepared.priorityFee}
+          onPriorityChange={(level) => handlePrepare(preview.action, preview.amount, level)}
+        />
+      ) : (
+        <div className="fy-flex fy-gap-3">
+          {hasDeposit ? (
+            <>
+              {/* Deposit Button */}
+              <button
+                onClick={handleDeposit}
+                disabled={isDepositing || !amount || parseFloat(amount) <= 0}
+                style={{ 
+                  flex: 1, 
+                  height: '48px',
+                  background: '#16a34a',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: 'var(--radius-medium)',
+                  fontWeight: 500,
+                  fontSize: '16px',
+                  cursor: (isDepositing || !amount || parseFloat(amount) <= 0) ? 'not-allowed' : 'pointer',
+                  opacity: (isDepositing || !amount || parseFloat(amount) <= 0) ? 0.6 : 1,
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '8px'
+                }}
+                onMouseEnter={(e) => {
+                  if (!isDepositing && amount && parseFloat(amount) > 0) {
+                    e.currentTarget.style.background = '#15803d';
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (!isDepositing && amount && parseFloat(amount) > 0) {
+                    e.currentTarget.style.background = '#16a34a';
+                  }
+                }}
+              >
+                {isDepositing ? (
+                  <>
+                    <Loader2 style={{ width: '16px', height: '16px' }} className="animate-spin" />
+                    Optimizing...
+                  </>
+                ) : (
+                  <>
+                    <TrendingUp style={{ width: '16px', height: '16px' }} />
+                    Deposit
+                  </>
+                )}
+              </button>
+            
+              {/* Withdraw Button */}
+              <button
+                onClick={handleWithdraw}
+                disabled={isDepositing || vaultBalance === 0}
+                className="fy-button-primary"
+                style={{ 
+                  flex: 1, 
+                  height: '48px',
+                  background: '#dc2626',
+                  cursor: isDepositing ? 'not-allowed' : 'pointer',
+                  opacity: isDepositing ? 0.6 : 1
+                }}
+              >
+                {isDepositing ? (
+                  <>
+                    <Loader2 style={{ width: '16px', height: '16px', marginRight: '8px' }} className="animate-spin" />
+                    Withdrawing...
+                  </>
+                ) : (
+                  <>
+                    <span style={{ fontSize: '16px', marginRight: '8px' }}>💰</span>
+                    Withdraw
+                  </>
+                )}
+              </button>
+            </>
+          ) : (
             <button
               onClick={handleDeposit}
               disabled={isDepositing || !amount || parseFloat(amount) <= 0}
@@ -314,83 +437,13 @@ const EarnModal = ({ onClose, balance, onTransactionSuccess }: EarnModalProps) =
               ) : (
                 <>
                   <TrendingUp style={{ width: '16px', height: '16px' }} />
-                  Deposit
-                </>
-              )}
-            </button>
-            
-            {/* Withdraw Button */}
-            <button
-              onClick={handleWithdraw}
-              disabled={isDepositing || vaultBalance === 0}
-              className="fy-button-primary"
-              style={{ 
-                flex: 1, 
-                height: '48px',
-                background: '#dc2626',
-                cursor: isDepositing ? 'not-allowed' : 'pointer',
-                opacity: isDepositing ? 0.6 : 1
-              }}
-            >
-              {isDepositing ? (
-                <>
-                  <Loader2 style={{ width: '16px', height: '16px', marginRight: '8px' }} className="animate-spin" />
-                  Withdrawing...
-                </>
-              ) : (
-                <>
-                  <span style={{ fontSize: '16px', marginRight: '8px' }}>💰</span>
-                  Withdraw
+                  Start Earning
                 </>
               )}
             </button>
-          </>
-        ) : (
-          <button
-            onClick={handleDeposit}
-            disabled={isDepositing || !amount || parseFloat(amount) <= 0}
-            style={{ 
-              flex: 1, 
-              height: '48px',
-              background: '#16a34a',
-              color: 'white',
-              border: 'none',
-              borderRadius: 'var(--radius-medium)',
-              fontWeight: 500,
-              fontSize: '16px',
-              cursor: (isDepositing || !amount || parseFloat(amount) <= 0) ? 'not-allowed' : 'pointer',
-              opacity: (isDepositing || !amount || parseFloat(amount) <= 0) ? 0.6 : 1,
-              transition: 'all 0.2s ease',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              gap: '8px'
-            }}
-            onMouseEnter={(e) => {
-              if (!isDepositing && amount && parseFloat(amount) > 0) {
-                e.currentTarget.style.background = '#15803d';
-              }
-            }}
-            onMouseLeave={(e) => {
-              if (!isDepositing && amount && parseFloat(amount) > 0) {
-                e.currentTarget.style.background = '#16a34a';
-              }
-            }}
-          >
-            {isDepositing ? (
-              <>
-                <Loader2 style={{ width: '16px', height: '16px' }} className="animate-spin" />
-                Optimizing...
-              </>
-            ) : (
-              <>
-                <TrendingUp style={{ width: '16px', height: '16px' }} />
-                Start Earning
-              </>
-            )}
-          </button>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {/* Footer */}
       <div style={{ 
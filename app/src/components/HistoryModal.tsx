@@ -0,0 +1,137 @@
+import { Loader2, ExternalLink, RefreshCw, Mail } from "lucide-react";
+import { useActivityFeed } from "@/hooks/useActivityFeed";
+import { ACTIVITY_DIRECTION, ACTIVITY_LABELS, ActivityEntry } from "@/services/activityFeed";
+import TokenRegistry from "@/services/tokenRegistry";
+import { getExplorerUrl } from "@/lib/utils";
+
+interface HistoryModalProps {
+  onClose: () => void;
+  walletAddress: string;
+}
+
+const formatAmount = (entry: ActivityEntry) => {
+  const token = entry.tokenMint ? TokenRegistry.getByMint(entry.tokenMint) : TokenRegistry.getDefaultToken();
+  if (!token) {
+    return `${entry.amount} base units`;
+  }
+  const sign = ACTIVITY_DIRECTION[entry.kind] === 'in' ? '+' : '-';
+  return `${sign}${TokenRegistry.fromBaseUnits(entry.amount, token).toFixed(2)} ${token.symbol}`;
+};
+
+const formatCounterparty = (entry: ActivityEntry) => {
+  if (entry.counterpartyEmail) {
+    return entry.counterpartyEmail;
+  }
+  if (entry.counterpartyWallet) {
+    return `${entry.counterpartyWallet.slice(0, 6)}...${entry.counterpartyWallet.slice(-4)}`;
+  }
+  return null;
+};
+
+const HistoryModal = ({ walletAddress }: HistoryModalProps) => {
+  const { entries, hasMore, isLoading, isLoadingMore, error, refresh, loadMore } = useActivityFeed(walletAddress);
+
+  return (
+    <div className="fy-space-y-6" style={{ width: '100%', maxWidth: '400px' }}>
+      {error && (
+        <div className="fy-alert-error">{error}</div>
+      )}
+
+      <div className="fy-flex-between">
+        <label className="fy-label" style={{ marginBottom: 0 }}>Activity</label>
+        <button
+          onClick={refresh}
+          className="fy-button-secondary"
+          style={{ padding: '6px', minWidth: 'auto', height: 'auto' }}
+          disabled={isLoading}
+        >
+          {isLoading ?
+            <Loader2 style={{ width: '14px', height: '14px' }} className="animate-spin" /> :
+            <RefreshCw style={{ width: '14px', height: '14px' }} />
+          }
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        isLoading ? (
+          <div className="text-center" style={{ padding: '20px' }}>
+            <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+            <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+              Reading your transactions...
+            </p>
+          </div>
+        ) : (
+          <p className="text-center" style={{ fontSize: '14px', color: 'var(--text-secondary)', padding: '20px' }}>
+            No activity yet.
+          </p>
+        )
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '420px', overflowY: 'auto' }}>
+          {entries.map(entry => {
+            const counterparty = formatCounterparty(entry);
+            const isIncoming = ACTIVITY_DIRECTION[entry.kind] === 'in';
+
+            return (
+              <div
+                key={entry.signature}
+                style={{
+                  border: '1px solid var(--border-light)',
+                  borderRadius: 'var(--radius-medium)',
+                  padding: '10px 12px',
+                  background: 'var(--glass-bg)'
+                }}
+              >
+                <div className="fy-flex-between">
+                  <span style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)' }}>
+                    {ACTIVITY_LABELS[entry.kind]}
+                  </span>
+                  <span style={{ fontSize: '14px', fontWeight: 600, color: isIncoming ? '#059669' : 'var(--text-primary)' }}>
+                    {formatAmount(entry)}
+                  </span>
+                </div>
+                {counterparty && (
+                  <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    <Mail className="w-3 h-3 inline mr-1" />
+                    {isIncoming ? 'From' : 'To'} {counterparty}
+                  </div>
+                )}
+                {entry.memo && (
+                  <div style={{ fontSize: '12px', color: 'var(--text-secondary)', fontStyle: 'italic', marginTop: '2px' }}>
+                    "{entry.memo}"
+                  </div>
+                )}
+                <div className="fy-flex-between" style={{ fontSize: '10px', color: 'var(--text-muted)', marginTop: '4px' }}>
+                  <span>{entry.blockTime ? new Date(entry.blockTime * 1000).toLocaleString() : 'Pending'}</span>
+                  <a
+                    href={getExplorerUrl('tx', entry.signature)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: 'var(--text-secondary)' }}
+                  >
+                    Transaction <ExternalLink className="w-3 h-3 inline" />
+                  </a>
+                </div>
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              className="fy-button-secondary"
+              style={{ height: '36px' }}
+              disabled={isLoadingMore}
+            >
+              {isLoadingMore ?
+                <Loader2 style={{ width: '14px', height: '14px' }} className="animate-spin" /> :
+                'Load older activity'
+              }
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryModal;
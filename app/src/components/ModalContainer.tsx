@@ -2,15 +2,19 @@
 import Modal from './Modal';
 import SendModal from './SendModal';
 import ReceiveModal from './ReceiveModal';
+import SentModal from './SentModal';
+import HistoryModal from './HistoryModal';
 import EarnModal from './EarnModal';
 import SettingsModal from './SettingsModal';
 import { ModalType } from '@/hooks/useModalState';
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
+import { TokenBalance } from '@/hooks/useWalletBalance';
 
 interface ModalContainerProps {
     activeModal: ModalType;
     onClose: () => void;
     usdcBalance: string;
+    tokenBalances?: TokenBalance[];
     usdcMintAddress?: string;
     onTransactionSuccess?: () => void;
 }
@@ -23,6 +27,7 @@ const ModalContainer = ({
                             activeModal,
                             onClose,
                             usdcBalance,
+                            tokenBalances,
                             usdcMintAddress,
                             onTransactionSuccess
                         }: ModalContainerProps) => {
@@ -33,11 +38,12 @@ const ModalContainer = ({
 
     return (
         <>
-            {/* Send Modal - handles USDC logic internally */}
-            <Modal isOpen={activeModal === "send"} onClose={onClose} title="Send USDC">
+            {/* Send Modal - handles token selection and transfer logic internally */}
+            <Modal isOpen={activeModal === "send"} onClose={onClose} title="Send">
                 <SendModal
                     onClose={onClose}
                     balance={usdcBalance}
+                    balances={tokenBalances}
                     usdcMintAddress={usdcMintAddress}
                     onTransactionSuccess={onTransactionSuccess}
                 />
@@ -53,6 +59,23 @@ const ModalContainer = ({
                 />
             </Modal>
 
+            {/* Sent & Pending Modal - expired escrows can be reclaimed here */}
+            <Modal isOpen={activeModal === "sent"} onClose={onClose} title="Sent & Pending">
+                <SentModal
+                    onClose={onClose}
+                    walletAddress={walletAddress}
+                    onTransactionSuccess={onTransactionSuccess}
+                />
+            </Modal>
+
+            {/* Activity Modal - history read from the chain */}
+            <Modal isOpen={activeModal === "history"} onClose={onClose} title="Activity">
+                <HistoryModal
+                    onClose={onClose}
+                    walletAddress={walletAddress}
+                />
+            </Modal>
+
             {/* Earn Modal */}
             <Modal isOpen={activeModal === "earn"} onClose={onClose} title="Start Earning">
                 <EarnModal 
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { Loader2, X } from "lucide-react";
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Rear camera preview that reports the first QR code it decodes
+ */
+const QrScanner = ({ onScan, onClose }: QrScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+
+  // Latest callback without restarting the camera on every render
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scan = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) {
+        return;
+      }
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          if (code?.data) {
+            stopped = true;
+            onScanRef.current(code.data);
+            return;
+          }
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (stopped || !videoRef.current) {
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setIsStarting(false);
+        frame = requestAnimationFrame(scan);
+      } catch (error) {
+        console.error("Camera unavailable:", error);
+        setIsStarting(false);
+        setError(
+          error instanceof DOMException && error.name === "NotAllowedError"
+            ? "Camera access was denied. Allow it in your browser settings, or paste the link instead."
+            : "No camera available. Paste the link or address instead."
+        );
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="relative rounded-lg overflow-hidden bg-black" style={{ minHeight: "160px" }}>
+      <video ref={videoRef} className="w-full" style={{ maxHeight: "280px", objectFit: "cover" }} muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+
+      {isStarting && (
+        <div className="absolute inset-0 flex items-center justify-center text-white">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-white">
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 rounded-full bg-black/60 text-white hover:bg-black/80"
+        aria-label="Close scanner"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -1,11 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Mail, Check, Clock, Send, Loader2 } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { Copy, Mail, Check, Clock, Send, Loader2, Smartphone, QrCode } from "lucide-react";
 import TransferIntentService, { UnclaimedTransfer } from "@/services/transferService";
 import EmailNotificationService, { PaymentRequestData } from "@/services/emailNotificationService";
 import { useClaimTransfer } from "@/hooks/useClaimTransfer";
+import { TransactionResult } from "@/services/transactionService";
+import TransactionPreview from "@/components/TransactionPreview";
+import { PriorityLevel } from "@/services/priorityFees";
+import EscrowExpiry from "@/services/escrowExpiry";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { OTP_LENGTH } from "@/services/phoneVerification";
+import PaymentRequestService, { SolanaPayRequest } from "@/services/paymentRequestService";
 
 interface ReceiveModalProps {
   onClose: () => void;
@@ -14,6 +22,11 @@ interface ReceiveModalProps {
   onTransactionSuccess?: () => void;
 }
 
+type ReceiveTab = 'unclaimed' | 'email' | 'phone' | 'qr';
+
+// SMS invitations link here with ?phone=
+const getInvitedPhone = () => new URLSearchParams(window.location.search).get('phone') ?? '';
+
 interface PaymentRequest {
   recipientEmail: string;
   amount: string;
@@ -22,7 +35,7 @@ interface PaymentRequest {
 
 const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess }: ReceiveModalProps) => {
   const { user } = useDynamicContext();
-  const [activeTab, setActiveTab] = useState<'unclaimed' | 'email'>('email');
+  const [activeTab, setActiveTab] = useState<ReceiveTab>(getInvitedPhone() ? 'phone' : 'email');
   const [unclaimedTransfers, setUnclaimedTransfers] = useState<UnclaimedTransfer[]>([]);
   const [totalUnclaimedAmount, setTotalUnclaimedAmount] = useState(0);
   const [paymentRequest, setPaymentRequest] = useState<PaymentRequest>({
@@ -35,21 +48,40 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
   const [isLoadingUnclaimed, setIsLoadingUnclaimed] = useState(true);
   const [isSendingRequest, setIsSendingRequest] = useState(false);
   const [claimingTransfers, setClaimingTransfers] = useState<Set<string>>(new Set());
+  const [claimPreview, setClaimPreview] = useState<{ transferId: string; prepared: TransactionResult } | null>(null);
+  const [phoneInput, setPhoneInput] = useState(getInvitedPhone);
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [phoneCode, setPhoneCode] = useState('');
+  const [verifiedPhone, setVerifiedPhone] = useState<string | null>(null);
+  const [isPhoneBusy, setIsPhoneBusy] = useState(false);
+  const [qrRequest, setQrRequest] = useState({ amount: '', message: '' });
+  const [solanaPayRequest, setSolanaPayRequest] = useState<SolanaPayRequest | null>(null);
+  const [isCreatingQrRequest, setIsCreatingQrRequest] = useState(false);
+  const [copiedLink, setCopiedLink] = useState(false);
 
   // Use the claim transfer hook
-  const { claimTransfer, isLoading: isClaimLoading, error: claimError, clearError: clearClaimError } = useClaimTransfer();
+  const { prepareClaim, claimTransfer, requestPhoneCode, verifyPhone, isLoading: isClaimLoading, error: claimError, clearError: clearClaimError } = useClaimTransfer();
+
+  // Transfers to the user's email, plus those to a phone number verified in this session
+  const loadUnclaimedTransfers = useCallback(async (phone: string | null) => {
+    const [byEmail, byPhone] = await Promise.all([
+      TransferIntentService.getUnclaimedTransfersByEmail(userEmail),
+      phone ? TransferIntentService.getUnclaimedTransfersByPhone(phone) : { transfers: [], totalAmount: 0 }
+    ]);
+    setUnclaimedTransfers([...byEmail.transfers, ...byPhone.transfers]);
+    setTotalUnclaimedAmount(byEmail.totalAmount + byPhone.totalAmount);
+    return byEmail.transfers.length + byPhone.transfers.length;
+  }, [userEmail]);
 
   // Fetch unclaimed transfers on mount
   useEffect(() => {
     const fetchUnclaimedTransfers = async () => {
       try {
         setIsLoadingUnclaimed(true);
-        const result = await TransferIntentService.getUnclaimedTransfersByEmail(userEmail);
-        setUnclaimedTransfers(result.transfers);
-        setTotalUnclaimedAmount(result.totalAmount);
+        const count = await loadUnclaimedTransfers(null);
         
-        // Auto-switch to unclaimed tab if there are transfers
-        if (result.transfers.length > 0) {
+        // Auto-switch to unclaimed tab if there are transfers, unless an SMS invitation brought the user here
+        if (count > 0 && !getInvitedPhone()) {
           setActiveTab('unclaimed');
         }
       } catch (error) {
@@ -60,9 +92,34 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
     };
 
     fetchUnclaimedTransfers();
-  }, [userEmail]);
+  }, [loadUnclaimedTransfers]);
+
+  // The wallet-level watcher refreshes the balance; this only flips the request shown here to paid
+  useEffect(() => {
+    if (!solanaPayRequest || solanaPayRequest.status === 'paid') {
+      return;
+    }
+    return PaymentRequestService.subscribe(paid => {
+      if (paid.reference === solanaPayRequest.reference) {
+        setSolanaPayRequest(paid);
+      }
+    });
+  }, [solanaPayRequest]);
+
+  // Build and simulate the claim; the signer only opens from the preview
+  const handlePrepareClaim = async (transferId: string, priority: PriorityLevel = 'normal') => {
+    setError(null);
+    clearClaimError();
+
+    const result = await prepareClaim(transferId, priority);
+    if (result.success && result.prepared) {
+      setClaimPreview({ transferId, prepared: result.prepared });
+    } else {
+      setError(result.error || 'Failed to claim transfer');
+    }
+  };
 
-  const handleClaimTransfer = async (transferId: string) => {
+  const handleClaimTransfer = async (transferId: string, prepared: TransactionResult) => {
     try {
       // Track which transfer is being claimed
       setClaimingTransfers(prev => new Set(prev).add(transferId));
@@ -70,15 +127,13 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
       clearClaimError();
       
       console.log('🎯 Claiming transfer:', transferId);
-      const result = await claimTransfer(transferId);
+      const result = await claimTransfer(transferId, prepared);
       
       if (result.success) {
         console.log('🎉 Transfer claimed successfully!', result.txHash);
         
         // Refresh unclaimed transfers list
-        const refreshResult = await TransferIntentService.getUnclaimedTransfersByEmail(userEmail);
-        setUnclaimedTransfers(refreshResult.transfers);
-        setTotalUnclaimedAmount(refreshResult.totalAmount);
+        await loadUnclaimedTransfers(verifiedPhone);
         
         // Call success callback to refresh wallet balance
         if (onTransactionSuccess) {
@@ -95,6 +150,7 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
       setError('Failed to claim transfer');
     } finally {
       // Remove from claiming set
+      setClaimPreview(null);
       setClaimingTransfers(prev => {
         const newSet = new Set(prev);
         newSet.delete(transferId);
@@ -103,6 +159,74 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
     }
   };
 
+  const handleRequestPhoneCode = async () => {
+    setIsPhoneBusy(true);
+    setError(null);
+
+    const result = await requestPhoneCode(phoneInput);
+    if (result.success && result.phone) {
+      setCodeSentTo(result.phone);
+      setPhoneCode('');
+    } else {
+      setError(result.error || 'Failed to send the code');
+    }
+    setIsPhoneBusy(false);
+  };
+
+  const handleVerifyPhone = async (code: string) => {
+    if (!codeSentTo || code.length !== OTP_LENGTH) {
+      return;
+    }
+    setIsPhoneBusy(true);
+    setError(null);
+
+    const result = await verifyPhone(codeSentTo, code);
+    if (result.success) {
+      setVerifiedPhone(codeSentTo);
+      const count = await loadUnclaimedTransfers(codeSentTo);
+      if (count > 0) {
+        setActiveTab('unclaimed');
+      }
+    } else {
+      setError(result.error || 'Failed to verify the code');
+      setPhoneCode('');
+    }
+    setIsPhoneBusy(false);
+  };
+
+  const handleCreateQrRequest = async () => {
+    try {
+      setIsCreatingQrRequest(true);
+      setError(null);
+
+      const request = await PaymentRequestService.createSolanaPayRequest({
+        requesterEmail: userEmail,
+        walletAddress,
+        amount: qrRequest.amount,
+        message: qrRequest.message
+      });
+      setSolanaPayRequest(request);
+    } catch (error) {
+      console.error('Failed to create payment request:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create payment request');
+    } finally {
+      setIsCreatingQrRequest(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!solanaPayRequest) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(solanaPayRequest.url);
+      setCopiedLink(true);
+      setTimeout(() => setCopiedLink(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
   const handleSendPaymentRequest = async () => {
     if (!paymentRequest.recipientEmail || !paymentRequest.amount) {
       setError('Please fill in all required fields');
@@ -193,8 +317,8 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
 
   return (
     <div className="fy-space-y-6" style={{ width: '100%', maxWidth: '400px' }}>
-      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'unclaimed' | 'email')}>
-        <TabsList className={`grid w-full ${hasUnclaimedTransfers ? 'grid-cols-2' : 'grid-cols-1'}`}>
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ReceiveTab)}>
+        <TabsList className={`grid w-full ${hasUnclaimedTransfers ? 'grid-cols-4' : 'grid-cols-3'}`}>
           {hasUnclaimedTransfers && (
             <TabsTrigger value="unclaimed" className="text-xs">
               Claim
@@ -207,6 +331,14 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
             <Mail className="w-3 h-3 mr-1" />
             Email
           </TabsTrigger>
+          <TabsTrigger value="phone" className="text-xs">
+            <Smartphone className="w-3 h-3 mr-1" />
+            Phone
+          </TabsTrigger>
+          <TabsTrigger value="qr" className="text-xs">
+            <QrCode className="w-3 h-3 mr-1" />
+            QR / Link
+          </TabsTrigger>
         </TabsList>
 
         {hasUnclaimedTransfers && (
@@ -266,7 +398,7 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
                     <div className="fy-flex" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '8px' }}>
                       <div style={{ flex: 1 }}>
                         <div style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)' }}>
-                          ${transfer.amount} {transfer.tokenSymbol}
+                          {transfer.amount} {transfer.tokenSymbol}
                         </div>
                         <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
                           From: {transfer.senderWallet.slice(0, 8)}...{transfer.senderWallet.slice(-4)}
@@ -279,34 +411,49 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
                         <div style={{ fontSize: '10px', color: 'var(--text-muted)', marginTop: '4px' }}>
                           {formatTimeAgo(transfer.timestamp)}
                         </div>
+                        <div style={{ fontSize: '10px', color: 'var(--text-muted)' }}>
+                          Claim by {EscrowExpiry.formatDate(transfer.expiresAt)}
+                        </div>
                       </div>
                       <div className="fy-flex" style={{ alignItems: 'center', gap: '8px' }}>
                         <Clock className="w-3 h-3 text-yellow-500" />
                       </div>
                     </div>
 
-                    <button 
-                      onClick={() => handleClaimTransfer(transfer.id)}
-                      disabled={claimingTransfers.has(transfer.id) || isClaimLoading}
-                      className="fy-button-primary"
-                      style={{ 
-                        width: '100%', 
-                        height: '32px',
-                        fontSize: '12px',
-                        background: claimingTransfers.has(transfer.id) || isClaimLoading ? '#9ca3af' : '#dc2626',
-                        cursor: claimingTransfers.has(transfer.id) || isClaimLoading ? 'not-allowed' : 'pointer',
-                        opacity: claimingTransfers.has(transfer.id) || isClaimLoading ? 0.6 : 1
-                      }}
-                    >
-                      {claimingTransfers.has(transfer.id) ? (
-                        <>
-                          <Loader2 style={{ width: '12px', height: '12px', marginRight: '6px' }} className="animate-spin" />
-                          Claiming...
-                        </>
-                      ) : (
-                        `Claim $${parseFloat(transfer.amount.toString()).toFixed(2)}`
-                      )}
-                    </button>
+                    {claimPreview?.transferId === transfer.id ? (
+                      <TransactionPreview
+                        simulation={claimPreview.prepared.simulation}
+                        confirmLabel={`Claim ${parseFloat(transfer.amount.toString()).toFixed(2)} ${transfer.tokenSymbol}`}
+                        isConfirming={claimingTransfers.has(transfer.id)}
+                        onConfirm={() => handleClaimTransfer(transfer.id, claimPreview.prepared)}
+                        onCancel={() => setClaimPreview(null)}
+                        priorityFee={claimPreview.prepared.priorityFee}
+                        onPriorityChange={(level) => handlePrepareClaim(transfer.id, level)}
+                      />
+                    ) : (
+                      <button 
+                        onClick={() => handlePrepareClaim(transfer.id)}
+                        disabled={claimingTransfers.has(transfer.id) || isClaimLoading}
+                        className="fy-button-primary"
+                        style={{ 
+                          width: '100%', 
+                          height: '32px',
+                          fontSize: '12px',
+                          background: claimingTransfers.has(transfer.id) || isClaimLoading ? '#9ca3af' : '#dc2626',
+                          cursor: claimingTransfers.has(transfer.id) || isClaimLoading ? 'not-allowed' : 'pointer',
+                          opacity: claimingTransfers.has(transfer.id) || isClaimLoading ? 0.6 : 1
+                        }}
+                      >
+                        {claimingTransfers.has(transfer.id) ? (
+                          <>
+                            <Loader2 style={{ width: '12px', height: '12px', marginRight: '6px' }} className="animate-spin" />
+                            Claiming...
+                          </>
+                        ) : (
+                          `Claim ${parseFloat(transfer.amount.toString()).toFixed(2)} ${transfer.tokenSymbol}`
+                        )}
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -408,6 +555,235 @@ const ReceiveModal = ({ onClose, userEmail, walletAddress, onTransactionSuccess
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="phone" className="fy-space-y-4">
+          <div className="fy-space-y-4">
+            <div style={{
+              background: 'rgba(59, 130, 246, 0.1)',
+              borderRadius: 'var(--radius-medium)',
+              padding: '12px',
+              textAlign: 'center',
+              border: '1px solid rgba(59, 130, 246, 0.2)'
+            }}>
+              <p style={{ fontSize: '12px', color: '#1e40af' }}>
+                Got a text saying someone sent you money? Verify your number to claim it.
+              </p>
+            </div>
+
+            {verifiedPhone ? (
+              <div className="text-center" style={{ fontSize: '12px', color: '#059669' }}>
+                <Check className="w-4 h-4 inline mr-1" />
+                {verifiedPhone} is verified and linked to this wallet.
+                {!hasUnclaimedTransfers && ' There is nothing waiting for it right now.'}
+              </div>
+            ) : codeSentTo ? (
+              <div className="fy-space-y-3">
+                <label className="fy-label">
+                  Enter the {OTP_LENGTH}-digit code sent to {codeSentTo}
+                </label>
+                <div className="fy-flex" style={{ justifyContent: 'center' }}>
+                  <InputOTP
+                    maxLength={OTP_LENGTH}
+                    value={phoneCode}
+                    onChange={setPhoneCode}
+                    onComplete={handleVerifyPhone}
+                    disabled={isPhoneBusy}
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                <div className="fy-flex" style={{ gap: '8px' }}>
+                  <button
+                    onClick={() => setCodeSentTo(null)}
+                    className="fy-button-secondary"
+                    style={{ flex: 1, height: '36px' }}
+                    disabled={isPhoneBusy}
+                  >
+                    Change number
+                  </button>
+                  <button
+                    onClick={() => handleVerifyPhone(phoneCode)}
+                    className="fy-button-primary"
+                    style={{ flex: 1, height: '36px' }}
+                    disabled={isPhoneBusy || phoneCode.length !== OTP_LENGTH}
+                  >
+                    {isPhoneBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="fy-space-y-3">
+                <div>
+                  <label className="fy-label">
+                    Phone number
+                  </label>
+                  <input
+                    type="tel"
+                    placeholder="+1 415 555 0123"
+                    value={phoneInput}
+                    onChange={(e) => setPhoneInput(e.target.value)}
+                    className="fy-input"
+                  />
+                </div>
+                <button
+                  onClick={handleRequestPhoneCode}
+                  className="fy-button-primary"
+                  style={{ width: '100%', height: '36px' }}
+                  disabled={!phoneInput.trim() || isPhoneBusy}
+                >
+                  {isPhoneBusy ? (
+                    <>
+                      <Loader2 style={{ width: '14px', height: '14px', marginRight: '8px' }} className="animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    'Text me a code'
+                  )}
+                </button>
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="qr" className="fy-space-y-4">
+          <div className="text-center">
+            <h3 style={{
+              fontSize: '16px',
+              fontWeight: 600,
+              marginBottom: '4px',
+              color: 'var(--text-primary)'
+            }}>
+              Request via QR / link
+            </h3>
+            <p style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+              Anyone can pay it from a Solana Pay wallet, like Phantom or Solflare
+            </p>
+          </div>
+
+          {solanaPayRequest ? (
+            <div className="fy-space-y-3">
+              <div className="fy-flex" style={{ justifyContent: 'center' }}>
+                <div style={{ background: 'white', padding: '12px', borderRadius: 'var(--radius-medium)' }}>
+                  <QRCodeSVG value={solanaPayRequest.url} size={200} />
+                </div>
+              </div>
+
+              <div className="text-center" style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)' }}>
+                {solanaPayRequest.amount} USDC
+                {solanaPayRequest.message && (
+                  <div style={{ fontSize: '12px', fontWeight: 400, color: 'var(--text-secondary)', fontStyle: 'italic' }}>
+                    "{solanaPayRequest.message}"
+                  </div>
+                )}
+              </div>
+
+              {solanaPayRequest.status === 'paid' ? (
+                <div className="fy-alert-success text-center" style={{ fontSize: '12px' }}>
+                  <Check className="w-4 h-4 inline mr-1" />
+                  Paid! Your balance has been updated.
+                </div>
+              ) : (
+                <div className="text-center" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                  <Loader2 className="w-3 h-3 inline mr-1 animate-spin" />
+                  Waiting for payment...
+                </div>
+              )}
+
+              <div style={{
+                fontFamily: 'monospace',
+                fontSize: '10px',
+                color: 'var(--text-muted)',
+                wordBreak: 'break-all',
+                maxHeight: '48px',
+                overflowY: 'auto'
+              }}>
+                {solanaPayRequest.url}
+              </div>
+
+              <div className="fy-flex" style={{ gap: '8px' }}>
+                <button
+                  onClick={handleCopyLink}
+                  className="fy-button-secondary"
+                  style={{ flex: 1, height: '36px' }}
+                >
+                  {copiedLink ? (
+                    <>
+                      <Check className="w-4 h-4 mr-2" />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="w-4 h-4 mr-2" />
+                      Copy Link
+                    </>
+                  )}
+                </button>
+                <button
+                  onClick={() => {
+                    setSolanaPayRequest(null);
+                    setQrRequest({ amount: '', message: '' });
+                  }}
+                  className="fy-button-primary"
+                  style={{ flex: 1, height: '36px' }}
+                >
+                  New Request
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="fy-space-y-3">
+              <div className="fy-grid" style={{ gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                <div>
+                  <label className="fy-label">
+                    Amount (USDC) *
+                  </label>
+                  <input
+                    type="number"
+                    placeholder="25.00"
+                    value={qrRequest.amount}
+                    onChange={(e) => setQrRequest(prev => ({ ...prev, amount: e.target.value }))}
+                    className="fy-input"
+                  />
+                </div>
+                <div>
+                  <label className="fy-label">
+                    Message
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="For lunch"
+                    value={qrRequest.message}
+                    onChange={(e) => setQrRequest(prev => ({ ...prev, message: e.target.value }))}
+                    className="fy-input"
+                  />
+                </div>
+              </div>
+
+              <button
+                onClick={handleCreateQrRequest}
+                className="fy-button-primary"
+                style={{ width: '100%', height: '36px' }}
+                disabled={!qrRequest.amount || isCreatingQrRequest}
+              >
+                {isCreatingQrRequest ? (
+                  <>
+                    <Loader2 style={{ width: '14px', height: '14px', marginRight: '8px' }} className="animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  <>
+                    <QrCode className="w-4 h-4 mr-2" />
+                    Create Request
+                  </>
+                )}
+              </button>
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
 
       {/* Error display */}
@@ -1,38 +1,134 @@
-import { useState } from "react";
-import { Loader2, Mail, DollarSign, AlertCircle, CheckCircle } from "lucide-react";
-import EmailResolver from "@/services/emailResolver";
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Mail, DollarSign, AlertCircle, AlertTriangle, CheckCircle, Fuel, MessageSquare, Clock, ScanLine } from "lucide-react";
+import RecipientResolver, { RECIPIENT_WARNINGS, RecipientResolverError, ResolvedRecipient } from "@/services/recipientResolver";
+import { IdentityResolver, IdentityResolverError } from "@/services/identityResolver";
+import defaultIdentityResolver from "@/services/identityProviders";
 import { TransactionService } from "@/services/transactionService.ts";
-import TransferIntentService from "@/services/transferService";
+import { SponsorshipQuotaError } from "@/services/sponsorshipQuota";
+import { SimulationResult } from "@/services/transactionSimulator";
+import { SolanaTransaction } from "@/services/transactionFormat";
+import { PriorityFeeQuote, PriorityLevel } from "@/services/priorityFees";
+import TokenRegistry from "@/services/tokenRegistry";
+import Memo, { MAX_MEMO_BYTES } from "@/services/memo";
+import EscrowExpiry, { DEFAULT_ESCROW_EXPIRY_HOURS, ESCROW_EXPIRY_OPTIONS } from "@/services/escrowExpiry";
+import { TokenBalance } from "@/hooks/useWalletBalance";
+import TransactionPreview from "@/components/TransactionPreview";
+import BulkSendPanel from "@/components/BulkSendPanel";
+import QrScanner from "@/components/QrScanner";
+import PaymentLinks, { PaymentLink, PaymentLinkError } from "@/services/paymentLink";
+import TransactionTracker, { PendingSend } from "@/services/transactionTracker";
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
 import { isSolanaWallet } from "@dynamic-labs/solana";
 import { useToast } from "@/hooks/use-toast";
 
+interface SendPreview {
+    transaction: SolanaTransaction;
+    simulation: SimulationResult;
+    lastValidBlockHeight: number;
+    priorityFee: PriorityFeeQuote;
+    payOwnFee: boolean; // Kept so a speed change rebuilds with the same fee arrangement
+    amount: number; // Amount in the token's base units
+    transferFee: number; // Token-2022 fee withheld from the amount, in base units
+    escrowPda?: string; // Set for escrow sends to unregistered recipients
+    recipientAddress?: string; // Set for address and domain recipients, so the sender sees where funds go
+    expiresAt?: Date; // The escrow's on-chain expiry
+}
+
+// What the form pays; changing any of it makes a new send attempt
+interface SendForm {
+    recipient: string;
+    amount: string;
+    tokenMint: string;
+    message: string;
+    expiresInHours: number;
+}
+
+const fingerprint = (form: SendForm) =>
+    [form.recipient.trim().toLowerCase(), form.amount, form.tokenMint, form.message.trim(), form.expiresInHours].join("|");
+
 interface SendModalProps {
     onClose: () => void;
-    balance: string;
+    balance: string; // USDC balance, used when per-token balances are not passed
+    balances?: TokenBalance[];
     usdcMintAddress?: string; // Kept for interface compatibility 
     onTransactionSuccess?: () => void;
+    identities?: IdentityResolver; // Who can be paid and how they resolve; the app's registry by default
 }
 
-const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) => {
-    const [email, setEmail] = useState("");
+const SendModal = ({
+    onClose,
+    balance,
+    balances = [],
+    onTransactionSuccess,
+    identities = defaultIdentityResolver
+}: SendModalProps) => {
+    // Any identity the registry handles: an email, a phone number, a wallet address, a .sol domain...
+    const [recipient, setRecipient] = useState("");
     const [amount, setAmount] = useState("");
-    const [errors, setErrors] = useState<{ email?: string; amount?: string }>({});
+    const [message, setMessage] = useState("");
+    const [expiresInHours, setExpiresInHours] = useState(DEFAULT_ESCROW_EXPIRY_HOURS);
+    const [tokenMint, setTokenMint] = useState(() => TokenRegistry.getTokens()[0]?.mint.toBase58() ?? "");
+    const [errors, setErrors] = useState<{ recipient?: string; amount?: string; message?: string }>({});
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [transactionSignature, setTransactionSignature] = useState<string | null>(null);
+    const [alreadySent, setAlreadySent] = useState(false); // A retry found this payment's escrow already open
+    const [sponsorshipLimitReached, setSponsorshipLimitReached] = useState(false);
+    const [preview, setPreview] = useState<SendPreview | null>(null);
+    const [mode, setMode] = useState<'single' | 'bulk'>('single');
+    // A resolved address with warnings waits here until the sender acknowledges them
+    const [flaggedRecipient, setFlaggedRecipient] = useState<ResolvedRecipient | null>(null);
+    const [warningsAcknowledged, setWarningsAcknowledged] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    // Last scanned or pasted request; its Solana Pay references apply while its recipient is kept
+    const [paymentLink, setPaymentLink] = useState<PaymentLink | null>(null);
+    // A send confirmed before a reload that the user never saw finish
+    const [resumedSend, setResumedSend] = useState<PendingSend<SendForm> | null>(null);
+
+    // Warnings belong to the recipient they were shown for
+    useEffect(() => {
+        setFlaggedRecipient(null);
+        setWarningsAcknowledged(false);
+    }, [recipient]);
 
     const { primaryWallet, user } = useDynamicContext();
     const { toast } = useToast();
 
-    const validateEmail = (email: string) => {
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        return emailRegex.test(email);
-    };
+    // Restore the unfinished send with its key, so sending it again follows the first attempt instead of paying twice
+    const walletAddress = primaryWallet?.address;
+    useEffect(() => {
+        const pending = walletAddress && TransactionTracker.getPendingSend<SendForm>(walletAddress);
+        if (!pending) {
+            return;
+        }
+
+        setRecipient(pending.payment.recipient);
+        setAmount(pending.payment.amount);
+        setTokenMint(pending.payment.tokenMint);
+        setMessage(pending.payment.message);
+        setExpiresInHours(pending.payment.expiresInHours);
+        setResumedSend(pending);
+    }, [walletAddress]);
+
+    // One key per send attempt: double taps and retries reuse it, while changing the payment makes a new attempt
+    const form: SendForm = { recipient, amount, tokenMint, message, expiresInHours };
+    const payment = fingerprint(form);
+    const idempotencyKey = useMemo(
+        () => resumedSend && fingerprint(resumedSend.payment) === payment ? resumedSend.idempotencyKey : crypto.randomUUID(),
+        [payment, resumedSend]
+    );
+    const isResumed = resumedSend?.idempotencyKey === idempotencyKey;
+
+    const tokens = TokenRegistry.getTokens();
+    const token = TokenRegistry.getByMint(tokenMint);
+    const tokenSymbol = token?.symbol ?? "USDC";
+    const available = balances.find(entry => entry.token.mint.toBase58() === tokenMint)?.balance ?? balance;
+    const detectedRecipient = identities.detect(recipient);
+    const activeLink = paymentLink && recipient.trim() === paymentLink.recipient ? paymentLink : null;
 
     const validateAmount = (amount: string) => {
         const num = parseFloat(amount);
-        const balanceNum = parseFloat(balance);
+        const balanceNum = parseFloat(available);
 
         if (isNaN(num) || num <= 0) {
             return "Amount must be greater than 0";
@@ -45,14 +141,41 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
         return null;
     };
 
+    // Prefill the form from a scanned QR code or a pasted link
+    const applyPaymentLink = (text: string) => {
+        try {
+            const link = PaymentLinks.parse(text);
+            if (link.splToken && !TokenRegistry.getByMint(link.splToken)) {
+                setErrors({ recipient: "This request is for a token FY Money doesn't support" });
+                return;
+            }
+
+            setRecipient(link.recipient);
+            if (link.amount) {
+                setAmount(link.amount);
+            }
+            if (link.memo) {
+                setMessage(link.memo);
+            }
+            if (link.splToken) {
+                setTokenMint(link.splToken);
+            }
+            setPaymentLink(link);
+            setErrors({});
+        } catch (error) {
+            const errorMessage = error instanceof PaymentLinkError ? error.message : "Could not read this payment link";
+            setErrors({ recipient: errorMessage });
+        }
+    };
+
     const handleSubmit = async () => {
-        const newErrors: { email?: string; amount?: string } = {};
+        const newErrors: { recipient?: string; amount?: string; message?: string } = {};
 
-        // Validate email
-        if (!email) {
-            newErrors.email = "Email is required";
-        } else if (!validateEmail(email)) {
-            newErrors.email = "Please enter a valid email address";
+        // Validate recipient
+        if (!recipient.trim()) {
+            newErrors.recipient = "Recipient is required";
+        } else if (!detectedRecipient) {
+            newErrors.recipient = "Enter an email, a phone number with its country code, a wallet address or a .sol domain";
         }
 
         // Validate amount
@@ -63,6 +186,11 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
             newErrors.amount = amountError;
         }
 
+        // Validate note, which is written on-chain
+        if (Memo.isTooLong(message.trim())) {
+            newErrors.message = `Note must be at most ${MAX_MEMO_BYTES} bytes`;
+        }
+
         setErrors(newErrors);
 
         if (Object.keys(newErrors).length === 0) {
@@ -70,7 +198,7 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
         }
     };
 
-    const executeNewEscrowFlow = async () => {
+    const executeNewEscrowFlow = async (payOwnFee = false, priority: PriorityLevel = "normal") => {
         // Validate wallet and user state
         if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
             setError("Please connect a Solana wallet");
@@ -79,71 +207,179 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
 
         setIsLoading(true);
         setError(null);
+        setSponsorshipLimitReached(false);
 
         try {
-            // Step 1: Check if recipient is registered
-            const isRegistered = await EmailResolver.resolveEmailToAddress(email);
-            
-            if (isRegistered) {
-                // Direct transfer for registered users
-                const amountInLamports = Math.round(parseFloat(amount) * 1_000_000);
-                const transaction = await TransactionService.createGaslessTransaction({
+            if (!token) {
+                setError("This token is not supported");
+                return;
+            }
+
+            const amountInLamports = TokenRegistry.toBaseUnits(amount, token);
+
+            // Token-2022 mints may withhold a fee; the recipient (or escrow) gets the rest
+            const connection = await primaryWallet.getConnection();
+            const { fee: transferFee } = await TokenRegistry.getTransferFee(connection, token, amountInLamports);
+
+            // Step 1: Resolve the recipient; identities without a wallet yet get an escrow
+            const resolved = await RecipientResolver.resolve(recipient, identities, connection);
+
+            if (resolved.warnings.length > 0 && !warningsAcknowledged) {
+                setFlaggedRecipient(resolved);
+                return;
+            }
+
+            if (resolved.wallet) {
+                // Direct transfer for registered users, wallet addresses and domains
+                const result = await TransactionService.createGaslessTransaction({
                     senderAddress: primaryWallet.address,
-                    recipientAddress: isRegistered,
-                    amount: amountInLamports
+                    recipientAddress: resolved.wallet,
+                    amount: amountInLamports,
+                    tokenMint,
+                    memo: message,
+                    payOwnFee,
+                    priority,
+                    allowOffCurveRecipient: resolved.warnings.includes('offCurve'),
+                    references: activeLink?.reference
                 });
 
-                // Sign and send transaction
-                const signer = await primaryWallet.getSigner();
-                const { signature } = await signer.signAndSendTransaction(transaction);
-                
-                setTransactionSignature(signature);
-                toast({ title: "Success", description: "USDC sent successfully!" });
-                
-                onTransactionSuccess?.();
-                
-                // Close modal after successful transaction
-                setTimeout(() => {
-                    onClose();
-                }, 1500); // Small delay to let user see the success message
+                setPreview({
+                    transaction: result.transaction,
+                    simulation: result.simulation,
+                    lastValidBlockHeight: result.lastValidBlockHeight,
+                    priorityFee: result.priorityFee,
+                    payOwnFee,
+                    amount: amountInLamports,
+                    transferFee,
+                    recipientAddress: resolved.type === 'email' || resolved.type === 'phone' ? undefined : resolved.wallet
+                });
             } else {
                 // Step 2: Create escrow for unregistered users
-                const amountInLamports = Math.round(parseFloat(amount) * 1_000_000);
                 const escrowResult = await TransactionService.createEscrowTransaction({
                     senderAddress: primaryWallet.address,
-                    recipientEmail: email,
+                    recipientEmail: resolved.value,
                     amount: amountInLamports,
-                    expirationDays: 30
+                    tokenMint,
+                    memo: message,
+                    expiresInHours,
+                    payOwnFee,
+                    priority,
+                    idempotencyKey,
+                    senderEmail: user?.email
                 });
 
-                // Sign and send escrow transaction
-                const signer = await primaryWallet.getSigner();
-                const { signature: escrowSignature } = await signer.signAndSendTransaction(escrowResult.transaction);
-                
-                // Step 3: Create transfer intent with escrow PDA
-                await TransferIntentService.createTransferIntent({
-                    senderWalletAddress: primaryWallet.address,
-                    senderEmail: user?.email,
-                    recipientEmail: email,
+                // Sent before, e.g. ahead of a reload: its intent is recorded and there is nothing to sign again
+                if (escrowResult.existing) {
+                    TransactionTracker.clearPendingSend(idempotencyKey);
+                    setAlreadySent(true);
+                    onTransactionSuccess?.();
+                    return;
+                }
+
+                setPreview({
+                    transaction: escrowResult.transaction,
+                    simulation: escrowResult.simulation,
+                    lastValidBlockHeight: escrowResult.lastValidBlockHeight,
+                    priorityFee: escrowResult.priorityFee,
+                    payOwnFee,
                     amount: amountInLamports,
-                    escrowPda: escrowResult.escrowPda
+                    transferFee,
+                    escrowPda: escrowResult.escrowPda,
+                    expiresAt: escrowResult.expiresAt
                 });
+            }
+        } catch (error) {
+            console.error("Send failed:", error);
 
-                setTransactionSignature(escrowSignature);
-                toast({ 
-                    title: "Success", 
-                    description: "Escrow created and invitation sent!" 
-                });
-                
-                onTransactionSuccess?.();
-                
-                // Close modal after successful escrow transaction
-                setTimeout(() => {
-                    onClose();
-                }, 1500); // Small delay to let user see the success message
+            // Over the sponsorship quota: offer to send with the user paying the network fee
+            if (error instanceof SponsorshipQuotaError) {
+                setSponsorshipLimitReached(true);
+                return;
+            }
+
+            // Unknown identities and non-wallet addresses belong next to the field
+            if (error instanceof IdentityResolverError || error instanceof RecipientResolverError) {
+                setErrors(prev => ({ ...prev, recipient: error.message }));
+                return;
             }
+
+            const errorMessage = error instanceof Error ? error.message : "Send failed. Please try again.";
+            setError(errorMessage);
+            toast({ 
+                title: "Error", 
+                description: errorMessage,
+                variant: "destructive"
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Only reached from the simulation preview, so the signer never opens for a failing transaction
+    const confirmSend = async () => {
+        if (!preview || !primaryWallet || !isSolanaWallet(primaryWallet)) {
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        // Kept until the user sees the outcome, so a reload mid-send resumes this attempt
+        TransactionTracker.savePendingSend({
+            walletAddress: primaryWallet.address,
+            idempotencyKey,
+            payment: form,
+            createdAt: Date.now()
+        });
+
+        try {
+            // Sign, send and wait for confirmation
+            // Step 3: For escrows, the tracker creates the transfer intent once the escrow is confirmed
+            const signer = await primaryWallet.getSigner();
+            const { signature } = await TransactionTracker.signAndConfirm(signer, preview.transaction, {
+                kind: preview.escrowPda ? 'escrow' : 'send',
+                walletAddress: primaryWallet.address,
+                lastValidBlockHeight: preview.lastValidBlockHeight,
+                idempotencyKey,
+                followUp: preview.escrowPda ? {
+                    type: 'createIntent',
+                    params: {
+                        senderWalletAddress: primaryWallet.address,
+                        senderEmail: user?.email,
+                        recipientEmail: detectedRecipient?.value ?? recipient.trim(),
+                        // The escrow holds what arrived after any transfer fee
+                        amount: preview.amount - preview.transferFee,
+                        tokenMint,
+                        message,
+                        // Persist the exact on-chain expiry so the database can't drift from the chain
+                        expiresAt: preview.expiresAt?.toISOString(),
+                        escrowPda: preview.escrowPda,
+                        idempotencyKey
+                    }
+                } : undefined
+            });
+
+            setTransactionSignature(signature);
+            toast({ 
+                title: "Success", 
+                description: preview.escrowPda ? "Escrow created and invitation sent!" : `${tokenSymbol} sent successfully!`
+            });
+            
+            onTransactionSuccess?.();
+            
+            // Close modal after successful transaction
+            setTimeout(() => {
+                onClose();
+            }, 1500); // Small delay to let user see the success message
         } catch (error) {
             console.error("Send failed:", error);
+
+            // The relayer checks the quota again when it co-signs, after the user confirmed
+            if (error instanceof SponsorshipQuotaError) {
+                setSponsorshipLimitReached(true);
+                return;
+            }
+
             const errorMessage = error instanceof Error ? error.message : "Send failed. Please try again.";
             setError(errorMessage);
             toast({ 
@@ -152,7 +388,10 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
                 variant: "destructive"
             });
         } finally {
+            // Nothing of a failed attempt landed, and a retry here still has its key
+            TransactionTracker.clearPendingSend(idempotencyKey);
             setIsLoading(false);
+            setPreview(null);
         }
     };
 
@@ -175,20 +414,83 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
     };
 
     const isFormValid = () => {
-        return email && amount && validateEmail(email) && !validateAmount(amount);
+        return detectedRecipient && amount && !validateAmount(amount) && !Memo.isTooLong(message.trim())
+            && (!flaggedRecipient || warningsAcknowledged);
     };
 
+    // Single or bulk (CSV) send
+    const modeToggle = (
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            {(['single', 'bulk'] as const).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    disabled={isLoading || !!preview}
+                    className={`flex-1 py-2 transition-colors ${
+                        mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                >
+                    {option === 'single' ? 'Single' : 'Bulk (CSV)'}
+                </button>
+            ))}
+        </div>
+    );
+
+    // Token selector, only when more than one stablecoin is configured
+    const tokenSelector = tokens.length > 1 && (
+        <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+                Token
+            </label>
+            <select
+                value={tokenMint}
+                onChange={(e) => {
+                    setTokenMint(e.target.value);
+                    if (errors.amount) {
+                        setErrors(prev => ({ ...prev, amount: undefined }));
+                    }
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading || !!preview}
+            >
+                {tokens.map(option => (
+                    <option key={option.mint.toBase58()} value={option.mint.toBase58()}>
+                        {option.icon} {option.symbol} · {balances.find(entry => entry.token.mint.equals(option.mint))?.balance ?? "0.00"}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+
+    if (mode === 'bulk' && token) {
+        return (
+            <div className="space-y-6">
+                {modeToggle}
+                {tokenSelector}
+                <BulkSendPanel
+                    key={tokenMint}
+                    token={token}
+                    available={available}
+                    onClose={onClose}
+                    onTransactionSuccess={onTransactionSuccess}
+                />
+            </div>
+        );
+    }
+
     // Success state
-    if (transactionSignature) {
+    if (transactionSignature || alreadySent) {
         return (
             <div className="space-y-6">
                 <div className="text-center">
                     <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
                     <h3 className="text-lg font-semibold text-green-600">
-                        Transfer Successful!
+                        {alreadySent ? "Already Sent" : "Transfer Successful!"}
                     </h3>
                     <p className="text-sm text-gray-600 mt-2">
-                        Your USDC has been sent successfully.
+                        {alreadySent
+                            ? "This payment was already sent, so nothing was sent again."
+                            : `Your ${tokenSymbol} has been sent successfully.`}
                     </p>
                 </div>
                 
@@ -204,37 +506,105 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
 
     return (
         <div className="space-y-6">
-            {/* Recipient Email Input */}
+            {modeToggle}
+
+            {/* Recipient Input: email, phone number, wallet address or .sol domain */}
             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <Mail className="w-4 h-4 inline mr-2" />
-                    Recipient Email
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                        <Mail className="w-4 h-4 inline mr-2" />
+                        Recipient
+                    </label>
+                    <button
+                        onClick={() => setIsScanning(scanning => !scanning)}
+                        disabled={isLoading || !!preview}
+                        className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                    >
+                        <ScanLine className="w-4 h-4 mr-1" />
+                        {isScanning ? "Stop scanning" : "Scan QR"}
+                    </button>
+                </div>
+                {isScanning && (
+                    <div className="mb-2">
+                        <QrScanner
+                            onScan={(text) => {
+                                setIsScanning(false);
+                                applyPaymentLink(text);
+                            }}
+                            onClose={() => setIsScanning(false)}
+                        />
+                    </div>
+                )}
                 <input
-                    type="email"
-                    value={email}
+                    type="text"
+                    value={recipient}
                     onChange={(e) => {
-                        setEmail(e.target.value);
-                        if (errors.email) {
-                            setErrors(prev => ({ ...prev, email: undefined }));
+                        setRecipient(e.target.value);
+                        if (errors.recipient) {
+                            setErrors(prev => ({ ...prev, recipient: undefined }));
+                        }
+                    }}
+                    onPaste={(e) => {
+                        // Links fill the whole form; plain text pastes as usual
+                        const text = e.clipboardData.getData("text");
+                        if (PaymentLinks.isLink(text)) {
+                            e.preventDefault();
+                            applyPaymentLink(text);
                         }
                     }}
-                    placeholder="Enter recipient's email"
+                    placeholder="Email, phone, wallet address or name.sol"
+                    autoCapitalize="none"
+                    autoCorrect="off"
+                    spellCheck={false}
                     className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                        errors.email ? 'border-red-300' : 'border-gray-300'
+                        errors.recipient ? 'border-red-300' : 'border-gray-300'
                     }`}
-                    disabled={isLoading}
+                    disabled={isLoading || !!preview}
                 />
-                {errors.email && (
-                    <p className="text-red-500 text-sm mt-1">{errors.email}</p>
+                {errors.recipient ? (
+                    <p className="text-red-500 text-sm mt-1">{errors.recipient}</p>
+                ) : detectedRecipient && (
+                    <p className="text-gray-500 text-xs mt-1">
+                        {detectedRecipient.provider.label}
+                        {activeLink?.label && ` · Payment request from ${activeLink.label}`}
+                    </p>
                 )}
             </div>
 
+            {/* Address warnings, acknowledged before the send is built */}
+            {flaggedRecipient && (
+                <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg space-y-2 text-sm text-amber-800">
+                    {flaggedRecipient.type !== 'wallet' && (
+                        <p className="break-all">{flaggedRecipient.value} resolves to {flaggedRecipient.wallet}.</p>
+                    )}
+                    {flaggedRecipient.warnings.map(warning => (
+                        <div key={warning} className="flex items-start space-x-2">
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                            <span>
+                                {warning === 'exchange' && flaggedRecipient.exchange ? `${flaggedRecipient.exchange}: ` : ''}
+                                {RECIPIENT_WARNINGS[warning]}
+                            </span>
+                        </div>
+                    ))}
+                    <label className="flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            checked={warningsAcknowledged}
+                            onChange={(e) => setWarningsAcknowledged(e.target.checked)}
+                            disabled={isLoading || !!preview}
+                        />
+                        <span>I understand, send anyway</span>
+                    </label>
+                </div>
+            )}
+
+            {tokenSelector}
+
             {/* Amount Input */}
             <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                     <DollarSign className="w-4 h-4 inline mr-2" />
-                    Amount (USDC)
+                    Amount ({tokenSymbol})
                 </label>
                 <input
                     type="text"
@@ -244,16 +614,78 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
                     className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
                         errors.amount ? 'border-red-300' : 'border-gray-300'
                     }`}
-                    disabled={isLoading}
+                    disabled={isLoading || !!preview}
                 />
                 {errors.amount && (
                     <p className="text-red-500 text-sm mt-1">{errors.amount}</p>
                 )}
                 <p className="text-gray-500 text-sm mt-1">
-                    Available: {balance} USDC
+                    Available: {available} {tokenSymbol}
+                </p>
+            </div>
+
+            {/* Optional note, stored on-chain and shown to the recipient */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <MessageSquare className="w-4 h-4 inline mr-2" />
+                    Note (optional)
+                </label>
+                <textarea
+                    value={message}
+                    onChange={(e) => {
+                        setMessage(e.target.value);
+                        if (errors.message) {
+                            setErrors(prev => ({ ...prev, message: undefined }));
+                        }
+                    }}
+                    placeholder="What's it for?"
+                    rows={2}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none ${
+                        errors.message ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                    disabled={isLoading || !!preview}
+                />
+                {errors.message && (
+                    <p className="text-red-500 text-sm mt-1">{errors.message}</p>
+                )}
+                <p className="text-gray-500 text-xs mt-1">
+                    Notes are public on the blockchain.
                 </p>
             </div>
 
+            {/* Claim window for recipients without a wallet */}
+            {(!detectedRecipient || detectedRecipient.provider.escrowable) && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <Clock className="w-4 h-4 inline mr-2" />
+                        Claim window
+                    </label>
+                    <select
+                        value={expiresInHours}
+                        onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        disabled={isLoading || !!preview}
+                    >
+                        {ESCROW_EXPIRY_OPTIONS.map(option => (
+                            <option key={option.hours} value={option.hours}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                    <p className="text-gray-500 text-xs mt-1">
+                        If the recipient has no wallet yet, you can reclaim the funds once this passes.
+                    </p>
+                </div>
+            )}
+
+            {/* Sending it again follows the earlier attempt */}
+            {isResumed && !error && (
+                <div className="flex items-center space-x-2 text-blue-700 bg-blue-50 p-3 rounded-lg">
+                    <Clock className="w-5 h-5" />
+                    <span className="text-sm">You confirmed this send before the page reloaded. Sending it again won't pay twice.</span>
+                </div>
+            )}
+
             {/* Error Display */}
             {error && (
                 <div className="flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
@@ -262,30 +694,84 @@ const SendModal = ({ onClose, balance, onTransactionSuccess }: SendModalProps) =
                 </div>
             )}
 
-            {/* Action Buttons */}
-            <div className="flex space-x-3">
-                <button
-                    onClick={onClose}
-                    className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
-                    disabled={isLoading}
-                >
-                    Cancel
-                </button>
-                <button
-                    onClick={handleSubmit}
-                    disabled={!isFormValid() || isLoading}
-                    className="flex-1 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-                >
-                    {isLoading ? (
-                        <>
-                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                            Sending...
-                        </>
-                    ) : (
-                        'Send USDC'
-                    )}
-                </button>
-            </div>
+            {/* Sponsorship limit fallback */}
+            {sponsorshipLimitReached && (
+                <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg space-y-3">
+                    <div className="flex items-start space-x-2 text-amber-800">
+                        <Fuel className="w-5 h-5 flex-shrink-0" />
+                        <span className="text-sm">
+                            Sponsorship limit reached. You can still send by paying the network fee yourself.
+                            This needs a small amount of SOL in your wallet.
+                        </span>
+                    </div>
+                    <button
+                        onClick={() => executeNewEscrowFlow(true)}
+                        disabled={isLoading}
+                        className="w-full py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Pay network fee myself
+                    </button>
+                </div>
+            )}
+
+            {/* Token-2022 transfer fee, withheld from the amount by the mint */}
+            {preview && preview.transferFee > 0 && token && (
+                <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg text-sm text-amber-800">
+                    {tokenSymbol} charges a transfer fee of {TokenRegistry.fromBaseUnits(preview.transferFee, token).toFixed(token.decimals)} {tokenSymbol}.
+                    The recipient gets {TokenRegistry.fromBaseUnits(preview.amount - preview.transferFee, token).toFixed(2)} {tokenSymbol}.
+                </div>
+            )}
+
+            {preview?.recipientAddress && (
+                <div className="text-gray-700 bg-gray-50 p-3 rounded-lg text-sm">
+                    Sending to <span className="font-mono break-all">{preview.recipientAddress}</span>
+                </div>
+            )}
+
+            {preview?.expiresAt && (
+                <div className="flex items-center space-x-2 text-blue-700 bg-blue-50 p-3 rounded-lg text-sm">
+                    <Clock className="w-4 h-4 flex-shrink-0" />
+                    <span>The recipient can claim until {EscrowExpiry.formatDate(preview.expiresAt)}.</span>
+                </div>
+            )}
+
+            {/* Simulation preview before the wallet signer opens */}
+            {preview ? (
+                <TransactionPreview
+                    simulation={preview.simulation}
+                    confirmLabel={preview.escrowPda ? "Confirm & create escrow" : "Confirm & send"}
+                    isConfirming={isLoading}
+                    onConfirm={confirmSend}
+                    onCancel={() => setPreview(null)}
+                    priorityFee={preview.priorityFee}
+                    onPriorityChange={(level) => executeNewEscrowFlow(preview.payOwnFee, level)}
+                />
+            ) : (
+                /* Action Buttons */
+                <div className="flex space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        disabled={isLoading}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={!isFormValid() || isLoading}
+                        className="flex-1 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                    >
+                        {isLoading ? (
+                            <>
+                                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                Checking...
+                            </>
+                        ) : (
+                            `Send ${tokenSymbol}`
+                        )}
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
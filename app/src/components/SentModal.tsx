@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Clock, Undo2, Loader2, Mail, ExternalLink, AlertTriangle, RefreshCw } from "lucide-react";
+import OutgoingTransferService, { OutgoingTransfer } from "@/services/outgoingTransfers";
+import { useReclaimTransfer } from "@/hooks/useReclaimTransfer";
+import { getExplorerUrl } from "@/lib/utils";
+import EscrowExpiry from "@/services/escrowExpiry";
+
+interface SentModalProps {
+  onClose: () => void;
+  walletAddress: string;
+  onTransactionSuccess?: () => void;
+}
+
+const STATUS_LABELS: Record<OutgoingTransfer['chainStatus'], { label: string; color: string }> = {
+  active: { label: 'Pending', color: '#d97706' },
+  claimed: { label: 'Claimed', color: '#059669' },
+  expired: { label: 'Reclaimed', color: 'var(--text-muted)' },
+  closed: { label: 'Closed', color: 'var(--text-muted)' },
+};
+
+const SentModal = ({ walletAddress, onTransactionSuccess }: SentModalProps) => {
+  const [sentTransfers, setSentTransfers] = useState<OutgoingTransfer[]>([]);
+  const [isLoadingSent, setIsLoadingSent] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reclaimingTransfers, setReclaimingTransfers] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(Date.now());
+
+  const { reclaimTransfer, isLoading: isReclaimLoading, clearError: clearReclaimError } = useReclaimTransfer();
+
+  const fetchSentTransfers = useCallback(async () => {
+    if (!walletAddress) return;
+
+    try {
+      setIsLoadingSent(true);
+      setError(null);
+      setSentTransfers(await OutgoingTransferService.getOutgoingTransfers(walletAddress));
+    } catch (error) {
+      console.error('Failed to fetch sent transfers:', error);
+      setError('Failed to load sent transfers');
+    } finally {
+      setIsLoadingSent(false);
+    }
+  }, [walletAddress]);
+
+  // Fetch sent transfers on mount
+  useEffect(() => {
+    fetchSentTransfers();
+  }, [fetchSentTransfers]);
+
+  // Tick the expiry countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleReclaimTransfer = async (transfer: OutgoingTransfer) => {
+    try {
+      setReclaimingTransfers(prev => new Set(prev).add(transfer.escrowPda));
+      setError(null);
+      clearReclaimError();
+
+      console.log('🎯 Reclaiming transfer:', transfer.escrowPda);
+      const result = await reclaimTransfer(transfer);
+
+      if (result.success) {
+        console.log('🎉 Transfer reclaimed successfully!', result.txHash);
+
+        await fetchSentTransfers();
+
+        // Call success callback to refresh wallet balance
+        if (onTransactionSuccess) {
+          onTransactionSuccess();
+        }
+      } else {
+        setError(result.error || 'Failed to reclaim transfer');
+      }
+    } finally {
+      setReclaimingTransfers(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(transfer.escrowPda);
+        return newSet;
+      });
+    }
+  };
+
+  const reclaimableTransfers = sentTransfers.filter(transfer => transfer.canReclaim);
+  // Totalled per token, since transfers can be in different stablecoins
+  const reclaimableTotals = reclaimableTransfers.reduce<Record<string, number>>((totals, transfer) => {
+    totals[transfer.tokenSymbol] = (totals[transfer.tokenSymbol] || 0) + transfer.amount / Math.pow(10, transfer.decimals);
+    return totals;
+  }, {});
+
+  return (
+    <div className="fy-space-y-6" style={{ width: '100%', maxWidth: '400px' }}>
+      {reclaimableTransfers.length > 0 && (
+        <div className="text-center" style={{
+          background: 'rgba(139, 92, 246, 0.1)',
+          borderRadius: 'var(--radius-medium)',
+          padding: '12px',
+          border: '1px solid rgba(139, 92, 246, 0.2)'
+        }}>
+          <div style={{
+            fontSize: '20px',
+            fontWeight: 700,
+            color: '#7C3AED',
+            marginBottom: '4px'
+          }}>
+            {Object.entries(reclaimableTotals).map(([symbol, total]) => `${total.toFixed(2)} ${symbol}`).join(' + ')}
+          </div>
+          <div style={{ fontSize: '12px', color: '#5B21B6' }}>
+            Unclaimed and expired - reclaim it back to your wallet
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="fy-alert-error">{error}</div>
+      )}
+
+      <div className="fy-flex-between">
+        <label className="fy-label" style={{ marginBottom: 0 }}>Sent to email</label>
+        <button
+          onClick={fetchSentTransfers}
+          className="fy-button-secondary"
+          style={{ padding: '6px', minWidth: 'auto', height: 'auto' }}
+          disabled={isLoadingSent}
+        >
+          <RefreshCw style={{ width: '14px', height: '14px' }} />
+        </button>
+      </div>
+
+      {isLoadingSent ? (
+        <div className="text-center" style={{ padding: '20px' }}>
+          <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+          <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+            Scanning escrows...
+          </p>
+        </div>
+      ) : sentTransfers.length === 0 ? (
+        <p className="text-center" style={{ fontSize: '14px', color: 'var(--text-secondary)', padding: '20px' }}>
+          You haven't sent anything to an email address yet.
+        </p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', maxHeight: '360px', overflowY: 'auto' }}>
+          {sentTransfers.map((transfer) => {
+            const status = STATUS_LABELS[transfer.chainStatus];
+            const isReclaiming = reclaimingTransfers.has(transfer.escrowPda);
+
+            return (
+              <div
+                key={transfer.escrowPda}
+                style={{
+                  border: `1px solid ${transfer.mismatch ? 'rgba(220, 38, 38, 0.4)' : 'var(--border-light)'}`,
+                  borderRadius: 'var(--radius-medium)',
+                  padding: '12px',
+                  background: 'var(--glass-bg)'
+                }}
+              >
+                <div className="fy-flex" style={{ justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                  <div style={{ flex: 1 }}>
+                    <div style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)' }}>
+                      {(transfer.amount / Math.pow(10, transfer.decimals)).toFixed(2)} {transfer.tokenSymbol}
+                    </div>
+                    <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                      <Mail className="w-3 h-3 inline mr-1" />
+                      {transfer.recipientEmail || 'Unknown recipient'}
+                    </div>
+                    {transfer.message && (
+                      <div style={{ fontSize: '12px', color: 'var(--text-secondary)', fontStyle: 'italic', marginTop: '4px' }}>
+                        "{transfer.message}"
+                      </div>
+                    )}
+                    <div style={{ fontSize: '10px', color: 'var(--text-muted)', marginTop: '4px' }}>
+                      Sent {transfer.createdAt.toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div style={{ textAlign: 'right' }}>
+                    <div style={{ fontSize: '11px', fontWeight: 600, color: status.color }}>
+                      {status.label}
+                    </div>
+                    <a
+                      href={getExplorerUrl('address', transfer.escrowPda)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      style={{ fontSize: '10px', color: 'var(--text-secondary)' }}
+                    >
+                      Escrow <ExternalLink className="w-3 h-3 inline" />
+                    </a>
+                  </div>
+                </div>
+
+                {transfer.chainStatus === 'active' && (
+                  <div style={{ fontSize: '10px', color: transfer.isExpired ? '#dc2626' : 'var(--text-muted)', marginTop: '4px' }}>
+                    <Clock className="w-3 h-3 inline mr-1" />
+                    {EscrowExpiry.formatCountdown(transfer.expiresAt, now)}
+                  </div>
+                )}
+
+                {transfer.mismatch && (
+                  <div style={{ fontSize: '11px', color: '#dc2626', marginTop: '6px' }}>
+                    <AlertTriangle className="w-3 h-3 inline mr-1" />
+                    {transfer.mismatch}
+                  </div>
+                )}
+
+                {transfer.canReclaim && (
+                  <button
+                    onClick={() => handleReclaimTransfer(transfer)}
+                    disabled={isReclaiming || isReclaimLoading}
+                    className="fy-button-primary"
+                    style={{
+                      width: '100%',
+                      height: '32px',
+                      fontSize: '12px',
+                      marginTop: '8px',
+                      background: isReclaiming || isReclaimLoading ? '#9ca3af' : '#7C3AED',
+                      cursor: isReclaiming || isReclaimLoading ? 'not-allowed' : 'pointer',
+                      opacity: isReclaiming || isReclaimLoading ? 0.6 : 1
+                    }}
+                  >
+                    {isReclaiming ? (
+                      <>
+                        <Loader2 style={{ width: '12px', height: '12px', marginRight: '6px' }} className="animate-spin" />
+                        Reclaiming...
+                      </>
+                    ) : (
+                      <>
+                        <Undo2 style={{ width: '12px', height: '12px', marginRight: '6px' }} />
+                        {`Reclaim ${(transfer.amount / Math.pow(10, transfer.decimals)).toFixed(2)} ${transfer.tokenSymbol}`}
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SentModal;
@@ -1,8 +1,11 @@
 import { useState } from 'react';
 import { useDynamicContext, useDeleteUserAccount } from "@dynamic-labs/sdk-react-core";
 import { Separator } from "@/components/ui/separator";
-import { User, Trash2, LogOut, Copy, Check, Loader2 } from "lucide-react";
+import { User, Trash2, LogOut, Copy, Check, Loader2, Fuel, FileText } from "lucide-react";
 import { AccountDeletionService } from "@/services/accountDeletion";
+import { ENV_CONFIG } from "@/config/environment";
+import SponsorshipOpsPanel from "@/components/SponsorshipOpsPanel";
+import StatementExportPanel from "@/components/StatementExportPanel";
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -19,6 +22,7 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
 
   const walletAddress = primaryWallet?.address || "";
   const userEmail = user?.email || "No email available";
+  const isOpsWallet = !!walletAddress && ENV_CONFIG.opsWallets.includes(walletAddress);
 
   const copyAddress = async () => {
     try {
@@ -146,6 +150,32 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
               <User style={{ width: '16px', height: '16px' }} />
               Profile
             </button>
+            <button
+              onClick={() => setActiveSection('statements')}
+              style={{
+                width: '100%',
+                padding: '12px 8px',
+                borderRadius: 'var(--radius-small)',
+                border: 'none',
+                background: activeSection === 'statements' 
+                  ? 'rgba(59, 130, 246, 0.1)' 
+                  : 'transparent',
+                color: activeSection === 'statements' 
+                  ? '#2563eb' 
+                  : 'var(--text-secondary)',
+                fontSize: '14px',
+                fontWeight: 600,
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                gap: '4px'
+              }}
+            >
+              <FileText style={{ width: '16px', height: '16px' }} />
+              Statements
+            </button>
             <button
               onClick={() => setActiveSection('account')}
               style={{
@@ -172,6 +202,34 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
               <Trash2 style={{ width: '16px', height: '16px' }} />
               Account
             </button>
+            {isOpsWallet && (
+              <button
+                onClick={() => setActiveSection('ops')}
+                style={{
+                  width: '100%',
+                  padding: '12px 8px',
+                  borderRadius: 'var(--radius-small)',
+                  border: 'none',
+                  background: activeSection === 'ops'
+                    ? 'rgba(59, 130, 246, 0.1)'
+                    : 'transparent',
+                  color: activeSection === 'ops'
+                    ? '#2563eb'
+                    : 'var(--text-secondary)',
+                  fontSize: '14px',
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  gap: '4px'
+                }}
+              >
+                <Fuel style={{ width: '16px', height: '16px' }} />
+                Ops
+              </button>
+            )}
           </div>
         </div>
 
@@ -366,6 +424,10 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
               </div>
             </div>
           )}
+
+          {activeSection === 'statements' && <StatementExportPanel />}
+
+          {activeSection === 'ops' && isOpsWallet && <SponsorshipOpsPanel />}
         </div>
       </div>
     </div>
@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { Loader2, RefreshCw } from "lucide-react";
+import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
+import { isSolanaWallet } from "@dynamic-labs/solana";
+import { SponsorshipLedgerService, SponsorshipSpendByUser } from "@/services/sponsorshipLedger";
+import { DEFAULT_SPONSORSHIP_QUOTA } from "@/services/sponsorshipQuota";
+import { FeePayerWallet, FeePayerStatus, GaslessMode } from "@/utils/feePayerWallet";
+import { AddressLookupTableService, LookupTableStatus } from "@/services/addressLookupTable";
+import TransactionTracker from "@/services/transactionTracker";
+import { TransferReconciliationService, ReconciliationRun } from "@/services/transferReconciliation";
+
+const formatSol = (lamports: number) => (lamports / LAMPORTS_PER_SOL).toFixed(4);
+
+const SponsorshipOpsPanel = () => {
+  const [rows, setRows] = useState<SponsorshipSpendByUser[]>([]);
+  const [payers, setPayers] = useState<FeePayerStatus[]>([]);
+  const [poolMode, setPoolMode] = useState<GaslessMode | null>(null);
+  const [lookupTable, setLookupTable] = useState<LookupTableStatus | null>(null);
+  const [createdTable, setCreatedTable] = useState<string | null>(null);
+  const [isUpdatingTable, setIsUpdatingTable] = useState(false);
+  const [reconciliation, setReconciliation] = useState<ReconciliationRun | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { primaryWallet } = useDynamicContext();
+
+  const loadSpend = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [spend, pool, mode, table, latestRun] = await Promise.all([
+        SponsorshipLedgerService.getSpendByUser(),
+        FeePayerWallet.getPoolStatus(),
+        FeePayerWallet.getGaslessMode(),
+        AddressLookupTableService.getStatus(),
+        TransferReconciliationService.getLatestRun()
+      ]);
+      setRows(spend);
+      setPayers(pool);
+      setPoolMode(mode);
+      setLookupTable(table);
+      setReconciliation(latestRun);
+    } catch (error) {
+      console.error('Failed to load fee payer spend:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load fee payer spend');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSpend();
+  }, [loadSpend]);
+
+  // Create the table, or add missing addresses to the configured one; the ops wallet signs and pays
+  const updateLookupTable = async () => {
+    if (!primaryWallet || !isSolanaWallet(primaryWallet) || !lookupTable) {
+      return;
+    }
+
+    setIsUpdatingTable(true);
+    setError(null);
+
+    try {
+      const authority = new PublicKey(primaryWallet.address);
+      const signer = await primaryWallet.getSigner();
+
+      if (lookupTable.exists) {
+        const { transaction, lastValidBlockHeight } = await AddressLookupTableService.buildExtendTransaction(
+          authority,
+          lookupTable.missing.map(address => new PublicKey(address))
+        );
+        await TransactionTracker.signAndConfirm(signer, transaction, {
+          kind: 'lookupTable',
+          walletAddress: primaryWallet.address,
+          lastValidBlockHeight
+        });
+      } else {
+        const { transaction, lookupTable: address, lastValidBlockHeight } =
+          await AddressLookupTableService.buildCreateTransaction(authority);
+        await TransactionTracker.signAndConfirm(signer, transaction, {
+          kind: 'lookupTable',
+          walletAddress: primaryWallet.address,
+          lastValidBlockHeight
+        });
+        setCreatedTable(address.toString());
+      }
+
+      setLookupTable(await AddressLookupTableService.getStatus());
+    } catch (error) {
+      console.error('Failed to update lookup table:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update lookup table');
+    } finally {
+      setIsUpdatingTable(false);
+    }
+  };
+
+  const reconcile = async (dryRun: boolean) => {
+    setIsReconciling(true);
+    setError(null);
+
+    try {
+      setReconciliation(await TransferReconciliationService.run(dryRun));
+    } catch (error) {
+      console.error('Failed to reconcile transfers:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reconcile transfers');
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  const canExtendTable = !!lookupTable?.exists
+    && lookupTable.missing.length > 0
+    && lookupTable.authority === primaryWallet?.address;
+
+  const totalLamports = rows.reduce((sum, row) => sum + row.totalLamports, 0);
+  const totalTransactions = rows.reduce((sum, row) => sum + row.transactionCount, 0);
+
+  return (
+    <div className="fy-space-y-6">
+      <div>
+        <div className="fy-flex-between" style={{ marginBottom: '16px' }}>
+          <h3 style={{
+            fontSize: '18px',
+            fontWeight: 700,
+            color: 'var(--text-primary)'
+          }}>
+            Fee Payer Spend
+          </h3>
+          <button
+            onClick={loadSpend}
+            className="fy-button-secondary"
+            style={{ padding: '8px', minWidth: 'auto', height: 'auto' }}
+            disabled={isLoading}
+          >
+            {isLoading ?
+              <Loader2 style={{ width: '16px', height: '16px' }} className="animate-spin" /> :
+              <RefreshCw style={{ width: '16px', height: '16px' }} />
+            }
+          </button>
+        </div>
+
+        {error && <div className="fy-alert-error">{error}</div>}
+
+        <div className="fy-space-y-4">
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <label className="fy-label">Fee Payer Pool ({poolMode ?? 'unknown'})</label>
+            {payers.map(payer => (
+              <div key={payer.publicKey} className="fy-flex-between" style={{ fontSize: '12px' }}>
+                <code style={{ fontFamily: 'monospace', color: 'var(--text-secondary)' }}>
+                  {`${payer.publicKey.slice(0, 6)}...${payer.publicKey.slice(-6)}`}
+                </code>
+                <span style={{
+                  color: !payer.inRotation ? '#dc2626' : payer.belowLowWater ? '#d97706' : 'var(--text-secondary)'
+                }}>
+                  {`${formatSol(payer.balance)} SOL`}
+                  {!payer.inRotation ? ' · out of rotation' : payer.belowLowWater ? ' · low' : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {lookupTable && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <label className="fy-label">Address Lookup Table</label>
+              <div className="fy-flex-between" style={{ fontSize: '12px' }}>
+                <code style={{ fontFamily: 'monospace', color: 'var(--text-secondary)' }}>
+                  {lookupTable.address
+                    ? `${lookupTable.address.slice(0, 6)}...${lookupTable.address.slice(-6)}`
+                    : 'not configured'}
+                </code>
+                <span style={{
+                  color: !lookupTable.exists ? '#dc2626' : lookupTable.missing.length > 0 ? '#d97706' : 'var(--text-secondary)'
+                }}>
+                  {!lookupTable.exists
+                    ? 'v0 without table'
+                    : lookupTable.missing.length > 0
+                      ? `${lookupTable.missing.length} addresses missing`
+                      : 'up to date'}
+                </span>
+              </div>
+
+              {createdTable && (
+                <p style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                  Created <code style={{ fontFamily: 'monospace' }}>{createdTable}</code>.
+                  Set VITE_LOOKUP_TABLE_ADDRESS to this address and redeploy.
+                </p>
+              )}
+
+              {(!lookupTable.address || canExtendTable) && !createdTable && (
+                <button
+                  onClick={updateLookupTable}
+                  className="fy-button-secondary"
+                  style={{ height: '36px' }}
+                  disabled={isUpdatingTable}
+                >
+                  {isUpdatingTable ? (
+                    <Loader2 style={{ width: '14px', height: '14px' }} className="animate-spin" />
+                  ) : lookupTable.address ? 'Add missing addresses' : 'Create lookup table'}
+                </button>
+              )}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <label className="fy-label">Transfer Reconciliation</label>
+            {reconciliation ? (
+              <p style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                {reconciliation.dryRun ? 'Dry run' : reconciliation.trigger === 'scheduled' ? 'Scheduled run' : 'Manual run'}
+                {' '}{new Date(reconciliation.finishedAt).toLocaleString()}: {reconciliation.checked} checked,
+                {' '}{reconciliation.discrepancies.length} discrepancies, {reconciliation.repaired} repaired
+                {reconciliation.errors.length > 0 ? `, ${reconciliation.errors.length} errors` : ''}
+              </p>
+            ) : (
+              <p style={{ fontSize: '12px', color: 'var(--text-muted)' }}>No reconciliation runs yet.</p>
+            )}
+
+            {reconciliation?.discrepancies.map(discrepancy => (
+              <div key={discrepancy.intentId} style={{ fontSize: '12px' }}>
+                <div className="fy-flex-between">
+                  <code style={{ fontFamily: 'monospace', color: 'var(--text-secondary)' }}>
+                    {`${discrepancy.escrowPda.slice(0, 6)}...${discrepancy.escrowPda.slice(-6)}`}
+                  </code>
+                  <span style={{ color: discrepancy.repaired ? 'var(--text-secondary)' : '#d97706' }}>
+                    {discrepancy.dbStatus} → {discrepancy.chainStatus}{discrepancy.repaired ? ' · repaired' : ''}
+                  </span>
+                </div>
+                <div style={{ color: 'var(--text-muted)' }}>{discrepancy.message}</div>
+              </div>
+            ))}
+
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={() => reconcile(true)}
+                className="fy-button-secondary"
+                style={{ height: '36px', flex: 1 }}
+                disabled={isReconciling}
+              >
+                Dry run
+              </button>
+              <button
+                onClick={() => reconcile(false)}
+                className="fy-button-secondary"
+                style={{ height: '36px', flex: 1 }}
+                disabled={isReconciling}
+              >
+                {isReconciling ? (
+                  <Loader2 style={{ width: '14px', height: '14px' }} className="animate-spin" />
+                ) : 'Reconcile now'}
+              </button>
+            </div>
+          </div>
+
+          <p style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+            {formatSol(totalLamports)} SOL across {totalTransactions} transactions.
+            Quota per wallet: {formatSol(DEFAULT_SPONSORSHIP_QUOTA.dailyLamports)} SOL/day,
+            {' '}{formatSol(DEFAULT_SPONSORSHIP_QUOTA.monthlyLamports)} SOL/month.
+          </p>
+
+          {rows.map(row => (
+            <div
+              key={row.walletAddress}
+              style={{
+                padding: '12px',
+                background: 'var(--gradient-balance)',
+                borderRadius: 'var(--radius-small)',
+                border: '1px solid var(--border-light)'
+              }}
+            >
+              <div className="fy-flex-between">
+                <span style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)' }}>
+                  {row.email || `${row.walletAddress.slice(0, 6)}...${row.walletAddress.slice(-6)}`}
+                </span>
+                <span style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)' }}>
+                  {formatSol(row.totalLamports)} SOL
+                </span>
+              </div>
+              <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '4px' }}>
+                {row.transactionCount} txs · fees {formatSol(row.feeLamports)} · rent {formatSol(row.rentLamports)} ({row.ataRentPayments} ATAs)
+              </div>
+              <div style={{
+                fontSize: '12px',
+                marginTop: '4px',
+                color: row.dailyLamports >= DEFAULT_SPONSORSHIP_QUOTA.dailyLamports
+                  || row.monthlyLamports >= DEFAULT_SPONSORSHIP_QUOTA.monthlyLamports
+                  ? '#dc2626'
+                  : 'var(--text-muted)'
+              }}>
+                Today {formatSol(row.dailyLamports)} · This month {formatSol(row.monthlyLamports)}
+              </div>
+            </div>
+          ))}
+
+          {!isLoading && !error && rows.length === 0 && (
+            <p style={{ fontSize: '14px', color: 'var(--text-muted)' }}>
+              No sponsored transactions yet.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SponsorshipOpsPanel;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Loader2, Download } from "lucide-react";
+import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
+import StatementService, { StatementError } from "@/services/statementService";
+import { StatementFormat } from "@/services/statementExport";
+import TokenRegistry from "@/services/tokenRegistry";
+
+const FORMATS: { format: StatementFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'ofx', label: 'OFX' },
+  { format: 'qfx', label: 'QFX' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Last full calendar month, in UTC like the statement itself
+const lastMonth = () => {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0));
+  return { start: toDateInput(start), end: toDateInput(end) };
+};
+
+/**
+ * Settings section that exports a date range of activity as CSV, OFX/QFX or a PDF statement
+ */
+const StatementExportPanel = () => {
+  const { primaryWallet } = useDynamicContext();
+  const tokens = TokenRegistry.getTokens();
+  const [symbol, setSymbol] = useState(tokens[0]?.symbol ?? '');
+  const [startDate, setStartDate] = useState(() => lastMonth().start);
+  const [endDate, setEndDate] = useState(() => lastMonth().end);
+  const [exporting, setExporting] = useState<StatementFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const walletAddress = primaryWallet?.address || "";
+
+  const exportStatement = async (format: StatementFormat) => {
+    const token = TokenRegistry.getBySymbol(symbol);
+    if (!walletAddress || !token) {
+      return;
+    }
+
+    setExporting(format);
+    setError(null);
+
+    try {
+      // The end date is inclusive, so the range runs to the following midnight
+      const from = new Date(`${startDate}T00:00:00Z`);
+      const to = new Date(new Date(`${endDate}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+      const statement = await StatementService.createStatement(walletAddress, token, from, to);
+      const { blob, fileName } = StatementService.toFile(statement, format);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Statement export failed:', error);
+      setError(error instanceof StatementError ? error.message : 'Statement export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="fy-space-y-6">
+      <div>
+        <h3 style={{
+          fontSize: '18px',
+          fontWeight: 700,
+          marginBottom: '16px',
+          color: 'var(--text-primary)'
+        }}>
+          Statements
+        </h3>
+
+        <div className="fy-space-y-4">
+          {error && (
+            <div className="fy-alert-error">{error}</div>
+          )}
+
+          <div>
+            <label className="fy-label">Token</label>
+            <select
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              className="fy-input"
+              disabled={!!exporting}
+            >
+              {tokens.map(token => (
+                <option key={token.symbol} value={token.symbol}>{token.symbol}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="fy-flex fy-gap-3">
+            <div style={{ flex: 1 }}>
+              <label className="fy-label">From</label>
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="fy-input"
+                disabled={!!exporting}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label className="fy-label">To</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="fy-input"
+                disabled={!!exporting}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => exportStatement(format)}
+                className="fy-button-secondary"
+                style={{ height: '40px', gap: '8px' }}
+                disabled={!walletAddress || !startDate || !endDate || !!exporting}
+              >
+                {exporting === format ?
+                  <Loader2 style={{ width: '14px', height: '14px' }} className="animate-spin" /> :
+                  <Download style={{ width: '14px', height: '14px' }} />
+                }
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <p style={{
+            fontSize: '12px',
+            color: 'var(--text-muted)'
+          }}>
+            Built on this device from your on-chain activity. Dates are in UTC and include both ends of the range.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementExportPanel;
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { AlertCircle, CheckCircle, Cpu, Loader2 } from "lucide-react";
+import { SimulationResult } from "@/services/transactionSimulator";
+import { PriorityFeeQuote, PriorityLevel } from "@/services/priorityFees";
+
+interface TransactionPreviewProps {
+  simulation: SimulationResult;
+  confirmLabel: string;
+  isConfirming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  priorityFee?: PriorityFeeQuote;
+  onPriorityChange?: (level: PriorityLevel) => Promise<void>; // Rebuilds the transaction at the new speed
+}
+
+const PRIORITY_LABELS: Record<PriorityLevel, string> = {
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+const formatChange = (change: number, decimals: number) => {
+  const value = change / Math.pow(10, decimals);
+  const sign = change > 0 ? '+' : change < 0 ? '−' : '';
+  return `${sign}${Math.abs(value).toFixed(decimals > 6 ? 6 : 2)}`;
+};
+
+/**
+ * Simulation result shown before the wallet signer opens
+ */
+const TransactionPreview = ({
+  simulation,
+  confirmLabel,
+  isConfirming,
+  onConfirm,
+  onCancel,
+  priorityFee,
+  onPriorityChange
+}: TransactionPreviewProps) => {
+  const [isRepricing, setIsRepricing] = useState(false);
+  const solChange = simulation.balanceChanges.find(change => change.label === 'SOL');
+
+  const handlePriorityChange = async (level: PriorityLevel) => {
+    if (!onPriorityChange || level === priorityFee?.level) return;
+
+    setIsRepricing(true);
+    try {
+      await onPriorityChange(level);
+    } finally {
+      setIsRepricing(false);
+    }
+  };
+
+  return (
+    <div style={{
+      border: `1px solid ${simulation.success ? 'var(--border-light)' : 'rgba(220, 38, 38, 0.3)'}`,
+      borderRadius: 'var(--radius-medium)',
+      padding: '12px',
+      background: 'var(--glass-bg)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px'
+    }}>
+      {simulation.success ? (
+        <div className="fy-flex" style={{ alignItems: 'center', gap: '6px', fontSize: '13px', fontWeight: 600, color: '#059669' }}>
+          <CheckCircle style={{ width: '14px', height: '14px' }} />
+          Simulation passed
+        </div>
+      ) : (
+        <div className="fy-alert-error" style={{ display: 'flex', alignItems: 'flex-start', gap: '6px' }}>
+          <AlertCircle style={{ width: '14px', height: '14px', flexShrink: 0, marginTop: '2px' }} />
+          <div>
+            <div>{simulation.error?.message || 'This transaction would fail.'}</div>
+            {simulation.error && (
+              <div style={{ fontSize: '11px', opacity: 0.8 }}>
+                {simulation.error.decoded.program} · {simulation.error.decoded.code}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {simulation.success && simulation.balanceChanges
+        .filter(change => change.change !== 0)
+        .map(change => (
+          <div key={change.address} className="fy-flex-between" style={{ fontSize: '13px' }}>
+            <span style={{ color: 'var(--text-secondary)' }}>{change.label}</span>
+            <span style={{ fontWeight: 600, color: change.change < 0 ? 'var(--text-primary)' : '#059669' }}>
+              {formatChange(change.change, change.decimals)} {change.label}
+            </span>
+          </div>
+        ))}
+
+      {simulation.success && (!solChange || solChange.change === 0) && (
+        <div className="fy-flex-between" style={{ fontSize: '13px' }}>
+          <span style={{ color: 'var(--text-secondary)' }}>Network fee</span>
+          <span style={{ fontWeight: 600, color: '#059669' }}>Sponsored</span>
+        </div>
+      )}
+
+      {simulation.success && priorityFee && (
+        <>
+          <div className="fy-flex-between" style={{ fontSize: '13px' }}>
+            <span style={{ color: 'var(--text-secondary)' }}>Speed</span>
+            <div className="fy-flex" style={{ alignItems: 'center', gap: '4px' }}>
+              {isRepricing && (
+                <Loader2 style={{ width: '12px', height: '12px' }} className="animate-spin" />
+              )}
+              {(Object.keys(PRIORITY_LABELS) as PriorityLevel[]).map(level => (
+                <button
+                  key={level}
+                  onClick={() => handlePriorityChange(level)}
+                  disabled={!onPriorityChange || isConfirming || isRepricing}
+                  className={level === priorityFee.level ? 'fy-button-primary' : 'fy-button-secondary'}
+                  style={{ height: '26px', padding: '0 10px', fontSize: '12px' }}
+                >
+                  {PRIORITY_LABELS[level]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="fy-flex-between" style={{ fontSize: '13px' }}>
+            <span style={{ color: 'var(--text-secondary)' }}>Priority fee</span>
+            <span style={{ fontWeight: 600 }}>
+              {priorityFee.lamports === 0 ? 'None' : `up to ${(priorityFee.lamports / 1e9).toFixed(6)} SOL`}
+              {priorityFee.capped && (
+                <span style={{ fontWeight: 400, color: 'var(--text-muted)' }}> (capped)</span>
+              )}
+            </span>
+          </div>
+        </>
+      )}
+
+      <div className="fy-flex" style={{ alignItems: 'center', gap: '6px', fontSize: '11px', color: 'var(--text-muted)' }}>
+        <Cpu style={{ width: '12px', height: '12px' }} />
+        {simulation.unitsConsumed.toLocaleString()} compute units
+        {priorityFee && ` · limit ${priorityFee.computeUnitLimit.toLocaleString()}`}
+      </div>
+
+      <div className="fy-flex fy-gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isConfirming || isRepricing}
+          className="fy-button-secondary"
+          style={{ flex: 1, height: '40px' }}
+        >
+          Back
+        </button>
+        {simulation.success && (
+          <button
+            onClick={onConfirm}
+            disabled={isConfirming || isRepricing}
+            className="fy-button-primary"
+            style={{ flex: 1, height: '40px', opacity: isConfirming || isRepricing ? 0.6 : 1 }}
+          >
+            {isConfirming && !isRepricing ? (
+              <>
+                <Loader2 style={{ width: '14px', height: '14px', marginRight: '6px' }} className="animate-spin" />
+                Confirming...
+              </>
+            ) : (
+              confirmLabel
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionPreview;
@@ -4,13 +4,15 @@ import { WalletAction } from "@/constants/wallet";
 import { useVault } from "@/hooks/useVault";
 import { APYService, Protocol } from "@/services/apyService";
 import { SimpleRebalancingService } from "@/services/simpleRebalancingService";
+import { TokenBalance } from "@/hooks/useWalletBalance";
 
 interface WalletCardProps {
   onAction: (action: WalletAction) => void;
   usdcBalance?: number;
+  tokenBalances?: TokenBalance[];
 }
 
-const WalletCard = ({ onAction, usdcBalance = 97.00 }: WalletCardProps) => {
+const WalletCard = ({ onAction, usdcBalance = 97.00, tokenBalances = [] }: WalletCardProps) => {
   const { userBalance: vaultBalance, hasDeposit } = useVault();
   const [currentProtocol, setCurrentProtocol] = useState<Protocol>({
     name: 'Kamino Finance',
@@ -24,6 +26,9 @@ const WalletCard = ({ onAction, usdcBalance = 97.00 }: WalletCardProps) => {
   const dailyEarnings = vaultBalanceUsdc * (currentProtocol.apy / 100) / 365;
   const apy = `${currentProtocol.apy.toFixed(1)}%`;
 
+  // Other stablecoins are listed under the USDC balance once the wallet holds some
+  const otherBalances = tokenBalances.filter(entry => entry.token.symbol !== 'USDC' && entry.amount > 0);
+
   // Load current protocol and listen for rebalancing events
   useEffect(() => {
     const loadCurrentProtocol = async () => {
@@ -118,6 +123,11 @@ const WalletCard = ({ onAction, usdcBalance = 97.00 }: WalletCardProps) => {
         <div className="fy-balance-amount">
           ${usdcBalance.toFixed(2)} <span className="fy-balance-currency">USDC</span>
         </div>
+        {otherBalances.map(entry => (
+          <div key={entry.token.mint.toBase58()} style={{ fontSize: '14px', color: 'var(--text-secondary)', marginTop: '4px' }}>
+            {entry.token.icon} {entry.balance} {entry.token.symbol}
+          </div>
+        ))}
         {hasDeposit && (
           <div className="fy-earning-status">
             <div className="fy-earning-dot"></div>
@@ -144,6 +154,22 @@ const WalletCard = ({ onAction, usdcBalance = 97.00 }: WalletCardProps) => {
           Receive USDC
         </button>
 
+        <button
+          onClick={() => onAction("history")}
+          className="fy-action-button fy-history-btn"
+        >
+          <span className="fy-button-icon">≡</span>
+          Activity
+        </button>
+
+        <button
+          onClick={() => onAction("sent")}
+          className="fy-action-button fy-escrow-btn"
+        >
+          <span className="fy-button-icon">↺</span>
+          Sent &amp; Pending
+        </button>
+
         <button
           onClick={() => onAction("earn")}
           className="fy-action-button fy-earn-btn"
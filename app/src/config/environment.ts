@@ -2,8 +2,26 @@
 export const getEnvironmentConfig = () => {
   const config = {
     usdcMintAddress: import.meta.env.VITE_USDC_MINT_ADDRESS,
+    // Further stablecoins in the token registry; each is hidden until its mint is set
+    eurcMintAddress: import.meta.env.VITE_EURC_MINT_ADDRESS || "",
+    pyusdMintAddress: import.meta.env.VITE_PYUSD_MINT_ADDRESS || "",
     solanaRpcUrl: import.meta.env.VITE_SOLANA_RPC_URL || "https://api.devnet.solana.com",
+    solanaCluster: import.meta.env.VITE_SOLANA_CLUSTER || "devnet",
     dynamicEnvironmentId: import.meta.env.VITE_DYNAMIC_ENVIRONMENT_ID,
+    // Wallets allowed to see ops views such as fee payer spend (comma separated)
+    opsWallets: (import.meta.env.VITE_OPS_WALLETS || "")
+      .split(",")
+      .map((address: string) => address.trim())
+      .filter(Boolean),
+    // Managed address lookup table for v0 transactions; created from the ops panel
+    lookupTableAddress: import.meta.env.VITE_LOOKUP_TABLE_ADDRESS || "",
+    // "legacy" turns v0 transactions off for every wallet
+    transactionVersion: import.meta.env.VITE_TRANSACTION_VERSION === "legacy" ? "legacy" as const : 0 as const,
+    // Percentile of recent prioritization fees paid at each speed (0-100)
+    priorityFeePercentiles: {
+      normal: Number(import.meta.env.VITE_PRIORITY_FEE_PERCENTILE || 50),
+      fast: Number(import.meta.env.VITE_PRIORITY_FEE_FAST_PERCENTILE || 90),
+    },
   };
 
   // Validate required environment variables
@@ -1,6 +1,8 @@
 export const WALLET_ACTIONS = {
   SEND: "send",
   RECEIVE: "receive", 
+  SENT: "sent",
+  HISTORY: "history",
   EARN: "earn",
   TOPUP: "topup",
   SETTINGS: "settings",
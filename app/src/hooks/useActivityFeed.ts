@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import ActivityService from '@/services/activityService';
+import { ActivityEntry } from '@/services/activityFeed';
+
+/**
+ * The wallet's activity feed: shows the cache at once, then adds anything newer from the chain
+ */
+export const useActivityFeed = (walletAddress: string) => {
+  const [entries, setEntries] = useState<ActivityEntry[]>(() => ActivityService.getCached(walletAddress)?.entries ?? []);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await ActivityService.refresh(walletAddress);
+      setEntries(page.entries);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('❌ Failed to load activity:', error);
+      setError('Failed to load activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletAddress]);
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const page = await ActivityService.loadMore(walletAddress);
+      setEntries(page.entries);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('❌ Failed to load older activity:', error);
+      setError('Failed to load older activity');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    const cached = ActivityService.getCached(walletAddress);
+    setEntries(cached?.entries ?? []);
+    setHasMore(cached?.hasMore ?? false);
+    refresh();
+  }, [walletAddress, refresh]);
+
+  return {
+    entries,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore
+  };
+};
+
+export default useActivityFeed;
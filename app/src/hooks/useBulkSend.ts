@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
+import { isSolanaWallet } from '@dynamic-labs/solana';
+import BulkSend, { BulkSendParseError, BulkSendRowResult } from '@/services/bulkSend';
+import identityResolver from '@/services/identityProviders';
+import TransactionService, { BulkBatch, BulkTransferItem } from '@/services/transactionService.ts';
+import TransactionTracker from '@/services/transactionTracker';
+import TokenRegistry, { TokenInfo } from '@/services/tokenRegistry';
+import { PriorityLevel } from '@/services/priorityFees';
+import { DEFAULT_ESCROW_EXPIRY_HOURS } from '@/services/escrowExpiry';
+
+// Rows are keyed by their line in the imported file
+const rowId = (row: BulkSendRowResult) => String(row.line);
+
+// One send attempt per imported row: retries of the row reuse its key, so they derive the same escrow
+const rowIdempotencyKey = (attemptId: string, row: BulkSendRowResult) => `${attemptId}:${row.line}`;
+
+/**
+ * Bulk send from a CSV of `email, amount, memo`: registered recipients are paid directly,
+ * everyone else through an escrow, all signed in one wallet prompt.
+ */
+export const useBulkSend = () => {
+  const { primaryWallet, user } = useDynamicContext();
+  const [results, setResults] = useState<BulkSendRowResult[]>([]);
+  const [parseErrors, setParseErrors] = useState<BulkSendParseError[]>([]);
+  const [batches, setBatches] = useState<BulkBatch[] | null>(null);
+  const [token, setToken] = useState<TokenInfo | null>(null);
+  const [transferFees, setTransferFees] = useState<Record<string, number>>({});
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // A new file is a new batch attempt
+  const [attemptId, setAttemptId] = useState(() => crypto.randomUUID());
+
+  const updateRows = (updates: Record<string, Partial<BulkSendRowResult>>) => {
+    setResults(current => current.map(row => updates[rowId(row)] ? { ...row, ...updates[rowId(row)] } : row));
+  };
+
+  const importCsv = (text: string, selectedToken: TokenInfo) => {
+    const { rows, errors } = BulkSend.parseCsv(text, selectedToken.decimals);
+    setResults(rows.map(row => ({ ...row, status: 'pending' })));
+    setParseErrors(errors);
+    setToken(selectedToken);
+    setBatches(null);
+    setError(null);
+    setAttemptId(crypto.randomUUID());
+  };
+
+  /**
+   * Resolve recipients and build the batches for every pending or failed row, so this also retries failures
+   */
+  const prepare = async (
+    payOwnFee = false,
+    priority: PriorityLevel = 'normal',
+    expiresInHours = DEFAULT_ESCROW_EXPIRY_HOURS
+  ) => {
+    if (!primaryWallet || !isSolanaWallet(primaryWallet) || !token) {
+      setError('Please connect a Solana wallet');
+      return;
+    }
+
+    const rows = results.filter(row => row.status === 'pending' || row.status === 'failed');
+    if (rows.length === 0) {
+      return;
+    }
+
+    setIsPreparing(true);
+    setError(null);
+
+    try {
+      // Each distinct email is looked up once
+      const emails = [...new Set(rows.map(row => row.email))];
+      const lookups = await Promise.all(emails.map(email =>
+        identityResolver.resolve(email).then(identity => identity.wallet, () => undefined)
+      ));
+      const addresses = new Map(emails.map((email, index) => [email, lookups[index]]));
+
+      const connection = await primaryWallet.getConnection();
+      const updates: Record<string, Partial<BulkSendRowResult>> = {};
+      const fees: Record<string, number> = {};
+      const items: BulkTransferItem[] = [];
+
+      for (const row of rows) {
+        const address = addresses.get(row.email);
+        if (address === undefined) {
+          updates[rowId(row)] = { status: 'failed', error: 'Could not look up this recipient. Please try again.' };
+          continue;
+        }
+
+        const amount = TokenRegistry.toBaseUnits(row.amount, token);
+        fees[rowId(row)] = (await TokenRegistry.getTransferFee(connection, token, amount)).fee;
+        updates[rowId(row)] = { type: address ? 'direct' : 'escrow', error: undefined };
+        items.push({
+          id: rowId(row),
+          recipientEmail: row.email,
+          recipientAddress: address ?? undefined,
+          amount,
+          memo: row.memo,
+          idempotencyKey: address ? undefined : rowIdempotencyKey(attemptId, row)
+        });
+      }
+
+      const { batches: prepared, failures, existing } = await TransactionService.createBulkTransactions({
+        senderAddress: primaryWallet.address,
+        senderEmail: user?.email,
+        items,
+        tokenMint: token.mint.toBase58(),
+        expiresInHours,
+        payOwnFee,
+        priority
+      });
+
+      prepared.forEach(batch => {
+        batch.itemIds.forEach(itemId => {
+          const escrow = batch.escrows.find(entry => entry.itemId === itemId);
+          updates[itemId] = { ...updates[itemId], status: 'prepared', escrowPda: escrow?.escrowPda };
+        });
+      });
+      failures.forEach(failure => {
+        updates[failure.itemId] = { ...updates[failure.itemId], status: 'failed', error: failure.error };
+      });
+      // An earlier try landed after all, e.g. past a timeout: nothing to send again
+      existing.forEach(escrow => {
+        updates[escrow.itemId] = {
+          ...updates[escrow.itemId],
+          status: 'sent',
+          escrowPda: escrow.escrowPda,
+          transferIntentId: escrow.intentId
+        };
+      });
+
+      updateRows(updates);
+      setTransferFees(current => ({ ...current, ...fees }));
+      setBatches(prepared.length > 0 ? prepared : null);
+    } catch (error) {
+      console.error('❌ Failed to prepare bulk send:', error);
+      setError(error instanceof Error ? error.message : 'Failed to prepare bulk send');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  /**
+   * Sign every prepared batch in one prompt; each row reports its own signature or failure
+   */
+  const confirm = async (): Promise<boolean> => {
+    if (!batches || !primaryWallet || !isSolanaWallet(primaryWallet) || !token) {
+      return false;
+    }
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const rowsById = new Map(results.map(row => [rowId(row), row]));
+      const signer = await primaryWallet.getSigner();
+
+      // Escrows get their transfer intents once their batch is confirmed
+      const settled = await TransactionTracker.signAllAndConfirm(signer, batches.map(batch => ({
+        transaction: batch.transaction,
+        params: {
+          kind: 'bulkSend' as const,
+          walletAddress: primaryWallet.address,
+          lastValidBlockHeight: batch.lastValidBlockHeight,
+          followUp: batch.escrows.length > 0 ? {
+            type: 'createIntents' as const,
+            params: batch.escrows.map(escrow => {
+              const row = rowsById.get(escrow.itemId)!;
+              return {
+                senderWalletAddress: primaryWallet.address,
+                senderEmail: user?.email,
+                recipientEmail: row.email,
+                // The escrow holds what arrived after any transfer fee
+                amount: TokenRegistry.toBaseUnits(row.amount, token) - (transferFees[escrow.itemId] ?? 0),
+                tokenMint: token.mint.toBase58(),
+                message: row.memo,
+                expiresAt: escrow.expiresAt.toISOString(),
+                escrowPda: escrow.escrowPda,
+                idempotencyKey: rowIdempotencyKey(attemptId, row)
+              };
+            })
+          } : undefined
+        }
+      })));
+
+      const updates: Record<string, Partial<BulkSendRowResult>> = {};
+      settled.forEach((result, index) => {
+        const batch = batches[index];
+        batch.itemIds.forEach(itemId => {
+          if (result.status === 'rejected') {
+            updates[itemId] = {
+              status: 'failed',
+              signature: result.reason?.signature,
+              error: result.reason instanceof Error ? result.reason.message : 'Transaction failed.'
+            };
+            return;
+          }
+
+          const escrowIndex = batch.escrows.findIndex(escrow => escrow.itemId === itemId);
+          const transferIntentId = escrowIndex === -1 ? undefined : result.value.intentIds?.[escrowIndex] ?? undefined;
+          updates[itemId] = {
+            status: 'sent',
+            signature: result.value.signature,
+            transferIntentId,
+            // Confirmed on-chain; the tracker keeps retrying the record on the next app load
+            error: escrowIndex !== -1 && !transferIntentId ? 'Sent, but the invitation record is still pending' : undefined
+          };
+        });
+      });
+
+      updateRows(updates);
+      setBatches(null);
+      return true;
+    } catch (error) {
+      // Nothing was signed, so the prepared batches can still be confirmed or cancelled
+      console.error('❌ Bulk send failed:', error);
+      setError(error instanceof Error ? error.message : 'Bulk send failed');
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  /**
+   * Drop the prepared batches; their rows go back to pending
+   */
+  const cancel = () => {
+    setBatches(null);
+    setResults(current => current.map(row => row.status === 'prepared' ? { ...row, status: 'pending' } : row));
+  };
+
+  const reset = () => {
+    setResults([]);
+    setParseErrors([]);
+    setBatches(null);
+    setToken(null);
+    setTransferFees({});
+    setError(null);
+  };
+
+  return {
+    results,
+    parseErrors,
+    batches,
+    token,
+    importCsv,
+    prepare,
+    confirm,
+    cancel,
+    reset,
+    getReportCsv: () => BulkSend.toReportCsv(results),
+    isPreparing,
+    isSending,
+    error,
+    clearError: () => setError(null)
+  };
+};
+
+export default useBulkSend;
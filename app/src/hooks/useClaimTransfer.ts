@@ -2,7 +2,12 @@ import { useState } from 'react';
 import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
 import { isSolanaWallet } from '@dynamic-labs/solana';
 import TransferIntentService from '@/services/transferService';
-import TransactionService from '@/services/transactionService.ts';
+import TransactionService, { TransactionResult } from '@/services/transactionService.ts';
+import TransactionSimulator from '@/services/transactionSimulator';
+import TransactionTracker from '@/services/transactionTracker';
+import { PriorityLevel } from '@/services/priorityFees';
+import identityResolver from '@/services/identityProviders';
+import PhoneWalletService from '@/services/phoneWallet';
 
 interface ClaimResult {
   success: boolean;
@@ -10,12 +15,69 @@ interface ClaimResult {
   error?: string;
 }
 
+interface PrepareClaimResult {
+  success: boolean;
+  prepared?: TransactionResult;
+  error?: string;
+}
+
+interface PhoneCodeResult {
+  success: boolean;
+  phone?: string; // E.164, as the transfers were sent to it
+  error?: string;
+}
+
 export const useClaimTransfer = () => {
   const { primaryWallet } = useDynamicContext();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const claimTransfer = async (transferId: string): Promise<ClaimResult> => {
+  // Validate the transfer intent and build the simulated claim transaction
+  const buildClaim = async (
+    transferId: string,
+    walletAddress: string,
+    priority: PriorityLevel = 'normal'
+  ): Promise<TransactionResult> => {
+    console.log('🎯 Starting claim transfer process for:', transferId);
+
+    // Step 1: Get transfer intent from database
+    const transferIntent = await TransferIntentService.getTransferIntent(transferId);
+    if (!transferIntent) {
+      throw new Error('Transfer not found');
+    }
+
+    // Step 2: Validate transfer can be claimed
+    if (!transferIntent.escrowPda) {
+      throw new Error('This transfer cannot be claimed - no escrow found');
+    }
+
+    if (transferIntent.status === 'claimed') {
+      throw new Error('Transfer has already been claimed');
+    }
+
+    if (transferIntent.status === 'expired' || new Date(transferIntent.expiresAt) < new Date()) {
+      throw new Error('Transfer has expired');
+    }
+
+    // Phone escrows only open for whoever entered the SMS code sent to the number
+    if (transferIntent.recipientType === 'phone') {
+      await PhoneWalletService.assertVerified(transferIntent.recipientEmail);
+    }
+
+    console.log('✅ Transfer validation passed, creating transaction...');
+
+    // Step 3: Create and simulate claim transaction
+    return TransactionService.claimEscrowTransaction(
+      transferIntent.escrowPda,
+      walletAddress,
+      priority
+    );
+  };
+
+  /**
+   * Build and simulate the claim so the modal can preview it before the signer opens
+   */
+  const prepareClaim = async (transferId: string, priority?: PriorityLevel): Promise<PrepareClaimResult> => {
     if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
       return {
         success: false,
@@ -27,51 +89,54 @@ export const useClaimTransfer = () => {
     setError(null);
 
     try {
-      console.log('🎯 Starting claim transfer process for:', transferId);
+      const prepared = await buildClaim(transferId, primaryWallet.address, priority);
+      return {
+        success: true,
+        prepared
+      };
+    } catch (error) {
+      console.error('❌ Failed to prepare claim:', error);
 
-      // Step 1: Get transfer intent from database
-      const transferIntent = await TransferIntentService.getTransferIntent(transferId);
-      if (!transferIntent) {
-        throw new Error('Transfer not found');
-      }
+      const errorMessage = error instanceof Error ? error.message : 'Failed to claim transfer';
+      setError(errorMessage);
 
-      // Step 2: Validate transfer can be claimed
-      if (!transferIntent.escrowPda) {
-        throw new Error('This transfer cannot be claimed - no escrow found');
-      }
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      if (transferIntent.status === 'claimed') {
-        throw new Error('Transfer has already been claimed');
-      }
+  const claimTransfer = async (transferId: string, prepared?: TransactionResult): Promise<ClaimResult> => {
+    if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
+      return {
+        success: false,
+        error: 'No Solana wallet connected'
+      };
+    }
 
-      if (transferIntent.status === 'expired' || new Date(transferIntent.expiresAt) < new Date()) {
-        throw new Error('Transfer has expired');
-      }
+    setIsLoading(true);
+    setError(null);
 
-      console.log('✅ Transfer validation passed, creating transaction...');
+    try {
+      const transactionResult = prepared ?? await buildClaim(transferId, primaryWallet.address);
 
-      // Step 3: Create claim transaction
-      const transactionResult = await TransactionService.claimEscrowTransaction(
-        transferIntent.escrowPda,
-        primaryWallet.address
-      );
+      // Never open the signer for a transaction that is known to fail
+      TransactionSimulator.assertSuccess(transactionResult.simulation);
 
       console.log('✅ Transaction created, requesting user signature...');
 
-      // Step 4: Sign and send transaction with user's wallet
+      // Step 4: Sign with user's wallet and wait for confirmation
+      // Step 5: The tracker marks the intent claimed only once the transaction is confirmed
       const signer = await primaryWallet.getSigner();
-      const { signature: txHash } = await signer.signAndSendTransaction(transactionResult.transaction);
-
-      console.log('✅ Transaction signed and sent, updating database...');
-
-      // Step 5: Update database status after successful transaction
-      const updateResult = await TransferIntentService.claimTransferIntent(transferId, primaryWallet.address, txHash);
-      
-      if (!updateResult.success) {
-        console.warn('⚠️ Transaction succeeded but database update failed:', updateResult.error);
-        // Transaction succeeded on-chain, so we still return success
-        // The database inconsistency will need to be handled separately
-      }
+      const { signature: txHash } = await TransactionTracker.signAndConfirm(signer, transactionResult.transaction, {
+        kind: 'claim',
+        walletAddress: primaryWallet.address,
+        lastValidBlockHeight: transactionResult.lastValidBlockHeight,
+        followUp: { type: 'claimIntent', intentId: transferId, recipientWallet: primaryWallet.address }
+      });
 
       console.log('🎉 Claim transfer completed successfully!', { txHash });
 
@@ -95,10 +160,51 @@ export const useClaimTransfer = () => {
     }
   };
 
+  const normalizePhone = (input: string): string | null =>
+    identityResolver.getProvider('phone')?.normalize(input.trim()) ?? null;
+
+  /**
+   * Text a one-time code to the number transfers were sent to
+   */
+  const requestPhoneCode = async (input: string): Promise<PhoneCodeResult> => {
+    const phone = normalizePhone(input);
+    if (!phone) {
+      return { success: false, error: 'Enter your number with its country code, e.g. +14155550123' };
+    }
+
+    try {
+      await PhoneWalletService.sendCode(phone);
+      return { success: true, phone };
+    } catch (error) {
+      console.error('❌ Failed to send phone code:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send the code' };
+    }
+  };
+
+  /**
+   * Check the code and link the number to the connected wallet, so later sends go straight to it
+   */
+  const verifyPhone = async (phone: string, code: string): Promise<PhoneCodeResult> => {
+    if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
+      return { success: false, error: 'No Solana wallet connected' };
+    }
+
+    try {
+      await PhoneWalletService.verifyAndRegister(phone, code, primaryWallet.address);
+      return { success: true, phone };
+    } catch (error) {
+      console.error('❌ Failed to verify phone:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to verify the code' };
+    }
+  };
+
   const clearError = () => setError(null);
 
   return {
+    prepareClaim,
     claimTransfer,
+    requestPhoneCode,
+    verifyPhone,
     isLoading,
     error,
     clearError
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
+import { toast } from '@/hooks/use-toast';
+import PaymentRequestService from '@/services/paymentRequestService';
+import TokenRegistry from '@/services/tokenRegistry';
+
+/**
+ * Hook to watch the wallet's open Solana Pay requests, including ones made before a reload.
+ * Calls onPaid once a payment arrives so balances can be refreshed.
+ */
+export const usePaymentRequestWatcher = (onPaid?: () => void) => {
+  const { primaryWallet } = useDynamicContext();
+
+  // Latest callback without restarting the subscription on every render
+  const onPaidRef = useRef(onPaid);
+  onPaidRef.current = onPaid;
+
+  useEffect(() => {
+    const walletAddress = primaryWallet?.address;
+    if (!walletAddress) {
+      return;
+    }
+
+    PaymentRequestService.getOpenRequests(walletAddress)
+      .then(requests => requests.forEach(request => PaymentRequestService.watch(request)))
+      .catch(error => console.error('Failed to resume payment requests:', error));
+
+    const unsubscribe = PaymentRequestService.subscribe(request => {
+      if (request.walletAddress !== walletAddress) {
+        return;
+      }
+      const token = TokenRegistry.getByMint(request.tokenMint) ?? TokenRegistry.getDefaultToken();
+      toast({ title: 'Payment received', description: `Your request for ${request.amount} ${token.symbol} was paid.` });
+      onPaidRef.current?.();
+    });
+
+    return () => {
+      unsubscribe();
+      PaymentRequestService.unwatchAll();
+    };
+  }, [primaryWallet?.address]);
+};
+
+export default usePaymentRequestWatcher;
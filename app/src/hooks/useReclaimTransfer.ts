@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
+import { isSolanaWallet } from '@dynamic-labs/solana';
+import { OutgoingTransfer } from '@/services/outgoingTransfers';
+import TransactionService from '@/services/transactionService.ts';
+import TransactionSimulator from '@/services/transactionSimulator';
+import TransactionTracker from '@/services/transactionTracker';
+
+interface ReclaimResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+}
+
+export const useReclaimTransfer = () => {
+  const { primaryWallet } = useDynamicContext();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reclaimTransfer = async (transfer: OutgoingTransfer): Promise<ReclaimResult> => {
+    if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
+      return {
+        success: false,
+        error: 'No Solana wallet connected'
+      };
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('🎯 Starting reclaim process for:', transfer.escrowPda);
+
+      if (!transfer.isExpired) {
+        throw new Error('This transfer has not expired yet');
+      }
+
+      if (!transfer.canReclaim) {
+        throw new Error('This transfer was already claimed or reclaimed');
+      }
+
+      // Step 1: Create reclaim transaction
+      const transactionResult = await TransactionService.createReclaimTransaction(
+        transfer.escrowPda,
+        primaryWallet.address
+      );
+      TransactionSimulator.assertSuccess(transactionResult.simulation);
+
+      console.log('✅ Transaction created, requesting user signature...');
+
+      // Step 2: Sign with user's wallet and wait for confirmation
+      // Step 3: Once confirmed, the tracker records the reclaim on the transfer intent, if the escrow has one
+      const signer = await primaryWallet.getSigner();
+      const { signature: txHash } = await TransactionTracker.signAndConfirm(signer, transactionResult.transaction, {
+        kind: 'reclaim',
+        walletAddress: primaryWallet.address,
+        lastValidBlockHeight: transactionResult.lastValidBlockHeight,
+        followUp: transfer.intentId ? { type: 'reclaimIntent', intentId: transfer.intentId } : undefined
+      });
+
+      console.log('🎉 Reclaim completed successfully!', { txHash });
+
+      return {
+        success: true,
+        txHash
+      };
+
+    } catch (error) {
+      console.error('❌ Failed to reclaim transfer:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reclaim transfer';
+      setError(errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return {
+    reclaimTransfer,
+    isLoading,
+    error,
+    clearError
+  };
+};
+
+export default useReclaimTransfer;
@@ -4,8 +4,10 @@ import {useState, useCallback} from 'react';
 import {useDynamicContext} from '@dynamic-labs/sdk-react-core';
 import {isSolanaWallet} from '@dynamic-labs/solana';
 import {useToast} from '@/hooks/use-toast';
-import EmailResolver from '@/services/emailResolver';
+import identityResolver from '@/services/identityProviders';
 import TransactionService from '@/services/transactionService.ts';
+import TransactionSimulator from '@/services/transactionSimulator';
+import TransactionTracker from '@/services/transactionTracker';
 import TransferIntentService from '@/services/transferService';
 
 export interface UseSendUsdcOptions {
@@ -16,7 +18,7 @@ export interface UseSendUsdcOptions {
 }
 
 export interface UseSendUsdcReturn {
-    sendUsdc: (email: string, amount: string) => Promise<void>;
+    sendUsdc: (recipient: string, amount: string) => Promise<void>; // Any identity the registry handles
     isLoading: boolean;
     error: string | null;
     transactionSignature: string | null;
@@ -45,7 +47,7 @@ export const useSendUsdc = (options: UseSendUsdcOptions = {}): UseSendUsdcReturn
     const isReady = !!(isSolana && usdcMintAddress && rpcUrl);
 
     // Main send function
-    const sendUsdc = useCallback(async (email: string, amount: string) => {
+    const sendUsdc = useCallback(async (recipient: string, amount: string) => {
         if (!isReady) {
             const errorMsg = "Wallet not ready for USDC transactions";
             setError(errorMsg);
@@ -67,43 +69,52 @@ export const useSendUsdc = (options: UseSendUsdcOptions = {}): UseSendUsdcReturn
 
             console.log('💸 Processing USDC amount:', amountInLamports, 'base units');
 
-            // Step 1: Try to resolve email to wallet address
+            // Step 1: Try to resolve the recipient to a wallet address
             toast({
                 title: "Processing transaction...",
-                description: `Sending ${amount} USDC to ${email}`,
+                description: `Sending ${amount} USDC to ${recipient}`,
             });
 
-            console.log('📧 Resolving email to wallet address...');
-            const resolvedAddress = await EmailResolver.resolveEmailToAddress(email);
+            console.log('📧 Resolving recipient to wallet address...');
+            const identity = await identityResolver.resolve(recipient);
+            const resolvedAddress = identity.wallet;
 
             if (resolvedAddress) {
                 // Direct transfer flow - recipient is registered
-                console.log('✅ Email resolved to:', resolvedAddress);
+                console.log('✅ Recipient resolved to:', resolvedAddress);
                 console.log('🎯 Creating direct transfer...');
 
-                // Create gasless transaction
+                // Create and simulate gasless transaction
                 const gaslessTransaction = await TransactionService.createGaslessTransaction({
                     senderAddress: primaryWallet.address,
                     recipientAddress: resolvedAddress,
                     amount: amountInLamports,
                 });
+                TransactionSimulator.assertSuccess(gaslessTransaction.simulation);
 
-                // Get signer and execute transaction
+                // Get signer, execute transaction and wait for confirmation
                 const signer = await primaryWallet.getSigner();
                 console.log('✍️ User signing gasless transaction...');
-                const { signature } = await signer.signAndSendTransaction(gaslessTransaction);
+                const { signature } = await TransactionTracker.signAndConfirm(signer, gaslessTransaction.transaction, {
+                    kind: 'send',
+                    walletAddress: primaryWallet.address,
+                    lastValidBlockHeight: gaslessTransaction.lastValidBlockHeight
+                });
 
-                console.log('✅ Direct transfer successful:', signature);
+                console.log('✅ Direct transfer confirmed:', signature);
                 setTransactionSignature(signature);
             } else {
                 // Transfer intent flow - recipient is not registered
                 // Only create database record, NO transaction sent
+                if (!identityResolver.getProvider(identity.type)?.escrowable) {
+                    throw new Error(`Sending to an unregistered ${identity.type} is not supported here`);
+                }
                 console.log('📝 Recipient not registered, creating transfer intent (no transaction sent)...');
 
                 const transferIntent = await TransferIntentService.createTransferIntent({
                     senderWalletAddress: primaryWallet.address,
                     senderEmail: user?.email || undefined,
-                    recipientEmail: email,
+                    recipientEmail: identity.value,
                     amount: amountInLamports,
                 });
 
@@ -114,7 +125,7 @@ export const useSendUsdc = (options: UseSendUsdcOptions = {}): UseSendUsdcReturn
             // Same success message regardless of flow
             toast({
                 title: "Transaction Successful! 🎉",
-                description: `Sent ${amount} USDC to ${email}`,
+                description: `Sent ${amount} USDC to ${recipient}`,
             });
 
             // Call success callback
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
+import { toast } from '@/hooks/use-toast';
+import TransactionTracker, { TrackedTransaction } from '@/services/transactionTracker';
+
+/**
+ * Hook to resume transactions that were still in flight when the page was reloaded.
+ * Calls onConfirmed once one of them lands so balances can be refreshed.
+ */
+export const useTransactionTracker = (onConfirmed?: () => void) => {
+  const { primaryWallet } = useDynamicContext();
+  const [inFlight, setInFlight] = useState<TrackedTransaction[]>([]);
+
+  // Latest callback without restarting the subscription on every render
+  const onConfirmedRef = useRef(onConfirmed);
+  onConfirmedRef.current = onConfirmed;
+
+  useEffect(() => {
+    const walletAddress = primaryWallet?.address;
+    if (!walletAddress) {
+      return;
+    }
+
+    // Only the resumed ones; transactions sent in this session are reported by their own flow
+    const resumed = new Set(TransactionTracker.resume(walletAddress).map(transaction => transaction.signature));
+    setInFlight(TransactionTracker.getInFlight(walletAddress));
+
+    const unsubscribe = TransactionTracker.subscribe(transaction => {
+      if (transaction.walletAddress !== walletAddress) {
+        return;
+      }
+      setInFlight(TransactionTracker.getInFlight(walletAddress));
+
+      if (!resumed.has(transaction.signature)) {
+        return;
+      }
+
+      if (transaction.status === 'confirmed' || transaction.status === 'finalized') {
+        resumed.delete(transaction.signature);
+        toast({ title: 'Transaction confirmed', description: 'A pending transaction has completed.' });
+        onConfirmedRef.current?.();
+      } else if (transaction.status === 'dropped' || transaction.status === 'failed') {
+        resumed.delete(transaction.signature);
+        toast({
+          title: 'Transaction failed',
+          description: transaction.error || 'A pending transaction did not complete.',
+          variant: 'destructive'
+        });
+      }
+    });
+
+    return unsubscribe;
+  }, [primaryWallet?.address]);
+
+  return {
+    inFlight
+  };
+};
+
+export default useTransactionTracker;
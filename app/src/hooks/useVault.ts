@@ -2,7 +2,10 @@ import { useState, useEffect } from 'react';
 import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
 import { isSolanaWallet } from '@dynamic-labs/solana';
 import { PublicKey } from '@solana/web3.js';
-import TransactionService from '@/services/transactionService';
+import TransactionService, { TransactionResult } from '@/services/transactionService';
+import TransactionSimulator from '@/services/transactionSimulator';
+import TransactionTracker from '@/services/transactionTracker';
+import { PriorityLevel } from '@/services/priorityFees';
 
 interface VaultState {
   userBalance: number;
@@ -12,9 +15,17 @@ interface VaultState {
   error: string | null;
 }
 
+interface PrepareVaultResult {
+  success: boolean;
+  prepared?: TransactionResult;
+  error?: string;
+}
+
 interface VaultActions {
-  deposit: (amount: number) => Promise<{ success: boolean; txHash?: string; error?: string }>;
-  withdraw: (amount: number) => Promise<{ success: boolean; txHash?: string; error?: string }>;
+  prepareDeposit: (amount: number, priority?: PriorityLevel) => Promise<PrepareVaultResult>;
+  prepareWithdraw: (amount: number, priority?: PriorityLevel) => Promise<PrepareVaultResult>;
+  deposit: (amount: number, prepared?: TransactionResult) => Promise<{ success: boolean; txHash?: string; error?: string }>;
+  withdraw: (amount: number, prepared?: TransactionResult) => Promise<{ success: boolean; txHash?: string; error?: string }>;
   refreshBalance: () => Promise<void>;
   clearError: () => void;
 }
@@ -70,8 +81,43 @@ export const useVault = (): VaultState & VaultActions => {
     }
   }, [primaryWallet?.address]);
 
+  // Build and simulate a vault transaction so the modal can preview it before the signer opens
+  const prepare = async (
+    action: 'deposit' | 'withdraw',
+    amount: number,
+    priority: PriorityLevel = 'normal'
+  ): Promise<PrepareVaultResult> => {
+    if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
+      return {
+        success: false,
+        error: 'No Solana wallet connected'
+      };
+    }
+
+    try {
+      const userWallet = new PublicKey(primaryWallet.address);
+      const prepared = action === 'deposit'
+        ? await TransactionService.createDepositTransaction(userWallet, amount, priority)
+        : await TransactionService.createWithdrawTransaction(userWallet, amount, priority);
+
+      return {
+        success: true,
+        prepared
+      };
+    } catch (error) {
+      console.error(`Vault ${action} preview failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${action === 'deposit' ? 'Deposit' : 'Withdrawal'} failed`
+      };
+    }
+  };
+
+  const prepareDeposit = (amount: number, priority?: PriorityLevel) => prepare('deposit', amount, priority);
+  const prepareWithdraw = (amount: number, priority?: PriorityLevel) => prepare('withdraw', amount, priority);
+
   // Deposit funds to vault
-  const deposit = async (amount: number): Promise<{ success: boolean; txHash?: string; error?: string }> => {
+  const deposit = async (amount: number, prepared?: TransactionResult): Promise<{ success: boolean; txHash?: string; error?: string }> => {
     if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
       return {
         success: false,
@@ -84,17 +130,22 @@ export const useVault = (): VaultState & VaultActions => {
     try {
       const userWallet = new PublicKey(primaryWallet.address);
       
-      // Create deposit transaction
-      const transactionResult = await TransactionService.createDepositTransaction(
+      // Create deposit transaction unless it was already built for the preview
+      const transactionResult = prepared ?? await TransactionService.createDepositTransaction(
         userWallet,
         amount
       );
+      TransactionSimulator.assertSuccess(transactionResult.simulation);
 
-      // Sign and send transaction
+      // Sign, send and wait for confirmation
       const signer = await primaryWallet.getSigner();
-      const { signature: txHash } = await signer.signAndSendTransaction(transactionResult.transaction);
+      const { signature: txHash } = await TransactionTracker.signAndConfirm(signer, transactionResult.transaction, {
+        kind: 'deposit',
+        walletAddress: primaryWallet.address,
+        lastValidBlockHeight: transactionResult.lastValidBlockHeight
+      });
 
-      // Refresh balance after successful deposit
+      // Refresh balance after the deposit is confirmed
       await refreshBalance();
 
       setState(prev => ({ ...prev, isLoading: false }));
@@ -121,7 +172,7 @@ export const useVault = (): VaultState & VaultActions => {
   };
 
   // Withdraw funds from vault
-  const withdraw = async (amount: number): Promise<{ success: boolean; txHash?: string; error?: string }> => {
+  const withdraw = async (amount: number, prepared?: TransactionResult): Promise<{ success: boolean; txHash?: string; error?: string }> => {
     if (!primaryWallet || !isSolanaWallet(primaryWallet)) {
       return {
         success: false,
@@ -134,17 +185,22 @@ export const useVault = (): VaultState & VaultActions => {
     try {
       const userWallet = new PublicKey(primaryWallet.address);
       
-      // Create withdraw transaction
-      const transactionResult = await TransactionService.createWithdrawTransaction(
+      // Create withdraw transaction unless it was already built for the preview
+      const transactionResult = prepared ?? await TransactionService.createWithdrawTransaction(
         userWallet,
         amount
       );
+      TransactionSimulator.assertSuccess(transactionResult.simulation);
 
-      // Sign and send transaction
+      // Sign, send and wait for confirmation
       const signer = await primaryWallet.getSigner();
-      const { signature: txHash } = await signer.signAndSendTransaction(transactionResult.transaction);
+      const { signature: txHash } = await TransactionTracker.signAndConfirm(signer, transactionResult.transaction, {
+        kind: 'withdraw',
+        walletAddress: primaryWallet.address,
+        lastValidBlockHeight: transactionResult.lastValidBlockHeight
+      });
 
-      // Refresh balance after successful withdrawal
+      // Refresh balance after the withdrawal is confirmed
       await refreshBalance();
 
       setState(prev => ({ ...prev, isLoading: false }));
@@ -176,6 +232,8 @@ export const useVault = (): VaultState & VaultActions => {
 
   return {
     ...state,
+    prepareDeposit,
+    prepareWithdraw,
     deposit,
     withdraw,
     refreshBalance,
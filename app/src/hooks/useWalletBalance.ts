@@ -1,22 +1,31 @@
 import { useState, useEffect, useCallback } from 'react';
 import { PublicKey } from '@solana/web3.js';
-import { getAccount, getAssociatedTokenAddress } from '@solana/spl-token';
+import { getAssociatedTokenAddressSync, unpackAccount } from '@solana/spl-token';
 import { isSolanaWallet } from '@dynamic-labs/solana';
 import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
+import TokenRegistry, { TokenInfo } from '@/services/tokenRegistry';
 
-const USDC_DECIMALS = 6;
+export interface TokenBalance {
+  token: TokenInfo;
+  balance: string; // Display units with 2 decimals
+  amount: number; // Base units
+}
 
-export const useWalletBalance = (usdcMintAddress?: string) => {
+const emptyBalances = (): TokenBalance[] =>
+  TokenRegistry.getTokens().map(token => ({ token, balance: "0.00", amount: 0 }));
+
+export const useWalletBalance = () => {
   const { primaryWallet } = useDynamicContext();
-  const [balance, setBalance] = useState<string>("0.00");
+  const [balances, setBalances] = useState<TokenBalance[]>(emptyBalances);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | undefined>(undefined);
-  
+
   const isSolana = primaryWallet && isSolanaWallet(primaryWallet);
 
   const fetchBalance = useCallback(async () => {
-    if (!isSolana || !usdcMintAddress || !primaryWallet) {
-      setBalance("0.00");
+    const tokens = TokenRegistry.getTokens();
+    if (!isSolana || tokens.length === 0 || !primaryWallet) {
+      setBalances(emptyBalances());
       setIsLoading(false);
       return;
     }
@@ -28,39 +37,48 @@ export const useWalletBalance = (usdcMintAddress?: string) => {
       const connection = await primaryWallet.getConnection();
       const walletPublicKey = new PublicKey(primaryWallet.address);
 
-      const tokenAccount = await getAssociatedTokenAddress(
-        new PublicKey(usdcMintAddress),
-        walletPublicKey
+      // One round trip for every token account in the registry
+      const tokenAccounts = tokens.map(token =>
+        getAssociatedTokenAddressSync(token.mint, walletPublicKey, false, token.programId)
       );
+      const accountInfos = await connection.getMultipleAccountsInfo(tokenAccounts);
 
-      try {
-        const tokenAccountInfo = await getAccount(connection, tokenAccount);
-        const balanceAmount = Number(tokenAccountInfo.amount) / Math.pow(10, USDC_DECIMALS);
-        setBalance(balanceAmount.toFixed(2));
-      } catch {
+      setBalances(tokens.map((token, index) => {
+        const accountInfo = accountInfos[index];
         // Token account doesn't exist, balance is 0
-        setBalance("0.00");
-      }
+        const amount = accountInfo
+          ? Number(unpackAccount(tokenAccounts[index], accountInfo, token.programId).amount)
+          : 0;
+        return {
+          token,
+          balance: TokenRegistry.fromBaseUnits(amount, token).toFixed(2),
+          amount
+        };
+      }));
     } catch (error) {
-      console.error("Error fetching USDC balance:", error);
+      console.error("Error fetching token balances:", error);
       setError(
-        error instanceof Error ? error.message : "Failed to fetch USDC balance"
+        error instanceof Error ? error.message : "Failed to fetch token balances"
       );
-      setBalance("0.00");
+      setBalances(emptyBalances());
     } finally {
       setIsLoading(false);
     }
-  }, [isSolana, usdcMintAddress, primaryWallet]);
+  }, [isSolana, primaryWallet]);
 
   useEffect(() => {
     fetchBalance();
   }, [fetchBalance]);
 
+  // USDC stays the headline balance
+  const balance = balances.find(entry => entry.token.symbol === 'USDC')?.balance ?? "0.00";
+
   return {
     balance,
+    balances,
     isLoading,
     error,
     refetch: fetchBalance,
     clearError: () => setError(undefined)
   };
-};
\ No newline at end of file
+};
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { getAuthToken } from '@dynamic-labs/sdk-react-core';
+import { USER_TOKEN_HEADER } from '@/services/dynamicAuth';
 
 // Supabase configuration
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -21,6 +23,12 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 });
 
+// Edge functions that act for the signed-in user verify their Dynamic JWT from this header
+export const getUserAuthHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return token ? { [USER_TOKEN_HEADER]: token } : {};
+};
+
 // Database types based on our schema
 export interface EmailWallet {
   id: string;
@@ -35,6 +43,7 @@ export interface EmailWallet {
 export interface TransferIntent {
   id: string;
   sender_wallet: string;
+  recipient_type: 'email' | 'phone';
   recipient_email: string;
   recipient_email_hash: string;
   claimed_by_wallet?: string;
@@ -45,10 +54,15 @@ export interface TransferIntent {
   status: 'pending' | 'claimed' | 'cancelled' | 'expired';
   creation_tx_hash?: string;
   claim_tx_hash?: string;
+  reclaim_tx_hash?: string;
+  escrow_pda?: string;
+  idempotency_key?: string;
+  last_reconciled_at?: string;
   expires_at: string;
   created_at: string;
   claimed_at?: string;
   cancelled_at?: string;
+  reclaimed_at?: string;
 }
 
 export interface TransferNotification {
@@ -1,6 +1,12 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { ENV_CONFIG } from "@/config/environment"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function getExplorerUrl(type: "address" | "tx", value: string) {
+  const cluster = ENV_CONFIG.solanaCluster === "mainnet-beta" ? "" : `?cluster=${ENV_CONFIG.solanaCluster}`
+  return `https://explorer.solana.com/${type}/${value}${cluster}`
+}
@@ -12,7 +12,7 @@ import { ENV_CONFIG } from "@/config/environment";
 const Index = () => {
   const [activeModal, setActiveModal] = useState<string | null>(null);
   const { user, primaryWallet } = useDynamicContext();
-  const { balance: usdcBalance, refetch: refetchBalance } = useWalletBalance();
+  const { balance: usdcBalance, balances: tokenBalances, refetch: refetchBalance } = useWalletBalance();
 
   const closeModal = () => setActiveModal(null);
 
@@ -27,10 +27,11 @@ const Index = () => {
     <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
       <WalletCard onAction={setActiveModal} />
       
-      <Modal isOpen={activeModal === "send"} onClose={closeModal} title="Send USDC">
+      <Modal isOpen={activeModal === "send"} onClose={closeModal} title="Send">
         <SendModal 
           onClose={closeModal}
           balance={usdcBalance}
+          balances={tokenBalances}
           usdcMintAddress={ENV_CONFIG.usdcMintAddress}
           onTransactionSuccess={handleTransactionSuccess}
         />
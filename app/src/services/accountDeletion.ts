@@ -125,7 +125,8 @@ export class AccountDeletionService {
         'fy-notification-preferences', 
         'fy-cached-balance',
         'fy-transaction-history',
-        'fy-last-sync'
+        'fy-last-sync',
+        'fy-completed-sends'
       ];
 
       keysToRemove.forEach(key => {
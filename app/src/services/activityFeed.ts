@@ -0,0 +1,235 @@
+// src/services/activityFeed.ts
+
+import { ConfirmedSignatureInfo, VersionedTransactionResponse } from '@solana/web3.js';
+import {
+    FYMONEY_DISCRIMINATORS,
+    FYMONEY_PROGRAM_ID,
+    YIELD_VAULT_DISCRIMINATORS,
+    YIELD_VAULT_PROGRAM_ID
+} from './sponsorshipPolicy';
+import { MEMO_PROGRAM_ID } from './memo';
+
+// Shared by ActivityService and the root tests, so keep it free of app aliases.
+
+// The escrow account comes first in initialize_escrow, claim_escrow and reclaim_expired_escrow
+const ESCROW_ACCOUNT_INDEX = 0;
+
+export type ActivityKind =
+    | 'sent'
+    | 'received'
+    | 'escrowCreated'
+    | 'escrowClaimed'
+    | 'escrowReclaimed'
+    | 'vaultDeposit'
+    | 'vaultWithdraw';
+
+export const ACTIVITY_DIRECTION: Record<ActivityKind, 'in' | 'out'> = {
+    sent: 'out',
+    received: 'in',
+    escrowCreated: 'out',
+    escrowClaimed: 'in',
+    escrowReclaimed: 'in',
+    vaultDeposit: 'out',
+    vaultWithdraw: 'in',
+};
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+    sent: 'Sent',
+    received: 'Received',
+    escrowCreated: 'Sent to email',
+    escrowClaimed: 'Claimed',
+    escrowReclaimed: 'Reclaimed',
+    vaultDeposit: 'Deposited to vault',
+    vaultWithdraw: 'Withdrawn from vault',
+};
+
+export interface ActivityEntry {
+    signature: string;
+    slot: number;
+    blockTime: number | null; // Unix seconds
+    kind: ActivityKind;
+    amount: number; // Base units that left or reached the wallet
+    tokenMint?: string; // Missing when no token balance of the wallet changed
+    counterpartyWallet?: string;
+    counterpartyEmail?: string; // Filled in by ActivityService from transfer_intents and email_wallets
+    escrowPda?: string;
+    memo?: string;
+}
+
+// How far one address's signature page was read by a merge
+export interface SignatureCursor {
+    before?: string; // Oldest signature consumed; the next page starts after it
+    exhausted: boolean; // No older signatures left for this address
+}
+
+interface TokenChange {
+    owner: string;
+    mint: string;
+    delta: bigint;
+}
+
+export class ActivityFeed {
+    /**
+     * One feed entry per transaction, or null when it moved nothing for this wallet
+     */
+    static parseTransaction(wallet: string, response: VersionedTransactionResponse): ActivityEntry | null {
+        const { meta, transaction } = response;
+        if (!meta || meta.err) {
+            return null;
+        }
+
+        const { message, signatures } = transaction;
+        const keys = message.getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses });
+
+        let kind: ActivityKind | undefined;
+        let escrowPda: string | undefined;
+        let instructionAmount: number | undefined;
+        let memo: string | undefined;
+
+        message.compiledInstructions.forEach(ix => {
+            const programId = keys.get(ix.programIdIndex);
+            const data = Buffer.from(ix.data);
+
+            if (programId?.equals(MEMO_PROGRAM_ID)) {
+                memo = data.toString('utf8');
+            } else if (programId?.equals(FYMONEY_PROGRAM_ID) && !kind) {
+                escrowPda = keys.get(ix.accountKeyIndexes[ESCROW_ACCOUNT_INDEX])?.toBase58();
+                if (this.hasDiscriminator(data, FYMONEY_DISCRIMINATORS.initializeEscrow)) {
+                    kind = 'escrowCreated';
+                    instructionAmount = this.readAmount(data);
+                } else if (this.hasDiscriminator(data, FYMONEY_DISCRIMINATORS.claimEscrow)) {
+                    kind = 'escrowClaimed';
+                } else if (this.hasDiscriminator(data, FYMONEY_DISCRIMINATORS.reclaimExpiredEscrow)) {
+                    kind = 'escrowReclaimed';
+                }
+            } else if (programId?.equals(YIELD_VAULT_PROGRAM_ID) && !kind) {
+                if (this.hasDiscriminator(data, YIELD_VAULT_DISCRIMINATORS.deposit)) {
+                    kind = 'vaultDeposit';
+                    instructionAmount = this.readAmount(data);
+                } else if (this.hasDiscriminator(data, YIELD_VAULT_DISCRIMINATORS.withdraw)) {
+                    kind = 'vaultWithdraw';
+                    instructionAmount = this.readAmount(data);
+                }
+            }
+        });
+
+        // The wallet's own balance change is what actually moved, after any Token-2022 fee
+        const changes = this.getTokenChanges(response);
+        const own = changes
+            .filter(change => change.owner === wallet)
+            .sort((a, b) => this.compareMagnitude(b.delta, a.delta))[0];
+
+        if (!kind) {
+            if (!own) {
+                return null;
+            }
+            kind = own.delta < 0n ? 'sent' : 'received';
+        }
+
+        // Plain transfers have the other side in the same mint, moving the opposite way
+        const counterparty = kind === 'sent' || kind === 'received'
+            ? changes
+                .filter(change => own && change.mint === own.mint && change.owner !== wallet && (change.delta < 0n) !== (own.delta < 0n))
+                .sort((a, b) => this.compareMagnitude(b.delta, a.delta))[0]
+            : undefined;
+
+        return {
+            signature: signatures[0],
+            slot: response.slot,
+            blockTime: response.blockTime ?? null,
+            kind,
+            amount: own ? Number(own.delta < 0n ? -own.delta : own.delta) : instructionAmount ?? 0,
+            tokenMint: own?.mint,
+            counterpartyWallet: counterparty?.owner,
+            escrowPda: kind.startsWith('escrow') ? escrowPda : undefined,
+            memo
+        };
+    }
+
+    /**
+     * Merge signature pages of several addresses (the wallet and its token accounts) newest first.
+     * Stops early rather than guess once an address's page is used up but it may have older signatures.
+     */
+    static mergeSignaturePages(
+        pages: Record<string, ConfirmedSignatureInfo[]>,
+        pageSize: number,
+        limit: number
+    ): { signatures: ConfirmedSignatureInfo[]; cursors: Record<string, SignatureCursor> } {
+        const addresses = Object.keys(pages);
+        const positions: Record<string, number> = Object.fromEntries(addresses.map(address => [address, 0]));
+        const seen = new Set<string>();
+        const signatures: ConfirmedSignatureInfo[] = [];
+
+        while (signatures.length < limit) {
+            const blocked = addresses.some(address =>
+                positions[address] === pages[address].length && pages[address].length === pageSize
+            );
+            const candidates = addresses.filter(address => positions[address] < pages[address].length);
+            if (blocked || candidates.length === 0) {
+                break;
+            }
+
+            const next = candidates.reduce((newest, address) =>
+                pages[address][positions[address]].slot > pages[newest][positions[newest]].slot ? address : newest
+            );
+            const info = pages[next][positions[next]++];
+            if (!seen.has(info.signature)) {
+                seen.add(info.signature);
+                signatures.push(info);
+            }
+        }
+
+        // A signature shared by two addresses is consumed on both
+        addresses.forEach(address => {
+            while (positions[address] < pages[address].length && seen.has(pages[address][positions[address]].signature)) {
+                positions[address]++;
+            }
+        });
+
+        const cursors = Object.fromEntries(addresses.map(address => {
+            const position = positions[address];
+            return [address, {
+                before: position > 0 ? pages[address][position - 1].signature : undefined,
+                exhausted: position === pages[address].length && pages[address].length < pageSize
+            }];
+        }));
+
+        return { signatures, cursors };
+    }
+
+    private static getTokenChanges(response: VersionedTransactionResponse): TokenChange[] {
+        const { preTokenBalances = [], postTokenBalances = [] } = response.meta ?? {};
+        const changes = new Map<number, TokenChange>();
+
+        const apply = (balances: typeof preTokenBalances, sign: bigint) => {
+            (balances ?? []).forEach(balance => {
+                if (!balance.owner) {
+                    return;
+                }
+                const change = changes.get(balance.accountIndex) ?? { owner: balance.owner, mint: balance.mint, delta: 0n };
+                change.delta += sign * BigInt(balance.uiTokenAmount.amount);
+                changes.set(balance.accountIndex, change);
+            });
+        };
+        apply(preTokenBalances, -1n);
+        apply(postTokenBalances, 1n);
+
+        return [...changes.values()].filter(change => change.delta !== 0n);
+    }
+
+    private static compareMagnitude(a: bigint, b: bigint): number {
+        const absA = a < 0n ? -a : a;
+        const absB = b < 0n ? -b : b;
+        return absA === absB ? 0 : absA > absB ? 1 : -1;
+    }
+
+    private static readAmount(data: Buffer): number | undefined {
+        return data.length >= 16 ? Number(data.readBigUInt64LE(8)) : undefined;
+    }
+
+    private static hasDiscriminator(data: Uint8Array, discriminator: number[]): boolean {
+        return data.length >= discriminator.length && discriminator.every((byte, i) => data[i] === byte);
+    }
+}
+
+export default ActivityFeed;
@@ -0,0 +1,246 @@
+// src/services/activityService.ts
+
+import { ConfirmedSignatureInfo, Connection, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import ActivityFeed, { ActivityEntry, SignatureCursor } from './activityFeed';
+import TransferIntentService from './transferService';
+import EmailWalletService from './emailWallet';
+import TokenRegistry from './tokenRegistry';
+import { ENV_CONFIG } from '@/config/environment';
+
+// Cleared by AccountDeletionService along with the rest of the local data
+const STORAGE_KEY = 'fy-transaction-history';
+const PAGE_SIZE = 20;
+
+export interface ActivityPage {
+    entries: ActivityEntry[]; // Everything loaded so far, newest first
+    hasMore: boolean;
+}
+
+interface CachedFeed {
+    entries: ActivityEntry[];
+    cursors: Record<string, SignatureCursor>; // Per address, where the next older page starts
+    newest: Record<string, string | undefined>; // Per address, the newest signature seen, where a refresh stops
+    updatedAt: number;
+}
+
+/**
+ * Wallet history from the chain: transfers, escrows and vault moves, with counterparty emails.
+ * Incoming transfers only touch token accounts, so those are read next to the wallet itself.
+ */
+export class ActivityService {
+    private static connection = new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed');
+
+    /**
+     * The cached feed, shown while a refresh runs
+     */
+    static getCached(walletAddress: string): ActivityPage | null {
+        const cached = this.load()[walletAddress];
+        return cached ? this.toPage(cached) : null;
+    }
+
+    /**
+     * Add anything newer than the cache; loads the first page when there is no cache yet
+     */
+    static async refresh(walletAddress: string): Promise<ActivityPage> {
+        const cached = this.load()[walletAddress];
+        if (!cached) {
+            return this.loadFirstPage(walletAddress);
+        }
+
+        const addresses = this.getAddresses(walletAddress);
+        const pages = await Promise.all(addresses.map(address =>
+            this.connection.getSignaturesForAddress(new PublicKey(address), { until: cached.newest[address], limit: PAGE_SIZE })
+        ));
+
+        // More new activity than a page leaves a gap, so start over
+        if (pages.some(page => page.length === PAGE_SIZE)) {
+            return this.loadFirstPage(walletAddress);
+        }
+
+        const known = new Set(cached.entries.map(entry => entry.signature));
+        const fresh = this.dedupe(pages.flat()).filter(info => !known.has(info.signature));
+        const entries = await this.getEntries(walletAddress, fresh);
+
+        const updated: CachedFeed = {
+            ...cached,
+            entries: this.sort([...entries, ...cached.entries]),
+            newest: Object.fromEntries(addresses.map((address, index) => [address, pages[index][0]?.signature ?? cached.newest[address]])),
+            updatedAt: Date.now()
+        };
+        this.save(walletAddress, updated);
+        return this.toPage(updated);
+    }
+
+    /**
+     * Load the next older page
+     */
+    static async loadMore(walletAddress: string): Promise<ActivityPage> {
+        const cached = this.load()[walletAddress];
+        if (!cached) {
+            return this.loadFirstPage(walletAddress);
+        }
+
+        const addresses = this.getAddresses(walletAddress).filter(address => !cached.cursors[address]?.exhausted);
+        const { signatures, cursors } = await this.fetchPage(addresses, cached.cursors);
+        const known = new Set(cached.entries.map(entry => entry.signature));
+        const entries = await this.getEntries(walletAddress, signatures.filter(info => !known.has(info.signature)));
+
+        const updated: CachedFeed = {
+            ...cached,
+            entries: this.sort([...cached.entries, ...entries]),
+            cursors: { ...cached.cursors, ...cursors },
+            updatedAt: Date.now()
+        };
+        this.save(walletAddress, updated);
+        return this.toPage(updated);
+    }
+
+    /**
+     * Page back to the wallet's first transaction; statements need the whole history for balances
+     */
+    static async loadAll(walletAddress: string): Promise<ActivityEntry[]> {
+        let page = await this.refresh(walletAddress);
+        while (page.hasMore) {
+            page = await this.loadMore(walletAddress);
+        }
+        return page.entries;
+    }
+
+    private static async loadFirstPage(walletAddress: string): Promise<ActivityPage> {
+        const addresses = this.getAddresses(walletAddress);
+        const { signatures, cursors, newest } = await this.fetchPage(addresses, {});
+        const entries = await this.getEntries(walletAddress, signatures);
+
+        const feed: CachedFeed = { entries: this.sort(entries), cursors, newest, updatedAt: Date.now() };
+        this.save(walletAddress, feed);
+        return this.toPage(feed);
+    }
+
+    private static async fetchPage(addresses: string[], previous: Record<string, SignatureCursor>) {
+        const pages = await Promise.all(addresses.map(address =>
+            this.connection.getSignaturesForAddress(new PublicKey(address), { before: previous[address]?.before, limit: PAGE_SIZE })
+        ));
+        const byAddress = Object.fromEntries(addresses.map((address, index) => [address, pages[index]]));
+        const { signatures, cursors } = ActivityFeed.mergeSignaturePages(byAddress, PAGE_SIZE, PAGE_SIZE);
+
+        // An address that contributed nothing keeps its old position
+        addresses.forEach(address => {
+            cursors[address] = { ...cursors[address], before: cursors[address].before ?? previous[address]?.before };
+        });
+
+        const newest = Object.fromEntries(addresses.map(address => [address, byAddress[address][0]?.signature]));
+        return { signatures, cursors, newest };
+    }
+
+    /**
+     * Parse the transactions behind a set of signatures and add counterparty emails
+     */
+    private static async getEntries(walletAddress: string, signatures: ConfirmedSignatureInfo[]): Promise<ActivityEntry[]> {
+        // Failed transactions moved no funds
+        const succeeded = signatures.filter(info => !info.err).map(info => info.signature);
+        if (succeeded.length === 0) {
+            return [];
+        }
+
+        const transactions = await this.connection.getTransactions(succeeded, {
+            maxSupportedTransactionVersion: 0,
+            commitment: 'confirmed'
+        });
+
+        const entries = transactions
+            .map(response => response && ActivityFeed.parseTransaction(walletAddress, response))
+            .filter((entry): entry is ActivityEntry => !!entry);
+
+        try {
+            await this.addCounterparties(entries);
+        } catch (error) {
+            // Emails are a nicety; the feed still shows wallets
+            console.warn('⚠️ Could not look up counterparty emails:', error);
+        }
+        return entries;
+    }
+
+    private static async addCounterparties(entries: ActivityEntry[]): Promise<void> {
+        const escrowPdas = entries.flatMap(entry => entry.escrowPda ? [entry.escrowPda] : []);
+        const intents = await TransferIntentService.getTransferIntentsByEscrowPdas([...new Set(escrowPdas)]);
+
+        entries.forEach(entry => {
+            const intent = entry.escrowPda ? intents.get(entry.escrowPda) : undefined;
+            if (!intent) {
+                return;
+            }
+
+            if (entry.kind === 'escrowClaimed') {
+                entry.counterpartyWallet = intent.senderWalletAddress;
+            } else {
+                entry.counterpartyEmail = intent.recipientEmail;
+            }
+            entry.memo = entry.memo ?? intent.message;
+        });
+
+        const wallets = entries.flatMap(entry => entry.counterpartyWallet && !entry.counterpartyEmail ? [entry.counterpartyWallet] : []);
+        const emails = await EmailWalletService.getEmailsByWallets([...new Set(wallets)]);
+        entries.forEach(entry => {
+            if (entry.counterpartyWallet && !entry.counterpartyEmail) {
+                entry.counterpartyEmail = emails.get(entry.counterpartyWallet);
+            }
+        });
+    }
+
+    /**
+     * The wallet and its token account for every registry token
+     */
+    private static getAddresses(walletAddress: string): string[] {
+        const owner = new PublicKey(walletAddress);
+        return [
+            walletAddress,
+            ...TokenRegistry.getTokens().map(token =>
+                getAssociatedTokenAddressSync(token.mint, owner, false, token.programId).toBase58()
+            )
+        ];
+    }
+
+    private static dedupe(signatures: ConfirmedSignatureInfo[]): ConfirmedSignatureInfo[] {
+        const seen = new Set<string>();
+        return signatures.filter(info => {
+            if (seen.has(info.signature)) {
+                return false;
+            }
+            seen.add(info.signature);
+            return true;
+        });
+    }
+
+    private static sort(entries: ActivityEntry[]): ActivityEntry[] {
+        return entries.sort((a, b) => b.slot - a.slot);
+    }
+
+    private static toPage(feed: CachedFeed): ActivityPage {
+        return {
+            entries: feed.entries,
+            hasMore: Object.values(feed.cursors).some(cursor => !cursor.exhausted)
+        };
+    }
+
+    private static load(): Record<string, CachedFeed> {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored ? JSON.parse(stored) : {};
+        } catch (error) {
+            console.warn('⚠️ Could not read cached activity:', error);
+            return {};
+        }
+    }
+
+    private static save(walletAddress: string, feed: CachedFeed): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...this.load(), [walletAddress]: feed }));
+        } catch (error) {
+            // A full storage only costs the cache
+            console.warn('⚠️ Could not cache activity:', error);
+        }
+    }
+}
+
+export default ActivityService;
@@ -0,0 +1,179 @@
+// src/services/addressLookupTable.ts
+
+import {
+    AddressLookupTableAccount,
+    AddressLookupTableProgram,
+    Connection,
+    PublicKey,
+    SystemProgram,
+    SYSVAR_RENT_PUBKEY,
+    Transaction
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { FYMONEY_PROGRAM_ID, YIELD_VAULT_PROGRAM_ID } from '@/services/sponsorshipPolicy';
+import { getLookupTableAddresses, SolanaTransaction } from '@/services/transactionFormat';
+import TokenRegistry from '@/services/tokenRegistry';
+import { ENV_CONFIG } from '@/config/environment';
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface LookupTableStatus {
+    address: string | null; // Configured table, null when v0 transactions run without one
+    exists: boolean;
+    authority?: string;
+    missing: string[]; // Managed addresses not in the table yet
+}
+
+/**
+ * The managed lookup table holding the static accounts every FyMoney transaction references.
+ * Transactions load these from the table instead of listing them, which leaves room for more instructions.
+ */
+export class AddressLookupTableService {
+    private static connection = new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed');
+    private static cache: { table: AddressLookupTableAccount | null; fetchedAt: number } | null = null;
+
+    /**
+     * Programs, sysvars and the registry mints; all stay the same for the lifetime of a deployment
+     */
+    static getManagedAddresses(): PublicKey[] {
+        return [
+            FYMONEY_PROGRAM_ID,
+            YIELD_VAULT_PROGRAM_ID,
+            TOKEN_PROGRAM_ID,
+            TOKEN_2022_PROGRAM_ID,
+            ASSOCIATED_TOKEN_PROGRAM_ID,
+            SystemProgram.programId,
+            SYSVAR_RENT_PUBKEY,
+            ...TokenRegistry.getTokens().map(token => token.mint)
+        ];
+    }
+
+    /**
+     * The configured lookup table, or null when none is configured or it can't be loaded
+     */
+    static async getLookupTable(): Promise<AddressLookupTableAccount | null> {
+        if (!ENV_CONFIG.lookupTableAddress) {
+            return null;
+        }
+
+        if (this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS) {
+            return this.cache.table;
+        }
+
+        let table: AddressLookupTableAccount | null = null;
+        try {
+            const { value } = await this.connection.getAddressLookupTable(new PublicKey(ENV_CONFIG.lookupTableAddress));
+            table = value;
+        } catch (error) {
+            // Transactions still work without the table, they are just larger
+            console.warn('⚠️ Could not load address lookup table:', error);
+        }
+
+        if (!table) {
+            console.warn('⚠️ Address lookup table not found:', ENV_CONFIG.lookupTableAddress);
+        } else if (!table.isActive()) {
+            console.warn('⚠️ Address lookup table is deactivated:', ENV_CONFIG.lookupTableAddress);
+            table = null;
+        }
+
+        this.cache = { table, fetchedAt: Date.now() };
+        return table;
+    }
+
+    /**
+     * Lookup tables referenced by a transaction, as needed to evaluate it against the sponsorship policy
+     */
+    static async getLookupTablesFor(transaction: SolanaTransaction): Promise<AddressLookupTableAccount[]> {
+        const addresses = getLookupTableAddresses(transaction);
+        if (addresses.length === 0) {
+            return [];
+        }
+
+        const managed = await this.getLookupTable();
+        return Promise.all(addresses.map(async address => {
+            if (managed?.key.equals(address)) {
+                return managed;
+            }
+
+            const { value } = await this.connection.getAddressLookupTable(address);
+            if (!value) {
+                throw new Error(`Address lookup table ${address.toString()} not found`);
+            }
+            return value;
+        }));
+    }
+
+    static async getStatus(): Promise<LookupTableStatus> {
+        this.cache = null;
+        const table = await this.getLookupTable();
+        const managed = this.getManagedAddresses();
+
+        return {
+            address: ENV_CONFIG.lookupTableAddress || null,
+            exists: !!table,
+            authority: table?.state.authority?.toString(),
+            missing: managed
+                .filter(address => !table?.state.addresses.some(entry => entry.equals(address)))
+                .map(address => address.toString())
+        };
+    }
+
+    /**
+     * Create a new table holding every managed address; the authority signs and pays
+     */
+    static async buildCreateTransaction(authority: PublicKey): Promise<{
+        transaction: Transaction;
+        lookupTable: PublicKey;
+        lastValidBlockHeight: number;
+    }> {
+        const recentSlot = await this.connection.getSlot('finalized');
+        const [createInstruction, lookupTable] = AddressLookupTableProgram.createLookupTable({
+            authority,
+            payer: authority,
+            recentSlot
+        });
+
+        const { transaction, lastValidBlockHeight } = await this.buildTransaction(authority);
+        transaction.add(
+            createInstruction,
+            AddressLookupTableProgram.extendLookupTable({
+                lookupTable,
+                authority,
+                payer: authority,
+                addresses: this.getManagedAddresses()
+            })
+        );
+
+        return { transaction, lookupTable, lastValidBlockHeight };
+    }
+
+    /**
+     * Add managed addresses the configured table is missing, e.g. after a new program is added
+     */
+    static async buildExtendTransaction(authority: PublicKey, addresses: PublicKey[]): Promise<{
+        transaction: Transaction;
+        lastValidBlockHeight: number;
+    }> {
+        const { transaction, lastValidBlockHeight } = await this.buildTransaction(authority);
+        transaction.add(AddressLookupTableProgram.extendLookupTable({
+            lookupTable: new PublicKey(ENV_CONFIG.lookupTableAddress),
+            authority,
+            payer: authority,
+            addresses
+        }));
+
+        this.cache = null;
+        return { transaction, lastValidBlockHeight };
+    }
+
+    private static async buildTransaction(feePayer: PublicKey): Promise<{ transaction: Transaction; lastValidBlockHeight: number }> {
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+        const transaction = new Transaction();
+        transaction.recentBlockhash = blockhash;
+        transaction.lastValidBlockHeight = lastValidBlockHeight;
+        transaction.feePayer = feePayer;
+        return { transaction, lastValidBlockHeight };
+    }
+}
+
+export default AddressLookupTableService;
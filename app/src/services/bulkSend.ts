@@ -0,0 +1,196 @@
+// src/services/bulkSend.ts
+
+import { Memo, MAX_MEMO_BYTES } from './memo';
+
+// Shared by the app and the root tests, so keep it free of app aliases.
+
+// Rows per import; each row may cost a nonce lookup and a packing check
+export const MAX_BULK_ROWS = 100;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+export interface BulkSendRow {
+    line: number; // Line in the imported file, used in the report
+    email: string;
+    amount: string; // In token units, as written in the file
+    memo?: string; // Written on-chain with the payment and kept on the transfer intent
+}
+
+export interface BulkSendParseError {
+    line: number;
+    message: string;
+}
+
+export interface BulkSendParseResult {
+    rows: BulkSendRow[];
+    errors: BulkSendParseError[];
+}
+
+export type BulkSendRowStatus = 'pending' | 'prepared' | 'sent' | 'failed';
+
+export interface BulkSendRowResult extends BulkSendRow {
+    type?: 'direct' | 'escrow'; // Known once the email is resolved
+    status: BulkSendRowStatus;
+    signature?: string;
+    transferIntentId?: string; // Escrows only, once the intent is recorded
+    escrowPda?: string;
+    error?: string;
+}
+
+const REPORT_COLUMNS = ['line', 'email', 'amount', 'memo', 'type', 'status', 'signature', 'transfer_intent_id', 'escrow_pda', 'error'];
+
+export class BulkSend {
+    /**
+     * Parse `email, amount, memo` rows; a leading header row is skipped.
+     * Amounts with more decimals than the token supports are rejected rather than rounded.
+     */
+    static parseCsv(text: string, decimals: number): BulkSendParseResult {
+        const rows: BulkSendRow[] = [];
+        const errors: BulkSendParseError[] = [];
+
+        this.parseRecords(text).forEach(({ line, fields }, index) => {
+            const [email = '', amount = '', ...memo] = fields.map(field => field.trim());
+
+            if (index === 0 && email.toLowerCase() === 'email') {
+                return;
+            }
+            if (!email && !amount && memo.every(part => !part)) {
+                return;
+            }
+
+            if (!EMAIL_PATTERN.test(email)) {
+                errors.push({ line, message: `Invalid email "${email}"` });
+                return;
+            }
+            if (!AMOUNT_PATTERN.test(amount) || Number(amount) <= 0) {
+                errors.push({ line, message: `Invalid amount "${amount}"` });
+                return;
+            }
+            if ((amount.split('.')[1]?.length ?? 0) > decimals) {
+                errors.push({ line, message: `Amount "${amount}" has more than ${decimals} decimals` });
+                return;
+            }
+
+            // Unquoted commas in the memo are kept as part of it
+            const note = memo.join(', ').trim();
+            if (Memo.isTooLong(note)) {
+                errors.push({ line, message: `Memo is longer than ${MAX_MEMO_BYTES} bytes` });
+                return;
+            }
+
+            rows.push({ line, email: email.toLowerCase(), amount, ...(note ? { memo: note } : {}) });
+        });
+
+        if (rows.length > MAX_BULK_ROWS) {
+            errors.push({ line: rows[MAX_BULK_ROWS].line, message: `Only ${MAX_BULK_ROWS} rows can be sent at once` });
+            rows.length = MAX_BULK_ROWS;
+        }
+
+        return { rows, errors };
+    }
+
+    /**
+     * Group items into as few batches as possible, in first-fit order.
+     * Items that don't fit even on their own are returned as oversized.
+     */
+    static pack<T>(items: T[], fits: (batch: T[]) => boolean): { batches: T[][]; oversized: T[] } {
+        const batches: T[][] = [];
+        const oversized: T[] = [];
+
+        items.forEach(item => {
+            const batch = batches.find(candidate => fits([...candidate, item]));
+            if (batch) {
+                batch.push(item);
+            } else if (fits([item])) {
+                batches.push([item]);
+            } else {
+                oversized.push(item);
+            }
+        });
+
+        return { batches, oversized };
+    }
+
+    /**
+     * Per-row report with signatures, transfer intents and failures
+     */
+    static toReportCsv(results: BulkSendRowResult[]): string {
+        const lines = results.map(result => [
+            String(result.line),
+            result.email,
+            result.amount,
+            result.memo ?? '',
+            result.type ?? '',
+            result.status,
+            result.signature ?? '',
+            result.transferIntentId ?? '',
+            result.escrowPda ?? '',
+            result.error ?? ''
+        ].map(value => this.escapeField(value)).join(','));
+
+        return [REPORT_COLUMNS.join(','), ...lines].join('\n');
+    }
+
+    private static escapeField(value: string): string {
+        return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    /**
+     * Split CSV text into records, honouring quoted fields and "" escapes
+     */
+    private static parseRecords(text: string): { line: number; fields: string[] }[] {
+        const records: { line: number; fields: string[] }[] = [];
+        let fields: string[] = [];
+        let field = '';
+        let quoted = false;
+        let line = 1;
+        let recordLine = 1;
+
+        const endRecord = () => {
+            fields.push(field);
+            records.push({ line: recordLine, fields });
+            fields = [];
+            field = '';
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    if (char === '\n') {
+                        line++;
+                    }
+                    field += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                fields.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') {
+                    i++;
+                }
+                endRecord();
+                line++;
+                recordLine = line;
+            } else {
+                field += char;
+            }
+        }
+
+        if (field || fields.length > 0) {
+            endRecord();
+        }
+        return records;
+    }
+}
+
+export default BulkSend;
@@ -0,0 +1,60 @@
+// src/services/domainResolver.ts
+
+// Shared by RecipientResolver and the root tests, so keep it free of app aliases.
+import { Connection, PublicKey } from '@solana/web3.js';
+import * as crypto from 'crypto';
+
+// Solana Name Service program and the .sol top-level domain it owns
+export const NAME_SERVICE_PROGRAM_ID = new PublicKey('namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX');
+export const SOL_TLD_AUTHORITY = new PublicKey('58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx');
+
+const HASH_PREFIX = 'SPL Name Service';
+// NameRecordHeader: parent name (32), owner (32), class (32)
+const OWNER_OFFSET = 32;
+
+/**
+ * Turns a name like `alice.sol` into a wallet address. Swap in a stub to resolve without the chain.
+ */
+export interface DomainResolver {
+    resolve(domain: string): Promise<string | null>;
+}
+
+/**
+ * Resolves .sol domains to the domain owner, where SNS wallets send funds.
+ * Handles one level of subdomain, e.g. `pay.alice.sol`.
+ */
+export class SnsDomainResolver implements DomainResolver {
+    constructor(private connection: Pick<Connection, 'getAccountInfo'>) {}
+
+    async resolve(domain: string): Promise<string | null> {
+        const key = SnsDomainResolver.getDomainKey(domain);
+        const account = await this.connection.getAccountInfo(key);
+        if (!account || !account.owner.equals(NAME_SERVICE_PROGRAM_ID) || account.data.length < OWNER_OFFSET + 32) {
+            return null;
+        }
+        return new PublicKey(account.data.subarray(OWNER_OFFSET, OWNER_OFFSET + 32)).toBase58();
+    }
+
+    /**
+     * Name account of a .sol domain or subdomain
+     */
+    static getDomainKey(domain: string): PublicKey {
+        const labels = domain.toLowerCase().replace(/\.sol$/, '').split('.');
+        if (labels.length > 2 || labels.some(label => !label)) {
+            throw new Error(`Unsupported domain: ${domain}`);
+        }
+
+        const parent = this.getNameKey(labels[labels.length - 1], SOL_TLD_AUTHORITY);
+        // Subdomain names are hashed with a leading NUL under their parent
+        return labels.length === 2 ? this.getNameKey(`\0${labels[0]}`, parent) : parent;
+    }
+
+    private static getNameKey(name: string, parent: PublicKey): PublicKey {
+        const hashedName = crypto.createHash('sha256').update(HASH_PREFIX + name, 'utf8').digest();
+        const [key] = PublicKey.findProgramAddressSync(
+            [hashedName, Buffer.alloc(32), parent.toBuffer()],
+            NAME_SERVICE_PROGRAM_ID
+        );
+        return key;
+    }
+}
@@ -0,0 +1,80 @@
+// src/services/dynamicAuth.ts
+
+// Shared by the edge functions that act for the signed-in user, so keep it free of app aliases and env access.
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from 'jose';
+
+// The Supabase gateway checks Authorization against the project key, so the user's Dynamic JWT travels in its own header
+export const USER_TOKEN_HEADER = 'x-user-token';
+
+export interface AuthenticatedUser {
+    userId: string; // Dynamic user id
+    email: string; // Lowercased and trimmed, like the email_wallets rows
+    wallets: string[]; // Wallet addresses the user has verified with Dynamic
+}
+
+interface DynamicClaims extends JWTPayload {
+    email?: string;
+    verified_credentials?: { format: string; address?: string; email?: string }[];
+}
+
+export class DynamicAuthError extends Error {
+    constructor(
+        message: string,
+        public code: 'MISSING_TOKEN' | 'INVALID_TOKEN' | 'NO_EMAIL'
+    ) {
+        super(message);
+        this.name = 'DynamicAuthError';
+    }
+}
+
+/**
+ * Verifies the Dynamic JWT a request carries against the environment's signing keys
+ */
+export class DynamicAuth {
+    private jwks: ReturnType<typeof createRemoteJWKSet>;
+
+    constructor(private environmentId: string) {
+        this.jwks = createRemoteJWKSet(
+            new URL(`https://app.dynamic.xyz/api/v0/sdk/${environmentId}/.well-known/jwks`)
+        );
+    }
+
+    async authenticate(req: Request): Promise<AuthenticatedUser> {
+        const token = req.headers.get(USER_TOKEN_HEADER);
+        if (!token) {
+            throw new DynamicAuthError('Sign in to continue', 'MISSING_TOKEN');
+        }
+
+        let claims: DynamicClaims;
+        try {
+            ({ payload: claims } = await jwtVerify<DynamicClaims>(token, this.jwks, {
+                issuer: `app.dynamicauth.com/${this.environmentId}`
+            }));
+        } catch {
+            throw new DynamicAuthError('Your session has expired. Please sign in again.', 'INVALID_TOKEN');
+        }
+
+        const credentials = claims.verified_credentials ?? [];
+        const email = claims.email ?? credentials.find(credential => credential.format === 'email')?.email;
+        if (!claims.sub || !email) {
+            throw new DynamicAuthError('Sign in with an email address to continue', 'NO_EMAIL');
+        }
+
+        return {
+            userId: claims.sub,
+            email: email.trim().toLowerCase(),
+            wallets: credentials
+                .filter(credential => credential.format === 'blockchain' && credential.address)
+                .map(credential => credential.address!)
+        };
+    }
+
+    /**
+     * Whether the user holds one of the ops wallets, for ops-only endpoints
+     */
+    static isOps(user: AuthenticatedUser, opsWallets: string[]): boolean {
+        return user.wallets.some(wallet => opsWallets.includes(wallet));
+    }
+}
+
+export default DynamicAuth;
@@ -1,13 +1,17 @@
 // src/services/emailNotificationService.ts
 
 import { supabase } from '@/lib/supabase';
+import EscrowExpiry from '@/services/escrowExpiry';
 
 export interface EmailInvitationParams {
     transferIntentId: string;
     senderEmail: string;
     recipientEmail: string;
-    amount: number; // Amount in USDC base units (6 decimals)
-    expirationDate: string;
+    amount: number; // Amount in the token's base units
+    tokenSymbol?: string; // Default USDC
+    decimals?: number; // Default 6
+    message?: string; // Sender's note, shown in the invitation
+    expirationDate: string; // ISO timestamp of the escrow's on-chain expiry
 }
 
 export interface EmailInvitationResult {
@@ -36,20 +40,16 @@ export class EmailNotificationService {
      * Send invitation email for a transfer intent via Supabase function
      */
     static async sendInvitationEmail(params: EmailInvitationParams): Promise<EmailInvitationResult> {
-        const { transferIntentId, senderEmail, recipientEmail, amount, expirationDate } = params;
+        const { transferIntentId, senderEmail, recipientEmail, amount, tokenSymbol = 'USDC', decimals = 6, message, expirationDate } = params;
 
         console.log('📧 Sending invitation email for transfer intent:', transferIntentId);
 
         try {
-            // Convert amount to USDC display format
-            const amountUsdc = (amount / 1_000_000).toFixed(2);
+            // Convert amount to token display format
+            const amountDisplay = (amount / Math.pow(10, decimals)).toFixed(2);
             
-            // Format expiration date
-            const expirationDisplay = new Date(expirationDate).toLocaleDateString('en-US', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-            });
+            // Format expiration with the time, since claim windows can be as short as an hour
+            const expirationDisplay = EscrowExpiry.formatDate(new Date(expirationDate));
 
             // Get application URL from environment variable (fallback to current origin for development)
             const appUrl = import.meta.env.VITE_APP_URL || window.location.origin;
@@ -61,12 +61,14 @@ export class EmailNotificationService {
             const { data, error } = await supabase.functions.invoke('resend-email', {
                 body: {
                     to: recipientEmail,
-                    subject: `You've received ${amountUsdc} USDC!`,
+                    subject: `You've received ${amountDisplay} ${tokenSymbol}!`,
                     appUrl,
                     templateData: {
                         senderEmail,
                         recipientEmail,
-                        amount: amountUsdc,
+                        amount: amountDisplay,
+                        tokenSymbol,
+                        message,
                         claimUrl,
                         expirationDate: expirationDisplay,
                         currentDate: new Date().toLocaleDateString('en-US', {
@@ -131,6 +131,34 @@ export class EmailWalletService {
     }
   }
 
+  /**
+   * Get the emails registered to a set of wallets, keyed by wallet address
+   */
+  static async getEmailsByWallets(walletAddresses: string[]): Promise<Map<string, string>> {
+    const emails = new Map<string, string>();
+    if (walletAddresses.length === 0) {
+      return emails;
+    }
+
+    const { data, error } = await supabase
+      .from('email_wallets')
+      .select('email, wallet_address')
+      .in('wallet_address', walletAddresses)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Database error in getEmailsByWallets:', error);
+      throw new EmailWalletError(
+        'Failed to query email wallet mappings',
+        'DATABASE_ERROR',
+        error
+      );
+    }
+
+    data.forEach(row => emails.set(row.wallet_address, row.email));
+    return emails;
+  }
+
   /**
    * Get full user info by email
    */
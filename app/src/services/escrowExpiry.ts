@@ -0,0 +1,71 @@
+// src/services/escrowExpiry.ts
+
+// Shared by the app and the root tests, so keep it free of app aliases.
+
+// The program rejects expiries more than 30 days out (ExpirationTooLong)
+export const MIN_ESCROW_EXPIRY_HOURS = 1;
+export const MAX_ESCROW_EXPIRY_HOURS = 30 * 24;
+export const DEFAULT_ESCROW_EXPIRY_HOURS = MAX_ESCROW_EXPIRY_HOURS;
+
+export interface EscrowExpiryOption {
+    hours: number;
+    label: string;
+}
+
+export const ESCROW_EXPIRY_OPTIONS: EscrowExpiryOption[] = [
+    { hours: 1, label: '1 hour' },
+    { hours: 6, label: '6 hours' },
+    { hours: 24, label: '1 day' },
+    { hours: 3 * 24, label: '3 days' },
+    { hours: 7 * 24, label: '7 days' },
+    { hours: 14 * 24, label: '14 days' },
+    { hours: 30 * 24, label: '30 days' },
+];
+
+export class EscrowExpiry {
+    static isValid(hours: number): boolean {
+        return Number.isFinite(hours) && hours >= MIN_ESCROW_EXPIRY_HOURS && hours <= MAX_ESCROW_EXPIRY_HOURS;
+    }
+
+    /**
+     * Expiry for a claim window, truncated to whole seconds as the program stores it,
+     * so the same value can be written to the chain and the database
+     */
+    static getExpiresAt(hours: number, now: number = Date.now()): Date {
+        return new Date(Math.floor((now + hours * 3600 * 1000) / 1000) * 1000);
+    }
+
+    /**
+     * Absolute expiry with the time and zone, for emails and confirmations
+     */
+    static formatDate(expiresAt: Date): string {
+        return expiresAt.toLocaleString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            timeZoneName: 'short'
+        });
+    }
+
+    /**
+     * Time left (or since expiry) for lists that tick every second
+     */
+    static formatCountdown(expiresAt: Date, now: number): string {
+        const diffMs = expiresAt.getTime() - now;
+        const totalSeconds = Math.floor(Math.abs(diffMs) / 1000);
+        const days = Math.floor(totalSeconds / 86400);
+        const hours = Math.floor((totalSeconds % 86400) / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const seconds = totalSeconds % 60;
+
+        const span = days > 0
+            ? `${days}d ${hours}h ${minutes}m`
+            : `${hours}h ${minutes}m ${seconds}s`;
+
+        return diffMs > 0 ? `Expires in ${span}` : `Expired ${span} ago`;
+    }
+}
+
+export default EscrowExpiry;
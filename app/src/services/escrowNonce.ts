@@ -0,0 +1,105 @@
+// src/services/escrowNonce.ts
+
+// Shared by TransactionService and the anchor tests, so keep it free of app aliases.
+import { BN } from '@coral-xyz/anchor';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import * as crypto from 'crypto';
+
+// getMultipleAccountsInfo accepts at most 100 keys per call
+export const ESCROW_NONCE_BATCH_SIZE = 100;
+
+// Nonces from idempotency keys start here, far above anything findNextNonce reaches,
+// and stay below Number.MAX_SAFE_INTEGER (2^52 + 48 hash bits)
+export const IDEMPOTENT_NONCE_OFFSET = 2 ** 52;
+
+const RPC_ATTEMPTS = 3;
+const RPC_RETRY_DELAY_MS = 250;
+
+// Error class for nonce allocation; never fall back to a nonce that might be taken
+export class EscrowNonceError extends Error {
+    constructor(
+        message: string,
+        public code: 'RPC_ERROR'
+    ) {
+        super(message);
+        this.name = 'EscrowNonceError';
+    }
+}
+
+/**
+ * Derive the PDA for an escrow given sender, email hash, and nonce
+ */
+export function getEscrowPDA(
+    sender: PublicKey,
+    emailHash: number[],
+    nonce: number,
+    programId: PublicKey
+): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync([
+        Buffer.from('escrow'),
+        sender.toBuffer(),
+        Buffer.from(emailHash),
+        new BN(nonce).toBuffer('le', 8)
+    ], programId);
+}
+
+/**
+ * Deterministic nonce for a send attempt: retrying with the same key derives the same escrow PDA,
+ * which the program can only initialize once
+ */
+export function getIdempotentNonce(idempotencyKey: string): number {
+    const hash = crypto.createHash('sha256').update(idempotencyKey).digest();
+    return IDEMPOTENT_NONCE_OFFSET + hash.readUIntLE(0, 6);
+}
+
+/**
+ * Find the lowest nonce with no escrow account, checking a whole batch of PDAs per RPC call.
+ * A sender needs a second call only after 100 escrows to the same email.
+ */
+export async function findNextNonce(
+    connection: Pick<Connection, 'getMultipleAccountsInfo'>,
+    sender: PublicKey,
+    emailHash: number[],
+    programId: PublicKey,
+    batchSize = ESCROW_NONCE_BATCH_SIZE
+): Promise<number> {
+    for (let start = 0; ; start += batchSize) {
+        const pdas: PublicKey[] = [];
+        for (let nonce = start; nonce < start + batchSize; nonce++) {
+            pdas.push(getEscrowPDA(sender, emailHash, nonce, programId)[0]);
+        }
+
+        const accounts = await getAccountsWithRetry(connection, pdas);
+        const free = accounts.findIndex(account => account === null);
+
+        if (free !== -1) {
+            return start + free;
+        }
+    }
+}
+
+/**
+ * Retry transient RPC failures, then give up rather than guess
+ */
+async function getAccountsWithRetry(
+    connection: Pick<Connection, 'getMultipleAccountsInfo'>,
+    pdas: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= RPC_ATTEMPTS; attempt++) {
+        try {
+            return await connection.getMultipleAccountsInfo(pdas, 'confirmed');
+        } catch (error) {
+            lastError = error;
+            console.warn(`⚠️ Escrow nonce lookup failed (attempt ${attempt}/${RPC_ATTEMPTS}):`, error);
+
+            if (attempt < RPC_ATTEMPTS) {
+                await new Promise(resolve => setTimeout(resolve, RPC_RETRY_DELAY_MS * attempt));
+            }
+        }
+    }
+
+    console.error('❌ Could not check escrow nonces:', lastError);
+    throw new EscrowNonceError('Network error while preparing the escrow. Please try again.', 'RPC_ERROR');
+}
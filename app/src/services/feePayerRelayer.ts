@@ -0,0 +1,212 @@
+// src/services/feePayerRelayer.ts
+
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { getUserAuthHeaders, supabase } from '@/lib/supabase';
+import { deserializeTransaction, isVersionedTransaction, serializeTransaction, SolanaTransaction } from '@/services/transactionFormat';
+import type { FeePayerStatus } from '@/utils/feePayerWallet';
+import { SponsorshipPolicy, SponsorshipPolicyError, SponsorshipRejectionReason } from '@/services/sponsorshipPolicy';
+import {
+    SponsorshipQuota,
+    SponsorshipQuotaError,
+    SponsorshipQuotaReason,
+    SponsorshipUsage,
+    SPONSORSHIP_LIMIT_MESSAGE
+} from '@/services/sponsorshipQuota';
+import { DynamicAuthError } from '@/services/dynamicAuth';
+
+interface RelayerSignResponse {
+    transaction: string; // Base64 serialized transaction with the fee payer signature
+    signature: string;
+}
+
+interface RelayerRejectionResponse {
+    error: string;
+    reason?: SponsorshipRejectionReason | SponsorshipQuotaReason | DynamicAuthError['code'] | 'PAYER_UNHEALTHY';
+    message?: string;
+}
+
+interface RelayerAssignResponse {
+    publicKey: string;
+}
+
+interface RelayerPoolResponse {
+    payers: FeePayerStatus[];
+}
+
+/**
+ * Client for the fee-payer-relayer edge function.
+ * The relayer holds the fee payer pool, assigns a payer to each transaction and co-signs it.
+ */
+export class FeePayerRelayer {
+    private static readonly FUNCTION_NAME = 'fee-payer-relayer';
+
+    /**
+     * Send a partially built legacy or v0 transaction to the relayer and return it with the fee payer signature
+     */
+    static async signTransaction<T extends SolanaTransaction>(transaction: T): Promise<T> {
+        const serialized = serializeTransaction(transaction).toString('base64');
+
+        const { data, error } = await supabase.functions.invoke<RelayerSignResponse>(this.FUNCTION_NAME, {
+            headers: getUserAuthHeaders(),
+            body: { transaction: serialized }
+        });
+
+        if (error) {
+            console.error('❌ Fee payer relayer error:', error);
+
+            const rejection = await this.readRejection(error);
+            if (rejection) {
+                throw rejection;
+            }
+
+            throw new FeePayerRelayerError(
+                'Service temporarily unavailable. Please try again later.',
+                'RELAYER_UNAVAILABLE'
+            );
+        }
+
+        if (!data?.transaction) {
+            console.error('❌ Fee payer relayer returned no transaction:', data);
+            throw new FeePayerRelayerError(
+                'Service temporarily unavailable. Please try again later.',
+                'INVALID_RESPONSE'
+            );
+        }
+
+        const signedTransaction = deserializeTransaction(Buffer.from(data.transaction, 'base64'));
+        if (isVersionedTransaction(signedTransaction) !== isVersionedTransaction(transaction)) {
+            throw new FeePayerRelayerError(
+                'Service temporarily unavailable. Please try again later.',
+                'INVALID_RESPONSE'
+            );
+        }
+
+        // Deserialization drops the block height, keep it for confirmation tracking
+        if (signedTransaction instanceof Transaction && transaction instanceof Transaction) {
+            signedTransaction.lastValidBlockHeight = transaction.lastValidBlockHeight;
+        }
+
+        console.log('✅ Fee payer relayer signed transaction:', data.signature);
+        return signedTransaction as T;
+    }
+
+    /**
+     * Ask the relayer which pool key should pay for the next transaction
+     */
+    static async assignFeePayer(): Promise<PublicKey> {
+        const { data, error } = await supabase.functions.invoke<RelayerAssignResponse>(this.FUNCTION_NAME, {
+            headers: getUserAuthHeaders(),
+            body: { action: 'assign' }
+        });
+
+        if (error) {
+            console.error('❌ Fee payer relayer assign error:', error);
+
+            const rejection = await this.readRejection(error);
+            if (rejection) {
+                throw rejection;
+            }
+
+            throw new FeePayerRelayerError(
+                'Service temporarily unavailable. Please try again later.',
+                'RELAYER_UNAVAILABLE'
+            );
+        }
+
+        if (!data?.publicKey) {
+            throw new FeePayerRelayerError(
+                'Service temporarily unavailable. Please try again later.',
+                'INVALID_RESPONSE'
+            );
+        }
+
+        return new PublicKey(data.publicKey);
+    }
+
+    /**
+     * Balances and rotation state of every pool key; ops wallets only
+     */
+    static async getPoolStatus(): Promise<FeePayerStatus[]> {
+        const { data, error } = await supabase.functions.invoke<RelayerPoolResponse>(this.FUNCTION_NAME, {
+            method: 'GET',
+            headers: getUserAuthHeaders()
+        });
+
+        if (error || !data) {
+            console.error('❌ Fee payer relayer pool error:', error);
+            throw new FeePayerRelayerError('Failed to load the fee payer pool', 'RELAYER_UNAVAILABLE');
+        }
+
+        return data.payers;
+    }
+
+    /**
+     * What the relayer has sponsored for the signed-in user in the current UTC day and month
+     */
+    static async getUsage(): Promise<SponsorshipUsage> {
+        const { data, error } = await supabase.functions.invoke<SponsorshipUsage>(this.FUNCTION_NAME, {
+            headers: getUserAuthHeaders(),
+            body: { action: 'usage' }
+        });
+
+        if (error || !data) {
+            console.error('❌ Fee payer relayer usage error:', error);
+            throw new FeePayerRelayerError(
+                'Service temporarily unavailable. Please try again later.',
+                'RELAYER_UNAVAILABLE'
+            );
+        }
+
+        return data;
+    }
+
+    /**
+     * Turn a sign-in (401), policy (403), quota (429) or unhealthy payer (503) rejection from the relayer back into a typed error
+     */
+    private static async readRejection(error: unknown): Promise<SponsorshipPolicyError | SponsorshipQuotaError | FeePayerRelayerError | null> {
+        if (!(error instanceof FunctionsHttpError)) {
+            return null;
+        }
+
+        try {
+            const body = await (error.context as Response).json() as RelayerRejectionResponse;
+            if (!body.reason) {
+                return null;
+            }
+
+            if (body.reason === 'MISSING_TOKEN' || body.reason === 'INVALID_TOKEN' || body.reason === 'NO_EMAIL') {
+                return new FeePayerRelayerError(body.error, 'UNAUTHORIZED');
+            }
+
+            // The relayer saw the payer's balance drop below the rotation threshold, or had no healthy payer to assign
+            if (body.reason === 'PAYER_UNHEALTHY') {
+                return new FeePayerRelayerError(
+                    'Service temporarily unavailable. Please try again.',
+                    'PAYER_UNHEALTHY'
+                );
+            }
+
+            if (SponsorshipQuota.isQuotaReason(body.reason)) {
+                return new SponsorshipQuotaError(SPONSORSHIP_LIMIT_MESSAGE, body.reason);
+            }
+
+            return new SponsorshipPolicyError(SponsorshipPolicy.getRejectionMessage(body.reason), body.reason);
+        } catch {
+            return null;
+        }
+    }
+}
+
+// Error class for relayer operations
+export class FeePayerRelayerError extends Error {
+    constructor(
+        message: string,
+        public code: 'RELAYER_UNAVAILABLE' | 'INVALID_RESPONSE' | 'PAYER_UNHEALTHY' | 'UNAUTHORIZED'
+    ) {
+        super(message);
+        this.name = 'FeePayerRelayerError';
+    }
+}
+
+export default FeePayerRelayer;
@@ -0,0 +1,78 @@
+// src/services/identityProviders.ts
+
+import { Connection } from '@solana/web3.js';
+import EmailWalletService from './emailWallet';
+import PhoneWalletService from './phoneWallet';
+import { SnsDomainResolver } from './domainResolver';
+import {
+    EmailIdentityProvider,
+    FarcasterIdentityProvider,
+    IdentityMatch,
+    IdentityResolver,
+    PhoneIdentityProvider,
+    SnsIdentityProvider,
+    WalletIdentityProvider
+} from './identityResolver';
+import { ENV_CONFIG } from '@/config/environment';
+
+// Public Farcaster endpoints: the fname registry and the client API's primary address lookup
+const FNAME_REGISTRY_URL = 'https://fnames.farcaster.xyz';
+const FARCASTER_API_URL = 'https://api.farcaster.xyz';
+
+const lookupEmail = async (email: string): Promise<IdentityMatch> => {
+    const user = await EmailWalletService.getUserByEmail(email);
+    return user
+        ? { wallet: user.walletAddress, verification: user.verified ? 'verified' : 'unverified' }
+        : { wallet: null, verification: 'unverified' };
+};
+
+// Numbers are only mapped once a claimer verified them by SMS
+const lookupPhone = async (phone: string): Promise<IdentityMatch> => {
+    const user = await PhoneWalletService.getUserByPhone(phone);
+    return user
+        ? { wallet: user.walletAddress, verification: 'verified' }
+        : { wallet: null, verification: 'unverified' };
+};
+
+/**
+ * Farcaster username to fid through the fname registry, then the fid's primary Solana address.
+ * The address is one the account signed a verification for, so it counts as verified.
+ */
+const lookupFarcaster = async ({ username, fid }: { username?: string; fid?: number }): Promise<IdentityMatch> => {
+    let accountFid = fid;
+    if (accountFid === undefined) {
+        const response = await fetch(`${FNAME_REGISTRY_URL}/transfers/current?name=${encodeURIComponent(username ?? '')}`);
+        if (response.status === 404) {
+            return { wallet: null, verification: 'unverified' };
+        }
+        if (!response.ok) {
+            throw new Error(`fname registry returned ${response.status}`);
+        }
+        const { transfer } = await response.json();
+        accountFid = transfer?.to || undefined;
+    }
+    if (!accountFid) {
+        return { wallet: null, verification: 'unverified' };
+    }
+
+    const response = await fetch(`${FARCASTER_API_URL}/fc/primary-address?fid=${accountFid}&protocol=solana`);
+    if (!response.ok) {
+        throw new Error(`Farcaster API returned ${response.status}`);
+    }
+    const { result } = await response.json();
+    const address: string | undefined = result?.address?.address;
+    return address ? { wallet: address, verification: 'verified' } : { wallet: null, verification: 'unverified' };
+};
+
+/**
+ * The registry behind every send. Register a provider here to accept a new kind of recipient.
+ */
+export const identityResolver = new IdentityResolver([
+    new WalletIdentityProvider(),
+    new EmailIdentityProvider(lookupEmail),
+    new PhoneIdentityProvider(lookupPhone),
+    new SnsIdentityProvider(new SnsDomainResolver(new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed'))),
+    new FarcasterIdentityProvider(lookupFarcaster),
+]);
+
+export default identityResolver;
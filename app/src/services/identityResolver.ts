@@ -0,0 +1,248 @@
+// src/services/identityResolver.ts
+
+// Shared by the app's identity providers and the root tests, so keep it free of app aliases.
+import { PublicKey } from '@solana/web3.js';
+import * as crypto from 'crypto';
+import { DomainResolver } from './domainResolver.ts'; // Explicit extension for Deno
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const DOMAIN_PATTERN = /^([a-z0-9_-]+\.){1,2}sol$/;
+// E.164: a country code and subscriber number, 15 digits at most, never starting with 0
+export const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+// Farcaster fnames: lowercase letters, digits and hyphens, at most 16 characters
+const FARCASTER_USERNAME_PATTERN = /^@([a-z0-9][a-z0-9-]{0,15})$/;
+const FARCASTER_FID_PATTERN = /^fid:(\d+)$/;
+
+export type IdentityType = 'email' | 'phone' | 'farcaster' | 'sns' | 'wallet';
+
+// How sure we are the wallet belongs to whoever owns the identity
+export type VerificationLevel =
+    | 'unverified' // Registered but never proven
+    | 'verified' // Proven to us or to the identity's own network, e.g. a confirmed email
+    | 'onchain'; // The chain itself says so: a wallet address or a domain's owner
+
+export interface IdentityMatch {
+    wallet: string | null; // null when no wallet is registered yet
+    verification: VerificationLevel;
+}
+
+export interface ResolvedIdentity extends IdentityMatch {
+    type: IdentityType;
+    value: string; // Normalized, e.g. a lowercased email or an E.164 number
+}
+
+export interface IdentityProvider {
+    type: IdentityType;
+    label: string; // Shown under the recipient field once detected
+    // Identities without a wallet can be sent an escrow, claimed later by proving the identity
+    escrowable: boolean;
+    /**
+     * The normalized identity, or null when this provider doesn't handle the input
+     */
+    normalize(input: string): string | null;
+    lookup(value: string): Promise<IdentityMatch>;
+}
+
+export class IdentityResolverError extends Error {
+    constructor(
+        message: string,
+        public code: 'UNSUPPORTED_IDENTITY' | 'NOT_FOUND' | 'NOT_ESCROWABLE' | 'LOOKUP_FAILED'
+    ) {
+        super(message);
+        this.name = 'IdentityResolverError';
+    }
+}
+
+/**
+ * Registry of identity providers. The send flow only talks to this, so a new identity type
+ * is a new provider and nothing else. Providers are tried in registration order.
+ */
+export class IdentityResolver {
+    private providers: IdentityProvider[] = [];
+
+    constructor(providers: IdentityProvider[] = []) {
+        providers.forEach(provider => this.register(provider));
+    }
+
+    /**
+     * Add a provider, replacing any registered for the same type
+     */
+    register(provider: IdentityProvider): this {
+        this.providers = [...this.providers.filter(existing => existing.type !== provider.type), provider];
+        return this;
+    }
+
+    getProvider(type: IdentityType): IdentityProvider | undefined {
+        return this.providers.find(provider => provider.type === type);
+    }
+
+    /**
+     * The provider that handles an input and its normalized identity, or null
+     */
+    detect(input: string): { provider: IdentityProvider; value: string } | null {
+        const trimmed = input.trim();
+        for (const provider of this.providers) {
+            const value = provider.normalize(trimmed);
+            if (value) {
+                return { provider, value };
+            }
+        }
+        return null;
+    }
+
+    async resolve(input: string): Promise<ResolvedIdentity> {
+        const { provider, value } = this.require(input);
+
+        let match: IdentityMatch;
+        try {
+            match = await provider.lookup(value);
+        } catch (error) {
+            console.error(`❌ ${provider.type} lookup failed:`, error);
+            throw new IdentityResolverError(`Could not look up ${value}. Please try again.`, 'LOOKUP_FAILED');
+        }
+
+        if (!match.wallet && !provider.escrowable) {
+            throw new IdentityResolverError(`${value} is not registered`, 'NOT_FOUND');
+        }
+        return { type: provider.type, value, ...match };
+    }
+
+    /**
+     * The 32-byte escrow seed for an identity without a wallet
+     */
+    getEscrowHash(input: string): number[] {
+        const { provider, value } = this.require(input);
+        if (!provider.escrowable) {
+            throw new IdentityResolverError(`Can't hold funds for ${value} until it has a wallet`, 'NOT_ESCROWABLE');
+        }
+        return IdentityResolver.hashEscrowKey(value);
+    }
+
+    /**
+     * sha256 of the normalized identity; for emails this is the hash escrows have always used
+     */
+    static hashEscrowKey(value: string): number[] {
+        return Array.from(crypto.createHash('sha256').update(value).digest());
+    }
+
+    private require(input: string): { provider: IdentityProvider; value: string } {
+        const detected = this.detect(input);
+        if (!detected) {
+            const types = this.providers.map(provider => provider.label.toLowerCase()).join(', ');
+            throw new IdentityResolverError(`Enter one of: ${types}`, 'UNSUPPORTED_IDENTITY');
+        }
+        return detected;
+    }
+}
+
+/**
+ * Emails, looked up in whatever maps them to wallets
+ */
+export class EmailIdentityProvider implements IdentityProvider {
+    readonly type = 'email';
+    readonly label = 'Email';
+    readonly escrowable = true;
+
+    constructor(private lookupWallet: (email: string) => Promise<IdentityMatch>) {}
+
+    normalize(input: string): string | null {
+        const email = input.toLowerCase();
+        return EMAIL_PATTERN.test(email) ? email : null;
+    }
+
+    lookup(email: string): Promise<IdentityMatch> {
+        return this.lookupWallet(email);
+    }
+}
+
+/**
+ * Phone numbers in international form; spaces, dashes, dots, brackets and a 00 prefix are accepted
+ */
+export class PhoneIdentityProvider implements IdentityProvider {
+    readonly type = 'phone';
+    readonly label = 'Phone number';
+    readonly escrowable = true;
+
+    constructor(private lookupWallet: (phone: string) => Promise<IdentityMatch>) {}
+
+    normalize(input: string): string | null {
+        if (!/^(\+|00)[\d\s().-]+$/.test(input)) {
+            return null;
+        }
+        const phone = input.replace(/[\s().-]/g, '').replace(/^00/, '+');
+        return E164_PATTERN.test(phone) ? phone : null;
+    }
+
+    lookup(phone: string): Promise<IdentityMatch> {
+        return this.lookupWallet(phone);
+    }
+}
+
+/**
+ * Farcaster accounts as `@username` or `fid:123`, paid at their verified Solana address
+ */
+export class FarcasterIdentityProvider implements IdentityProvider {
+    readonly type = 'farcaster';
+    readonly label = 'Farcaster';
+    readonly escrowable = false;
+
+    constructor(private lookupWallet: (identity: { username?: string; fid?: number }) => Promise<IdentityMatch>) {}
+
+    normalize(input: string): string | null {
+        const value = input.toLowerCase();
+        return FARCASTER_USERNAME_PATTERN.test(value) || FARCASTER_FID_PATTERN.test(value) ? value : null;
+    }
+
+    lookup(value: string): Promise<IdentityMatch> {
+        const fid = value.match(FARCASTER_FID_PATTERN)?.[1];
+        return this.lookupWallet(fid ? { fid: Number(fid) } : { username: value.slice(1) });
+    }
+}
+
+/**
+ * .sol domains, paid at the domain owner
+ */
+export class SnsIdentityProvider implements IdentityProvider {
+    readonly type = 'sns';
+    readonly label = '.sol domain';
+    readonly escrowable = false;
+
+    constructor(private domainResolver: DomainResolver) {}
+
+    normalize(input: string): string | null {
+        const domain = input.toLowerCase();
+        return DOMAIN_PATTERN.test(domain) ? domain : null;
+    }
+
+    async lookup(domain: string): Promise<IdentityMatch> {
+        return { wallet: await this.domainResolver.resolve(domain), verification: 'onchain' };
+    }
+}
+
+/**
+ * Raw base58 addresses. Solana addresses carry no checksum, so a typo that still decodes
+ * to 32 bytes gets through here and is caught, if at all, by RecipientResolver's on-curve check.
+ */
+export class WalletIdentityProvider implements IdentityProvider {
+    readonly type = 'wallet';
+    readonly label = 'Wallet address';
+    readonly escrowable = false;
+
+    normalize(input: string): string | null {
+        if (!BASE58_PATTERN.test(input)) {
+            return null;
+        }
+        try {
+            return new PublicKey(input).toBase58();
+        } catch {
+            return null;
+        }
+    }
+
+    async lookup(address: string): Promise<IdentityMatch> {
+        return { wallet: address, verification: 'onchain' };
+    }
+}
+
+export default IdentityResolver;
@@ -0,0 +1,44 @@
+// src/services/memo.ts
+
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+
+// Shared by the app, the fee-payer-relayer and the root tests, so keep it free of app aliases.
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// Notes are written on-chain with every payment, so keep them short enough to batch
+export const MAX_MEMO_BYTES = 200;
+
+export class Memo {
+    /**
+     * Trimmed note, or undefined when there is nothing to attach
+     */
+    static normalize(text?: string | null): string | undefined {
+        const note = text?.trim();
+        return note ? note : undefined;
+    }
+
+    /**
+     * Size of a note on-chain, in UTF-8 bytes
+     */
+    static byteLength(text: string): number {
+        return new TextEncoder().encode(text).length;
+    }
+
+    static isTooLong(text: string): boolean {
+        return this.byteLength(text) > MAX_MEMO_BYTES;
+    }
+
+    /**
+     * SPL Memo instruction signed by the sender, so the note is attributable to them
+     */
+    static createInstruction(text: string, signer: PublicKey): TransactionInstruction {
+        return new TransactionInstruction({
+            programId: MEMO_PROGRAM_ID,
+            keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+            data: Buffer.from(new TextEncoder().encode(text)),
+        });
+    }
+}
+
+export default Memo;
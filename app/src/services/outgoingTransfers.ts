@@ -0,0 +1,145 @@
+// src/services/outgoingTransfers.ts
+
+import { PublicKey } from '@solana/web3.js';
+import TransactionService, { EscrowChainStatus, SenderEscrow } from './transactionService';
+import TransferIntentService, { TransferIntent } from './transferService';
+import TokenRegistry from './tokenRegistry';
+
+export interface OutgoingTransfer {
+    escrowPda: string;
+    intentId?: string; // Missing when the escrow has no transfer_intents row
+    recipientEmail?: string;
+    message?: string; // Sender's note from the transfer intent
+    amount: number; // Amount in the token's base units
+    tokenMint: string;
+    tokenSymbol: string;
+    decimals: number;
+    chainStatus: EscrowChainStatus | 'closed'; // 'closed' once the escrow account is gone (reclaimed)
+    dbStatus?: TransferIntent['status'];
+    createdAt: Date;
+    expiresAt: Date;
+    isExpired: boolean;
+    canReclaim: boolean; // Active on-chain and past expiry
+    mismatch?: string; // Why the on-chain and database states disagree
+}
+
+export class OutgoingTransferService {
+    /**
+     * List a sender's escrows from the chain, joined with their transfer intents
+     */
+    static async getOutgoingTransfers(senderWalletAddress: string): Promise<OutgoingTransfer[]> {
+        const [escrows, intents] = await Promise.all([
+            TransactionService.getEscrowsBySender(new PublicKey(senderWalletAddress)),
+            TransferIntentService.getTransferIntentsBySender(senderWalletAddress)
+        ]);
+
+        const now = new Date();
+        const intentsByPda = new Map<string, TransferIntent>();
+        intents.forEach(intent => {
+            if (intent.escrowPda) {
+                intentsByPda.set(intent.escrowPda, intent);
+            }
+        });
+
+        const transfers = escrows.map(escrow => this.fromEscrow(escrow, intentsByPda.get(escrow.escrowPda), now));
+
+        // Intents whose escrow no longer exists on-chain; reclaimed ones are settled history
+        const scanned = new Set(escrows.map(escrow => escrow.escrowPda));
+        intents
+            .filter(intent => intent.escrowPda && !scanned.has(intent.escrowPda) && !intent.reclaimTxHash)
+            .forEach(intent => transfers.push(this.fromClosedIntent(intent, now)));
+
+        const mismatches = transfers.filter(transfer => transfer.mismatch).length;
+        if (mismatches > 0) {
+            console.warn(`⚠️ ${mismatches} outgoing transfers disagree between chain and database`);
+        }
+
+        return transfers.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    private static fromEscrow(escrow: SenderEscrow, intent: TransferIntent | undefined, now: Date): OutgoingTransfer {
+        const isExpired = escrow.expiresAt < now;
+
+        return {
+            escrowPda: escrow.escrowPda,
+            intentId: intent?.id,
+            recipientEmail: intent?.recipientEmail,
+            message: intent?.message,
+            amount: escrow.amount,
+            ...this.getTokenDisplay(escrow.tokenMint, intent?.tokenSymbol),
+            chainStatus: escrow.status,
+            dbStatus: intent?.status,
+            createdAt: escrow.createdAt,
+            expiresAt: escrow.expiresAt,
+            isExpired,
+            canReclaim: escrow.status === 'active' && isExpired,
+            mismatch: this.findMismatch(escrow, intent, isExpired)
+        };
+    }
+
+    private static fromClosedIntent(intent: TransferIntent, now: Date): OutgoingTransfer {
+        const expiresAt = new Date(intent.expiresAt);
+
+        return {
+            escrowPda: intent.escrowPda!,
+            intentId: intent.id,
+            recipientEmail: intent.recipientEmail,
+            message: intent.message,
+            amount: intent.amount,
+            ...this.getTokenDisplay(intent.tokenMint, intent.tokenSymbol),
+            chainStatus: 'closed',
+            dbStatus: intent.status,
+            createdAt: new Date(intent.createdAt),
+            expiresAt,
+            isExpired: expiresAt < now,
+            canReclaim: false,
+            // Claims keep the escrow account, only a reclaim closes it
+            mismatch: intent.status === 'claimed'
+                ? 'Marked claimed, but the escrow account is missing on-chain'
+                : 'Escrow account is closed on-chain, but the reclaim was never recorded'
+        };
+    }
+
+    private static findMismatch(escrow: SenderEscrow, intent: TransferIntent | undefined, isExpired: boolean): string | undefined {
+        if (!intent) {
+            return 'No transfer record for this escrow';
+        }
+
+        if (intent.tokenMint && intent.tokenMint !== escrow.tokenMint) {
+            return 'Token differs between chain and database';
+        }
+
+        if (intent.amount !== escrow.amount) {
+            return 'Amount differs between chain and database';
+        }
+
+        switch (escrow.status) {
+            case 'active':
+                if (intent.status === 'claimed') {
+                    return 'Marked claimed, but the escrow is still active on-chain';
+                }
+                if (intent.status === 'expired' && !isExpired) {
+                    return 'Marked expired before the escrow expires on-chain';
+                }
+                return undefined;
+            case 'claimed':
+                return intent.status === 'claimed' ? undefined : 'Claimed on-chain, but not marked claimed';
+            case 'expired':
+                return intent.status === 'expired' ? undefined : 'Expired on-chain, but not marked expired';
+        }
+    }
+
+    /**
+     * Symbol and decimals for a mint; intent amounts are stored with 6 decimals when the mint left the registry
+     */
+    private static getTokenDisplay(tokenMint: string, storedSymbol?: string): Pick<OutgoingTransfer, 'tokenMint' | 'tokenSymbol' | 'decimals'> {
+        const token = TokenRegistry.getByMint(tokenMint);
+        return {
+            tokenMint,
+            tokenSymbol: token?.symbol ?? storedSymbol ?? 'USDC',
+            decimals: token?.decimals ?? 6
+        };
+    }
+}
+
+export default OutgoingTransferService;
@@ -0,0 +1,110 @@
+// src/services/paymentLink.ts
+
+// Shared by SendModal and the root tests, so keep it free of app aliases.
+import { PublicKey } from '@solana/web3.js';
+import SolanaPay, { SolanaPayError } from './solanaPay';
+
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * What a scanned or pasted payment link asks for, ready to prefill the send form
+ */
+export interface PaymentLink {
+    source: 'solanaPay' | 'fyMoney' | 'address';
+    recipient: string; // Anything the identity registry handles
+    amount?: string; // Token units
+    splToken?: string; // Mint the request is for; USDC when absent from an FY Money link
+    reference: string[]; // Solana Pay reference keys, added to the transfer so the requester finds it
+    memo?: string; // Prefills the note; a Solana Pay message is used when there is no memo
+    label?: string; // Who is asking
+}
+
+export class PaymentLinkError extends Error {
+    constructor(
+        message: string,
+        public code: 'UNRECOGNIZED' | 'UNSUPPORTED'
+    ) {
+        super(message);
+        this.name = 'PaymentLinkError';
+    }
+}
+
+export class PaymentLinks {
+    /**
+     * Parse a `solana:` transfer request, an FY Money `?send_to=&amount=` link or a raw address
+     */
+    static parse(text: string): PaymentLink {
+        const input = text.trim();
+
+        if (input.toLowerCase().startsWith('solana:')) {
+            return this.parseSolanaPay(input);
+        }
+
+        if (/^https?:\/\//i.test(input)) {
+            let url: URL;
+            try {
+                url = new URL(input);
+            } catch {
+                throw new PaymentLinkError('This link is not valid', 'UNRECOGNIZED');
+            }
+            const sendTo = url.searchParams.get('send_to')?.trim();
+            if (!sendTo) {
+                throw new PaymentLinkError('This link is not a payment request', 'UNRECOGNIZED');
+            }
+            const amount = url.searchParams.get('amount')?.trim() || undefined;
+            return {
+                source: 'fyMoney',
+                recipient: sendTo,
+                amount: amount && AMOUNT_PATTERN.test(amount) ? amount : undefined,
+                reference: []
+            };
+        }
+
+        if (BASE58_PATTERN.test(input)) {
+            try {
+                return { source: 'address', recipient: new PublicKey(input).toBase58(), reference: [] };
+            } catch {
+                // Falls through to unrecognized
+            }
+        }
+
+        throw new PaymentLinkError('No payment request or address found', 'UNRECOGNIZED');
+    }
+
+    /**
+     * Whether pasted text should be taken over as a link instead of typed into the recipient field
+     */
+    static isLink(text: string): boolean {
+        return /^(solana:|https?:\/\/)/i.test(text.trim());
+    }
+
+    private static parseSolanaPay(input: string): PaymentLink {
+        try {
+            const request = SolanaPay.parseURL(input);
+            // Native SOL requests have no spl-token; only registry tokens can be sent from here
+            if (!request.splToken) {
+                throw new PaymentLinkError('This request is for SOL, which FY Money cannot send', 'UNSUPPORTED');
+            }
+            return {
+                source: 'solanaPay',
+                recipient: request.recipient.toBase58(),
+                amount: request.amount,
+                splToken: request.splToken.toBase58(),
+                reference: (request.reference ?? []).map(key => key.toBase58()),
+                memo: request.memo ?? request.message,
+                label: request.label
+            };
+        } catch (error) {
+            if (error instanceof SolanaPayError) {
+                throw new PaymentLinkError(
+                    error.code === 'UNSUPPORTED_REQUEST' ? error.message : `Invalid Solana Pay link: ${error.message}`,
+                    error.code === 'UNSUPPORTED_REQUEST' ? 'UNSUPPORTED' : 'UNRECOGNIZED'
+                );
+            }
+            throw error;
+        }
+    }
+}
+
+export default PaymentLinks;
@@ -0,0 +1,217 @@
+// src/services/paymentRequestService.ts
+
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { supabase } from '@/lib/supabase';
+import TokenRegistry from '@/services/tokenRegistry';
+import SolanaPay from '@/services/solanaPay';
+import { ENV_CONFIG } from '@/config/environment';
+
+const POLL_INTERVAL_MS = 5000;
+// Open requests older than this are no longer watched when the wallet loads
+const WATCH_WINDOW_DAYS = 7;
+const REQUEST_LABEL = 'FY Money';
+
+export interface SolanaPayRequest {
+    id: string;
+    walletAddress: string; // Requester, paid at the associated token account
+    amount: number; // Token units
+    tokenMint: string;
+    reference: string;
+    message?: string;
+    url: string; // solana: transfer request, also encoded in the QR code
+    status: 'sent' | 'paid';
+    paidTxHash?: string;
+    createdAt: string;
+}
+
+export interface CreateSolanaPayRequestParams {
+    requesterEmail: string;
+    walletAddress: string;
+    amount: string; // Token units, as typed
+    message?: string;
+}
+
+export class PaymentRequestError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID_AMOUNT' | 'DATABASE_ERROR'
+    ) {
+        super(message);
+        this.name = 'PaymentRequestError';
+    }
+}
+
+type PaymentRequestListener = (request: SolanaPayRequest) => void;
+
+/**
+ * Solana Pay payment requests: a link and QR code anyone can pay from any wallet.
+ * Each carries a fresh reference key; the request is paid once a valid transfer with it confirms.
+ */
+export class PaymentRequestService {
+    private static connection = new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed');
+    private static listeners = new Set<PaymentRequestListener>();
+    private static watched = new Map<string, SolanaPayRequest>(); // By reference
+    private static timer: ReturnType<typeof setTimeout> | null = null;
+
+    static async createSolanaPayRequest(params: CreateSolanaPayRequestParams): Promise<SolanaPayRequest> {
+        const { requesterEmail, walletAddress, amount, message } = params;
+        const token = TokenRegistry.getDefaultToken();
+
+        const units = Number(amount);
+        if (!/^\d+(\.\d+)?$/.test(amount.trim()) || !(units > 0)) {
+            throw new PaymentRequestError('Enter an amount greater than 0', 'INVALID_AMOUNT');
+        }
+        if ((amount.split('.')[1] ?? '').length > token.decimals) {
+            throw new PaymentRequestError(`${token.symbol} has at most ${token.decimals} decimals`, 'INVALID_AMOUNT');
+        }
+
+        const reference = Keypair.generate().publicKey.toBase58();
+
+        const { data, error } = await supabase
+            .from('payment_requests')
+            .insert({
+                channel: 'solana_pay',
+                requester_email: requesterEmail,
+                requester_wallet: walletAddress,
+                amount: units,
+                message: message?.trim() || null,
+                reference,
+                token_mint: token.mint.toBase58(),
+                status: 'sent'
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('❌ Failed to save payment request:', error);
+            throw new PaymentRequestError('Failed to create payment request', 'DATABASE_ERROR');
+        }
+
+        const request = this.fromRow(data);
+        console.log('🔗 Solana Pay request created:', { id: request.id, reference });
+        this.watch(request);
+        return request;
+    }
+
+    /**
+     * Unpaid Solana Pay requests of a wallet from the last WATCH_WINDOW_DAYS
+     */
+    static async getOpenRequests(walletAddress: string): Promise<SolanaPayRequest[]> {
+        const since = new Date(Date.now() - WATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const { data, error } = await supabase
+            .from('payment_requests')
+            .select('*')
+            .eq('channel', 'solana_pay')
+            .eq('requester_wallet', walletAddress)
+            .eq('status', 'sent')
+            .gt('created_at', since.toISOString())
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('❌ Failed to load payment requests:', error);
+            throw new PaymentRequestError('Failed to load payment requests', 'DATABASE_ERROR');
+        }
+        return data.map(row => this.fromRow(row));
+    }
+
+    /**
+     * Watch a request's reference until it is paid; listeners hear about it once
+     */
+    static watch(request: SolanaPayRequest): void {
+        if (request.status === 'paid' || this.watched.has(request.reference)) {
+            return;
+        }
+        this.watched.set(request.reference, request);
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+        }
+    }
+
+    static unwatchAll(): void {
+        this.watched.clear();
+    }
+
+    static subscribe(listener: PaymentRequestListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static async poll(): Promise<void> {
+        for (const request of [...this.watched.values()]) {
+            try {
+                await this.checkPayment(request);
+            } catch (error) {
+                // Transient RPC failure: the next round tries again
+                console.warn('⚠️ Payment request check failed:', request.reference, error);
+            }
+        }
+        this.timer = this.watched.size > 0 ? setTimeout(() => this.poll(), POLL_INTERVAL_MS) : null;
+    }
+
+    private static async checkPayment(request: SolanaPayRequest): Promise<void> {
+        // Anyone can reuse the public reference, so skip past failed or short transfers to the real payment
+        const token = TokenRegistry.getByMint(request.tokenMint) ?? TokenRegistry.getDefaultToken();
+        const found = await SolanaPay.findPayment(this.connection, new PublicKey(request.reference), {
+            recipient: new PublicKey(request.walletAddress),
+            splToken: token.mint,
+            amount: BigInt(TokenRegistry.toBaseUnits(request.amount, token))
+        });
+        if (!found) {
+            return;
+        }
+
+        const { error } = await supabase
+            .from('payment_requests')
+            .update({ status: 'paid', paid_tx_hash: found.signature, paid_at: new Date().toISOString() })
+            .eq('id', request.id);
+
+        if (error) {
+            // Retried on the next poll; the payment itself has landed
+            console.error('❌ Failed to mark payment request paid:', error);
+            return;
+        }
+
+        console.log('✅ Payment request paid:', { id: request.id, signature: found.signature });
+        this.watched.delete(request.reference);
+        const paid: SolanaPayRequest = { ...request, status: 'paid', paidTxHash: found.signature };
+        this.listeners.forEach(listener => listener(paid));
+    }
+
+    private static fromRow(row: {
+        id: string;
+        requester_wallet: string;
+        amount: number | string;
+        token_mint: string;
+        reference: string;
+        message: string | null;
+        status: string;
+        paid_tx_hash: string | null;
+        created_at: string;
+    }): SolanaPayRequest {
+        const message = row.message ?? undefined;
+        const amount = Number(row.amount);
+        return {
+            id: row.id,
+            walletAddress: row.requester_wallet,
+            amount,
+            tokenMint: row.token_mint,
+            reference: row.reference,
+            message,
+            url: SolanaPay.encodeURL({
+                recipient: new PublicKey(row.requester_wallet),
+                amount: String(amount),
+                splToken: new PublicKey(row.token_mint),
+                reference: [new PublicKey(row.reference)],
+                label: REQUEST_LABEL,
+                message
+            }),
+            status: row.status === 'paid' ? 'paid' : 'sent',
+            paidTxHash: row.paid_tx_hash ?? undefined,
+            createdAt: row.created_at
+        };
+    }
+}
+
+export default PaymentRequestService;
@@ -0,0 +1,145 @@
+// src/services/phoneVerification.ts
+
+// Shared by the phone-verification edge function and the root tests, so keep it free of app aliases.
+import * as crypto from 'crypto';
+import { E164_PATTERN } from './identityResolver.ts'; // Explicit extension for Deno
+import { SmsProvider } from './smsProvider.ts';
+
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MINUTES = 10;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_RESEND_SECONDS = 30;
+// How long a verified number may claim before it has to be verified again
+export const PHONE_VERIFIED_MINUTES = 30;
+
+export interface PhoneVerificationRecord {
+    phoneHash: string; // Hex sha256 of the E.164 number, like phone_wallets.phone_hash
+    codeHash: string | null; // Hex sha256 of the number and code, cleared once used; the code itself is never stored
+    sentAt: Date;
+    expiresAt: Date;
+    attempts: number; // Wrong codes entered so far
+    verifiedAt: Date | null;
+}
+
+// Why checkCode turned a code down
+export type CodeCheckFailure = 'NOT_REQUESTED' | 'TOO_MANY_ATTEMPTS' | 'EXPIRED' | 'INVALID_CODE';
+
+export interface PhoneVerificationStore {
+    get(phoneHash: string): Promise<PhoneVerificationRecord | null>;
+    save(record: PhoneVerificationRecord): Promise<void>;
+    /**
+     * Check a code and count it as one attempt in a single atomic step, so parallel guesses can't
+     * all read the same attempt count. A match sets verifiedAt and clears codeHash; null means verified.
+     */
+    checkCode(phoneHash: string, codeHash: string, now: Date, maxAttempts: number): Promise<CodeCheckFailure | null>;
+}
+
+export class PhoneVerificationError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID_PHONE' | 'RESEND_TOO_SOON' | 'NOT_REQUESTED' | 'EXPIRED' | 'TOO_MANY_ATTEMPTS' | 'INVALID_CODE' | 'NOT_VERIFIED'
+    ) {
+        super(message);
+        this.name = 'PhoneVerificationError';
+    }
+}
+
+/**
+ * One-time SMS codes proving the claimer owns the phone number an escrow was sent to.
+ * Phone numbers must already be normalized to E.164 by the identity registry.
+ */
+export class PhoneVerification {
+    constructor(
+        private sms: SmsProvider,
+        private store: PhoneVerificationStore,
+        private now: () => Date = () => new Date()
+    ) {}
+
+    /**
+     * Text a fresh code, replacing any earlier one for the number
+     */
+    async sendCode(phone: string): Promise<void> {
+        PhoneVerification.requirePhone(phone);
+        const phoneHash = PhoneVerification.hashPhone(phone);
+        const now = this.now();
+
+        const previous = await this.store.get(phoneHash);
+        if (previous && now.getTime() - previous.sentAt.getTime() < OTP_RESEND_SECONDS * 1000) {
+            throw new PhoneVerificationError(`Please wait ${OTP_RESEND_SECONDS} seconds before requesting another code`, 'RESEND_TOO_SOON');
+        }
+
+        const code = PhoneVerification.generateCode();
+        await this.store.save({
+            phoneHash,
+            codeHash: PhoneVerification.hashCode(phone, code),
+            sentAt: now,
+            expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+            attempts: 0,
+            verifiedAt: null
+        });
+        await this.sms.send({
+            to: phone,
+            body: `Your FY Money code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes. Never share it with anyone.`
+        });
+    }
+
+    async verifyCode(phone: string, code: string): Promise<void> {
+        PhoneVerification.requirePhone(phone);
+        const failure = await this.store.checkCode(
+            PhoneVerification.hashPhone(phone),
+            PhoneVerification.hashCode(phone, code.trim()),
+            this.now(),
+            OTP_MAX_ATTEMPTS
+        );
+
+        switch (failure) {
+            case null:
+                return;
+            case 'NOT_REQUESTED':
+                throw new PhoneVerificationError('Request a code first', 'NOT_REQUESTED');
+            case 'TOO_MANY_ATTEMPTS':
+                throw new PhoneVerificationError('Too many wrong codes. Request a new one.', 'TOO_MANY_ATTEMPTS');
+            case 'EXPIRED':
+                throw new PhoneVerificationError('This code has expired. Request a new one.', 'EXPIRED');
+            case 'INVALID_CODE':
+                throw new PhoneVerificationError('That code is not right', 'INVALID_CODE');
+        }
+    }
+
+    async isVerified(phone: string): Promise<boolean> {
+        const record = await this.store.get(PhoneVerification.hashPhone(phone));
+        return !!record?.verifiedAt
+            && this.now().getTime() - record.verifiedAt.getTime() < PHONE_VERIFIED_MINUTES * 60 * 1000;
+    }
+
+    /**
+     * Throws unless the number was verified recently; checked before a claim is built
+     */
+    async assertVerified(phone: string): Promise<void> {
+        if (!await this.isVerified(phone)) {
+            throw new PhoneVerificationError('Verify your phone number with the code we text you before claiming', 'NOT_VERIFIED');
+        }
+    }
+
+    static hashPhone(phone: string): string {
+        return crypto.createHash('sha256').update(phone).digest('hex');
+    }
+
+    private static hashCode(phone: string, code: string): string {
+        return crypto.createHash('sha256').update(`${phone}:${code}`).digest('hex');
+    }
+
+    private static generateCode(): string {
+        // The modulo bias of 2^32 over 10^6 is far below what guessing within OTP_MAX_ATTEMPTS allows
+        const value = crypto.randomBytes(4).readUInt32BE(0) % 10 ** OTP_LENGTH;
+        return value.toString().padStart(OTP_LENGTH, '0');
+    }
+
+    private static requirePhone(phone: string): void {
+        if (!E164_PATTERN.test(phone)) {
+            throw new PhoneVerificationError('Enter your number in international format, e.g. +14155550123', 'INVALID_PHONE');
+        }
+    }
+}
+
+export default PhoneVerification;
@@ -0,0 +1,128 @@
+// src/services/phoneWallet.ts
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { getUserAuthHeaders, supabase } from '@/lib/supabase';
+import PhoneVerification, { PhoneVerificationError } from './phoneVerification';
+import type { DynamicAuthError } from './dynamicAuth';
+
+export interface PhoneWalletInfo {
+    phone: string; // E.164
+    walletAddress: string;
+    verifiedAt: Date;
+}
+
+export class PhoneWalletError extends Error {
+    constructor(
+        message: string,
+        public code: 'DATABASE_ERROR' | 'VERIFICATION_UNAVAILABLE'
+    ) {
+        super(message);
+        this.name = 'PhoneWalletError';
+    }
+}
+
+interface VerificationRejection {
+    error: string;
+    reason?: PhoneVerificationError['code'] | DynamicAuthError['code'];
+}
+
+/**
+ * Service for phone-to-wallet mappings in Supabase. A mapping only exists for numbers
+ * verified with an SMS code, so phone lookups are always verified.
+ * Codes are texted, checked and turned into mappings by the phone-verification edge function.
+ */
+export class PhoneWalletService {
+    private static readonly FUNCTION_NAME = 'phone-verification';
+
+    static async getUserByPhone(phone: string): Promise<PhoneWalletInfo | null> {
+        const { data, error } = await supabase
+            .rpc('phone_wallet_lookup', { p_phone_hash: PhoneVerification.hashPhone(phone) })
+            .maybeSingle<{ wallet_address: string; verified_at: string }>();
+
+        if (error) {
+            console.error('Database error in getUserByPhone:', error);
+            throw new PhoneWalletError('Failed to query phone wallet mapping', 'DATABASE_ERROR');
+        }
+
+        return data && {
+            phone,
+            walletAddress: data.wallet_address,
+            verifiedAt: new Date(data.verified_at)
+        };
+    }
+
+    /**
+     * Text a fresh code to the number
+     */
+    static async sendCode(phone: string): Promise<void> {
+        await this.invoke({ action: 'sendCode', phone });
+    }
+
+    /**
+     * Check the code and map the number to the wallet, which must be one the user signed in with
+     */
+    static async verifyAndRegister(phone: string, code: string, walletAddress: string): Promise<PhoneWalletInfo> {
+        const data = await this.invoke<{ walletAddress: string; verifiedAt: string }>({
+            action: 'verifyCode',
+            phone,
+            code,
+            walletAddress
+        });
+
+        console.log('✅ Phone number linked to wallet:', data.walletAddress);
+        return {
+            phone,
+            walletAddress: data.walletAddress,
+            verifiedAt: new Date(data.verifiedAt)
+        };
+    }
+
+    /**
+     * Throws unless the signed-in user verified the number recently; checked before a claim is built
+     */
+    static async assertVerified(phone: string): Promise<void> {
+        const { verified } = await this.invoke<{ verified: boolean }>({ action: 'status', phone });
+        if (!verified) {
+            throw new PhoneVerificationError('Verify your phone number with the code we text you before claiming', 'NOT_VERIFIED');
+        }
+    }
+
+    private static async invoke<T>(body: Record<string, string>): Promise<T> {
+        const { data, error } = await supabase.functions.invoke<T>(this.FUNCTION_NAME, {
+            headers: getUserAuthHeaders(),
+            body
+        });
+
+        if (error || !data) {
+            console.error('❌ Phone verification error:', error);
+            throw await this.readRejection(error);
+        }
+        return data;
+    }
+
+    /**
+     * Turn the function's rejection back into the PhoneVerificationError it raised, when it carries one
+     */
+    private static async readRejection(error: unknown): Promise<Error> {
+        const unavailable = new PhoneWalletError('Phone verification is unavailable. Please try again later.', 'VERIFICATION_UNAVAILABLE');
+        if (!(error instanceof FunctionsHttpError)) {
+            return unavailable;
+        }
+
+        try {
+            const body = await (error.context as Response).json() as VerificationRejection;
+            if (!body.error) {
+                return unavailable;
+            }
+
+            if (!body.reason || body.reason === 'MISSING_TOKEN' || body.reason === 'INVALID_TOKEN' || body.reason === 'NO_EMAIL') {
+                return new PhoneWalletError(body.error, 'VERIFICATION_UNAVAILABLE');
+            }
+            return new PhoneVerificationError(body.error, body.reason);
+        } catch {
+            return unavailable;
+        }
+    }
+}
+
+export default PhoneWalletService;
@@ -0,0 +1,107 @@
+// src/services/priorityFees.ts
+
+import { ComputeBudgetProgram, Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+
+// Shared by the app, the sponsorship policy (and so the relayer) and the root tests, so keep it free of app aliases.
+
+export type PriorityLevel = 'normal' | 'fast';
+
+// Runtime compute budget rules
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+export const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+
+// Headroom over the simulated units, since account state can change before the transaction lands
+const COMPUTE_UNIT_MARGIN = 1.2;
+
+export interface PriorityFeeQuote {
+    level: PriorityLevel;
+    computeUnitLimit: number;
+    microLamports: number; // Price per compute unit
+    lamports: number; // Priority fee if the whole limit is used
+    capped: boolean; // The sampled price was lowered to stay within the cap
+}
+
+export type PrioritizationFeeSource = Pick<Connection, 'getRecentPrioritizationFees'>;
+
+export class PriorityFees {
+    /**
+     * Price per compute unit at the given percentile (0-100) of recent fees paid to write the same accounts
+     */
+    static async estimateMicroLamports(
+        connection: PrioritizationFeeSource,
+        writableAccounts: PublicKey[],
+        percentile: number
+    ): Promise<number> {
+        const fees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+        return this.percentile(fees.map(fee => fee.prioritizationFee), percentile);
+    }
+
+    /**
+     * Nearest-rank percentile; 0 when there are no samples
+     */
+    static percentile(values: number[], percentile: number): number {
+        if (values.length === 0) {
+            return 0;
+        }
+
+        const sorted = [...values].sort((a, b) => a - b);
+        const rank = Math.ceil((Math.min(Math.max(percentile, 0), 100) / 100) * sorted.length);
+        return sorted[Math.max(rank - 1, 0)];
+    }
+
+    /**
+     * Compute unit limit for a transaction that used the given units in simulation
+     */
+    static getComputeUnitLimit(unitsConsumed: number): number {
+        if (unitsConsumed <= 0) {
+            return MAX_COMPUTE_UNIT_LIMIT;
+        }
+        return Math.min(Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNIT_LIMIT);
+    }
+
+    static getFeeLamports(microLamports: number, computeUnitLimit: number): number {
+        return Math.ceil((microLamports * computeUnitLimit) / MICRO_LAMPORTS_PER_LAMPORT);
+    }
+
+    /**
+     * Price the limit, lowering the price when the fee would exceed maxLamports
+     */
+    static quote(level: PriorityLevel, microLamports: number, computeUnitLimit: number, maxLamports: number): PriorityFeeQuote {
+        const maxMicroLamports = Math.floor((maxLamports * MICRO_LAMPORTS_PER_LAMPORT) / computeUnitLimit);
+        const price = Math.min(Math.floor(microLamports), maxMicroLamports);
+
+        return {
+            level,
+            computeUnitLimit,
+            microLamports: price,
+            lamports: this.getFeeLamports(price, computeUnitLimit),
+            capped: price < microLamports
+        };
+    }
+
+    /**
+     * Compute budget instructions, placed ahead of everything else in the transaction
+     */
+    static getInstructions(computeUnitLimit: number, microLamports: number): TransactionInstruction[] {
+        return [
+            ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+            ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
+        ];
+    }
+
+    /**
+     * Accounts the instructions write, which is what fee markets are local to
+     */
+    static getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+        const accounts = new Map<string, PublicKey>();
+        instructions.forEach(instruction => {
+            instruction.keys
+                .filter(key => key.isWritable)
+                .forEach(key => accounts.set(key.pubkey.toBase58(), key.pubkey));
+        });
+        return [...accounts.values()];
+    }
+}
+
+export default PriorityFees;
@@ -0,0 +1,316 @@
+// src/services/programErrors.ts
+
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PublicKey, SendTransactionError, SystemProgram, TransactionError } from '@solana/web3.js';
+import { AnchorError, LangErrorCode, LangErrorMessage } from '@coral-xyz/anchor';
+import { Fymoney } from '@/types/fymoney';
+import { YieldVault } from '@/types/yield_vault';
+import FymoneyIDL from '@/idl/fymoney.json';
+import YieldVaultIDL from '@/idl/yield_vault.json';
+
+// Error names as they appear in the IDL json and in Anchor logs
+export type FymoneyErrorCode = Capitalize<Fymoney['errors'][number]['name']>;
+export type YieldVaultErrorCode = Capitalize<YieldVault['errors'][number]['name']>;
+
+// spl-token TokenError, indexed by custom error code
+const TOKEN_ERROR_CODES = [
+    'NotRentExempt',
+    'InsufficientFunds',
+    'InvalidMint',
+    'MintMismatch',
+    'OwnerMismatch',
+    'FixedSupply',
+    'AlreadyInUse',
+    'InvalidNumberOfProvidedSigners',
+    'InvalidNumberOfRequiredSigners',
+    'UninitializedState',
+    'NativeNotSupported',
+    'NonNativeHasBalance',
+    'InvalidInstruction',
+    'InvalidState',
+    'Overflow',
+    'AuthorityTypeNotSupported',
+    'MintCannotFreeze',
+    'AccountFrozen',
+    'MintDecimalsMismatch',
+    'NonNativeNotSupported',
+] as const;
+export type TokenErrorCode = typeof TOKEN_ERROR_CODES[number];
+
+// System program SystemError, indexed by custom error code
+const SYSTEM_ERROR_CODES = [
+    'AccountAlreadyInUse',
+    'ResultWithNegativeLamports',
+    'InvalidProgramId',
+    'InvalidAccountDataLength',
+    'MaxSeedLengthExceeded',
+    'AddressWithSeedMismatch',
+    'NonceNoRecentBlockhashes',
+    'NonceBlockhashNotExpired',
+    'NonceUnexpectedBlockhashValue',
+] as const;
+export type SystemErrorCode = typeof SYSTEM_ERROR_CODES[number];
+
+// Checks the app makes before building a transaction
+export type ClientErrorCode =
+    | 'EscrowNotFound'
+    | 'InvalidRecipient'
+    | 'RecipientTokenAccountMissing'
+    | 'UserTokenAccountMissing'
+    | 'UnsupportedToken'
+    | 'MemoTooLong'
+    | 'NetworkError';
+
+/**
+ * A failure decoded to the program that raised it and its error name.
+ * `anchor` covers framework errors (constraints, account checks), `runtime` covers
+ * instruction and transaction errors reported by the validator itself.
+ */
+export type DecodedProgramError =
+    | { program: 'fymoney'; code: FymoneyErrorCode }
+    | { program: 'yield_vault'; code: YieldVaultErrorCode }
+    | { program: 'token'; code: TokenErrorCode }
+    | { program: 'system'; code: SystemErrorCode }
+    | { program: 'anchor'; code: string }
+    | { program: 'runtime'; code: string }
+    | { program: 'client'; code: ClientErrorCode };
+
+type ProgramName = DecodedProgramError['program'];
+type CodeOf<P extends ProgramName> = Extract<DecodedProgramError, { program: P }>['code'];
+
+// Program errors are exhaustive so a new IDL error fails the type-check until it has a message
+interface ErrorMessages {
+    fymoney: Record<FymoneyErrorCode, string>;
+    yield_vault: Record<YieldVaultErrorCode, string>;
+    token: Partial<Record<TokenErrorCode, string>>;
+    system: Partial<Record<SystemErrorCode, string>>;
+    anchor: Record<string, string>;
+    runtime: Record<string, string>;
+    client: Record<ClientErrorCode, string>;
+}
+
+export type ErrorLocale = 'en';
+
+const ERROR_MESSAGES: Record<ErrorLocale, ErrorMessages> = {
+    en: {
+        fymoney: {
+            InvalidAmount: 'Amount must be greater than 0',
+            InvalidExpiration: 'The expiration must be in the future.',
+            ExpirationTooLong: 'Transfers can expire at most 30 days from now.',
+            EscrowNotActive: 'This transfer was already claimed or reclaimed.',
+            EscrowExpired: 'This transfer has expired and can no longer be claimed.',
+            EscrowNotExpired: 'This transfer has not expired yet.',
+            InvalidRecipient: 'You are not authorized to claim this transfer.',
+            UnauthorizedSender: 'Only the sender can reclaim this transfer.',
+            TransferHookNotSupported: 'This token runs a transfer hook, which is not supported yet.',
+        },
+        yield_vault: {
+            InvalidAmount: 'Amount must be greater than 0',
+            InsufficientFunds: 'Insufficient funds in your vault deposit',
+        },
+        token: {
+            InsufficientFunds: 'Insufficient token balance.',
+            OwnerMismatch: 'This token account belongs to someone else.',
+            AccountFrozen: 'This token account is frozen.',
+            MintDecimalsMismatch: 'Unexpected token decimals. Please refresh and try again.',
+        },
+        system: {
+            AccountAlreadyInUse: 'This account already exists. Please refresh and try again.',
+            ResultWithNegativeLamports: 'Not enough SOL for this transaction.',
+        },
+        anchor: {
+            AccountNotInitialized: 'A required account does not exist yet.',
+            ConstraintSeeds: 'Transaction details do not match this transfer.',
+            ConstraintHasOne: 'Transaction details do not match this transfer.',
+        },
+        runtime: {
+            InvalidAccountData: 'A required token account does not exist yet.',
+            UninitializedAccount: 'A required token account does not exist yet.',
+            InsufficientFunds: 'Insufficient funds.',
+            AccountNotFound: 'The fee paying account has no SOL.',
+            InsufficientFundsForFee: 'Not enough SOL to pay the network fee.',
+            InsufficientFundsForRent: 'Not enough SOL to cover account rent.',
+            BlockhashNotFound: 'The network is busy. Please try again.',
+        },
+        client: {
+            EscrowNotFound: 'Transfer not found. It may have already been claimed or reclaimed.',
+            InvalidRecipient: 'A valid recipient email or phone number is required',
+            RecipientTokenAccountMissing: 'Recipient does not have an account for this token. They need to create one first.',
+            UserTokenAccountMissing: 'You need a USDC token account to deposit. Please create one first.',
+            UnsupportedToken: 'This token is not supported.',
+            MemoTooLong: 'This note is too long. Please shorten it.',
+            NetworkError: 'Network error. Please try again.',
+        },
+    },
+};
+
+// IDL error tables, keyed by program id
+const PROGRAM_ERRORS: Record<string, { program: 'fymoney' | 'yield_vault'; errors: { code: number; name: string }[] }> = {
+    [FymoneyIDL.address]: { program: 'fymoney', errors: FymoneyIDL.errors },
+    [YieldVaultIDL.address]: { program: 'yield_vault', errors: YieldVaultIDL.errors },
+};
+
+const LANG_ERROR_NAMES: Record<number, string> = Object.fromEntries(
+    Object.entries(LangErrorCode).map(([name, code]) => [code, name])
+);
+
+const NETWORK_ERROR_PATTERN = /failed to fetch|fetch failed|network request failed|ECONNREFUSED|ETIMEDOUT|429 Too Many Requests/i;
+
+// Error carrying the decoded failure so callers can branch on it instead of on message text
+export class ProgramErrorException extends Error {
+    constructor(
+        public error: DecodedProgramError,
+        message: string = ProgramErrors.getMessage(error)
+    ) {
+        super(message);
+        this.name = 'ProgramErrorException';
+    }
+}
+
+export class ProgramErrors {
+    /**
+     * Typed constructor for the failures the app raises itself
+     */
+    static exception<P extends ProgramName>(program: P, code: CodeOf<P>): ProgramErrorException {
+        return new ProgramErrorException({ program, code } as DecodedProgramError);
+    }
+
+    /**
+     * User-facing message for a decoded error; unmapped codes fall back to the IDL message
+     */
+    static getMessage(error: DecodedProgramError, locale: ErrorLocale = 'en'): string {
+        const messages = ERROR_MESSAGES[locale][error.program] as Record<string, string | undefined>;
+        const message = messages[error.code];
+        if (message) {
+            return message;
+        }
+
+        if (error.program === 'anchor') {
+            const code = LangErrorCode[error.code as keyof typeof LangErrorCode];
+            return LangErrorMessage.get(code) ?? `Transaction failed: ${error.code}`;
+        }
+
+        return `Transaction failed: ${error.code}`;
+    }
+
+    /**
+     * Decode a simulation or confirmation error using the failing instruction's program and Anchor logs
+     */
+    static fromTransactionError(err: TransactionError, logs: string[], programIds: PublicKey[]): DecodedProgramError {
+        const anchorError = AnchorError.parse(logs);
+        if (anchorError) {
+            return this.fromCustomCode(anchorError.program, anchorError.error.errorCode.number)
+                ?? { program: 'anchor', code: anchorError.error.errorCode.code };
+        }
+
+        const instructionError = this.getInstructionError(err);
+        if (instructionError) {
+            const { index, detail } = instructionError;
+            const programId = programIds[index];
+
+            if (typeof detail === 'object' && detail !== null && 'Custom' in detail && programId) {
+                const decoded = this.fromCustomCode(programId, (detail as { Custom: number }).Custom);
+                if (decoded) {
+                    return decoded;
+                }
+            }
+
+            if (typeof detail === 'string') {
+                return { program: 'runtime', code: detail };
+            }
+
+            return { program: 'runtime', code: JSON.stringify(detail) };
+        }
+
+        return { program: 'runtime', code: typeof err === 'string' ? err : JSON.stringify(err) };
+    }
+
+    /**
+     * Decode any thrown value, or null when it is not a recognizable transaction failure
+     */
+    static decode(error: unknown): DecodedProgramError | null {
+        if (error instanceof ProgramErrorException) {
+            return error.error;
+        }
+
+        if (error instanceof AnchorError) {
+            return this.fromCustomCode(error.program, error.error.errorCode.number)
+                ?? { program: 'anchor', code: error.error.errorCode.code };
+        }
+
+        if (error instanceof SendTransactionError && error.logs) {
+            const anchorError = AnchorError.parse(error.logs);
+            if (anchorError) {
+                return this.fromCustomCode(anchorError.program, anchorError.error.errorCode.number)
+                    ?? { program: 'anchor', code: anchorError.error.errorCode.code };
+            }
+
+            const failed = this.parseFailedProgram(error.logs);
+            if (failed) {
+                return this.fromCustomCode(failed.programId, failed.code);
+            }
+        }
+
+        if (error instanceof Error && NETWORK_ERROR_PATTERN.test(error.message)) {
+            return { program: 'client', code: 'NetworkError' };
+        }
+
+        return null;
+    }
+
+    /**
+     * Map a custom error code to the program that raised it
+     */
+    static fromCustomCode(programId: PublicKey, code: number): DecodedProgramError | null {
+        const programErrors = PROGRAM_ERRORS[programId.toString()];
+        if (programErrors) {
+            const idlError = programErrors.errors.find(error => error.code === code);
+            if (idlError) {
+                return { program: programErrors.program, code: idlError.name } as DecodedProgramError;
+            }
+            if (LANG_ERROR_NAMES[code]) {
+                return { program: 'anchor', code: LANG_ERROR_NAMES[code] };
+            }
+            return null;
+        }
+
+        // Token-2022 keeps the token program's error codes
+        if ((programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) && TOKEN_ERROR_CODES[code]) {
+            return { program: 'token', code: TOKEN_ERROR_CODES[code] };
+        }
+
+        if (programId.equals(SystemProgram.programId) && SYSTEM_ERROR_CODES[code]) {
+            return { program: 'system', code: SYSTEM_ERROR_CODES[code] };
+        }
+
+        return null;
+    }
+
+    /**
+     * Index of the failing instruction, when the error names one
+     */
+    static getInstructionIndex(err: TransactionError): number | undefined {
+        return this.getInstructionError(err)?.index;
+    }
+
+    private static getInstructionError(err: TransactionError): { index: number; detail: unknown } | null {
+        if (typeof err === 'object' && err !== null && 'InstructionError' in err) {
+            const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+            return { index, detail };
+        }
+        return null;
+    }
+
+    // e.g. "Program Tokenkeg... failed: custom program error: 0x1"
+    private static parseFailedProgram(logs: string[]): { programId: PublicKey; code: number } | null {
+        for (const line of logs) {
+            const match = line.match(/^Program (\w+) failed: custom program error: 0x([0-9a-f]+)/i);
+            if (match) {
+                return { programId: new PublicKey(match[1]), code: parseInt(match[2], 16) };
+            }
+        }
+        return null;
+    }
+}
+
+export default ProgramErrors;
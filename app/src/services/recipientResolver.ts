@@ -0,0 +1,87 @@
+// src/services/recipientResolver.ts
+
+// Shared by SendModal and the root tests, so keep it free of app aliases.
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { IdentityResolver, ResolvedIdentity } from './identityResolver';
+
+// Withdrawal hot wallets of large exchanges; deposits are only credited to personal deposit addresses
+const EXCHANGE_WALLETS: Record<string, string> = {
+    '2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S': 'Binance',
+    'H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS': 'Coinbase',
+    'FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5': 'Kraken',
+    '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD': 'OKX',
+};
+
+// Shown before sending; the sender has to acknowledge them
+export type RecipientWarning = 'offCurve' | 'exchange';
+
+export const RECIPIENT_WARNINGS: Record<RecipientWarning, string> = {
+    offCurve: 'This address is a program-derived account (PDA), not a personal wallet. Only send if you know the program can move these funds.',
+    exchange: 'This looks like an exchange hot wallet. Exchanges credit deposits only to your personal deposit address.',
+};
+
+export interface ResolvedRecipient extends ResolvedIdentity {
+    warnings: RecipientWarning[];
+    exchange?: string; // Exchange name behind an `exchange` warning
+}
+
+export class RecipientResolverError extends Error {
+    constructor(
+        message: string,
+        public code: 'NOT_A_WALLET'
+    ) {
+        super(message);
+        this.name = 'RecipientResolverError';
+    }
+}
+
+/**
+ * One recipient field for every identity type: the registry finds the wallet, this checks it is safe to pay
+ */
+export class RecipientResolver {
+    static async resolve(
+        input: string,
+        identities: IdentityResolver,
+        connection: Pick<Connection, 'getAccountInfo'>
+    ): Promise<ResolvedRecipient> {
+        const identity = await identities.resolve(input);
+        if (!identity.wallet) {
+            // Goes to an escrow for the identity
+            return { ...identity, warnings: [] };
+        }
+        return { ...identity, ...await this.checkAddress(identity.wallet, connection) };
+    }
+
+    /**
+     * Refuse addresses that can't hold a token account and flag ones that probably shouldn't
+     */
+    private static async checkAddress(
+        address: string,
+        connection: Pick<Connection, 'getAccountInfo'>
+    ): Promise<Pick<ResolvedRecipient, 'warnings' | 'exchange'>> {
+        const key = new PublicKey(address);
+        const account = await connection.getAccountInfo(key);
+
+        if (account?.executable) {
+            throw new RecipientResolverError('This address is a program, not a wallet', 'NOT_A_WALLET');
+        }
+        // A token account as the owner would put the funds in a token account nobody can sign for
+        if (account && (account.owner.equals(TOKEN_PROGRAM_ID) || account.owner.equals(TOKEN_2022_PROGRAM_ID))) {
+            throw new RecipientResolverError('This is a token account or mint. Enter the wallet address instead.', 'NOT_A_WALLET');
+        }
+
+        const warnings: RecipientWarning[] = [];
+        if (!PublicKey.isOnCurve(key.toBytes())) {
+            warnings.push('offCurve');
+        }
+        const exchange = EXCHANGE_WALLETS[address];
+        if (exchange) {
+            warnings.push('exchange');
+            return { warnings, exchange };
+        }
+        return { warnings };
+    }
+}
+
+export default RecipientResolver;
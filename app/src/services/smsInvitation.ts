@@ -0,0 +1,32 @@
+// src/services/smsInvitation.ts
+
+// Shared by the send-sms edge function and the root tests, so keep it free of app aliases.
+import { EscrowExpiry } from './escrowExpiry.ts'; // Explicit extension for Deno
+
+// One GSM-7 segment; a longer invitation drops the sender's note rather than costing a second segment
+export const SMS_SEGMENT_LENGTH = 160;
+
+export interface SmsInvitationDetails {
+    sender: string; // Sender email, or a shortened wallet address
+    recipientPhone: string; // E.164
+    amount: number; // Token units, as stored on the intent
+    tokenSymbol: string;
+    message?: string | null; // Sender's note, included when it fits
+    expiresAt: Date; // The escrow's on-chain expiry
+}
+
+/**
+ * The invitation text for a transfer to a phone number, composed server-side from the stored intent
+ */
+export class SmsInvitation {
+    static compose(details: SmsInvitationDetails, appUrl: string): string {
+        const { sender, recipientPhone, amount, tokenSymbol, message, expiresAt } = details;
+        const claimUrl = `${appUrl}?phone=${encodeURIComponent(recipientPhone)}`;
+
+        const base = `${sender} sent you ${amount.toFixed(2)} ${tokenSymbol} on FY Money. Claim by ${EscrowExpiry.formatDate(expiresAt)}: ${claimUrl}`;
+        const withNote = message ? `${base}\n"${message}"` : base;
+        return withNote.length <= SMS_SEGMENT_LENGTH ? withNote : base;
+    }
+}
+
+export default SmsInvitation;
@@ -0,0 +1,59 @@
+// src/services/smsNotificationService.ts
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { getUserAuthHeaders, supabase } from '@/lib/supabase';
+
+export interface SmsInvitationResult {
+    messageId: string;
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * Asks the send-sms edge function to text the invitation for a transfer intent.
+ * The function composes the text from the stored intent, checks the caller sent it,
+ * rate-limits and logs the send, so the browser never chooses a number or a message.
+ */
+export class SmsNotificationService {
+    private static readonly FUNCTION_NAME = 'send-sms';
+
+    /**
+     * Text an invitation for a transfer intent sent to a phone number
+     */
+    static async sendInvitationSms(transferIntentId: string): Promise<SmsInvitationResult> {
+        console.log('📱 Sending invitation SMS for transfer intent:', transferIntentId);
+
+        const { data, error } = await supabase.functions.invoke<{ id: string }>(this.FUNCTION_NAME, {
+            headers: getUserAuthHeaders(),
+            body: { transferIntentId }
+        });
+
+        if (error || !data) {
+            const errorMessage = await this.readRejection(error);
+            console.error('❌ Failed to send invitation SMS:', errorMessage);
+            return { messageId: '', success: false, error: errorMessage };
+        }
+
+        console.log('✅ Invitation SMS sent:', data.id);
+        return { messageId: data.id, success: true };
+    }
+
+    /**
+     * The function's own error message when it sent one, e.g. a rate limit
+     */
+    private static async readRejection(error: unknown): Promise<string> {
+        if (error instanceof FunctionsHttpError) {
+            try {
+                const body = await (error.context as Response).json() as { error?: string };
+                if (body.error) {
+                    return body.error;
+                }
+            } catch {
+                // Not a JSON rejection; fall through to the generic message
+            }
+        }
+        return error instanceof Error ? error.message : 'Unknown error';
+    }
+}
+
+export default SmsNotificationService;
@@ -0,0 +1,36 @@
+// src/services/smsProvider.ts
+
+// Shared by the SMS edge functions and the root tests, so keep it free of app aliases.
+// The in-memory provider the tests use lives in tests/utils, so nothing here can stand in for a real one.
+
+export interface SmsMessage {
+    to: string; // E.164 phone number
+    body: string;
+}
+
+export interface SmsProvider {
+    /**
+     * Deliver one message, resolving to the provider's message id
+     */
+    send(message: SmsMessage): Promise<string>;
+}
+
+// Texts per rolling hour, enforced by the edge functions through sms_record_send
+export const SMS_HOURLY_LIMITS = {
+    perUser: 10,
+    perNumber: 5
+};
+
+export type SmsRateLimitReason = 'USER_SMS_LIMIT' | 'NUMBER_SMS_LIMIT';
+
+export const SMS_LIMIT_MESSAGE = 'Too many texts were sent recently. Please try again in an hour.';
+
+export class SmsProviderError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID_NUMBER' | 'SEND_FAILED' | 'NOT_CONFIGURED'
+    ) {
+        super(message);
+        this.name = 'SmsProviderError';
+    }
+}
@@ -0,0 +1,181 @@
+// src/services/solanaPay.ts
+
+// Shared by the payment request flow and the root tests, so keep it free of app aliases.
+import {
+    ConfirmedSignatureInfo,
+    Connection,
+    GetVersionedTransactionConfig,
+    PublicKey,
+    TokenBalance,
+    VersionedTransactionResponse
+} from '@solana/web3.js';
+
+export const SOLANA_PAY_PROTOCOL = 'solana:';
+
+/**
+ * A Solana Pay transfer request, https://docs.solanapay.com/spec#transfer-request
+ */
+export interface TransferRequest {
+    recipient: PublicKey; // Wallet, not token account; wallets pay its associated token account
+    amount?: string; // Decimal in token units, e.g. "25.5"
+    splToken?: PublicKey; // Mint; SOL when absent
+    reference?: PublicKey[]; // Read-only keys added to the transfer so it can be found on-chain
+    label?: string; // Who is asking, shown by the paying wallet
+    message?: string; // What it is for, shown by the paying wallet
+    memo?: string; // Written on-chain with the SPL Memo program
+}
+
+/**
+ * What findPayment needs from a Connection; narrow so tests can pass a stub
+ */
+export interface SolanaPayConnection extends Pick<Connection, 'getSignaturesForAddress'> {
+    getTransaction(signature: string, config: GetVersionedTransactionConfig): Promise<Pick<VersionedTransactionResponse, 'meta'> | null>;
+}
+
+export class SolanaPayError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID_URL' | 'UNSUPPORTED_REQUEST' | 'INVALID_AMOUNT' | 'TRANSFER_FAILED' | 'WRONG_TRANSFER'
+    ) {
+        super(message);
+        this.name = 'SolanaPayError';
+    }
+}
+
+export class SolanaPay {
+    static encodeURL(request: TransferRequest): string {
+        const { recipient, amount, splToken, reference = [], label, message, memo } = request;
+        if (amount !== undefined && !/^\d+(\.\d+)?$/.test(amount)) {
+            throw new SolanaPayError(`Invalid amount ${amount}`, 'INVALID_AMOUNT');
+        }
+
+        const params = new URLSearchParams();
+        if (amount !== undefined) {
+            params.append('amount', amount);
+        }
+        if (splToken) {
+            params.append('spl-token', splToken.toBase58());
+        }
+        reference.forEach(key => params.append('reference', key.toBase58()));
+        if (label) {
+            params.append('label', label);
+        }
+        if (message) {
+            params.append('message', message);
+        }
+        if (memo) {
+            params.append('memo', memo);
+        }
+
+        // URLSearchParams writes spaces as +, which the spec doesn't decode
+        const query = params.toString().replace(/\+/g, '%20');
+        return `${SOLANA_PAY_PROTOCOL}${recipient.toBase58()}${query ? `?${query}` : ''}`;
+    }
+
+    /**
+     * Read a transfer request URL; transaction requests (solana:https://...) are not supported
+     */
+    static parseURL(url: string): TransferRequest {
+        if (!url.toLowerCase().startsWith(SOLANA_PAY_PROTOCOL)) {
+            throw new SolanaPayError('Not a Solana Pay URL', 'INVALID_URL');
+        }
+
+        const [path, query = ''] = url.slice(SOLANA_PAY_PROTOCOL.length).split('?', 2);
+        if (/^https?%3A|^https?:/i.test(path)) {
+            throw new SolanaPayError('Transaction requests are not supported', 'UNSUPPORTED_REQUEST');
+        }
+
+        const recipient = this.parseKey(decodeURIComponent(path), 'recipient');
+        const params = new URLSearchParams(query);
+
+        const amount = params.get('amount') ?? undefined;
+        if (amount !== undefined && !/^\d+(\.\d+)?$/.test(amount)) {
+            throw new SolanaPayError(`Invalid amount ${amount}`, 'INVALID_AMOUNT');
+        }
+        const splToken = params.get('spl-token');
+
+        return {
+            recipient,
+            amount,
+            splToken: splToken ? this.parseKey(splToken, 'spl-token') : undefined,
+            reference: params.getAll('reference').map(key => this.parseKey(key, 'reference')),
+            label: params.get('label') ?? undefined,
+            message: params.get('message') ?? undefined,
+            memo: params.get('memo') ?? undefined
+        };
+    }
+
+    /**
+     * Successful transactions that included the reference key, oldest first.
+     * The reference is public, so any of them may be someone else's failed or short transfer.
+     */
+    static async findReferences(
+        connection: Pick<Connection, 'getSignaturesForAddress'>,
+        reference: PublicKey
+    ): Promise<ConfirmedSignatureInfo[]> {
+        const signatures = await connection.getSignaturesForAddress(reference, { limit: 1000 }, 'confirmed');
+        // RPC returns newest first
+        return signatures.filter(signature => !signature.err).reverse();
+    }
+
+    /**
+     * The oldest transaction with the reference that passes validateTransfer, or null while none has
+     */
+    static async findPayment(
+        connection: SolanaPayConnection,
+        reference: PublicKey,
+        expected: { recipient: PublicKey; splToken: PublicKey; amount: bigint }
+    ): Promise<ConfirmedSignatureInfo | null> {
+        for (const found of await this.findReferences(connection, reference)) {
+            const transaction = await connection.getTransaction(found.signature, {
+                commitment: 'confirmed',
+                maxSupportedTransactionVersion: 0
+            });
+
+            try {
+                this.validateTransfer(transaction, expected);
+                return found;
+            } catch (error) {
+                // Not a valid payment; a later transaction may still be
+                if (!(error instanceof SolanaPayError)) {
+                    throw error;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check a confirmed transaction paid the recipient at least `amount` base units of the mint
+     */
+    static validateTransfer(
+        transaction: Pick<VersionedTransactionResponse, 'meta'> | null,
+        { recipient, splToken, amount }: { recipient: PublicKey; splToken: PublicKey; amount: bigint }
+    ): void {
+        if (!transaction?.meta || transaction.meta.err) {
+            throw new SolanaPayError('The payment transaction failed', 'TRANSFER_FAILED');
+        }
+
+        const owner = recipient.toBase58();
+        const mint = splToken.toBase58();
+        const balanceOf = (balances?: TokenBalance[] | null) => {
+            const entry = balances?.find(balance => balance.owner === owner && balance.mint === mint);
+            return BigInt(entry?.uiTokenAmount.amount ?? 0);
+        };
+
+        const received = balanceOf(transaction.meta.postTokenBalances) - balanceOf(transaction.meta.preTokenBalances);
+        if (received < amount) {
+            throw new SolanaPayError(`Expected ${amount} base units, received ${received}`, 'WRONG_TRANSFER');
+        }
+    }
+
+    private static parseKey(value: string, field: string): PublicKey {
+        try {
+            return new PublicKey(value);
+        } catch {
+            throw new SolanaPayError(`Invalid ${field} ${value}`, 'INVALID_URL');
+        }
+    }
+}
+
+export default SolanaPay;
@@ -0,0 +1,97 @@
+// src/services/sponsorshipLedger.ts
+
+import { getUserAuthHeaders, supabase } from '@/lib/supabase';
+
+export interface SponsorshipSpendByUser {
+    walletAddress: string;
+    email?: string;
+    transactionCount: number;
+    feeLamports: number;
+    rentLamports: number;
+    ataRentPayments: number;
+    totalLamports: number;
+    dailyLamports: number;
+    monthlyLamports: number;
+    lastSponsoredAt: string;
+}
+
+// Row of the fee_payer_spend_by_user view as the relayer returns it
+interface SpendByUserRow {
+    wallet_address: string;
+    email: string | null;
+    transaction_count: number | string;
+    fee_lamports: number | string;
+    rent_lamports: number | string;
+    ata_rent_payments: number | string;
+    total_lamports: number | string;
+    daily_lamports: number | string;
+    monthly_lamports: number | string;
+    last_sponsored_at: string;
+}
+
+/**
+ * Read side of the fee_payer_spend ledger; rows are only written by the fee-payer-relayer function,
+ * which is also the only reader, and only serves them to ops wallets
+ */
+export class SponsorshipLedgerService {
+    private static readonly FUNCTION_NAME = 'fee-payer-relayer';
+
+    /**
+     * Get fee payer spend per wallet and email for the ops view, biggest spenders first
+     */
+    static async getSpendByUser(limit = 100): Promise<SponsorshipSpendByUser[]> {
+        try {
+            const { data, error } = await supabase.functions.invoke<{ spend: SpendByUserRow[] }>(
+                `${this.FUNCTION_NAME}?view=spend&limit=${limit}`,
+                {
+                    method: 'GET',
+                    headers: getUserAuthHeaders()
+                }
+            );
+
+            if (error || !data) {
+                console.error('❌ Fee payer relayer error getting fee payer spend:', error);
+                throw new SponsorshipLedgerError(
+                    'Failed to get fee payer spend',
+                    'RELAYER_UNAVAILABLE'
+                );
+            }
+
+            return data.spend.map(item => ({
+                walletAddress: item.wallet_address,
+                email: item.email ?? undefined,
+                transactionCount: Number(item.transaction_count),
+                feeLamports: Number(item.fee_lamports),
+                rentLamports: Number(item.rent_lamports),
+                ataRentPayments: Number(item.ata_rent_payments),
+                totalLamports: Number(item.total_lamports),
+                dailyLamports: Number(item.daily_lamports),
+                monthlyLamports: Number(item.monthly_lamports),
+                lastSponsoredAt: item.last_sponsored_at
+            }));
+        } catch (error) {
+            if (error instanceof SponsorshipLedgerError) {
+                throw error;
+            }
+
+            console.error('❌ Failed to get fee payer spend:', error);
+            throw new SponsorshipLedgerError(
+                'Failed to get fee payer spend',
+                'UNKNOWN_ERROR'
+            );
+        }
+    }
+}
+
+// Error class for sponsorship ledger operations
+export class SponsorshipLedgerError extends Error {
+    constructor(
+        message: string,
+        public code: 'RELAYER_UNAVAILABLE' | 'UNKNOWN_ERROR'
+    ) {
+        super(message);
+        this.name = 'SponsorshipLedgerError';
+    }
+}
+
+export default SponsorshipLedgerService;
@@ -0,0 +1,587 @@
+// src/services/sponsorshipPolicy.ts
+
+import { AddressLookupTableAccount, ComputeBudgetProgram, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+    deserializeTransaction,
+    getFeePayer,
+    getLookupTableAddresses,
+    resolveMessage,
+    ResolvedMessage,
+    SolanaTransaction
+} from './transactionFormat.ts'; // Explicit extension for the Deno relayer
+import { DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNIT_LIMIT, PriorityFees } from './priorityFees.ts';
+import { MAX_MEMO_BYTES, MEMO_PROGRAM_ID } from './memo.ts';
+
+// This module must stay free of app aliases and env access: the fee-payer-relayer
+// edge function and the root unit tests import it directly.
+
+export const FYMONEY_PROGRAM_ID = new PublicKey('9PbXHvSA4k86YpoJonchC9LHaFNuGv7XiEf8MdD4ZYNp');
+export const YIELD_VAULT_PROGRAM_ID = new PublicKey('4ccPktiGRVAS5vmuPj8W7CcR534mQn88KmtHaMTdeQVs');
+
+export type SponsorshipRejectionReason =
+    | 'INVALID_TRANSACTION'
+    | 'FEE_PAYER_MISMATCH'
+    | 'TOO_MANY_INSTRUCTIONS'
+    | 'PROGRAM_NOT_ALLOWED'
+    | 'INSTRUCTION_NOT_ALLOWED'
+    | 'MALFORMED_INSTRUCTION'
+    | 'FEE_PAYER_MISUSE'
+    | 'AMOUNT_LIMIT_EXCEEDED'
+    | 'ATA_RENT_LIMIT_EXCEEDED'
+    | 'ATA_NOT_USED'
+    | 'LAMPORT_LIMIT_EXCEEDED'
+    | 'PRIORITY_FEE_LIMIT_EXCEEDED';
+
+export interface SponsorshipLimits {
+    maxInstructions: number; // Compute budget instructions not included
+    maxTokenAmount: number; // Per instruction, in token base units
+    maxAtaRentPayments: number; // Associated token accounts the fee payer may fund per transaction
+    maxLamportsDrained: number; // Signature and priority fees plus rent the fee payer may spend per transaction
+    maxPriorityFeeLamports: number; // Priority fee per transaction, at its full compute unit limit
+}
+
+export const DEFAULT_SPONSORSHIP_LIMITS: SponsorshipLimits = {
+    maxInstructions: 4,
+    maxTokenAmount: 10_000_000_000, // 10,000 USDC
+    maxAtaRentPayments: 2,
+    maxLamportsDrained: 10_000_000, // 0.01 SOL
+    maxPriorityFeeLamports: 100_000, // 0.0001 SOL
+};
+
+export interface SponsoredInstruction {
+    index: number;
+    program: 'fymoney' | 'yield_vault' | 'spl-token' | 'spl-token-2022' | 'associated-token' | 'memo' | 'compute-budget';
+    name: string;
+    amount?: number;
+}
+
+export interface SponsorshipEvaluation {
+    instructions: SponsoredInstruction[];
+    ataRentPayments: number;
+    feeLamports: number; // Signature fees plus priorityFeeLamports
+    priorityFeeLamports: number;
+    rentLamports: number;
+    lamportsDrained: number; // feeLamports + rentLamports
+}
+
+// User-facing message for every rejection reason
+const REJECTION_MESSAGES: Record<SponsorshipRejectionReason, string> = {
+    INVALID_TRANSACTION: 'This transaction could not be read. Please try again.',
+    FEE_PAYER_MISMATCH: 'This transaction is not set up for sponsored fees. Please try again.',
+    TOO_MANY_INSTRUCTIONS: 'This transaction is too large to be sponsored.',
+    PROGRAM_NOT_ALLOWED: 'This transaction uses a program that is not eligible for sponsored fees.',
+    INSTRUCTION_NOT_ALLOWED: 'This transaction contains an action that is not eligible for sponsored fees.',
+    MALFORMED_INSTRUCTION: 'This transaction contains an invalid instruction.',
+    FEE_PAYER_MISUSE: 'This transaction uses the sponsor account in a way that is not allowed.',
+    AMOUNT_LIMIT_EXCEEDED: 'This amount is above the sponsored transfer limit. Please send a smaller amount.',
+    ATA_RENT_LIMIT_EXCEEDED: 'This transaction creates too many token accounts to be sponsored.',
+    ATA_NOT_USED: 'This transaction creates a token account it does not use.',
+    LAMPORT_LIMIT_EXCEEDED: 'This transaction costs more network fees than we can sponsor.',
+    PRIORITY_FEE_LIMIT_EXCEEDED: 'This transaction\'s priority fee is higher than we can sponsor. Please try the normal speed.',
+};
+
+// Network costs used to estimate what the fee payer spends, computed offline
+const LAMPORTS_PER_SIGNATURE = 5000;
+const TOKEN_ACCOUNT_SPACE = 165;
+// Token-2022 accounts carry extensions: account type, then immutable owner, transfer fee amount
+// and transfer hook account entries (4 byte TLV header each), which covers the registry's mints
+const TOKEN_2022_ACCOUNT_SPACE = TOKEN_ACCOUNT_SPACE + 1 + 4 + (4 + 8) + (4 + 1);
+const ESCROW_ACCOUNT_SPACE = 8 + 195;
+const USER_DEPOSIT_ACCOUNT_SPACE = 8 + 40;
+const VAULT_ACCOUNT_SPACE = 8;
+
+// Rent-exempt minimum for an account of the given size, matching the default cluster rent
+const rentExemptLamports = (space: number): number => (space + 128) * 3480 * 2;
+
+// A fee payer below this balance can't fund one token account plus signature fees and leaves rotation
+export const MIN_FEE_PAYER_LAMPORTS = rentExemptLamports(TOKEN_2022_ACCOUNT_SPACE) + 2 * LAMPORTS_PER_SIGNATURE;
+
+// Fee payers below this balance are reported so they can be topped up
+export const FEE_PAYER_LOW_WATER_LAMPORTS = 100_000_000; // 0.1 SOL
+
+// Anchor instruction discriminators from the program IDLs
+export const FYMONEY_DISCRIMINATORS = {
+    initializeEscrow: [243, 160, 77, 153, 11, 92, 48, 209],
+    claimEscrow: [200, 80, 182, 159, 61, 75, 9, 205],
+    reclaimExpiredEscrow: [26, 242, 45, 144, 217, 156, 121, 163],
+};
+
+export const YIELD_VAULT_DISCRIMINATORS = {
+    deposit: [242, 35, 198, 137, 82, 225, 242, 182],
+    withdraw: [183, 18, 70, 156, 148, 109, 161, 34],
+};
+
+const TOKEN_TRANSFER_CHECKED = 12;
+const ATA_CREATE = 0;
+const ATA_CREATE_IDEMPOTENT = 1;
+const COMPUTE_BUDGET_SET_UNIT_LIMIT = 2;
+const COMPUTE_BUDGET_SET_UNIT_PRICE = 3;
+
+// Account positions where the fee payer is expected to appear
+const INITIALIZE_ESCROW_FEE_PAYER_INDEX = 5;
+const DEPOSIT_FEE_PAYER_INDEX = 6;
+const ATA_PAYER_INDEX = 0;
+
+// Account positions of the token accounts an instruction pays into; sponsored token accounts must be one of them
+const CLAIM_ESCROW_RECIPIENT_TOKEN_INDEX = 2;
+const RECLAIM_ESCROW_SENDER_TOKEN_INDEX = 2;
+const WITHDRAW_USER_TOKEN_INDEX = 1;
+const TRANSFER_CHECKED_DESTINATION_INDEX = 2;
+const ATA_ACCOUNT_INDEX = 1;
+
+// Account positions of the token program, which decides the size of new token accounts
+const INITIALIZE_ESCROW_TOKEN_PROGRAM_INDEX = 6;
+const ATA_TOKEN_PROGRAM_INDEX = 5;
+
+interface DecodedInstruction {
+    instruction: SponsoredInstruction;
+    feePayerIndex?: number; // Account slot the fee payer may legitimately fill
+    rentLamports: number; // Worst case rent paid by the fee payer
+    ataRentPayments: number;
+    computeUnitLimit?: number;
+    computeUnitPrice?: number; // Micro-lamports
+    fundedTokenAccount?: PublicKey; // Token account created with the fee payer's rent
+    receivingTokenAccount?: PublicKey; // Token account the instruction pays into
+}
+
+// Error class for sponsorship rejections
+export class SponsorshipPolicyError extends Error {
+    constructor(
+        message: string,
+        public code: SponsorshipRejectionReason,
+        public instructionIndex?: number
+    ) {
+        super(message);
+        this.name = 'SponsorshipPolicyError';
+    }
+}
+
+/**
+ * Decides whether the fee payer may sponsor a transaction.
+ * Runs purely on the transaction bytes so the relayer, the client and the tests share one implementation.
+ */
+export class SponsorshipPolicy {
+    /**
+     * Get the user-facing message for a rejection reason
+     */
+    static getRejectionMessage(reason: SponsorshipRejectionReason): string {
+        return REJECTION_MESSAGES[reason];
+    }
+
+    /**
+     * Evaluate a base64 or raw serialized legacy or v0 transaction
+     */
+    static evaluateSerialized(
+        serialized: string | Uint8Array,
+        feePayer: PublicKey,
+        limits: SponsorshipLimits = DEFAULT_SPONSORSHIP_LIMITS,
+        lookupTables: AddressLookupTableAccount[] = []
+    ): SponsorshipEvaluation {
+        let transaction: SolanaTransaction;
+
+        try {
+            const bytes = typeof serialized === 'string' ? Buffer.from(serialized, 'base64') : serialized;
+            transaction = deserializeTransaction(bytes);
+        } catch {
+            throw this.reject('INVALID_TRANSACTION');
+        }
+
+        return this.evaluate(transaction, feePayer, limits, lookupTables);
+    }
+
+    /**
+     * Evaluate a transaction, throwing a SponsorshipPolicyError if it may not be sponsored.
+     * v0 transactions are checked with their lookup table addresses resolved, so tables can't hide accounts.
+     */
+    static evaluate(
+        transaction: SolanaTransaction,
+        feePayer: PublicKey,
+        limits: SponsorshipLimits = DEFAULT_SPONSORSHIP_LIMITS,
+        lookupTables: AddressLookupTableAccount[] = []
+    ): SponsorshipEvaluation {
+        const transactionFeePayer = getFeePayer(transaction);
+        if (!transactionFeePayer || !transactionFeePayer.equals(feePayer)) {
+            throw this.reject('FEE_PAYER_MISMATCH');
+        }
+
+        const message = this.resolve(transaction, lookupTables);
+
+        if (!message.recentBlockhash || message.instructions.length === 0) {
+            throw this.reject('INVALID_TRANSACTION');
+        }
+
+        const programInstructions = message.instructions
+            .filter(ix => !ix.programId.equals(ComputeBudgetProgram.programId)).length;
+        if (programInstructions > limits.maxInstructions) {
+            throw this.reject('TOO_MANY_INSTRUCTIONS');
+        }
+
+        const instructions: SponsoredInstruction[] = [];
+        let ataRentPayments = 0;
+        let rentLamports = 0;
+        let computeUnitLimit: number | undefined;
+        let computeUnitPrice: number | undefined;
+        const fundedTokenAccounts: { account: PublicKey; index: number }[] = [];
+        const receivingTokenAccounts: PublicKey[] = [];
+
+        message.instructions.forEach((ix, index) => {
+            const decoded = this.decodeInstruction(ix, index, feePayer);
+
+            this.assertFeePayerUsage(ix, index, feePayer, decoded.feePayerIndex);
+
+            if (decoded.instruction.amount !== undefined && decoded.instruction.amount > limits.maxTokenAmount) {
+                throw this.reject('AMOUNT_LIMIT_EXCEEDED', index);
+            }
+
+            // The runtime rejects duplicates; refuse them here so the fee below is unambiguous
+            if (decoded.computeUnitLimit !== undefined) {
+                if (computeUnitLimit !== undefined) {
+                    throw this.reject('MALFORMED_INSTRUCTION', index);
+                }
+                computeUnitLimit = decoded.computeUnitLimit;
+            }
+            if (decoded.computeUnitPrice !== undefined) {
+                if (computeUnitPrice !== undefined) {
+                    throw this.reject('MALFORMED_INSTRUCTION', index);
+                }
+                computeUnitPrice = decoded.computeUnitPrice;
+            }
+
+            if (decoded.fundedTokenAccount) {
+                fundedTokenAccounts.push({ account: decoded.fundedTokenAccount, index });
+            }
+            if (decoded.receivingTokenAccount) {
+                receivingTokenAccounts.push(decoded.receivingTokenAccount);
+            }
+
+            instructions.push(decoded.instruction);
+            ataRentPayments += decoded.ataRentPayments;
+            rentLamports += decoded.rentLamports;
+        });
+
+        // Without an explicit limit the runtime allows a default per instruction, which the price applies to
+        const priorityFeeLamports = PriorityFees.getFeeLamports(
+            computeUnitPrice ?? 0,
+            Math.min(
+                computeUnitLimit ?? message.instructions.length * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION,
+                MAX_COMPUTE_UNIT_LIMIT
+            )
+        );
+
+        if (priorityFeeLamports > limits.maxPriorityFeeLamports) {
+            throw this.reject('PRIORITY_FEE_LIMIT_EXCEEDED');
+        }
+
+        const feeLamports = message.signers.length * LAMPORTS_PER_SIGNATURE + priorityFeeLamports;
+        const lamportsDrained = feeLamports + rentLamports;
+
+        if (ataRentPayments > limits.maxAtaRentPayments) {
+            throw this.reject('ATA_RENT_LIMIT_EXCEEDED');
+        }
+
+        if (lamportsDrained > limits.maxLamportsDrained) {
+            throw this.reject('LAMPORT_LIMIT_EXCEEDED');
+        }
+
+        // Otherwise the fee payer could fund arbitrary token accounts whose rent the owner takes back by closing them
+        const unused = fundedTokenAccounts.find(({ account }) =>
+            !receivingTokenAccounts.some(receiving => receiving.equals(account))
+        );
+        if (unused) {
+            throw this.reject('ATA_NOT_USED', unused.index);
+        }
+
+        return { instructions, ataRentPayments, feeLamports, priorityFeeLamports, rentLamports, lamportsDrained };
+    }
+
+    /**
+     * The wallet being sponsored: the first required signer that is not the fee payer
+     */
+    static getSponsoredWallet(transaction: SolanaTransaction, feePayer: PublicKey, lookupTables: AddressLookupTableAccount[] = []): PublicKey | null {
+        const { signers } = this.resolve(transaction, lookupTables);
+        return signers.find(key => !key.equals(feePayer)) ?? null;
+    }
+
+    /**
+     * Rent-exempt minimum for an account of the given size, matching the default cluster rent
+     */
+    static rentExemptLamports(space: number): number {
+        return rentExemptLamports(space);
+    }
+
+    private static resolve(transaction: SolanaTransaction, lookupTables: AddressLookupTableAccount[]): ResolvedMessage {
+        // Every referenced table must be supplied, otherwise part of the account list is unknown
+        const missingTable = getLookupTableAddresses(transaction)
+            .some(address => !lookupTables.some(table => table.key.equals(address)));
+        if (missingTable) {
+            throw this.reject('INVALID_TRANSACTION');
+        }
+
+        try {
+            return resolveMessage(transaction, lookupTables);
+        } catch {
+            throw this.reject('INVALID_TRANSACTION');
+        }
+    }
+
+    private static reject(reason: SponsorshipRejectionReason, instructionIndex?: number): SponsorshipPolicyError {
+        return new SponsorshipPolicyError(REJECTION_MESSAGES[reason], reason, instructionIndex);
+    }
+
+    private static decodeInstruction(ix: TransactionInstruction, index: number, feePayer: PublicKey): DecodedInstruction {
+        if (ix.programId.equals(FYMONEY_PROGRAM_ID)) {
+            return this.decodeFymoneyInstruction(ix, index, feePayer);
+        }
+        if (ix.programId.equals(YIELD_VAULT_PROGRAM_ID)) {
+            return this.decodeYieldVaultInstruction(ix, index, feePayer);
+        }
+        if (ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+            return this.decodeTokenInstruction(ix, index);
+        }
+        if (ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+            return this.decodeAssociatedTokenInstruction(ix, index, feePayer);
+        }
+        if (ix.programId.equals(MEMO_PROGRAM_ID)) {
+            return this.decodeMemoInstruction(ix, index);
+        }
+        if (ix.programId.equals(ComputeBudgetProgram.programId)) {
+            return this.decodeComputeBudgetInstruction(ix, index);
+        }
+
+        throw this.reject('PROGRAM_NOT_ALLOWED', index);
+    }
+
+    private static decodeFymoneyInstruction(ix: TransactionInstruction, index: number, feePayer: PublicKey): DecodedInstruction {
+        const data = ix.data;
+
+        if (this.hasDiscriminator(data, FYMONEY_DISCRIMINATORS.initializeEscrow)) {
+            // amount u64, recipient_email_hash [u8; 32], expires_at i64, nonce u64
+            if (data.length !== 8 + 8 + 32 + 8 + 8 || ix.keys.length <= INITIALIZE_ESCROW_TOKEN_PROGRAM_INDEX) {
+                throw this.reject('MALFORMED_INSTRUCTION', index);
+            }
+
+            // The escrow account and its token account are always new, so the fee payer funds both
+            const paysRent = ix.keys[INITIALIZE_ESCROW_FEE_PAYER_INDEX].pubkey.equals(feePayer);
+            return {
+                instruction: { index, program: 'fymoney', name: 'initializeEscrow', amount: this.readU64(data, 8, index) },
+                feePayerIndex: INITIALIZE_ESCROW_FEE_PAYER_INDEX,
+                rentLamports: paysRent
+                    ? this.rentExemptLamports(ESCROW_ACCOUNT_SPACE)
+                        + this.rentExemptLamports(this.tokenAccountSpace(ix.keys[INITIALIZE_ESCROW_TOKEN_PROGRAM_INDEX].pubkey))
+                    : 0,
+                ataRentPayments: paysRent ? 1 : 0,
+            };
+        }
+
+        if (this.hasDiscriminator(data, FYMONEY_DISCRIMINATORS.claimEscrow)) {
+            return {
+                instruction: { index, program: 'fymoney', name: 'claimEscrow' },
+                rentLamports: 0,
+                ataRentPayments: 0,
+                receivingTokenAccount: ix.keys[CLAIM_ESCROW_RECIPIENT_TOKEN_INDEX]?.pubkey,
+            };
+        }
+
+        if (this.hasDiscriminator(data, FYMONEY_DISCRIMINATORS.reclaimExpiredEscrow)) {
+            return {
+                instruction: { index, program: 'fymoney', name: 'reclaimExpiredEscrow' },
+                rentLamports: 0,
+                ataRentPayments: 0,
+                receivingTokenAccount: ix.keys[RECLAIM_ESCROW_SENDER_TOKEN_INDEX]?.pubkey,
+            };
+        }
+
+        throw this.reject('INSTRUCTION_NOT_ALLOWED', index);
+    }
+
+    private static decodeYieldVaultInstruction(ix: TransactionInstruction, index: number, feePayer: PublicKey): DecodedInstruction {
+        const data = ix.data;
+
+        if (this.hasDiscriminator(data, YIELD_VAULT_DISCRIMINATORS.deposit)) {
+            if (data.length !== 16 || ix.keys.length <= DEPOSIT_FEE_PAYER_INDEX) {
+                throw this.reject('MALFORMED_INSTRUCTION', index);
+            }
+
+            // Deposit accounts are init_if_needed, so assume the worst case where all of them are created
+            const paysRent = ix.keys[DEPOSIT_FEE_PAYER_INDEX].pubkey.equals(feePayer);
+            return {
+                instruction: { index, program: 'yield_vault', name: 'deposit', amount: this.readU64(data, 8, index) },
+                feePayerIndex: DEPOSIT_FEE_PAYER_INDEX,
+                rentLamports: paysRent
+                    ? this.rentExemptLamports(USER_DEPOSIT_ACCOUNT_SPACE)
+                        + this.rentExemptLamports(VAULT_ACCOUNT_SPACE)
+                        + this.rentExemptLamports(TOKEN_ACCOUNT_SPACE)
+                    : 0,
+                ataRentPayments: paysRent ? 1 : 0,
+            };
+        }
+
+        if (this.hasDiscriminator(data, YIELD_VAULT_DISCRIMINATORS.withdraw)) {
+            if (data.length !== 16) {
+                throw this.reject('MALFORMED_INSTRUCTION', index);
+            }
+
+            return {
+                instruction: { index, program: 'yield_vault', name: 'withdraw', amount: this.readU64(data, 8, index) },
+                rentLamports: 0,
+                ataRentPayments: 0,
+                receivingTokenAccount: ix.keys[WITHDRAW_USER_TOKEN_INDEX]?.pubkey,
+            };
+        }
+
+        throw this.reject('INSTRUCTION_NOT_ALLOWED', index);
+    }
+
+    private static decodeTokenInstruction(ix: TransactionInstruction, index: number): DecodedInstruction {
+        if (ix.data.length === 0 || ix.data[0] !== TOKEN_TRANSFER_CHECKED) {
+            throw this.reject('INSTRUCTION_NOT_ALLOWED', index);
+        }
+
+        // tag u8, amount u64, decimals u8; accounts: source, mint, destination, owner
+        if (ix.data.length !== 10 || ix.keys.length < 4) {
+            throw this.reject('MALFORMED_INSTRUCTION', index);
+        }
+
+        // Token-2022 transfer fees come out of the amount, so the limit still applies to what the sender sends
+        return {
+            instruction: {
+                index,
+                program: ix.programId.equals(TOKEN_2022_PROGRAM_ID) ? 'spl-token-2022' : 'spl-token',
+                name: 'transferChecked',
+                amount: this.readU64(ix.data, 1, index)
+            },
+            rentLamports: 0,
+            ataRentPayments: 0,
+            receivingTokenAccount: ix.keys[TRANSFER_CHECKED_DESTINATION_INDEX].pubkey,
+        };
+    }
+
+    private static decodeAssociatedTokenInstruction(ix: TransactionInstruction, index: number, feePayer: PublicKey): DecodedInstruction {
+        // An empty payload is the legacy form of Create
+        const tag = ix.data.length === 0 ? ATA_CREATE : ix.data[0];
+
+        if (ix.data.length > 1 || (tag !== ATA_CREATE && tag !== ATA_CREATE_IDEMPOTENT)) {
+            throw this.reject('INSTRUCTION_NOT_ALLOWED', index);
+        }
+
+        // accounts: payer, associated account, owner, mint, system program, token program
+        if (ix.keys.length < 6) {
+            throw this.reject('MALFORMED_INSTRUCTION', index);
+        }
+
+        const paysRent = ix.keys[ATA_PAYER_INDEX].pubkey.equals(feePayer);
+        return {
+            instruction: {
+                index,
+                program: 'associated-token',
+                name: tag === ATA_CREATE ? 'create' : 'createIdempotent'
+            },
+            feePayerIndex: ATA_PAYER_INDEX,
+            rentLamports: paysRent ? this.rentExemptLamports(this.tokenAccountSpace(ix.keys[ATA_TOKEN_PROGRAM_INDEX].pubkey)) : 0,
+            ataRentPayments: paysRent ? 1 : 0,
+            fundedTokenAccount: paysRent ? ix.keys[ATA_ACCOUNT_INDEX].pubkey : undefined,
+        };
+    }
+
+    private static decodeMemoInstruction(ix: TransactionInstruction, index: number): DecodedInstruction {
+        // The note is the whole payload; accounts are only signers vouching for it
+        if (ix.data.length === 0 || ix.data.length > MAX_MEMO_BYTES) {
+            throw this.reject('MALFORMED_INSTRUCTION', index);
+        }
+        if (ix.keys.some(key => !key.isSigner)) {
+            throw this.reject('MALFORMED_INSTRUCTION', index);
+        }
+
+        return { instruction: { index, program: 'memo', name: 'memo' }, rentLamports: 0, ataRentPayments: 0 };
+    }
+
+    /**
+     * Size of a new token account; the associated token program only accepts the two token programs
+     */
+    private static tokenAccountSpace(tokenProgram: PublicKey): number {
+        if (tokenProgram.equals(TOKEN_2022_PROGRAM_ID)) {
+            return TOKEN_2022_ACCOUNT_SPACE;
+        }
+        return TOKEN_ACCOUNT_SPACE;
+    }
+
+    private static decodeComputeBudgetInstruction(ix: TransactionInstruction, index: number): DecodedInstruction {
+        const tag = ix.data.length === 0 ? undefined : ix.data[0];
+
+        // Heap frames and loaded data size limits are never needed by our programs
+        if (tag !== COMPUTE_BUDGET_SET_UNIT_LIMIT && tag !== COMPUTE_BUDGET_SET_UNIT_PRICE) {
+            throw this.reject('INSTRUCTION_NOT_ALLOWED', index);
+        }
+
+        if (tag === COMPUTE_BUDGET_SET_UNIT_LIMIT) {
+            // tag u8, units u32
+            if (ix.data.length !== 5 || ix.keys.length !== 0) {
+                throw this.reject('MALFORMED_INSTRUCTION', index);
+            }
+
+            return {
+                instruction: { index, program: 'compute-budget', name: 'setComputeUnitLimit' },
+                rentLamports: 0,
+                ataRentPayments: 0,
+                computeUnitLimit: ix.data.readUInt32LE(1),
+            };
+        }
+
+        // tag u8, micro-lamports u64
+        if (ix.data.length !== 9 || ix.keys.length !== 0) {
+            throw this.reject('MALFORMED_INSTRUCTION', index);
+        }
+
+        return {
+            instruction: { index, program: 'compute-budget', name: 'setComputeUnitPrice' },
+            rentLamports: 0,
+            ataRentPayments: 0,
+            computeUnitPrice: this.readU64(ix.data, 1, index, 'PRIORITY_FEE_LIMIT_EXCEEDED'),
+        };
+    }
+
+    /**
+     * The fee payer may only appear in the payer slot of an instruction, never as a token owner or recipient
+     */
+    private static assertFeePayerUsage(
+        ix: TransactionInstruction,
+        index: number,
+        feePayer: PublicKey,
+        allowedIndex?: number
+    ): void {
+        ix.keys.forEach((key, keyIndex) => {
+            if (key.pubkey.equals(feePayer) && keyIndex !== allowedIndex) {
+                throw this.reject('FEE_PAYER_MISUSE', index);
+            }
+        });
+    }
+
+    private static hasDiscriminator(data: Buffer, discriminator: number[]): boolean {
+        if (data.length < discriminator.length) {
+            return false;
+        }
+        return discriminator.every((byte, i) => data[i] === byte);
+    }
+
+    /**
+     * Read a little-endian u64 as a number; values above the safe integer range are rejected
+     */
+    private static readU64(
+        data: Buffer,
+        offset: number,
+        index: number,
+        reason: SponsorshipRejectionReason = 'AMOUNT_LIMIT_EXCEEDED'
+    ): number {
+        const low = data.readUInt32LE(offset);
+        const high = data.readUInt32LE(offset + 4);
+
+        if (high >= 0x200000) {
+            throw this.reject(reason, index);
+        }
+
+        return high * 0x100000000 + low;
+    }
+}
+
+export default SponsorshipPolicy;
@@ -0,0 +1,62 @@
+// src/services/sponsorshipQuota.ts
+
+// Shared by the client precheck and the fee-payer-relayer edge function, so keep it free of app aliases.
+
+export type SponsorshipQuotaReason = 'DAILY_QUOTA_EXCEEDED' | 'MONTHLY_QUOTA_EXCEEDED';
+
+export interface SponsorshipQuotaLimits {
+    dailyLamports: number;
+    monthlyLamports: number;
+}
+
+// Lamports the fee payer spent on a wallet in the current UTC day and month
+export interface SponsorshipUsage {
+    dailyLamports: number;
+    monthlyLamports: number;
+}
+
+export const DEFAULT_SPONSORSHIP_QUOTA: SponsorshipQuotaLimits = {
+    dailyLamports: 20_000_000, // 0.02 SOL
+    monthlyLamports: 100_000_000, // 0.1 SOL
+};
+
+export const SPONSORSHIP_LIMIT_MESSAGE = 'Sponsorship limit reached. You can still send by paying the network fee yourself.';
+
+// Error class for quota rejections; callers offer the pay-your-own-fee path when they see it
+export class SponsorshipQuotaError extends Error {
+    constructor(
+        message: string,
+        public code: SponsorshipQuotaReason
+    ) {
+        super(message);
+        this.name = 'SponsorshipQuotaError';
+    }
+}
+
+export class SponsorshipQuota {
+    /**
+     * Throw if sponsoring a transaction of the given cost would take the wallet over quota
+     */
+    static assertWithinQuota(
+        usage: SponsorshipUsage,
+        costLamports: number,
+        limits: SponsorshipQuotaLimits = DEFAULT_SPONSORSHIP_QUOTA
+    ): void {
+        if (usage.dailyLamports + costLamports > limits.dailyLamports) {
+            throw new SponsorshipQuotaError(SPONSORSHIP_LIMIT_MESSAGE, 'DAILY_QUOTA_EXCEEDED');
+        }
+
+        if (usage.monthlyLamports + costLamports > limits.monthlyLamports) {
+            throw new SponsorshipQuotaError(SPONSORSHIP_LIMIT_MESSAGE, 'MONTHLY_QUOTA_EXCEEDED');
+        }
+    }
+
+    /**
+     * Check whether a rejection reason returned by the relayer is a quota reason
+     */
+    static isQuotaReason(reason: string): reason is SponsorshipQuotaReason {
+        return reason === 'DAILY_QUOTA_EXCEEDED' || reason === 'MONTHLY_QUOTA_EXCEEDED';
+    }
+}
+
+export default SponsorshipQuota;
@@ -0,0 +1,367 @@
+// src/services/statementExport.ts
+
+import { ACTIVITY_DIRECTION, ACTIVITY_LABELS, ActivityEntry, ActivityKind } from './activityFeed';
+
+// Shared by StatementService and the root tests, so keep it free of app aliases.
+
+export type StatementFormat = 'csv' | 'ofx' | 'qfx' | 'pdf';
+
+export const STATEMENT_MIME_TYPES: Record<StatementFormat, string> = {
+    csv: 'text/csv',
+    ofx: 'application/x-ofx',
+    qfx: 'application/vnd.intu.qfx',
+    pdf: 'application/pdf',
+};
+
+const CSV_COLUMNS = ['date', 'type', 'counterparty', 'memo', 'amount', 'yield', 'balance', 'token', 'signature'];
+
+// A4 in points, with the table in Courier so columns line up without font metrics
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const LINE_HEIGHT = 13;
+const ROWS_PER_PAGE = 55;
+
+export interface StatementToken {
+    mint: string;
+    symbol: string;
+    decimals: number;
+}
+
+export interface StatementLine {
+    signature: string;
+    postedAt: number; // Unix seconds
+    kind: ActivityKind;
+    counterparty?: string;
+    memo?: string;
+    amount: number; // Signed base units: positive into the wallet
+    yield: number; // Base units of a vault withdrawal above the principal put in
+    balance: number; // Base units after this line
+}
+
+export interface Statement {
+    wallet: string;
+    token: StatementToken;
+    from: Date; // Inclusive
+    to: Date; // Exclusive
+    generatedAt: Date;
+    openingBalance: number;
+    closingBalance: number;
+    totalIn: number;
+    totalOut: number;
+    totalYield: number;
+    lines: StatementLine[]; // Oldest first
+}
+
+export interface BuildStatementParams {
+    wallet: string;
+    token: StatementToken;
+    entries: ActivityEntry[]; // The full history, so balances and vault principal can be worked out
+    currentBalance: number; // Base units held now
+    from: Date;
+    to: Date;
+    generatedAt?: Date;
+}
+
+/**
+ * Monthly statements from the activity feed, rendered as CSV, OFX/QFX or PDF in the browser
+ */
+export class StatementExport {
+    static build({ wallet, token, entries, currentBalance, from, to, generatedAt = new Date() }: BuildStatementParams): Statement {
+        const fromSeconds = from.getTime() / 1000;
+        const toSeconds = to.getTime() / 1000;
+        const signed = (entry: ActivityEntry) => ACTIVITY_DIRECTION[entry.kind] === 'in' ? entry.amount : -entry.amount;
+
+        // Untimed entries are too new to have a block time, so they sit after any range
+        const tokenEntries = entries.filter(entry => entry.tokenMint === token.mint);
+        const after = tokenEntries.filter(entry => entry.blockTime === null || entry.blockTime >= toSeconds);
+        const closingBalance = currentBalance - after.reduce((sum, entry) => sum + signed(entry), 0);
+
+        const timed = tokenEntries
+            .filter((entry): entry is ActivityEntry & { blockTime: number } => entry.blockTime !== null)
+            .sort((a, b) => a.blockTime - b.blockTime || a.slot - b.slot);
+        const yields = this.getVaultYields(timed);
+        const inRange = timed.filter(entry => entry.blockTime >= fromSeconds && entry.blockTime < toSeconds);
+        const openingBalance = closingBalance - inRange.reduce((sum, entry) => sum + signed(entry), 0);
+
+        let balance = openingBalance;
+        const lines = inRange.map(entry => {
+            const amount = signed(entry);
+            balance += amount;
+            return {
+                signature: entry.signature,
+                postedAt: entry.blockTime,
+                kind: entry.kind,
+                counterparty: entry.counterpartyEmail ?? entry.counterpartyWallet,
+                memo: entry.memo,
+                amount,
+                yield: yields.get(entry.signature) ?? 0,
+                balance
+            };
+        });
+
+        return {
+            wallet,
+            token,
+            from,
+            to,
+            generatedAt,
+            openingBalance,
+            closingBalance,
+            totalIn: lines.reduce((sum, line) => sum + Math.max(line.amount, 0), 0),
+            totalOut: lines.reduce((sum, line) => sum - Math.min(line.amount, 0), 0),
+            totalYield: lines.reduce((sum, line) => sum + line.yield, 0),
+            lines
+        };
+    }
+
+    static render(statement: Statement, format: StatementFormat): string {
+        switch (format) {
+            case 'csv':
+                return this.toCsv(statement);
+            case 'ofx':
+            case 'qfx':
+                // Quicken reads the same OFX body when it comes as .qfx
+                return this.toOfx(statement);
+            case 'pdf':
+                return this.toPdf(statement);
+        }
+    }
+
+    static getFileName(statement: Statement, format: StatementFormat): string {
+        const last = new Date(statement.to.getTime() - 1);
+        return `fymoney-statement-${this.formatDate(statement.from)}-to-${this.formatDate(last)}.${format}`;
+    }
+
+    static toCsv(statement: Statement): string {
+        const { decimals, symbol } = statement.token;
+        const lines = statement.lines.map(line => [
+            new Date(line.postedAt * 1000).toISOString(),
+            ACTIVITY_LABELS[line.kind],
+            line.counterparty ?? '',
+            line.memo ?? '',
+            this.formatUnits(line.amount, decimals),
+            this.formatUnits(line.yield, decimals),
+            this.formatUnits(line.balance, decimals),
+            symbol,
+            line.signature
+        ].map(value => this.escapeCsvField(value)).join(','));
+
+        return [CSV_COLUMNS.join(','), ...lines].join('\n');
+    }
+
+    /**
+     * OFX 1.0.2 (SGML), which accounting tools import as a bank statement
+     */
+    static toOfx(statement: Statement): string {
+        const { decimals } = statement.token;
+        const transactions = statement.lines.map(line => [
+            '<STMTTRN>',
+            `<TRNTYPE>${line.amount >= 0 ? 'CREDIT' : 'DEBIT'}`,
+            `<DTPOSTED>${this.formatOfxDate(new Date(line.postedAt * 1000))}`,
+            `<TRNAMT>${this.formatUnits(line.amount, decimals)}`,
+            `<FITID>${line.signature}`,
+            `<NAME>${this.escapeOfx((line.counterparty ?? ACTIVITY_LABELS[line.kind]).slice(0, 32))}`,
+            `<MEMO>${this.escapeOfx([ACTIVITY_LABELS[line.kind], line.memo].filter(Boolean).join(': ').slice(0, 255))}`,
+            '</STMTTRN>'
+        ].join('\n'));
+
+        return [
+            'OFXHEADER:100',
+            'DATA:OFXSGML',
+            'VERSION:102',
+            'SECURITY:NONE',
+            'ENCODING:USASCII',
+            'CHARSET:1252',
+            'COMPRESSION:NONE',
+            'OLDFILEUID:NONE',
+            'NEWFILEUID:NONE',
+            '',
+            '<OFX>',
+            '<SIGNONMSGSRSV1>',
+            '<SONRS>',
+            '<STATUS>',
+            '<CODE>0',
+            '<SEVERITY>INFO',
+            '</STATUS>',
+            `<DTSERVER>${this.formatOfxDate(statement.generatedAt)}`,
+            '<LANGUAGE>ENG',
+            '</SONRS>',
+            '</SIGNONMSGSRSV1>',
+            '<BANKMSGSRSV1>',
+            '<STMTTRNRS>',
+            '<TRNUID>0',
+            '<STATUS>',
+            '<CODE>0',
+            '<SEVERITY>INFO',
+            '</STATUS>',
+            '<STMTRS>',
+            `<CURDEF>${this.getCurrency(statement.token)}`,
+            '<BANKACCTFROM>',
+            '<BANKID>FYMONEY',
+            // ACCTID is capped at 22 characters, shorter than a wallet address
+            `<ACCTID>${statement.wallet.slice(0, 22)}`,
+            '<ACCTTYPE>CHECKING',
+            '</BANKACCTFROM>',
+            '<BANKTRANLIST>',
+            `<DTSTART>${this.formatOfxDate(statement.from)}`,
+            `<DTEND>${this.formatOfxDate(statement.to)}`,
+            ...transactions,
+            '</BANKTRANLIST>',
+            '<LEDGERBAL>',
+            `<BALAMT>${this.formatUnits(statement.closingBalance, decimals)}`,
+            `<DTASOF>${this.formatOfxDate(statement.to)}`,
+            '</LEDGERBAL>',
+            '</STMTRS>',
+            '</STMTTRNRS>',
+            '</BANKMSGSRSV1>',
+            '</OFX>'
+        ].join('\n');
+    }
+
+    /**
+     * A printable PDF with a summary and the transaction table, written by hand to keep the bundle small.
+     * Text is limited to ASCII so byte offsets equal string offsets.
+     */
+    static toPdf(statement: Statement): string {
+        const { decimals, symbol } = statement.token;
+        const amount = (value: number) => `${this.formatUnits(value, decimals)} ${symbol}`;
+        const last = new Date(statement.to.getTime() - 1);
+
+        const header = [
+            { font: 'F1', size: 16, text: 'Fymoney statement' },
+            { font: 'F2', size: 9, text: `Wallet: ${statement.wallet}` },
+            { font: 'F2', size: 9, text: `Period: ${this.formatDate(statement.from)} to ${this.formatDate(last)} (UTC)` },
+            { font: 'F2', size: 9, text: `Generated: ${statement.generatedAt.toISOString()}` },
+            { font: 'F2', size: 9, text: '' },
+            { font: 'F2', size: 9, text: `Opening balance: ${amount(statement.openingBalance)}` },
+            { font: 'F2', size: 9, text: `Money in:        ${amount(statement.totalIn)}` },
+            { font: 'F2', size: 9, text: `Money out:       ${amount(statement.totalOut)}` },
+            { font: 'F2', size: 9, text: `Vault yield:     ${amount(statement.totalYield)}` },
+            { font: 'F2', size: 9, text: `Closing balance: ${amount(statement.closingBalance)}` },
+            { font: 'F2', size: 9, text: '' },
+        ];
+
+        const columns = (date: string, type: string, details: string, change: string, balance: string) =>
+            `${date.padEnd(11)}${type.padEnd(21).slice(0, 21)}${details.padEnd(31).slice(0, 31)}${change.padStart(15)} ${balance.padStart(15)}`;
+        const tableHeader = { font: 'F1', size: 9, text: columns('Date', 'Type', 'Details', 'Amount', 'Balance') };
+        const rows = statement.lines.map(line => ({
+            font: 'F2',
+            size: 9,
+            text: columns(
+                this.formatDate(new Date(line.postedAt * 1000)),
+                ACTIVITY_LABELS[line.kind],
+                [line.counterparty, line.memo].filter(Boolean).join(' - '),
+                this.formatUnits(line.amount, decimals),
+                this.formatUnits(line.balance, decimals)
+            )
+        }));
+        if (rows.length === 0) {
+            rows.push({ font: 'F2', size: 9, text: 'No activity in this period.' });
+        }
+
+        // The summary takes room from the first page's rows
+        const pages: { font: string; size: number; text: string }[][] = [];
+        let remaining = rows;
+        do {
+            const first = pages.length === 0;
+            const count = ROWS_PER_PAGE - (first ? header.length : 0);
+            pages.push([...(first ? header : []), tableHeader, ...remaining.slice(0, count)]);
+            remaining = remaining.slice(count);
+        } while (remaining.length > 0);
+
+        // Objects 1-4 are fixed; each page then takes a page object and a content stream
+        const objects = [
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+        ];
+        pages.forEach((lines, i) => {
+            const stream = lines.map((line, row) => {
+                const y = PAGE_HEIGHT - MARGIN - row * LINE_HEIGHT - (row > 0 ? 8 : 0);
+                return `BT /${line.font} ${line.size} Tf ${MARGIN} ${y} Td (${this.escapePdfText(line.text)}) Tj ET`;
+            }).join('\n');
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+                `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+            );
+        });
+
+        let pdf = '%PDF-1.4\n';
+        const offsets = objects.map((object, i) => {
+            const offset = pdf.length;
+            pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+            return offset;
+        });
+        const xref = pdf.length;
+        pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+        pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+        return pdf;
+    }
+
+    /**
+     * Base units as an exact decimal string, e.g. -2500000 with 6 decimals is -2.500000
+     */
+    static formatUnits(amount: number, decimals: number): string {
+        const sign = amount < 0 ? '-' : '';
+        const digits = String(Math.abs(amount)).padStart(decimals + 1, '0');
+        return decimals === 0
+            ? `${sign}${digits}`
+            : `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+    }
+
+    /**
+     * Yield realised by each vault withdrawal: whatever comes back above the principal still in the vault
+     */
+    private static getVaultYields(entries: ActivityEntry[]): Map<string, number> {
+        const yields = new Map<string, number>();
+        let principal = 0;
+
+        entries.forEach(entry => {
+            if (entry.kind === 'vaultDeposit') {
+                principal += entry.amount;
+            } else if (entry.kind === 'vaultWithdraw') {
+                yields.set(entry.signature, Math.max(entry.amount - principal, 0));
+                principal = Math.max(principal - entry.amount, 0);
+            }
+        });
+        return yields;
+    }
+
+    // OFX needs an ISO 4217 code; stablecoins are booked in the currency they track
+    private static getCurrency(token: StatementToken): string {
+        if (token.symbol.startsWith('EUR')) {
+            return 'EUR';
+        }
+        return token.symbol.startsWith('USD') || token.symbol === 'PYUSD' ? 'USD' : 'XXX';
+    }
+
+    private static formatDate(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    private static formatOfxDate(date: Date): string {
+        return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    }
+
+    private static escapeCsvField(value: string): string {
+        return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private static escapeOfx(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/[\r\n]+/g, ' ')
+            .replace(/[^\x20-\x7e]/g, '?');
+    }
+
+    private static escapePdfText(value: string): string {
+        return value.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+    }
+}
+
+export default StatementExport;
@@ -0,0 +1,76 @@
+// src/services/statementService.ts
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync, unpackAccount } from '@solana/spl-token';
+import ActivityService from './activityService';
+import StatementExport, { Statement, StatementFormat, STATEMENT_MIME_TYPES } from './statementExport';
+import TokenRegistry, { TokenInfo } from './tokenRegistry';
+import { ENV_CONFIG } from '@/config/environment';
+
+/**
+ * Statements for a date range, built in the browser from the on-chain activity feed
+ */
+export class StatementService {
+    private static connection = new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed');
+
+    /**
+     * Build a statement of one token for [from, to)
+     */
+    static async createStatement(walletAddress: string, token: TokenInfo, from: Date, to: Date): Promise<Statement> {
+        if (from >= to) {
+            throw new StatementError('The start date must be before the end date', 'INVALID_RANGE');
+        }
+
+        let entries;
+        let currentBalance;
+        try {
+            [entries, currentBalance] = await Promise.all([
+                ActivityService.loadAll(walletAddress),
+                this.getBalance(walletAddress, token)
+            ]);
+        } catch (error) {
+            console.error('❌ Failed to load statement data:', error);
+            throw new StatementError('Could not read your activity. Please try again.', 'HISTORY_ERROR');
+        }
+
+        // Vault moves parsed without a balance change carry no mint; the vault only takes the default token
+        const defaultMint = TokenRegistry.getDefaultToken().mint.toBase58();
+        const statement = StatementExport.build({
+            wallet: walletAddress,
+            token: { mint: token.mint.toBase58(), symbol: token.symbol, decimals: token.decimals },
+            entries: entries.map(entry => ({ ...entry, tokenMint: entry.tokenMint ?? defaultMint })),
+            currentBalance,
+            from,
+            to
+        });
+
+        console.log('✅ Statement built:', statement.lines.length, 'lines for', token.symbol);
+        return statement;
+    }
+
+    static toFile(statement: Statement, format: StatementFormat): { blob: Blob; fileName: string } {
+        return {
+            blob: new Blob([StatementExport.render(statement, format)], { type: STATEMENT_MIME_TYPES[format] }),
+            fileName: StatementExport.getFileName(statement, format)
+        };
+    }
+
+    private static async getBalance(walletAddress: string, token: TokenInfo): Promise<number> {
+        const tokenAccount = getAssociatedTokenAddressSync(token.mint, new PublicKey(walletAddress), false, token.programId);
+        const accountInfo = await this.connection.getAccountInfo(tokenAccount);
+        // Token account doesn't exist, balance is 0
+        return accountInfo ? Number(unpackAccount(tokenAccount, accountInfo, token.programId).amount) : 0;
+    }
+}
+
+export class StatementError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID_RANGE' | 'HISTORY_ERROR'
+    ) {
+        super(message);
+        this.name = 'StatementError';
+    }
+}
+
+export default StatementService;
@@ -0,0 +1,206 @@
+// src/services/tokenRegistry.ts
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+    ExtensionType,
+    getExtensionData,
+    getMint,
+    getTransferFeeConfig,
+    Mint,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    TransferFeeConfig
+} from '@solana/spl-token';
+import { ENV_CONFIG } from '@/config/environment';
+
+const MINT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Token-2022 TransferHook extension (authority, then hook program id); newer than this spl-token's ExtensionType
+const TRANSFER_HOOK_EXTENSION = 14 as ExtensionType;
+const TRANSFER_HOOK_PROGRAM_ID_OFFSET = 32;
+
+export interface TokenInfo {
+    symbol: string;
+    name: string;
+    mint: PublicKey;
+    decimals: number;
+    programId: PublicKey; // Token or Token-2022
+    icon: string;
+}
+
+interface TokenDefinition extends Omit<TokenInfo, 'mint'> {
+    mintAddress: string; // Empty when the token is not configured for this deployment
+}
+
+// Supported stablecoins. Intent amounts are stored as numeric(20, 6), so decimals must not exceed 6.
+// USDC comes first and is the default: vault deposits and legacy intents without a mint use it.
+const TOKEN_DEFINITIONS: TokenDefinition[] = [
+    {
+        symbol: 'USDC',
+        name: 'USD Coin',
+        mintAddress: ENV_CONFIG.usdcMintAddress || '',
+        decimals: 6,
+        programId: TOKEN_PROGRAM_ID,
+        icon: '💵'
+    },
+    {
+        symbol: 'EURC',
+        name: 'Euro Coin',
+        mintAddress: ENV_CONFIG.eurcMintAddress,
+        decimals: 6,
+        programId: TOKEN_PROGRAM_ID,
+        icon: '💶'
+    },
+    {
+        symbol: 'PYUSD',
+        name: 'PayPal USD',
+        mintAddress: ENV_CONFIG.pyusdMintAddress,
+        decimals: 6,
+        programId: TOKEN_2022_PROGRAM_ID,
+        icon: '🅿️'
+    },
+];
+
+export interface TransferFeeQuote {
+    fee: number; // Base units withheld from the amount
+    received: number; // Base units the destination receives
+}
+
+/**
+ * Tokens the app can hold, send and escrow, keyed by mint
+ */
+export class TokenRegistry {
+    private static tokens: TokenInfo[] = TOKEN_DEFINITIONS
+        .filter(definition => definition.mintAddress)
+        .map(({ mintAddress, ...definition }) => ({ ...definition, mint: new PublicKey(mintAddress) }));
+
+    private static mints = new Map<string, { mint: Mint; fetchedAt: number }>();
+
+    static getTokens(): TokenInfo[] {
+        return this.tokens;
+    }
+
+    /**
+     * The default token; throws when USDC is not configured since every flow depends on it
+     */
+    static getDefaultToken(): TokenInfo {
+        const token = this.tokens.find(candidate => candidate.symbol === 'USDC');
+        if (!token) {
+            throw new Error('VITE_USDC_MINT_ADDRESS is not configured');
+        }
+        return token;
+    }
+
+    static getBySymbol(symbol: string): TokenInfo | undefined {
+        return this.tokens.find(token => token.symbol === symbol);
+    }
+
+    static getByMint(mint: PublicKey | string): TokenInfo | undefined {
+        const address = mint.toString();
+        return this.tokens.find(token => token.mint.toBase58() === address);
+    }
+
+    /**
+     * Registry entry for a mint, or one read from chain for mints that left the registry
+     * (e.g. an escrow created before a token was removed) so it can still be claimed or reclaimed
+     */
+    static async resolve(connection: Connection, mint: PublicKey): Promise<TokenInfo> {
+        const known = this.getByMint(mint);
+        if (known) {
+            return known;
+        }
+
+        const accountInfo = await connection.getAccountInfo(mint);
+        if (!accountInfo) {
+            throw new Error(`Token mint ${mint.toBase58()} not found`);
+        }
+
+        const programId = accountInfo.owner;
+        const { decimals } = await getMint(connection, mint, 'confirmed', programId);
+        return {
+            symbol: `${mint.toBase58().slice(0, 4)}…`,
+            name: 'Unknown token',
+            mint,
+            decimals,
+            programId,
+            icon: '🪙'
+        };
+    }
+
+    static isToken2022(token: TokenInfo): boolean {
+        return token.programId.equals(TOKEN_2022_PROGRAM_ID);
+    }
+
+    static toBaseUnits(amount: number | string, token: TokenInfo): number {
+        return Math.round(Number(amount) * Math.pow(10, token.decimals));
+    }
+
+    static fromBaseUnits(amount: number, token: TokenInfo): number {
+        return amount / Math.pow(10, token.decimals);
+    }
+
+    /**
+     * Token-2022 transfer fee for sending `amount`; zero for classic tokens and mints without the extension
+     */
+    static async getTransferFee(connection: Connection, token: TokenInfo, amount: number): Promise<TransferFeeQuote> {
+        if (!this.isToken2022(token)) {
+            return { fee: 0, received: amount };
+        }
+
+        const [config, { epoch }] = await Promise.all([
+            this.getTransferFeeConfig(connection, token),
+            connection.getEpochInfo('confirmed')
+        ]);
+        if (!config) {
+            return { fee: 0, received: amount };
+        }
+
+        const transferFee = BigInt(epoch) >= config.newerTransferFee.epoch
+            ? config.newerTransferFee
+            : config.olderTransferFee;
+        const fee = Math.min(
+            Math.ceil((amount * transferFee.transferFeeBasisPoints) / 10_000),
+            Number(transferFee.maximumFee)
+        );
+
+        return { fee, received: amount - fee };
+    }
+
+    /**
+     * Whether a Token-2022 mint runs a transfer hook. The app and the escrow program pass no hook
+     * accounts to transfer_checked, so hooked mints can't be sent and the program rejects them.
+     */
+    static async hasTransferHook(connection: Connection, token: TokenInfo): Promise<boolean> {
+        if (!this.isToken2022(token)) {
+            return false;
+        }
+
+        const mint = await this.getMintInfo(connection, token);
+        const hook = getExtensionData(TRANSFER_HOOK_EXTENSION, mint.tlvData);
+        if (!hook) {
+            return false;
+        }
+
+        // An unset program id is all zeroes; the extension alone (as on PYUSD) runs nothing
+        const programId = new PublicKey(hook.subarray(TRANSFER_HOOK_PROGRAM_ID_OFFSET, TRANSFER_HOOK_PROGRAM_ID_OFFSET + 32));
+        return !programId.equals(PublicKey.default);
+    }
+
+    private static async getTransferFeeConfig(connection: Connection, token: TokenInfo): Promise<TransferFeeConfig | null> {
+        return getTransferFeeConfig(await this.getMintInfo(connection, token));
+    }
+
+    private static async getMintInfo(connection: Connection, token: TokenInfo): Promise<Mint> {
+        const key = token.mint.toBase58();
+        const cached = this.mints.get(key);
+        if (cached && Date.now() - cached.fetchedAt < MINT_CACHE_TTL_MS) {
+            return cached.mint;
+        }
+
+        const mint = await getMint(connection, token.mint, 'confirmed', token.programId);
+        this.mints.set(key, { mint, fetchedAt: Date.now() });
+        return mint;
+    }
+}
+
+export default TokenRegistry;
@@ -0,0 +1,103 @@
+// src/services/transactionFormat.ts
+
+import {
+    AddressLookupTableAccount,
+    PublicKey,
+    Transaction,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedMessage,
+    VersionedTransaction
+} from '@solana/web3.js';
+
+// Shared by the app, the fee-payer-relayer edge function and the root tests, so keep it free of app aliases.
+
+// Every builder produces one of these: v0 by default, legacy for wallets that cannot sign v0
+export type SolanaTransaction = Transaction | VersionedTransaction;
+
+// Instructions and signer layout of either format, with lookup table addresses resolved
+export interface ResolvedMessage {
+    feePayer: PublicKey;
+    recentBlockhash: string;
+    instructions: TransactionInstruction[];
+    signers: PublicKey[]; // Required signers in signature order, fee payer first
+}
+
+export function isVersionedTransaction(transaction: SolanaTransaction): transaction is VersionedTransaction {
+    return 'version' in transaction;
+}
+
+/**
+ * Deserialize wire bytes into the matching format, so legacy transactions keep their Transaction helpers
+ */
+export function deserializeTransaction(bytes: Uint8Array): SolanaTransaction {
+    const transaction = VersionedTransaction.deserialize(bytes);
+    return transaction.version === 'legacy' ? Transaction.from(bytes) : transaction;
+}
+
+/**
+ * Serialize without requiring every signature, for partially signed transactions
+ */
+export function serializeTransaction(transaction: SolanaTransaction): Buffer {
+    return isVersionedTransaction(transaction)
+        ? Buffer.from(transaction.serialize())
+        : transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+}
+
+export function getFeePayer(transaction: SolanaTransaction): PublicKey | undefined {
+    return isVersionedTransaction(transaction)
+        ? transaction.message.staticAccountKeys[0]
+        : transaction.feePayer;
+}
+
+/**
+ * The fee payer's signature, which is also the transaction id; null while unsigned
+ */
+export function getFirstSignature(transaction: SolanaTransaction): Uint8Array | null {
+    const signature = isVersionedTransaction(transaction) ? transaction.signatures[0] : transaction.signature;
+    return signature && signature.some(byte => byte !== 0) ? signature : null;
+}
+
+/**
+ * Program id of every instruction, in order; program ids are never loaded from lookup tables
+ */
+export function getProgramIds(transaction: SolanaTransaction): PublicKey[] {
+    if (!isVersionedTransaction(transaction)) {
+        return transaction.instructions.map(instruction => instruction.programId);
+    }
+
+    const { staticAccountKeys, compiledInstructions } = transaction.message;
+    return compiledInstructions.map(instruction => staticAccountKeys[instruction.programIdIndex]);
+}
+
+/**
+ * Lookup tables a v0 transaction loads addresses from
+ */
+export function getLookupTableAddresses(transaction: SolanaTransaction): PublicKey[] {
+    return isVersionedTransaction(transaction)
+        ? transaction.message.addressTableLookups.map(lookup => lookup.accountKey)
+        : [];
+}
+
+/**
+ * Resolve instructions and signers; v0 transactions need the lookup tables they reference
+ */
+export function resolveMessage(
+    transaction: SolanaTransaction,
+    lookupTables: AddressLookupTableAccount[] = []
+): ResolvedMessage {
+    const message: VersionedMessage = isVersionedTransaction(transaction)
+        ? transaction.message
+        : transaction.compileMessage();
+
+    const { payerKey, recentBlockhash, instructions } = TransactionMessage.decompile(message, {
+        addressLookupTableAccounts: lookupTables
+    });
+
+    return {
+        feePayer: payerKey,
+        recentBlockhash,
+        instructions,
+        signers: message.staticAccountKeys.slice(0, message.header.numRequiredSignatures)
+    };
+}
@@ -1,4 +1,4 @@
-// Gasless transaction service for client-side fee payment
+// Gasless transaction service; the fee payer signature is added server-side by the relayer
 import {
     createTransferCheckedInstruction,
     getAssociatedTokenAddress,
@@ -7,19 +7,39 @@ import {
     ASSOCIATED_TOKEN_PROGRAM_ID,
 } from '@solana/spl-token';
 import {
+    AddressLookupTableAccount,
     Connection,
+    PACKET_DATA_SIZE,
     PublicKey,
     Transaction,
     SystemProgram,
     SYSVAR_RENT_PUBKEY,
-    TransactionInstruction
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
 } from '@solana/web3.js';
 import {Program, AnchorProvider, BN} from '@coral-xyz/anchor';
 import {FeePayerWallet} from '@/utils/feePayerWallet';
+import {FeePayerRelayer, FeePayerRelayerError} from '@/services/feePayerRelayer';
+import {DEFAULT_SPONSORSHIP_LIMITS, SponsorshipPolicy, SponsorshipPolicyError} from '@/services/sponsorshipPolicy';
+import {SponsorshipQuota, SponsorshipQuotaError} from '@/services/sponsorshipQuota';
+import {findNextNonce, getEscrowPDA, getIdempotentNonce, EscrowNonceError} from '@/services/escrowNonce';
+import {TransactionSimulator, SimulationResult} from '@/services/transactionSimulator';
+import {ProgramErrors, ProgramErrorException} from '@/services/programErrors';
+import {serializeTransaction, SolanaTransaction} from '@/services/transactionFormat';
+import {AddressLookupTableService} from '@/services/addressLookupTable';
+import {WalletCapabilities} from '@/services/walletCapabilities';
+import {MAX_COMPUTE_UNIT_LIMIT, PriorityFeeQuote, PriorityFees, PriorityLevel} from '@/services/priorityFees';
+import {TokenInfo, TokenRegistry} from '@/services/tokenRegistry';
+import {BulkSend} from '@/services/bulkSend';
+import {Memo} from '@/services/memo';
+import {identityResolver} from '@/services/identityProviders';
+import {TransferIntentService} from '@/services/transferService';
+import {IdentityResolverError} from '@/services/identityResolver';
+import {DEFAULT_ESCROW_EXPIRY_HOURS, EscrowExpiry, MAX_ESCROW_EXPIRY_HOURS} from '@/services/escrowExpiry';
 import {ENV_CONFIG} from '@/config/environment';
 import {Fymoney} from '@/types/fymoney';
 import {YieldVault} from "@/types/yield_vault.ts";
-import * as crypto from 'crypto';
 // Import the IDL
 import FymoneyIDL from '@/idl/fymoney.json';
 import YieldVaultIDL from '@/idl/yield_vault.json'
@@ -27,85 +47,146 @@ import YieldVaultIDL from '@/idl/yield_vault.json'
 export interface GaslessTransactionParams {
     senderAddress: string;
     recipientAddress: string;
-    amount: number; // Amount in USDC base units (6 decimals)
+    amount: number; // Amount in the token's base units
+    tokenMint?: string; // Registry token to send, default USDC
+    memo?: string; // Note written on-chain with the SPL Memo program
+    payOwnFee?: boolean; // Sender pays the network fee instead of the fee payer (over sponsorship quota)
+    priority?: PriorityLevel; // Default normal
+    allowOffCurveRecipient?: boolean; // The sender confirmed sending to a PDA
+    references?: string[]; // Solana Pay reference keys, so the requester can find the payment
 }
 
 export interface CreateEscrowParams {
     senderAddress: string;
-    recipientEmail: string;
-    amount: number; // Amount in USDC base units (6 decimals)
-    expirationDays?: number; // Default 30 days
+    recipientEmail: string; // Email or E.164 phone number, hashed into the escrow's recipient_email_hash
+    amount: number; // Amount in the token's base units
+    tokenMint?: string; // Registry token to escrow, default USDC
+    memo?: string; // Note written on-chain with the SPL Memo program
+    expiresInHours?: number; // Claim window, 1 hour to 30 days (default)
+    payOwnFee?: boolean; // Sender pays the network fee and rent instead of the fee payer
+    priority?: PriorityLevel; // Default normal
+    idempotencyKey?: string; // Client key for the send attempt; retries derive the same nonce and escrow
+    senderEmail?: string; // Recorded on the intent when a retry finds the escrow already open
 }
 
 export interface EscrowResult {
+    existing?: false;
     escrowPda: string;
-    transaction: Transaction;
+    transaction: SolanaTransaction;
     escrowTokenAccount: string;
     nonce: number;
     emailHash: number[];
+    expiresAt: Date; // Exactly as stored on-chain, to be persisted as the intent's expires_at
+    lastValidBlockHeight: number; // Tracked until confirmed or the blockhash expires
+    simulation: SimulationResult;
+    priorityFee: PriorityFeeQuote;
+}
+
+// The escrow a keyed send already opened: there is nothing left to sign, only its transfer intent to record
+export interface ExistingEscrowResult {
+    existing: true;
+    escrowPda: string;
+    intentId: string;
+    amount: number; // Base units held in escrow
+    expiresAt: Date;
+}
+
+export interface BulkTransferItem {
+    id: string; // Caller's key for the item, reported back with its batch or failure
+    recipientEmail: string;
+    recipientAddress?: string; // Registered recipients get a direct transfer, everyone else an escrow
+    amount: number; // Amount in the token's base units
+    memo?: string; // Note written on-chain next to the item's payment
+    idempotencyKey?: string; // Escrow items: key of the row's send attempt; a retry derives the same nonce and escrow
+}
+
+export interface BulkTransactionParams {
+    senderAddress: string;
+    senderEmail?: string; // Recorded on the intent when a retried row finds its escrow already open
+    items: BulkTransferItem[];
+    tokenMint?: string; // Registry token for every item, default USDC
+    expiresInHours?: number; // Claim window for the escrows, 1 hour to 30 days (default)
+    payOwnFee?: boolean;
+    priority?: PriorityLevel;
+}
+
+export interface BulkEscrow {
+    itemId: string;
+    escrowPda: string;
+    nonce: number;
+    expiresAt: Date;
+}
+
+export interface BulkBatch extends TransactionResult {
+    itemIds: string[];
+    escrows: BulkEscrow[];
+}
+
+export interface BulkTransactionsResult {
+    batches: BulkBatch[];
+    failures: { itemId: string; error: string }[]; // Items left out, with a user-facing reason
+    existing: { itemId: string; escrowPda: string; intentId: string }[]; // Keyed items whose escrow an earlier attempt opened
+}
+
+interface BulkInstruction {
+    item: BulkTransferItem;
+    instructions: TransactionInstruction[]; // The payment and its memo, kept in one transaction
+    escrow?: BulkEscrow;
+}
+
+export type EscrowChainStatus = 'active' | 'claimed' | 'expired';
+
+export interface SenderEscrow {
+    escrowPda: string;
+    amount: number; // Amount in the escrowed token's base units
+    tokenMint: string;
+    status: EscrowChainStatus;
+    createdAt: Date;
     expiresAt: Date;
+    recipientWallet?: string;
 }
 
 export interface TransactionResult {
-    transaction: Transaction;
+    transaction: SolanaTransaction; // v0 unless the user's wallet needs legacy
     blockhash: string;
     lastValidBlockHeight: number;
+    simulation: SimulationResult; // Only offered for signing when the simulation succeeded
+    priorityFee: PriorityFeeQuote;
+}
+
+interface PrepareTransactionParams {
+    feePayer: PublicKey;
+    instructions: TransactionInstruction[];
+    user: PublicKey; // The wallet that signs besides the fee payer
+    userTokenAccount: PublicKey; // Watched in the simulation preview
+    token: TokenInfo;
+    payOwnFee?: boolean;
+    priority?: PriorityLevel;
 }
 
-// Error mapping interface for consistent error handling
-interface ErrorMapping {
-    [key: string]: string;
+interface TransactionContext {
+    blockhash: string;
+    lastValidBlockHeight: number;
+    versioned: boolean;
+    lookupTable: AddressLookupTableAccount | null;
 }
 
 export class TransactionService {
     private static connection = new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed');
     private static escrowProgramId = new PublicKey('9PbXHvSA4k86YpoJonchC9LHaFNuGv7XiEf8MdD4ZYNp');
     private static vaultProgramId = new PublicKey('4ccPktiGRVAS5vmuPj8W7CcR534mQn88KmtHaMTdeQVs')
+    // The yield vault only accepts USDC
     private static usdcMintAddress = new PublicKey(ENV_CONFIG.usdcMintAddress);
-
-    // Common error mappings
-    private static readonly COMMON_ERROR_MAPPINGS: ErrorMapping = {
-        'insufficient': 'Insufficient funds. Please check your balance.',
-        'Invalid': 'Invalid transaction details. Please check your input.',
-        'invalid': 'Invalid transaction details. Please check your input.',
-        'network': 'Network error. Please try again.',
-        'connection': 'Network error. Please try again.',
-    };
-
-    private static readonly ESCROW_ERROR_MAPPINGS: ErrorMapping = {
-        ...this.COMMON_ERROR_MAPPINGS,
-        'Amount must be greater than 0': 'Amount must be greater than 0',
-        'Valid recipient email is required': 'Valid recipient email is required',
-    };
-
-    private static readonly CLAIM_ERROR_MAPPINGS: ErrorMapping = {
-        ...this.COMMON_ERROR_MAPPINGS,
-        'Escrow account not found': 'Escrow not found. It may have already been claimed or expired.',
-        'EscrowNotActive': 'This escrow is no longer active and cannot be claimed.',
-        'EscrowExpired': 'This escrow has expired and can no longer be claimed.',
-        'InvalidRecipient': 'You are not authorized to claim this escrow.',
-    };
-
-    private static readonly TRANSFER_ERROR_MAPPINGS: ErrorMapping = {
-        ...this.COMMON_ERROR_MAPPINGS,
-        'does not have a USDC account': 'Recipient does not have a USDC account. They need to create one first.',
-    };
-
-    private static readonly VAULT_ERROR_MAPPINGS: ErrorMapping = {
-        ...this.COMMON_ERROR_MAPPINGS,
-        'InvalidAmount': 'Amount must be greater than 0',
-        'InsufficientFunds': 'Insufficient funds in your vault deposit',
-        'Invalid amount: must be greater than 0': 'Amount must be greater than 0',
-        'Not enough funds in user deposit': 'Insufficient funds in your vault deposit',
-    };
+    // Escrow builds in progress, by idempotency key
+    private static escrowBuilds = new Map<string, Promise<EscrowResult | ExistingEscrowResult>>();
 
     /**
      * Create a minimal read-only provider for instruction building
      */
     private static createReadOnlyProvider(): AnchorProvider {
-        const feePayer = FeePayerWallet.getFeePayerKeypair();
+        // Never signs, and every instruction names its payer, so the wallet key is only a placeholder
         return new AnchorProvider(this.connection, {
-            publicKey: feePayer.publicKey,
+            publicKey: PublicKey.default,
             signTransaction: async () => {
                 throw new Error('Read-only operation');
             },
@@ -129,55 +210,174 @@ export class TransactionService {
     }
 
     /**
-     * Create and setup a base transaction with fee payer
+     * Blockhash and format shared by the simulated and the final transaction: v0 with the managed
+     * lookup table, or legacy when versioned transactions are off or the user's wallet can't sign them
      */
-    private static async createBaseTransaction(): Promise<{
-        transaction: Transaction;
+    private static async getTransactionContext(userWallet: PublicKey): Promise<TransactionContext> {
+        const versioned = ENV_CONFIG.transactionVersion === 0
+            && WalletCapabilities.supportsVersionedTransactions(userWallet.toString());
+
+        console.log('🔗 Getting latest blockhash...');
+        const [{blockhash, lastValidBlockHeight}, lookupTable] = await Promise.all([
+            this.connection.getLatestBlockhash('confirmed'),
+            versioned ? AddressLookupTableService.getLookupTable() : Promise.resolve(null)
+        ]);
+
+        return {blockhash, lastValidBlockHeight, versioned, lookupTable};
+    }
+
+    /**
+     * Build the transaction with the assigned fee payer
+     */
+    private static compileTransaction(
+        feePayer: PublicKey,
+        instructions: TransactionInstruction[],
+        context: TransactionContext
+    ): SolanaTransaction {
+        if (context.versioned) {
+            const message = new TransactionMessage({
+                payerKey: feePayer,
+                recentBlockhash: context.blockhash,
+                instructions
+            }).compileToV0Message(context.lookupTable ? [context.lookupTable] : []);
+            return new VersionedTransaction(message);
+        }
+
+        const transaction = new Transaction();
+        transaction.recentBlockhash = context.blockhash;
+        transaction.lastValidBlockHeight = context.lastValidBlockHeight;
+        transaction.feePayer = feePayer;
+        transaction.add(...instructions);
+        return transaction;
+    }
+
+    /**
+     * Check the transaction against the relayer's policy and quota, locally, to fail fast with a typed reason.
+     * The relayer co-signs, and records the spend, only once the user confirms; see TransactionTracker.
+     */
+    private static async checkSponsorship(
+        transaction: SolanaTransaction,
+        feePayer: PublicKey,
+        sponsoredWallet: PublicKey
+    ): Promise<void> {
+        const lookupTables = await AddressLookupTableService.getLookupTablesFor(transaction);
+        const evaluation = SponsorshipPolicy.evaluate(transaction, feePayer, undefined, lookupTables);
+        await this.assertWithinSponsorshipQuota(sponsoredWallet, evaluation.lamportsDrained);
+    }
+
+    /**
+     * Simulate before anything is signed, so failures show up in the preview instead of the wallet.
+     * The simulation runs at the maximum compute unit limit; the final transaction gets a limit derived
+     * from the units it used, so the priority fee is only paid on what it needs.
+     * Sponsored transactions come back without the fee payer signature, so an abandoned preview costs the user nothing.
+     */
+    private static async prepareTransaction(params: PrepareTransactionParams): Promise<{
+        transaction: SolanaTransaction;
         blockhash: string;
         lastValidBlockHeight: number;
-        feePayer: PublicKey;
+        simulation: SimulationResult;
+        priorityFee: PriorityFeeQuote;
     }> {
-        const feePayer = FeePayerWallet.getFeePayerKeypair();
+        const {feePayer, instructions, user, userTokenAccount, token, payOwnFee = false, priority = 'normal'} = params;
 
-        console.log('🔗 Getting latest blockhash...');
-        const {blockhash, lastValidBlockHeight} = await this.connection.getLatestBlockhash('confirmed');
+        const [context, microLamports] = await Promise.all([
+            this.getTransactionContext(user),
+            this.estimatePriorityFee(instructions, priority)
+        ]);
 
-        const transaction = new Transaction();
-        transaction.recentBlockhash = blockhash;
-        transaction.lastValidBlockHeight = lastValidBlockHeight;
-        transaction.feePayer = feePayer.publicKey;
+        // Unpriced, so the simulation does not depend on the fee payer covering the maximum limit
+        const simulated = this.compileTransaction(
+            feePayer, [...PriorityFees.getInstructions(MAX_COMPUTE_UNIT_LIMIT, 0), ...instructions], context
+        );
+        const simulation = await TransactionSimulator.simulate(this.connection, simulated, [
+            {label: 'SOL', address: user, kind: 'sol', decimals: 9},
+            {label: token.symbol, address: userTokenAccount, kind: 'token', decimals: token.decimals},
+        ]);
+
+        // Same cap for sponsored and self-paid transactions, so switching never changes the price
+        const priorityFee = PriorityFees.quote(
+            priority,
+            microLamports,
+            PriorityFees.getComputeUnitLimit(simulation.unitsConsumed),
+            DEFAULT_SPONSORSHIP_LIMITS.maxPriorityFeeLamports
+        );
+        console.log('⚡ Priority fee:', priorityFee);
 
-        return {
-            transaction,
-            blockhash,
-            lastValidBlockHeight,
-            feePayer: feePayer.publicKey
+        const prepared = {
+            blockhash: context.blockhash,
+            lastValidBlockHeight: context.lastValidBlockHeight,
+            simulation,
+            priorityFee
         };
+
+        if (!simulation.success) {
+            return {...prepared, transaction: simulated};
+        }
+
+        const transaction = this.compileTransaction(
+            feePayer,
+            [...PriorityFees.getInstructions(priorityFee.computeUnitLimit, priorityFee.microLamports), ...instructions],
+            context
+        );
+
+        if (!payOwnFee) {
+            await this.checkSponsorship(transaction, feePayer, user);
+        }
+        return {...prepared, transaction};
     }
 
     /**
-     * Sign transaction with fee payer and return it
+     * Recent price for the requested speed; no priority fee when the RPC can't provide samples
      */
-    private static signTransactionWithFeePayer(transaction: Transaction): Transaction {
-        const feePayer = FeePayerWallet.getFeePayerKeypair();
-        console.log('✍️ Fee payer signing transaction...');
-        transaction.partialSign(feePayer);
-        return transaction;
+    private static async estimatePriorityFee(instructions: TransactionInstruction[], priority: PriorityLevel): Promise<number> {
+        try {
+            return await PriorityFees.estimateMicroLamports(
+                this.connection,
+                PriorityFees.getWritableAccounts(instructions),
+                ENV_CONFIG.priorityFeePercentiles[priority]
+            );
+        } catch (error) {
+            console.warn('⚠️ Could not estimate priority fee:', error);
+            return 0;
+        }
+    }
+
+    /**
+     * Check the signed-in user's sponsorship usage; the relayer stays authoritative if it can't be read
+     */
+    private static async assertWithinSponsorshipQuota(wallet: PublicKey, costLamports: number): Promise<void> {
+        let usage;
+        try {
+            usage = await FeePayerRelayer.getUsage();
+        } catch (error) {
+            console.warn('⚠️ Could not check sponsorship quota, deferring to relayer:', error);
+            return;
+        }
+
+        console.log('💰 Sponsorship usage:', {wallet: wallet.toString(), ...usage, costLamports});
+        SponsorshipQuota.assertWithinQuota(usage, costLamports);
     }
 
     /**
-     * Handle errors with appropriate error mapping
+     * Rethrow failures as typed errors; anything the decoder does not recognize gets the fallback message
      */
-    private static handleError(error: unknown, errorMappings: ErrorMapping, fallbackMessage: string): never {
+    private static handleError(error: unknown, fallbackMessage: string): never {
         console.error('❌ Operation failed:', error);
 
-        if (error instanceof Error) {
-            // Check for specific error patterns
-            for (const [pattern, message] of Object.entries(errorMappings)) {
-                if (error.message.includes(pattern)) {
-                    throw new Error(message);
-                }
-            }
+        // Sponsorship rejections, relayer, nonce and identity failures already carry a user-facing message
+        if (
+            error instanceof SponsorshipPolicyError ||
+            error instanceof FeePayerRelayerError ||
+            error instanceof SponsorshipQuotaError ||
+            error instanceof EscrowNonceError ||
+            error instanceof IdentityResolverError
+        ) {
+            throw error;
+        }
+
+        const decoded = ProgramErrors.decode(error);
+        if (decoded) {
+            throw error instanceof ProgramErrorException ? error : new ProgramErrorException(decoded);
         }
 
         // Generic fallback message
@@ -187,8 +387,28 @@ export class TransactionService {
     /**
      * Get associated token address with error handling
      */
-    private static async getTokenAccount(mint: PublicKey, owner: PublicKey, allowPda = false): Promise<PublicKey> {
-        return getAssociatedTokenAddress(mint, owner, allowPda);
+    private static async getTokenAccount(
+        mint: PublicKey,
+        owner: PublicKey,
+        allowPda = false,
+        programId: PublicKey = TOKEN_PROGRAM_ID
+    ): Promise<PublicKey> {
+        return getAssociatedTokenAddress(mint, owner, allowPda, programId);
+    }
+
+    /**
+     * Registry token for a mint, USDC when none is given; mints with a transfer hook are refused before signing
+     */
+    private static async getToken(tokenMint?: string): Promise<TokenInfo> {
+        const token = tokenMint ? TokenRegistry.getByMint(tokenMint) : TokenRegistry.getDefaultToken();
+        if (!token) {
+            throw ProgramErrors.exception('client', 'UnsupportedToken');
+        }
+
+        if (await TokenRegistry.hasTransferHook(this.connection, token)) {
+            throw ProgramErrors.exception('fymoney', 'TransferHookNotSupported');
+        }
+        return token;
     }
 
     /**
@@ -199,56 +419,141 @@ export class TransactionService {
         return !!accountInfo;
     }
 
+    private static getExpiresAt(expiresInHours: number): Date {
+        // Checked here too so a bad window fails before the wallet prompt, with the program's message
+        if (!EscrowExpiry.isValid(expiresInHours)) {
+            throw ProgramErrors.exception(
+                'fymoney',
+                expiresInHours > MAX_ESCROW_EXPIRY_HOURS ? 'ExpirationTooLong' : 'InvalidExpiration'
+            );
+        }
+        return EscrowExpiry.getExpiresAt(expiresInHours);
+    }
+
     /**
-     * Hash email to 32-byte array for escrow identification
+     * Escrow creation instruction; the caller picks the nonce, so escrows to one email can share a transaction
      */
-    private static hashEmail(email: string): number[] {
-        const emailHash = crypto.createHash('sha256')
-            .update(email.toLowerCase().trim())
-            .digest();
-        return Array.from(emailHash);
+    private static async buildEscrowInstruction(params: {
+        sender: PublicKey;
+        senderTokenAccount: PublicKey;
+        feePayer: PublicKey;
+        emailHash: number[];
+        nonce: number;
+        amount: number;
+        expiresAt: Date;
+        token: TokenInfo;
+    }): Promise<TransactionInstruction> {
+        const {sender, senderTokenAccount, feePayer, emailHash, nonce, amount, expiresAt, token} = params;
+        const [escrowPDA] = getEscrowPDA(sender, emailHash, nonce, this.escrowProgramId);
+        const escrowTokenAccount = await this.getTokenAccount(token.mint, escrowPDA, true, token.programId);
+
+        const program = this.createEscrowProgram();
+        return (program.methods as any)
+            .initializeEscrow(
+                new BN(amount),
+                emailHash,
+                new BN(Math.floor(expiresAt.getTime() / 1000)),
+                new BN(nonce)
+            )
+            .accounts({
+                escrowAccount: escrowPDA,
+                escrowTokenAccount: escrowTokenAccount,
+                senderTokenAccount: senderTokenAccount,
+                tokenMint: token.mint,
+                sender: sender,
+                feePayer: feePayer,
+                tokenProgram: token.programId,
+                associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+                systemProgram: SystemProgram.programId,
+                rent: SYSVAR_RENT_PUBKEY,
+            })
+            .instruction();
+    }
+
+    private static createTransferInstruction(
+        senderTokenAccount: PublicKey,
+        recipientTokenAccount: PublicKey,
+        sender: PublicKey,
+        amount: number,
+        token: TokenInfo,
+        references: PublicKey[] = []
+    ): TransactionInstruction {
+        const instruction = createTransferCheckedInstruction(
+            senderTokenAccount,
+            token.mint,
+            recipientTokenAccount,
+            sender, // Sender must sign for the transfer
+            BigInt(amount),
+            token.decimals,
+            [],
+            token.programId // Token-2022 withholds any transfer fee from the amount
+        );
+        // Solana Pay: read-only, non-signer keys the token program ignores but getSignaturesForAddress finds
+        instruction.keys.push(...references.map(pubkey => ({ pubkey, isSigner: false, isWritable: false })));
+        return instruction;
     }
 
     /**
-     * Generate PDA for escrow account
+     * SPL Memo instruction for a note, if there is one
      */
-    private static getEscrowPDA(
-        sender: PublicKey,
-        emailHash: number[],
-        nonce: number
-    ): [PublicKey, number] {
-        return PublicKey.findProgramAddressSync([
-            Buffer.from('escrow'),
-            sender.toBuffer(),
-            Buffer.from(emailHash),
-            new BN(nonce).toBuffer('le', 8)
-        ], this.escrowProgramId);
+    private static createMemoInstructions(memo: string | undefined, sender: PublicKey): TransactionInstruction[] {
+        const note = Memo.normalize(memo);
+        if (!note) {
+            return [];
+        }
+
+        if (Memo.isTooLong(note)) {
+            throw ProgramErrors.exception('client', 'MemoTooLong');
+        }
+        return [Memo.createInstruction(note, sender)];
     }
 
     /**
-     * Find next available nonce for escrow creation
+     * Whether the instructions fit one transaction: under the packet size and, when sponsored, within the policy
      */
-    private static async findNextNonce(
-        sender: PublicKey,
-        emailHash: number[]
-    ): Promise<number> {
-        const program = this.createEscrowProgram();
+    private static fitsInTransaction(
+        feePayer: PublicKey,
+        instructions: TransactionInstruction[],
+        context: TransactionContext,
+        sponsored: boolean
+    ): boolean {
+        let transaction: SolanaTransaction;
+        try {
+            transaction = this.compileTransaction(feePayer, instructions, context);
+            if (serializeTransaction(transaction).length > PACKET_DATA_SIZE) {
+                return false;
+            }
+        } catch {
+            // Legacy serialization throws once the transaction is too large
+            return false;
+        }
 
-        let nonce = 0;
-        while (true) {
-            const [escrowPDA] = this.getEscrowPDA(sender, emailHash, nonce);
+        if (!sponsored) {
+            return true;
+        }
 
-            try {
-                const existing = await program.account.escrowAccount.fetchNullable(escrowPDA);
-                if (!existing) {
-                    return nonce;
-                }
-                nonce++;
-            } catch {
-                // Account doesn't exist, nonce is available
-                return nonce;
+        try {
+            SponsorshipPolicy.evaluate(transaction, feePayer, undefined, context.lookupTable ? [context.lookupTable] : []);
+            return true;
+        } catch (error) {
+            if (error instanceof SponsorshipPolicyError) {
+                return false;
             }
+            throw error;
+        }
+    }
+
+    /**
+     * User-facing reason for a failure that only affects part of a bulk send
+     */
+    private static describeError(error: unknown, fallbackMessage: string): string {
+        if (error instanceof SponsorshipPolicyError || error instanceof SponsorshipQuotaError
+            || error instanceof EscrowNonceError || error instanceof ProgramErrorException) {
+            return error.message;
         }
+
+        const decoded = ProgramErrors.decode(error);
+        return decoded ? ProgramErrors.getMessage(decoded) : fallbackMessage;
     }
 
     /**
@@ -256,112 +561,183 @@ export class TransactionService {
      */
     private static validateEscrowInputs(amount: number, recipientEmail: string): void {
         if (amount <= 0) {
-            throw new Error('Amount must be greater than 0');
+            throw ProgramErrors.exception('fymoney', 'InvalidAmount');
         }
 
-        if (!recipientEmail || !recipientEmail.includes('@')) {
-            throw new Error('Valid recipient email is required');
+        // Emails and phone numbers; other identities must resolve to a wallet instead
+        if (!recipientEmail || !identityResolver.detect(recipientEmail)?.provider.escrowable) {
+            throw ProgramErrors.exception('client', 'InvalidRecipient');
         }
     }
 
     /**
-     * Create escrow transaction with fee payer pre-signed
+     * Create escrow transaction with fee payer pre-signed.
+     * With an idempotency key, a repeat while building shares the build, and one after the escrow landed
+     * returns the existing escrow with its intent instead of a transaction to sign.
      */
-    static async createEscrowTransaction(params: CreateEscrowParams): Promise<EscrowResult> {
-        console.log('🚀 Creating escrow transaction:', params);
+    static async createEscrowTransaction(params: CreateEscrowParams): Promise<EscrowResult | ExistingEscrowResult> {
+        const {idempotencyKey} = params;
+        if (!idempotencyKey) {
+            return this.buildEscrowTransaction(params);
+        }
 
-        if (!FeePayerWallet.isGaslessEnabled()) {
-            throw new Error('Service temporarily unavailable. Please try again later.');
+        const building = this.escrowBuilds.get(idempotencyKey);
+        if (building) {
+            console.log('🔁 Escrow for this send is already being prepared:', idempotencyKey);
+            return building;
         }
 
+        const build = this.buildEscrowTransaction(params)
+            .finally(() => this.escrowBuilds.delete(idempotencyKey));
+        this.escrowBuilds.set(idempotencyKey, build);
+        return build;
+    }
+
+    private static async buildEscrowTransaction(params: CreateEscrowParams): Promise<EscrowResult | ExistingEscrowResult> {
+        console.log('🚀 Creating escrow transaction:', params);
+
         const {
             senderAddress,
             recipientEmail,
             amount,
-            expirationDays = 30
+            tokenMint,
+            memo,
+            expiresInHours = DEFAULT_ESCROW_EXPIRY_HOURS,
+            payOwnFee = false,
+            priority = 'normal',
+            idempotencyKey
         } = params;
 
         try {
             // Validate inputs
             this.validateEscrowInputs(amount, recipientEmail);
 
-            console.log('💰 Using fee payer:', FeePayerWallet.getFeePayerKeypair().publicKey.toString());
-
             const senderPubkey = new PublicKey(senderAddress);
-            const emailHash = this.hashEmail(recipientEmail);
+            const emailHash = identityResolver.getEscrowHash(recipientEmail);
 
-            // Find next available nonce
-            const nonce = await this.findNextNonce(senderPubkey, emailHash);
+            // A keyed send always gets the same nonce, so a retry can never open a second escrow
+            const nonce = idempotencyKey
+                ? getIdempotentNonce(idempotencyKey)
+                : await findNextNonce(this.connection, senderPubkey, emailHash, this.escrowProgramId);
 
             // Generate PDA
-            const [escrowPDA] = this.getEscrowPDA(senderPubkey, emailHash, nonce);
+            const [escrowPDA] = getEscrowPDA(senderPubkey, emailHash, nonce, this.escrowProgramId);
+
+            // Already sent: nothing to sign or pay for, so this skips the fee payer too
+            if (idempotencyKey && await this.connection.getAccountInfo(escrowPDA, 'confirmed')) {
+                return await this.getExistingEscrow(escrowPDA, params);
+            }
+
+            if (!payOwnFee && !await FeePayerWallet.isGaslessEnabled()) {
+                throw new Error('Service temporarily unavailable. Please try again later.');
+            }
+
+            const token = await this.getToken(tokenMint);
+            const memoInstructions = this.createMemoInstructions(memo, senderPubkey);
+            const feePayer = payOwnFee ? senderPubkey : await FeePayerWallet.assignFeePayer();
+            console.log('💰 Using fee payer:', feePayer.toString());
 
             // Calculate expiration timestamp
-            const expiresAt = new Date();
-            expiresAt.setDate(expiresAt.getDate() + expirationDays);
-            const expiresAtUnix = Math.floor(expiresAt.getTime() / 1000);
+            const expiresAt = this.getExpiresAt(expiresInHours);
 
             // Get token accounts
-            const senderTokenAccount = await this.getTokenAccount(this.usdcMintAddress, senderPubkey);
-            const escrowTokenAccount = await this.getTokenAccount(this.usdcMintAddress, escrowPDA, true);
-
-            const program = this.createEscrowProgram();
-            const feePayer = FeePayerWallet.getFeePayerKeypair();
+            const senderTokenAccount = await this.getTokenAccount(token.mint, senderPubkey, false, token.programId);
+            const escrowTokenAccount = await this.getTokenAccount(token.mint, escrowPDA, true, token.programId);
 
             // Build escrow instruction
-            const anchorIx = await (program.methods as any)
-                .initializeEscrow(
-                    new BN(amount),
-                    emailHash,
-                    new BN(expiresAtUnix),
-                    new BN(nonce)
-                )
-                .accounts({
-                    escrowAccount: escrowPDA,
-                    escrowTokenAccount: escrowTokenAccount,
-                    senderTokenAccount: senderTokenAccount,
-                    tokenMint: this.usdcMintAddress,
-                    sender: senderPubkey,
-                    feePayer: feePayer.publicKey,
-                    tokenProgram: TOKEN_PROGRAM_ID,
-                    associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
-                    systemProgram: SystemProgram.programId,
-                    rent: SYSVAR_RENT_PUBKEY,
-                })
-                .instruction();
-
-            // Create and setup transaction
-            const {transaction} = await this.createBaseTransaction();
-            transaction.add(anchorIx);
+            const anchorIx = await this.buildEscrowInstruction({
+                sender: senderPubkey,
+                senderTokenAccount,
+                feePayer,
+                emailHash,
+                nonce,
+                amount,
+                expiresAt,
+                token
+            });
 
-            // Sign with fee payer
-            this.signTransactionWithFeePayer(transaction);
+            // Price, size and simulate, then sign with fee payer unless the sender pays their own way
+            const {transaction, lastValidBlockHeight, simulation, priorityFee} = await this.prepareTransaction({
+                feePayer,
+                instructions: [anchorIx, ...memoInstructions],
+                user: senderPubkey,
+                userTokenAccount: senderTokenAccount,
+                token,
+                payOwnFee,
+                priority
+            });
 
             console.log('✅ Escrow transaction created successfully');
             console.log('📋 Escrow details:', {
                 escrowPDA: escrowPDA.toString(),
                 nonce,
+                token: token.symbol,
                 expiresAt,
+                payOwnFee,
                 requiresUserSignature: true
             });
 
             return {
+                existing: false,
                 escrowPda: escrowPDA.toString(),
                 transaction,
                 escrowTokenAccount: escrowTokenAccount.toString(),
                 nonce,
                 emailHash,
-                expiresAt
+                expiresAt,
+                lastValidBlockHeight,
+                simulation,
+                priorityFee
             };
         } catch (error) {
-            this.handleError(error, this.ESCROW_ERROR_MAPPINGS, 'Escrow creation failed. Please try again.');
+            this.handleError(error, 'Escrow creation failed. Please try again.');
+        }
+    }
+
+    /**
+     * Look up or create the transfer intent for an escrow a keyed send already opened, from the escrow as stored on-chain
+     */
+    private static async getExistingEscrow(
+        escrowPDA: PublicKey,
+        params: Pick<CreateEscrowParams, 'senderAddress' | 'senderEmail' | 'recipientEmail' | 'memo' | 'idempotencyKey'>
+    ): Promise<ExistingEscrowResult> {
+        const escrowAccount = await this.createEscrowProgram().account.escrowAccount.fetchNullable(escrowPDA);
+        if (!escrowAccount) {
+            throw ProgramErrors.exception('client', 'EscrowNotFound');
         }
+
+        const amount = escrowAccount.amount.toNumber();
+        const expiresAt = new Date(escrowAccount.expiresAt.toNumber() * 1000);
+        const intent = await TransferIntentService.createTransferIntent({
+            senderWalletAddress: params.senderAddress,
+            senderEmail: params.senderEmail,
+            recipientEmail: params.recipientEmail,
+            amount,
+            tokenMint: escrowAccount.tokenMint.toBase58(),
+            message: params.memo,
+            expiresAt: expiresAt.toISOString(),
+            escrowPda: escrowPDA.toBase58(),
+            idempotencyKey: params.idempotencyKey
+        });
+
+        console.log('🔁 Escrow already created for this send:', escrowPDA.toBase58(), intent.id);
+        return {
+            existing: true,
+            escrowPda: escrowPDA.toBase58(),
+            intentId: intent.id,
+            amount,
+            expiresAt
+        };
     }
 
     /**
      * Create claim escrow transaction
      */
-    static async claimEscrowTransaction(escrowPda: string, recipientWallet: string): Promise<TransactionResult> {
+    static async claimEscrowTransaction(
+        escrowPda: string,
+        recipientWallet: string,
+        priority: PriorityLevel = 'normal'
+    ): Promise<TransactionResult> {
         console.log('🚀 Creating claim escrow transaction:', {escrowPda, recipientWallet});
 
         try {
@@ -369,16 +745,19 @@ export class TransactionService {
             const recipientPubkey = new PublicKey(recipientWallet);
 
             const program = this.createEscrowProgram();
-            const feePayer = FeePayerWallet.getFeePayerKeypair();
+            const feePayer = await FeePayerWallet.assignFeePayer();
 
             // Get escrow account to fetch token account
-            const escrowAccount = await program.account.escrowAccount.fetch(escrowPDA);
+            const escrowAccount = await program.account.escrowAccount.fetchNullable(escrowPDA);
             if (!escrowAccount) {
-                throw new Error('Escrow account not found');
+                throw ProgramErrors.exception('client', 'EscrowNotFound');
             }
 
+            // Escrows hold whichever token they were created with
+            const token = await TokenRegistry.resolve(this.connection, escrowAccount.tokenMint);
+
             // Get recipient token account
-            const recipientTokenAccount = await this.getTokenAccount(this.usdcMintAddress, recipientPubkey);
+            const recipientTokenAccount = await this.getTokenAccount(token.mint, recipientPubkey, false, token.programId);
 
             // Check if recipient token account exists
             const recipientTokenExists = await this.tokenAccountExists(recipientTokenAccount);
@@ -391,11 +770,11 @@ export class TransactionService {
             if (!recipientTokenExists) {
                 console.log('🔧 Creating recipient token account...');
                 const createTokenAccountIx = createAssociatedTokenAccountInstruction(
-                    feePayer.publicKey, // Fee payer pays for account creation
+                    feePayer, // Fee payer pays for account creation
                     recipientTokenAccount,
                     recipientPubkey,
-                    this.usdcMintAddress,
-                    TOKEN_PROGRAM_ID,
+                    token.mint,
+                    token.programId,
                     ASSOCIATED_TOKEN_PROGRAM_ID
                 );
                 instructions.push(createTokenAccountIx);
@@ -408,9 +787,9 @@ export class TransactionService {
                     escrowAccount: escrowPDA,
                     escrowTokenAccount: escrowTokenAccount,
                     recipientTokenAccount: recipientTokenAccount,
-                    tokenMint: this.usdcMintAddress,
+                    tokenMint: token.mint,
                     recipient: recipientPubkey,
-                    tokenProgram: TOKEN_PROGRAM_ID,
+                    tokenProgram: token.programId,
                     associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
                     systemProgram: SystemProgram.programId,
                     rent: SYSVAR_RENT_PUBKEY,
@@ -419,21 +798,22 @@ export class TransactionService {
 
             instructions.push(claimIx);
 
-            // Create and setup transaction
-            const {transaction, blockhash, lastValidBlockHeight} = await this.createBaseTransaction();
-
-            // Add all instructions to transaction
-            instructions.forEach(instruction => transaction.add(instruction));
-
-            // Sign with fee payer
-            this.signTransactionWithFeePayer(transaction);
+            // Price, size and simulate, then sign with fee payer
+            const {transaction, blockhash, lastValidBlockHeight, simulation, priorityFee} = await this.prepareTransaction({
+                feePayer,
+                instructions,
+                user: recipientPubkey,
+                userTokenAccount: recipientTokenAccount,
+                token,
+                priority
+            });
 
             console.log('✅ Claim escrow transaction created successfully');
             console.log('📋 Claim details:', {
                 escrowPDA: escrowPDA.toString(),
                 recipient: recipientPubkey.toString(),
                 recipientTokenAccount: recipientTokenAccount.toString(),
-                feePayer: feePayer.publicKey.toString(),
+                feePayer: feePayer.toString(),
                 instructionCount: instructions.length,
                 tokenAccountCreated: !recipientTokenExists,
                 requiresUserSignature: true,
@@ -443,37 +823,151 @@ export class TransactionService {
             return {
                 transaction,
                 blockhash,
-                lastValidBlockHeight
+                lastValidBlockHeight,
+                simulation,
+                priorityFee
+            };
+        } catch (error) {
+            this.handleError(error, 'Claim failed. Please try again.');
+        }
+    }
+
+    /**
+     * Create reclaim transaction returning an expired escrow's funds to its sender
+     */
+    static async createReclaimTransaction(
+        escrowPda: string,
+        senderWallet: string,
+        priority: PriorityLevel = 'normal'
+    ): Promise<TransactionResult> {
+        console.log('🚀 Creating reclaim escrow transaction:', {escrowPda, senderWallet});
+
+        try {
+            const escrowPDA = new PublicKey(escrowPda);
+            const senderPubkey = new PublicKey(senderWallet);
+
+            const program = this.createEscrowProgram();
+            const feePayer = await FeePayerWallet.assignFeePayer();
+
+            // Check the escrow up front so the user gets a clear reason instead of a failed transaction
+            const escrowAccount = await program.account.escrowAccount.fetchNullable(escrowPDA);
+            if (!escrowAccount) {
+                throw ProgramErrors.exception('client', 'EscrowNotFound');
+            }
+            if (!escrowAccount.sender.equals(senderPubkey)) {
+                throw ProgramErrors.exception('fymoney', 'UnauthorizedSender');
+            }
+            if (!('active' in escrowAccount.status)) {
+                throw ProgramErrors.exception('fymoney', 'EscrowNotActive');
+            }
+            if (escrowAccount.expiresAt.toNumber() >= Math.floor(Date.now() / 1000)) {
+                throw ProgramErrors.exception('fymoney', 'EscrowNotExpired');
+            }
+
+            const token = await TokenRegistry.resolve(this.connection, escrowAccount.tokenMint);
+            const senderTokenAccount = await this.getTokenAccount(token.mint, senderPubkey, false, token.programId);
+            const senderTokenExists = await this.tokenAccountExists(senderTokenAccount);
+            const instructions: TransactionInstruction[] = [];
+
+            // The program requires the sender token account to exist
+            if (!senderTokenExists) {
+                console.log('🔧 Creating sender token account for reclaim...');
+                instructions.push(createAssociatedTokenAccountInstruction(
+                    feePayer,
+                    senderTokenAccount,
+                    senderPubkey,
+                    token.mint,
+                    token.programId,
+                    ASSOCIATED_TOKEN_PROGRAM_ID
+                ));
+            }
+
+            const reclaimIx = await program.methods
+                .reclaimExpiredEscrow()
+                .accountsPartial({
+                    escrowAccount: escrowPDA,
+                    escrowTokenAccount: escrowAccount.escrowTokenAccount,
+                    senderTokenAccount,
+                    tokenMint: token.mint,
+                    sender: senderPubkey,
+                    tokenProgram: token.programId,
+                    associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+                    systemProgram: SystemProgram.programId,
+                })
+                .instruction();
+
+            instructions.push(reclaimIx);
+
+            // Price, size and simulate, then sign with fee payer
+            const {transaction, blockhash, lastValidBlockHeight, simulation, priorityFee} = await this.prepareTransaction({
+                feePayer,
+                instructions,
+                user: senderPubkey,
+                userTokenAccount: senderTokenAccount,
+                token,
+                priority
+            });
+
+            console.log('✅ Reclaim escrow transaction created successfully');
+            console.log('📋 Reclaim details:', {
+                escrowPDA: escrowPDA.toString(),
+                sender: senderPubkey.toString(),
+                amount: escrowAccount.amount.toString(),
+                instructionCount: instructions.length,
+                tokenAccountCreated: !senderTokenExists,
+                requiresUserSignature: true,
+                feePayerSigned: true
+            });
+
+            return {
+                transaction,
+                blockhash,
+                lastValidBlockHeight,
+                simulation,
+                priorityFee
             };
         } catch (error) {
-            this.handleError(error, this.CLAIM_ERROR_MAPPINGS, 'Claim failed. Please try again.');
+            this.handleError(error, 'Reclaim failed. Please try again.');
         }
     }
 
     /**
      * Create a gasless transaction with fee payer pre-signed
      */
-    static async createGaslessTransaction(params: GaslessTransactionParams): Promise<Transaction> {
+    static async createGaslessTransaction(params: GaslessTransactionParams): Promise<TransactionResult> {
         console.log('🚀 Creating gasless transaction:', params);
 
-        if (!FeePayerWallet.isGaslessEnabled()) {
+        const {
+            senderAddress,
+            recipientAddress,
+            amount,
+            tokenMint,
+            memo,
+            payOwnFee = false,
+            priority = 'normal',
+            allowOffCurveRecipient = false,
+            references = []
+        } = params;
+
+        if (!payOwnFee && !await FeePayerWallet.isGaslessEnabled()) {
             throw new Error('Service temporarily unavailable. Please try again later.');
         }
 
-        const {senderAddress, recipientAddress, amount} = params;
-
         try {
-            console.log('💰 Using fee payer:', FeePayerWallet.getFeePayerKeypair().publicKey.toString());
-
             // Convert addresses to PublicKey objects
             const sender = new PublicKey(senderAddress);
             const recipient = new PublicKey(recipientAddress);
+            const token = await this.getToken(tokenMint);
+            const memoInstructions = this.createMemoInstructions(memo, sender);
+
+            const feePayer = payOwnFee ? sender : await FeePayerWallet.assignFeePayer();
+            console.log('💰 Using fee payer:', feePayer.toString());
 
             console.log('🔍 Getting token accounts...');
 
             // Get token accounts for sender and recipient
-            const senderTokenAccount = await this.getTokenAccount(this.usdcMintAddress, sender);
-            const recipientTokenAccount = await this.getTokenAccount(this.usdcMintAddress, recipient);
+            const senderTokenAccount = await this.getTokenAccount(token.mint, sender, false, token.programId);
+            const recipientTokenAccount = await this.getTokenAccount(token.mint, recipient, allowOffCurveRecipient, token.programId);
 
             console.log('📊 Token accounts:', {
                 sender: senderTokenAccount.toString(),
@@ -484,54 +978,295 @@ export class TransactionService {
             const recipientTokenExists = await this.tokenAccountExists(recipientTokenAccount);
             console.log('📋 Recipient token account exists:', recipientTokenExists);
 
-            // Fail if recipient doesn't have a USDC account (consistent with non-gasless flow)
+            // Fail if recipient doesn't have an account for the token (consistent with non-gasless flow)
             if (!recipientTokenExists) {
-                throw new Error('Recipient does not have a USDC account. They need to create one first.');
+                throw ProgramErrors.exception('client', 'RecipientTokenAccountMissing');
             }
 
             // Add transfer instruction
             console.log('💸 Adding transfer instruction for amount:', amount);
-            const transferInstruction = createTransferCheckedInstruction(
+            const transferInstruction = this.createTransferInstruction(
                 senderTokenAccount,
-                this.usdcMintAddress,
                 recipientTokenAccount,
-                sender, // Sender must sign for the transfer
-                BigInt(amount),
-                6 // USDC decimals
+                sender,
+                amount,
+                token,
+                references.map(reference => new PublicKey(reference))
             );
 
-            // Create and setup transaction
-            const {transaction} = await this.createBaseTransaction();
-            transaction.add(transferInstruction);
-
-            // Sign with fee payer
-            this.signTransactionWithFeePayer(transaction);
+            // Price, size and simulate, then sign with fee payer unless the sender pays their own way
+            const {transaction, blockhash, lastValidBlockHeight, simulation, priorityFee} = await this.prepareTransaction({
+                feePayer,
+                instructions: [transferInstruction, ...memoInstructions],
+                user: sender,
+                userTokenAccount: senderTokenAccount,
+                token,
+                payOwnFee,
+                priority
+            });
 
             console.log('✅ Gasless transaction created successfully');
             console.log('📋 Transaction details:', {
-                feePayer: FeePayerWallet.getFeePayerKeypair().publicKey.toString(),
-                instructionCount: 1,
+                feePayer: feePayer.toString(),
+                instructionCount: 1 + memoInstructions.length,
+                payOwnFee,
                 requiresUserSignature: true
             });
 
-            return transaction;
+            return {
+                transaction,
+                blockhash,
+                lastValidBlockHeight,
+                simulation,
+                priorityFee
+            };
         } catch (error) {
-            this.handleError(error, this.TRANSFER_ERROR_MAPPINGS, 'Transaction failed. Please try again.');
+            this.handleError(error, 'Transaction failed. Please try again.');
         }
     }
 
+    /**
+     * Create a bulk send: direct transfers to registered recipients and escrows for everyone else,
+     * packed into as few transactions as the size limit and the sponsorship policy allow.
+     * Each batch is simulated and checked like a single send, so the wallet can sign them all in one prompt.
+     */
+    static async createBulkTransactions(params: BulkTransactionParams): Promise<BulkTransactionsResult> {
+        console.log('🚀 Creating bulk transactions:', {sender: params.senderAddress, items: params.items.length});
+
+        const {
+            senderAddress,
+            senderEmail,
+            items,
+            tokenMint,
+            expiresInHours = DEFAULT_ESCROW_EXPIRY_HOURS,
+            payOwnFee = false,
+            priority = 'normal'
+        } = params;
+
+        if (!payOwnFee && !await FeePayerWallet.isGaslessEnabled()) {
+            throw new Error('Service temporarily unavailable. Please try again later.');
+        }
+
+        try {
+            const token = await this.getToken(tokenMint);
+            const sender = new PublicKey(senderAddress);
+            const feePayer = payOwnFee ? sender : await FeePayerWallet.assignFeePayer();
+            const senderTokenAccount = await this.getTokenAccount(token.mint, sender, false, token.programId);
+            console.log('💰 Using fee payer:', feePayer.toString());
+
+            const failures: BulkTransactionsResult['failures'] = [];
+            const existing: BulkTransactionsResult['existing'] = [];
+            const built = await this.buildBulkInstructions(
+                items,
+                {sender, senderEmail, senderTokenAccount, feePayer, token, expiresInHours},
+                failures,
+                existing
+            );
+
+            // Packed at the priority fee cap, so pricing the final transactions can't push a batch over the policy
+            const context = await this.getTransactionContext(sender);
+            const budget = PriorityFees.getInstructions(
+                MAX_COMPUTE_UNIT_LIMIT,
+                PriorityFees.quote(
+                    priority,
+                    Number.MAX_SAFE_INTEGER,
+                    MAX_COMPUTE_UNIT_LIMIT,
+                    DEFAULT_SPONSORSHIP_LIMITS.maxPriorityFeeLamports
+                ).microLamports
+            );
+            const {batches, oversized} = BulkSend.pack(built, batch =>
+                this.fitsInTransaction(feePayer, [...budget, ...batch.flatMap(entry => entry.instructions)], context, !payOwnFee)
+            );
+            oversized.forEach(entry => failures.push({
+                itemId: entry.item.id,
+                error: 'This payment does not fit in a single sponsored transaction.'
+            }));
+
+            console.log(`📦 Packed ${built.length} payments into ${batches.length} transactions`);
+
+            const prepared: BulkBatch[] = [];
+            for (const batch of batches) {
+                const itemIds = batch.map(entry => entry.item.id);
+                try {
+                    const result = await this.prepareTransaction({
+                        feePayer,
+                        instructions: batch.flatMap(entry => entry.instructions),
+                        user: sender,
+                        userTokenAccount: senderTokenAccount,
+                        token,
+                        payOwnFee,
+                        priority
+                    });
+
+                    if (!result.simulation.success) {
+                        const error = result.simulation.error?.message ?? 'Transaction simulation failed.';
+                        itemIds.forEach(itemId => failures.push({itemId, error}));
+                        continue;
+                    }
+
+                    prepared.push({
+                        ...result,
+                        itemIds,
+                        escrows: batch.flatMap(entry => entry.escrow ? [entry.escrow] : [])
+                    });
+                } catch (error) {
+                    // e.g. over the sponsorship quota; the items can be retried paying the network fee
+                    const message = this.describeError(error, 'Transaction failed. Please try again.');
+                    itemIds.forEach(itemId => failures.push({itemId, error: message}));
+                }
+            }
+
+            console.log('✅ Bulk transactions created:', {batches: prepared.length, failures: failures.length, existing: existing.length});
+            return {batches: prepared, failures, existing};
+        } catch (error) {
+            this.handleError(error, 'Bulk send failed. Please try again.');
+        }
+    }
+
+    /**
+     * One instruction per item; items that can't be paid are recorded as failures instead,
+     * and keyed escrows an earlier attempt already opened as existing
+     */
+    private static async buildBulkInstructions(
+        items: BulkTransferItem[],
+        context: {
+            sender: PublicKey;
+            senderEmail?: string;
+            senderTokenAccount: PublicKey;
+            feePayer: PublicKey;
+            token: TokenInfo;
+            expiresInHours: number;
+        },
+        failures: BulkTransactionsResult['failures'],
+        existing: BulkTransactionsResult['existing']
+    ): Promise<BulkInstruction[]> {
+        const {sender, senderEmail, senderTokenAccount, feePayer, token, expiresInHours} = context;
+        const expiresAt = this.getExpiresAt(expiresInHours);
+
+        // Direct recipients need a token account already, as with a single send (one call, rows are capped at 100)
+        const direct = items.filter(item => item.recipientAddress);
+        const recipientTokenAccounts = await Promise.all(direct.map(item =>
+            this.getTokenAccount(token.mint, new PublicKey(item.recipientAddress!), false, token.programId)
+        ));
+        const accountInfos = recipientTokenAccounts.length > 0
+            ? await this.connection.getMultipleAccountsInfo(recipientTokenAccounts)
+            : [];
+        const existingAccounts = new Map(direct.map((item, index) =>
+            [item.id, accountInfos[index] ? recipientTokenAccounts[index] : null]
+        ));
+
+        // Keyed escrows whose account already exists were opened by an earlier attempt (one call, like the token accounts)
+        const keyedEscrowPdas = new Map<string, PublicKey>();
+        for (const item of items) {
+            if (!item.recipientAddress && item.idempotencyKey) {
+                try {
+                    const emailHash = identityResolver.getEscrowHash(item.recipientEmail);
+                    keyedEscrowPdas.set(item.id, getEscrowPDA(sender, emailHash, getIdempotentNonce(item.idempotencyKey), this.escrowProgramId)[0]);
+                } catch {
+                    // Invalid recipients fail with their own message below
+                }
+            }
+        }
+        const keyedEscrowInfos = keyedEscrowPdas.size > 0
+            ? await this.connection.getMultipleAccountsInfo([...keyedEscrowPdas.values()], 'confirmed')
+            : [];
+        const openedEscrows = new Set([...keyedEscrowPdas.keys()].filter((_, index) => keyedEscrowInfos[index]));
+
+        // Unkeyed escrows to the same email in one run take consecutive nonces
+        const nextNonces = new Map<string, number>();
+        const built: BulkInstruction[] = [];
+
+        for (const item of items) {
+            try {
+                const memoInstructions = this.createMemoInstructions(item.memo, sender);
+
+                if (item.recipientAddress) {
+                    if (item.amount <= 0) {
+                        throw ProgramErrors.exception('fymoney', 'InvalidAmount');
+                    }
+
+                    const recipientTokenAccount = existingAccounts.get(item.id);
+                    if (!recipientTokenAccount) {
+                        throw ProgramErrors.exception('client', 'RecipientTokenAccountMissing');
+                    }
+
+                    built.push({
+                        item,
+                        instructions: [
+                            this.createTransferInstruction(senderTokenAccount, recipientTokenAccount, sender, item.amount, token),
+                            ...memoInstructions
+                        ]
+                    });
+                    continue;
+                }
+
+                this.validateEscrowInputs(item.amount, item.recipientEmail);
+                const emailHash = identityResolver.getEscrowHash(item.recipientEmail);
+
+                // Already sent: record its intent if missing, and leave it out of the batches
+                if (openedEscrows.has(item.id)) {
+                    const escrow = await this.getExistingEscrow(keyedEscrowPdas.get(item.id)!, {
+                        senderAddress: sender.toBase58(),
+                        senderEmail,
+                        recipientEmail: item.recipientEmail,
+                        memo: item.memo,
+                        idempotencyKey: item.idempotencyKey
+                    });
+                    existing.push({itemId: item.id, escrowPda: escrow.escrowPda, intentId: escrow.intentId});
+                    continue;
+                }
+
+                let nonce: number;
+                if (item.idempotencyKey) {
+                    nonce = getIdempotentNonce(item.idempotencyKey);
+                } else {
+                    const key = emailHash.join(',');
+                    nonce = nextNonces.get(key)
+                        ?? await findNextNonce(this.connection, sender, emailHash, this.escrowProgramId);
+                    nextNonces.set(key, nonce + 1);
+                }
+
+                const [escrowPDA] = getEscrowPDA(sender, emailHash, nonce, this.escrowProgramId);
+                const instruction = await this.buildEscrowInstruction({
+                    sender,
+                    senderTokenAccount,
+                    feePayer,
+                    emailHash,
+                    nonce,
+                    amount: item.amount,
+                    expiresAt,
+                    token
+                });
+
+                built.push({
+                    item,
+                    instructions: [instruction, ...memoInstructions],
+                    escrow: {itemId: item.id, escrowPda: escrowPDA.toString(), nonce, expiresAt}
+                });
+            } catch (error) {
+                failures.push({itemId: item.id, error: this.describeError(error, 'This payment could not be prepared.')});
+            }
+        }
+
+        return built;
+    }
+
     /**
      * Create deposit transaction for vault
      */
-    static async createDepositTransaction(userWallet: PublicKey, amount: number): Promise<TransactionResult> {
+    static async createDepositTransaction(
+        userWallet: PublicKey,
+        amount: number,
+        priority: PriorityLevel = 'normal'
+    ): Promise<TransactionResult> {
         console.log('🚀 Creating vault deposit transaction:', { userWallet: userWallet.toString(), amount });
 
-        if (!FeePayerWallet.isGaslessEnabled()) {
+        if (!await FeePayerWallet.isGaslessEnabled()) {
             throw new Error('Service temporarily unavailable. Please try again later.');
         }
 
         try {
-            const feePayer = FeePayerWallet.getFeePayerKeypair();
+            const feePayer = await FeePayerWallet.assignFeePayer();
 
             // Derive vault PDA
             const [vaultPDA] = PublicKey.findProgramAddressSync(
@@ -552,7 +1287,7 @@ export class TransactionService {
             // Check if user has USDC token account
             const userTokenExists = await this.tokenAccountExists(userTokenAccount);
             if (!userTokenExists) {
-                throw new Error('You need a USDC token account to deposit. Please create one first.');
+                throw ProgramErrors.exception('client', 'UserTokenAccountMissing');
             }
 
             console.log('📋 Vault deposit details:', {
@@ -574,7 +1309,7 @@ export class TransactionService {
                     userTokenAccount,
                     tokenMint: this.usdcMintAddress,
                     user: userWallet,
-                    feePayer: feePayer.publicKey,
+                    feePayer: feePayer,
                     tokenProgram: TOKEN_PROGRAM_ID,
                     associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
                     systemProgram: SystemProgram.programId,
@@ -582,18 +1317,21 @@ export class TransactionService {
                 })
                 .instruction();
 
-            // Create and setup transaction
-            const { transaction, blockhash, lastValidBlockHeight } = await this.createBaseTransaction();
-            transaction.add(depositIx);
-
-            // Sign with fee payer
-            this.signTransactionWithFeePayer(transaction);
+            // Price, size and simulate, then sign with fee payer
+            const {transaction, blockhash, lastValidBlockHeight, simulation, priorityFee} = await this.prepareTransaction({
+                feePayer,
+                instructions: [depositIx],
+                user: userWallet,
+                userTokenAccount: userTokenAccount,
+                token: TokenRegistry.getDefaultToken(),
+                priority
+            });
 
             console.log('✅ Vault deposit transaction created successfully');
             console.log('📋 Deposit transaction details:', {
                 vaultPDA: vaultPDA.toString(),
                 userDepositPDA: userDepositPDA.toString(),
-                feePayer: feePayer.publicKey.toString(),
+                feePayer: feePayer.toString(),
                 requiresUserSignature: true,
                 feePayerSigned: true
             });
@@ -601,24 +1339,32 @@ export class TransactionService {
             return {
                 transaction,
                 blockhash,
-                lastValidBlockHeight
+                lastValidBlockHeight,
+                simulation,
+                priorityFee
             };
         } catch (error) {
-            this.handleError(error, this.VAULT_ERROR_MAPPINGS, 'Vault deposit failed. Please try again.');
+            this.handleError(error, 'Vault deposit failed. Please try again.');
         }
     }
 
     /**
      * Create withdraw transaction for vault
      */
-    static async createWithdrawTransaction(userWallet: PublicKey, amount: number): Promise<TransactionResult> {
+    static async createWithdrawTransaction(
+        userWallet: PublicKey,
+        amount: number,
+        priority: PriorityLevel = 'normal'
+    ): Promise<TransactionResult> {
         console.log('🚀 Creating vault withdraw transaction:', { userWallet: userWallet.toString(), amount });
 
-        if (!FeePayerWallet.isGaslessEnabled()) {
+        if (!await FeePayerWallet.isGaslessEnabled()) {
             throw new Error('Service temporarily unavailable. Please try again later.');
         }
 
         try {
+            const feePayer = await FeePayerWallet.assignFeePayer();
+
             // Derive vault PDA
             const [vaultPDA] = PublicKey.findProgramAddressSync(
                 [Buffer.from('vault')],
@@ -641,9 +1387,8 @@ export class TransactionService {
 
             if (!userTokenExists) {
                 console.log('🔧 Creating user token account for withdrawal...');
-                const feePayer = FeePayerWallet.getFeePayerKeypair();
                 const createTokenAccountIx = createAssociatedTokenAccountInstruction(
-                    feePayer.publicKey,
+                    feePayer,
                     userTokenAccount,
                     userWallet,
                     this.usdcMintAddress,
@@ -679,14 +1424,15 @@ export class TransactionService {
 
             instructions.push(withdrawIx);
 
-            // Create and setup transaction
-            const { transaction, blockhash, lastValidBlockHeight } = await this.createBaseTransaction();
-            
-            // Add all instructions
-            instructions.forEach(instruction => transaction.add(instruction));
-
-            // Sign with fee payer
-            this.signTransactionWithFeePayer(transaction);
+            // Price, size and simulate, then sign with fee payer
+            const {transaction, blockhash, lastValidBlockHeight, simulation, priorityFee} = await this.prepareTransaction({
+                feePayer,
+                instructions,
+                user: userWallet,
+                userTokenAccount: userTokenAccount,
+                token: TokenRegistry.getDefaultToken(),
+                priority
+            });
 
             console.log('✅ Vault withdraw transaction created successfully');
             console.log('📋 Withdraw transaction details:', {
@@ -701,10 +1447,12 @@ export class TransactionService {
             return {
                 transaction,
                 blockhash,
-                lastValidBlockHeight
+                lastValidBlockHeight,
+                simulation,
+                priorityFee
             };
         } catch (error) {
-            this.handleError(error, this.VAULT_ERROR_MAPPINGS, 'Vault withdraw failed. Please try again.');
+            this.handleError(error, 'Vault withdraw failed. Please try again.');
         }
     }
 
@@ -795,6 +1543,29 @@ export class TransactionService {
         return { vaultPDA, userDepositPDA };
     }
 
+    /**
+     * Scan the escrow program for every escrow created by a sender.
+     * EscrowAccount.sender sits right after the 8-byte discriminator.
+     */
+    static async getEscrowsBySender(senderWallet: PublicKey): Promise<SenderEscrow[]> {
+        const program = this.createEscrowProgram();
+        const escrows = await program.account.escrowAccount.all([
+            {memcmp: {offset: 8, bytes: senderWallet.toBase58()}}
+        ]);
+
+        console.log(`🔍 Found ${escrows.length} escrows for sender:`, senderWallet.toString());
+
+        return escrows.map(({publicKey, account}) => ({
+            escrowPda: publicKey.toString(),
+            amount: account.amount.toNumber(),
+            tokenMint: account.tokenMint.toString(),
+            status: 'claimed' in account.status ? 'claimed' : 'expired' in account.status ? 'expired' : 'active',
+            createdAt: new Date(account.createdAt.toNumber() * 1000),
+            expiresAt: new Date(account.expiresAt.toNumber() * 1000),
+            recipientWallet: account.recipientWallet?.toString()
+        }));
+    }
+
     /**
      * Get the Solana connection instance
      */
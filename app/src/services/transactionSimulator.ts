@@ -0,0 +1,135 @@
+// src/services/transactionSimulator.ts
+
+import { AccountLayout } from '@solana/spl-token';
+import { Connection, PublicKey, TransactionError } from '@solana/web3.js';
+import { DecodedProgramError, ProgramErrorException, ProgramErrors } from '@/services/programErrors';
+import { getProgramIds, isVersionedTransaction, SolanaTransaction } from '@/services/transactionFormat';
+
+export interface SimulationWatchAccount {
+    label: string; // e.g. 'SOL' or 'USDC'
+    address: PublicKey;
+    kind: 'sol' | 'token';
+    decimals: number;
+}
+
+export interface SimulationBalanceChange {
+    label: string;
+    address: string;
+    before: number; // Base units
+    after: number;
+    change: number;
+    decimals: number;
+}
+
+export interface SimulationError {
+    decoded: DecodedProgramError;
+    instructionIndex?: number;
+    message: string; // User-facing
+}
+
+export interface SimulationResult {
+    success: boolean;
+    unitsConsumed: number;
+    balanceChanges: SimulationBalanceChange[];
+    logs: string[];
+    error?: SimulationError;
+}
+
+export class TransactionSimulator {
+    /**
+     * Simulate an unsigned transaction and report compute units, balance changes and any program error
+     */
+    static async simulate(
+        connection: Connection,
+        transaction: SolanaTransaction,
+        watch: SimulationWatchAccount[] = []
+    ): Promise<SimulationResult> {
+        const addresses = watch.map(account => account.address);
+
+        console.log('🧪 Simulating transaction...');
+        const [before, { value }] = await Promise.all([
+            connection.getMultipleAccountsInfo(addresses, 'confirmed'),
+            // Signature verification is skipped: the user and fee payer sign only after this passes
+            isVersionedTransaction(transaction)
+                ? connection.simulateTransaction(transaction, {
+                    sigVerify: false,
+                    accounts: { encoding: 'base64', addresses: addresses.map(address => address.toBase58()) }
+                })
+                : connection.simulateTransaction(transaction, undefined, addresses)
+        ]);
+
+        const logs = value.logs ?? [];
+        const balanceChanges = watch.map((account, index) => {
+            const previous = before[index];
+            const simulated = value.accounts?.[index];
+
+            const beforeAmount = this.readBalance(account, previous?.data, previous?.lamports);
+            const afterAmount = simulated
+                ? this.readBalance(account, Buffer.from(simulated.data[0], 'base64'), simulated.lamports)
+                : 0;
+
+            return {
+                label: account.label,
+                address: account.address.toString(),
+                before: beforeAmount,
+                after: afterAmount,
+                change: afterAmount - beforeAmount,
+                decimals: account.decimals
+            };
+        });
+
+        const result: SimulationResult = {
+            success: value.err === null,
+            unitsConsumed: value.unitsConsumed ?? 0,
+            balanceChanges,
+            logs,
+            error: value.err === null ? undefined : this.decodeError(value.err, logs, transaction)
+        };
+
+        if (result.success) {
+            console.log('✅ Simulation succeeded:', { unitsConsumed: result.unitsConsumed, balanceChanges });
+        } else {
+            console.warn('⚠️ Simulation failed:', result.error, logs);
+        }
+
+        return result;
+    }
+
+    /**
+     * Throw the simulated program error, for callers that go straight to signing
+     */
+    static assertSuccess(simulation: SimulationResult): void {
+        if (!simulation.success) {
+            throw simulation.error
+                ? new ProgramErrorException(simulation.error.decoded, simulation.error.message)
+                : new Error('Transaction simulation failed.');
+        }
+    }
+
+    private static readBalance(account: SimulationWatchAccount, data?: Buffer, lamports?: number): number {
+        if (account.kind === 'sol') {
+            return lamports ?? 0;
+        }
+
+        if (!data || data.length < AccountLayout.span) {
+            return 0;
+        }
+
+        return Number(AccountLayout.decode(data).amount);
+    }
+
+    /**
+     * Decode the failure against the IDLs of the instructions in this transaction
+     */
+    private static decodeError(err: TransactionError, logs: string[], transaction: SolanaTransaction): SimulationError {
+        const decoded = ProgramErrors.fromTransactionError(err, logs, getProgramIds(transaction));
+
+        return {
+            decoded,
+            instructionIndex: ProgramErrors.getInstructionIndex(err),
+            message: ProgramErrors.getMessage(decoded)
+        };
+    }
+}
+
+export default TransactionSimulator;
@@ -0,0 +1,598 @@
+// src/services/transactionTracker.ts
+
+import { Connection, PublicKey, SendTransactionError, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import TransferIntentService, { CreateTransferIntentParams } from '@/services/transferService';
+import { ProgramErrorException, ProgramErrors } from '@/services/programErrors';
+import {
+    getFeePayer,
+    getFirstSignature,
+    getProgramIds,
+    isVersionedTransaction,
+    serializeTransaction,
+    SolanaTransaction
+} from '@/services/transactionFormat';
+import WalletCapabilities from '@/services/walletCapabilities';
+import FeePayerRelayer, { FeePayerRelayerError } from '@/services/feePayerRelayer';
+import { FeePayerWallet } from '@/utils/feePayerWallet';
+import { ENV_CONFIG } from '@/config/environment';
+
+const STORAGE_KEY = 'fy-inflight-transactions';
+const COMPLETED_STORAGE_KEY = 'fy-completed-sends'; // Finalized keyed sends, so a late retry still finds them
+const COMPLETED_TTL_MS = 24 * 60 * 60 * 1000;
+const PENDING_SEND_STORAGE_KEY = 'fy-pending-sends'; // Confirmed sends the user has not seen finish, one per wallet
+const POLL_INTERVAL_MS = 2000;
+const FOLLOW_UP_RETRY_MS = 15000; // Between database retries once the transaction is finalized
+
+export type TrackedTransactionStatus =
+    | 'signed'
+    | 'sent'
+    | 'processed'
+    | 'confirmed'
+    | 'finalized'
+    | 'dropped'
+    | 'failed';
+
+export type TrackedTransactionKind = 'send' | 'escrow' | 'bulkSend' | 'claim' | 'reclaim' | 'deposit' | 'withdraw' | 'lookupTable';
+
+// Database writes that must only happen once the transaction is confirmed
+export type TrackedFollowUp =
+    | { type: 'createIntent'; params: CreateTransferIntentParams }
+    | { type: 'createIntents'; params: CreateTransferIntentParams[] } // Bulk sends with several escrows
+    | { type: 'claimIntent'; intentId: string; recipientWallet: string }
+    | { type: 'reclaimIntent'; intentId: string };
+
+export interface TrackedTransaction {
+    signature: string;
+    kind: TrackedTransactionKind;
+    walletAddress: string;
+    status: TrackedTransactionStatus;
+    serialized: string; // Signed transaction (base64), rebroadcast until the blockhash expires
+    lastValidBlockHeight: number;
+    followUp?: TrackedFollowUp;
+    followUpDone?: boolean;
+    intentIds?: (string | null)[]; // Transfer intents created by the follow-up, by position; null until created
+    idempotencyKey?: string;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface TrackTransactionParams {
+    kind: TrackedTransactionKind;
+    walletAddress: string;
+    lastValidBlockHeight: number;
+    followUp?: TrackedFollowUp;
+    idempotencyKey?: string; // Client key of the send attempt; a repeat follows this transaction instead of signing again
+}
+
+// A send attempt the user confirmed but has not seen finish, so a reload resumes it with the same key
+export interface PendingSend<T> {
+    walletAddress: string;
+    idempotencyKey: string;
+    payment: T; // What is being paid, to restore the form
+    createdAt: number;
+}
+
+// Minimal wallet signer surface, satisfied by the Dynamic Solana signer
+export interface TransactionSigner {
+    signTransaction<T extends SolanaTransaction>(transaction: T): Promise<T>;
+}
+
+export interface BatchTransactionSigner extends TransactionSigner {
+    signAllTransactions<T extends SolanaTransaction>(transactions: T[]): Promise<T[]>;
+}
+
+// Error class for transactions that never landed or failed on-chain
+export class TransactionTrackerError extends Error {
+    constructor(
+        message: string,
+        public code: 'DROPPED' | 'FAILED',
+        public signature: string
+    ) {
+        super(message);
+        this.name = 'TransactionTrackerError';
+    }
+}
+
+type TrackerListener = (transaction: TrackedTransaction) => void;
+
+const TERMINAL_STATUSES: TrackedTransactionStatus[] = ['finalized', 'dropped', 'failed'];
+const CONFIRMED_STATUSES: TrackedTransactionStatus[] = ['confirmed', 'finalized'];
+
+export class TransactionTracker {
+    private static connection = new Connection(ENV_CONFIG.solanaRpcUrl, 'confirmed');
+    private static listeners = new Set<TrackerListener>();
+    private static watchers = new Map<string, Promise<void>>();
+    private static signing = new Map<string, Promise<TrackedTransaction>>(); // By idempotency key
+
+    /**
+     * Sign with the user's wallet, send, and resolve once the transaction is confirmed.
+     * Follow-up database writes run before this resolves.
+     * With an idempotency key, a repeat resolves with the transaction already signed for it.
+     */
+    static async signAndConfirm(
+        signer: TransactionSigner,
+        transaction: SolanaTransaction,
+        params: TrackTransactionParams
+    ): Promise<TrackedTransaction> {
+        const { idempotencyKey } = params;
+        if (!idempotencyKey) {
+            return this.signSubmitAndConfirm(signer, transaction, params);
+        }
+
+        const running = this.signing.get(idempotencyKey);
+        if (running) {
+            console.log('🔁 This send is already being signed:', idempotencyKey);
+            return running;
+        }
+
+        const previous = this.findByIdempotencyKey(idempotencyKey);
+        if (previous) {
+            console.log('🔁 This send was already submitted:', previous.signature);
+            return this.get(previous.signature) ? this.waitForConfirmation(previous.signature) : previous;
+        }
+
+        const attempt = this.signSubmitAndConfirm(signer, transaction, params)
+            .finally(() => this.signing.delete(idempotencyKey));
+        this.signing.set(idempotencyKey, attempt);
+        return attempt;
+    }
+
+    /**
+     * The live or finalized transaction sent for an idempotency key; dropped and failed ones don't count
+     */
+    static findByIdempotencyKey(idempotencyKey: string): TrackedTransaction | undefined {
+        const live = this.load().find(transaction =>
+            transaction.idempotencyKey === idempotencyKey && transaction.status !== 'dropped' && transaction.status !== 'failed'
+        );
+        return live ?? this.loadCompleted().find(transaction => transaction.idempotencyKey === idempotencyKey);
+    }
+
+    /**
+     * Remember an attempt before it is signed; cleared once the user sees it succeed or fail.
+     * Only this attempt's key survives a reload: finished payments are never matched by content.
+     */
+    static savePendingSend<T>(pending: PendingSend<T>): void {
+        const others = this.loadPendingSends().filter(entry => entry.walletAddress !== pending.walletAddress);
+        localStorage.setItem(PENDING_SEND_STORAGE_KEY, JSON.stringify([...others, pending]));
+    }
+
+    static getPendingSend<T>(walletAddress: string): PendingSend<T> | undefined {
+        return this.loadPendingSends().find(entry => entry.walletAddress === walletAddress) as PendingSend<T> | undefined;
+    }
+
+    static clearPendingSend(idempotencyKey: string): void {
+        const remaining = this.loadPendingSends().filter(entry => entry.idempotencyKey !== idempotencyKey);
+        localStorage.setItem(PENDING_SEND_STORAGE_KEY, JSON.stringify(remaining));
+    }
+
+    private static async signSubmitAndConfirm(
+        signer: TransactionSigner,
+        transaction: SolanaTransaction,
+        params: TrackTransactionParams
+    ): Promise<TrackedTransaction> {
+        const sponsored = await this.sponsor(transaction, params.walletAddress);
+
+        let signed: SolanaTransaction;
+        try {
+            signed = await signer.signTransaction(sponsored);
+        } catch (error) {
+            // The next build for this wallet is legacy, so a retry goes through
+            if (isVersionedTransaction(transaction) && WalletCapabilities.isVersionUnsupportedError(error)) {
+                WalletCapabilities.markLegacyOnly(params.walletAddress);
+                throw new Error('Your wallet could not sign this transaction format. Please try again.');
+            }
+            throw error;
+        }
+
+        const tracked = await this.submit(signed, params);
+        return this.waitForConfirmation(tracked.signature);
+    }
+
+    /**
+     * Sign several transactions in one wallet prompt, then send and confirm each independently.
+     * Results are in input order; one failing does not stop the others.
+     */
+    static async signAllAndConfirm(
+        signer: BatchTransactionSigner,
+        items: { transaction: SolanaTransaction; params: TrackTransactionParams }[]
+    ): Promise<PromiseSettledResult<TrackedTransaction>[]> {
+        // One at a time, so a quota rejection stops before the relayer signs the rest
+        const sponsored: SolanaTransaction[] = [];
+        for (const item of items) {
+            sponsored.push(await this.sponsor(item.transaction, item.params.walletAddress));
+        }
+
+        let signed: SolanaTransaction[];
+        try {
+            signed = await signer.signAllTransactions(sponsored);
+        } catch (error) {
+            const walletAddress = items[0]?.params.walletAddress;
+            if (walletAddress && items.some(item => isVersionedTransaction(item.transaction))
+                && WalletCapabilities.isVersionUnsupportedError(error)) {
+                WalletCapabilities.markLegacyOnly(walletAddress);
+                throw new Error('Your wallet could not sign this transaction format. Please try again.');
+            }
+            throw error;
+        }
+
+        return Promise.allSettled(signed.map(async (transaction, index) => {
+            const tracked = await this.submit(transaction, items[index].params);
+            return this.waitForConfirmation(tracked.signature);
+        }));
+    }
+
+    /**
+     * Have the relayer co-sign a sponsored transaction as fee payer. Only done once the user has confirmed,
+     * because the relayer records the spend against their quota as it signs.
+     */
+    private static async sponsor<T extends SolanaTransaction>(transaction: T, walletAddress: string): Promise<T> {
+        // Self-paid, or already co-signed
+        if (getFeePayer(transaction)?.equals(new PublicKey(walletAddress)) || getFirstSignature(transaction)) {
+            return transaction;
+        }
+
+        console.log('✍️ Requesting fee payer signature from relayer...');
+        try {
+            return await FeePayerRelayer.signTransaction(transaction);
+        } catch (error) {
+            // The next gasless check asks the relayer for a healthy payer before offering sponsorship again
+            if (error instanceof FeePayerRelayerError && error.code === 'PAYER_UNHEALTHY') {
+                FeePayerWallet.markUnhealthy();
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Persist a signed transaction and send it; tracking continues in the background
+     */
+    static async submit(signed: SolanaTransaction, params: TrackTransactionParams): Promise<TrackedTransaction> {
+        const signature = getFirstSignature(signed);
+        if (!signature) {
+            throw new Error('Transaction is not signed');
+        }
+
+        const serialized = serializeTransaction(signed);
+        const now = Date.now();
+        const tracked: TrackedTransaction = {
+            ...params,
+            signature: bs58.encode(signature),
+            status: 'signed',
+            serialized: serialized.toString('base64'),
+            createdAt: now,
+            updatedAt: now
+        };
+
+        // Stored before sending so a reload mid-send can still find it
+        this.save(tracked);
+
+        try {
+            // Preflight on the first send surfaces program errors before anything lands
+            await this.connection.sendRawTransaction(serialized, { maxRetries: 0 });
+        } catch (error) {
+            if (error instanceof SendTransactionError) {
+                const decoded = ProgramErrors.decode(error);
+                const message = decoded ? ProgramErrors.getMessage(decoded) : error.message;
+
+                this.update(tracked.signature, { status: 'failed', error: message });
+                this.remove(tracked.signature);
+                throw decoded ? new ProgramErrorException(decoded, message) : new Error(message);
+            }
+
+            // The send may still have reached the cluster; polling rebroadcasts or reports it dropped
+            console.warn('⚠️ Send failed, tracking anyway:', error);
+            this.watch(tracked.signature);
+            return tracked;
+        }
+
+        console.log('📡 Transaction sent:', tracked.signature);
+        const sent = this.update(tracked.signature, { status: 'sent' }) ?? tracked;
+        this.watch(sent.signature);
+        return sent;
+    }
+
+    /**
+     * Resolve once confirmed; reject with TransactionTrackerError when dropped or failed
+     */
+    static waitForConfirmation(signature: string): Promise<TrackedTransaction> {
+        return new Promise((resolve, reject) => {
+            const check = (transaction: TrackedTransaction) => {
+                if (transaction.signature !== signature) {
+                    return false;
+                }
+
+                // Wait for follow-ups so callers see the database already updated
+                if (CONFIRMED_STATUSES.includes(transaction.status) && (!transaction.followUp || transaction.followUpDone !== undefined)) {
+                    resolve(transaction);
+                    return true;
+                }
+
+                if (transaction.status === 'dropped' || transaction.status === 'failed') {
+                    reject(new TransactionTrackerError(
+                        transaction.error || 'Transaction failed.',
+                        transaction.status === 'dropped' ? 'DROPPED' : 'FAILED',
+                        signature
+                    ));
+                    return true;
+                }
+
+                return false;
+            };
+
+            const current = this.get(signature);
+            if (current && check(current)) {
+                return;
+            }
+
+            const unsubscribe = this.subscribe(transaction => {
+                if (check(transaction)) {
+                    unsubscribe();
+                }
+            });
+        });
+    }
+
+    /**
+     * Restart tracking for a wallet's in-flight transactions after a page reload
+     */
+    static resume(walletAddress: string): TrackedTransaction[] {
+        const inFlight = this.getInFlight(walletAddress);
+        inFlight.forEach(transaction => this.watch(transaction.signature));
+
+        if (inFlight.length > 0) {
+            console.log(`🔁 Resuming ${inFlight.length} in-flight transaction(s)`);
+        }
+        return inFlight;
+    }
+
+    static getInFlight(walletAddress: string): TrackedTransaction[] {
+        return this.load().filter(transaction => transaction.walletAddress === walletAddress);
+    }
+
+    static subscribe(listener: TrackerListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static watch(signature: string): void {
+        if (this.watchers.has(signature)) {
+            return;
+        }
+
+        const watcher = this.poll(signature)
+            .catch(error => console.error('❌ Transaction tracking failed:', signature, error))
+            .finally(() => this.watchers.delete(signature));
+        this.watchers.set(signature, watcher);
+    }
+
+    /**
+     * Poll the signature status, rebroadcasting until it lands or the blockhash expires
+     */
+    private static async poll(signature: string): Promise<void> {
+        for (;;) {
+            const tracked = this.get(signature);
+            if (!tracked) {
+                return;
+            }
+
+            // Confirmed before a reload, but the follow-up never ran
+            if (CONFIRMED_STATUSES.includes(tracked.status) && tracked.followUp && !tracked.followUpDone) {
+                await this.runFollowUp(tracked);
+            }
+
+            if (TERMINAL_STATUSES.includes(tracked.status)) {
+                // Funds moved but the database doesn't know yet: keep the entry so the follow-up is retried, after a reload too
+                if (tracked.status === 'finalized' && tracked.followUp && !this.get(signature)?.followUpDone) {
+                    await new Promise(resolve => setTimeout(resolve, FOLLOW_UP_RETRY_MS));
+                    continue;
+                }
+
+                if (tracked.status === 'finalized' && tracked.idempotencyKey) {
+                    this.storeCompleted(tracked);
+                }
+                this.remove(signature);
+                return;
+            }
+
+            try {
+                await this.checkStatus(tracked);
+            } catch (error) {
+                // Transient RPC failure: keep polling until the blockhash check decides
+                console.warn('⚠️ Signature status check failed:', error);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+    }
+
+    private static async checkStatus(tracked: TrackedTransaction): Promise<void> {
+        const { value: [status] } = await this.connection.getSignatureStatuses([tracked.signature], {
+            searchTransactionHistory: tracked.status === 'signed'
+        });
+
+        if (status?.err) {
+            // Deserializes either format; only the program ids are needed
+            const transaction = VersionedTransaction.deserialize(Buffer.from(tracked.serialized, 'base64'));
+            const details = await this.connection.getTransaction(tracked.signature, {
+                commitment: 'confirmed',
+                maxSupportedTransactionVersion: 0
+            });
+            const decoded = ProgramErrors.fromTransactionError(
+                status.err,
+                details?.meta?.logMessages ?? [],
+                getProgramIds(transaction)
+            );
+
+            console.error('❌ Transaction failed on-chain:', tracked.signature, decoded);
+            this.update(tracked.signature, { status: 'failed', error: ProgramErrors.getMessage(decoded) });
+            return;
+        }
+
+        if (status?.confirmationStatus) {
+            if (status.confirmationStatus !== tracked.status) {
+                const updated = this.update(tracked.signature, { status: status.confirmationStatus });
+                if (updated && CONFIRMED_STATUSES.includes(updated.status) && updated.followUp && !updated.followUpDone) {
+                    await this.runFollowUp(updated);
+                }
+            }
+            return;
+        }
+
+        // Not seen by the cluster yet
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        if (blockHeight > tracked.lastValidBlockHeight) {
+            // The blockhash expired: a final history lookup decides between landed and dropped
+            const { value: [final] } = await this.connection.getSignatureStatuses([tracked.signature], {
+                searchTransactionHistory: true
+            });
+            if (!final) {
+                console.warn('⚠️ Transaction dropped, blockhash expired:', tracked.signature);
+                this.update(tracked.signature, {
+                    status: 'dropped',
+                    error: 'The transaction expired before it was confirmed. No funds were moved.'
+                });
+            }
+            return;
+        }
+
+        await this.connection.sendRawTransaction(Buffer.from(tracked.serialized, 'base64'), {
+            skipPreflight: true,
+            maxRetries: 0
+        }).catch(error => console.warn('⚠️ Rebroadcast failed:', error));
+    }
+
+    /**
+     * Record the confirmed transaction in the database; failures stay pending and are retried while polling and on resume
+     */
+    private static async runFollowUp(tracked: TrackedTransaction): Promise<void> {
+        const { followUp, signature } = tracked;
+        if (!followUp) {
+            return;
+        }
+
+        let success = true;
+        try {
+            if (followUp.type === 'createIntent' || followUp.type === 'createIntents') {
+                success = await this.createIntents(tracked);
+            } else if (followUp.type === 'claimIntent') {
+                const result = await TransferIntentService.claimTransferIntent(followUp.intentId, followUp.recipientWallet, signature);
+                success = result.success;
+            } else {
+                const result = await TransferIntentService.markTransferIntentExpired(followUp.intentId, signature);
+                success = result.success;
+            }
+        } catch (error) {
+            console.warn('⚠️ Transaction confirmed but database update failed:', error);
+            success = false;
+        }
+
+        // false is still "attempted", so waiters resolve; the entry stays stored and polled until this succeeds
+        this.update(signature, { followUpDone: success });
+    }
+
+    /**
+     * Create the follow-up's transfer intents, skipping any a previous attempt already created
+     */
+    private static async createIntents(tracked: TrackedTransaction): Promise<boolean> {
+        const { followUp } = tracked;
+        if (followUp?.type !== 'createIntent' && followUp?.type !== 'createIntents') {
+            return true;
+        }
+
+        const params = followUp.type === 'createIntent' ? [followUp.params] : followUp.params;
+        const intentIds = params.map((_, index) => tracked.intentIds?.[index] ?? null);
+
+        for (const [index, intentParams] of params.entries()) {
+            if (intentIds[index]) {
+                continue;
+            }
+            try {
+                intentIds[index] = (await TransferIntentService.createTransferIntent(intentParams)).id;
+            } catch (error) {
+                console.warn('⚠️ Could not create transfer intent:', intentParams.escrowPda, error);
+            }
+        }
+
+        this.update(tracked.signature, { intentIds });
+        return intentIds.every(Boolean);
+    }
+
+    private static get(signature: string): TrackedTransaction | undefined {
+        return this.load().find(transaction => transaction.signature === signature);
+    }
+
+    private static save(tracked: TrackedTransaction): void {
+        this.store([...this.load().filter(transaction => transaction.signature !== tracked.signature), tracked]);
+        this.notify(tracked);
+    }
+
+    private static update(signature: string, changes: Partial<TrackedTransaction>): TrackedTransaction | undefined {
+        const current = this.get(signature);
+        if (!current) {
+            return undefined;
+        }
+
+        const updated = { ...current, ...changes, updatedAt: Date.now() };
+        this.save(updated);
+        return updated;
+    }
+
+    private static remove(signature: string): void {
+        this.store(this.load().filter(transaction => transaction.signature !== signature));
+    }
+
+    private static notify(tracked: TrackedTransaction): void {
+        this.listeners.forEach(listener => listener(tracked));
+    }
+
+    private static load(): TrackedTransaction[] {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored ? JSON.parse(stored) : [];
+        } catch (error) {
+            console.warn('⚠️ Could not read in-flight transactions:', error);
+            return [];
+        }
+    }
+
+    private static store(transactions: TrackedTransaction[]): void {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+    }
+
+    private static loadCompleted(): TrackedTransaction[] {
+        try {
+            const stored = localStorage.getItem(COMPLETED_STORAGE_KEY);
+            const completed: TrackedTransaction[] = stored ? JSON.parse(stored) : [];
+            return completed.filter(transaction => Date.now() - transaction.updatedAt < COMPLETED_TTL_MS);
+        } catch (error) {
+            console.warn('⚠️ Could not read completed sends:', error);
+            return [];
+        }
+    }
+
+    private static loadPendingSends(): PendingSend<unknown>[] {
+        try {
+            const stored = localStorage.getItem(PENDING_SEND_STORAGE_KEY);
+            const pending: PendingSend<unknown>[] = stored ? JSON.parse(stored) : [];
+            return pending.filter(entry => Date.now() - entry.createdAt < COMPLETED_TTL_MS);
+        } catch (error) {
+            console.warn('⚠️ Could not read pending sends:', error);
+            return [];
+        }
+    }
+
+    // Kept without the signed bytes, which are never rebroadcast once finalized
+    private static storeCompleted(tracked: TrackedTransaction): void {
+        const completed = [
+            ...this.loadCompleted().filter(transaction => transaction.signature !== tracked.signature),
+            { ...tracked, serialized: '' }
+        ];
+        localStorage.setItem(COMPLETED_STORAGE_KEY, JSON.stringify(completed));
+    }
+}
+
+export default TransactionTracker;
@@ -0,0 +1,410 @@
+// src/services/transferReconciler.ts
+
+import { Connection, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { FYMONEY_DISCRIMINATORS, FYMONEY_PROGRAM_ID } from './sponsorshipPolicy.ts'; // Explicit extension for Deno
+
+// Shared by the reconcile-transfers edge function and the root tests, so keep it free of app aliases.
+// The chain is the source of truth: intents are repaired to match their escrow, never the other way round.
+
+const ESCROW_ACCOUNT_DISCRIMINATOR = [36, 69, 48, 18, 128, 225, 125, 135];
+const ESCROW_STATUSES = ['active', 'claimed', 'expired'] as const;
+
+// Account positions in claim_escrow and reclaim_expired_escrow
+const ESCROW_ACCOUNT_INDEX = 0;
+const ACTOR_ACCOUNT_INDEX = 4; // The recipient for a claim, the sender for a reclaim
+
+// getMultipleAccountsInfo accepts at most 100 addresses per call
+const ACCOUNT_BATCH_SIZE = 100;
+
+export type EscrowAccountStatus = typeof ESCROW_STATUSES[number];
+
+export interface DecodedEscrowAccount {
+    sender: string;
+    recipientWallet?: string; // Set once claimed
+    tokenMint: string;
+    amount: number; // Base units
+    createdAt: number; // Unix seconds
+    expiresAt: number; // Unix seconds
+    status: EscrowAccountStatus;
+}
+
+// A claim or reclaim found in the escrow's signature history
+export interface EscrowAction {
+    signature: string;
+    wallet: string; // Recipient for a claim, sender for a reclaim
+    blockTime: number | null; // Unix seconds
+}
+
+export interface EscrowChainState {
+    account: DecodedEscrowAccount | null; // null once closed by a reclaim, or if it was never created
+    claim?: EscrowAction;
+    reclaim?: EscrowAction;
+    historyComplete: boolean; // false when the signature history was cut off at the limit
+}
+
+// The columns the reconciler reads: rows with an escrow that are pending, claimed, or expired but not reclaimed
+export interface ReconcilableIntent {
+    id: string;
+    status: 'pending' | 'claimed' | 'expired'; // expire_old_transfer_intents() marks pending rows expired by time
+    escrowPda: string;
+    claimedByWallet?: string | null;
+    claimTxHash?: string | null;
+    claimedAt?: string | null;
+}
+
+export interface TransferIntentUpdate {
+    status?: 'pending' | 'claimed' | 'expired';
+    claimed_by_wallet?: string | null;
+    claim_tx_hash?: string | null;
+    claimed_at?: string | null;
+    reclaim_tx_hash?: string;
+    reclaimed_at?: string;
+}
+
+// Database access, supplied by the caller so this module stays free of clients and keys
+export interface TransferIntentStore {
+    // Least recently reconciled first, never reconciled before all others, so each run moves on through the table
+    listIntents(limit: number): Promise<ReconcilableIntent[]>;
+    // Stamps the rows a run checked, sending them to the back of the next selection
+    markReconciled(ids: string[]): Promise<void>;
+    // Applies only while the row still has the expected status; false if it changed in the meantime
+    updateIntent(id: string, expectedStatus: ReconcilableIntent['status'], update: TransferIntentUpdate): Promise<boolean>;
+}
+
+export type DiscrepancyKind =
+    | 'CLAIM_NOT_RECORDED' // Claimed on-chain, still pending (or expired by time) in the database
+    | 'CLAIM_DETAILS_MISMATCH' // Claimed in both, but the wallet or signature differs or is missing
+    | 'CLAIM_NOT_ON_CHAIN' // Marked claimed, but the escrow is still active
+    | 'RECLAIM_NOT_RECORDED' // Reclaimed and closed on-chain, not recorded in the database
+    | 'ESCROW_MISSING'; // No escrow account and no claim or reclaim found; needs a manual look
+
+export interface Discrepancy {
+    intentId: string;
+    escrowPda: string;
+    kind: DiscrepancyKind;
+    dbStatus: ReconcilableIntent['status'];
+    chainStatus: EscrowAccountStatus | 'closed';
+    message: string;
+    signature?: string;
+    repaired: boolean;
+}
+
+export interface ReconciliationDecision {
+    discrepancy?: Omit<Discrepancy, 'repaired'>;
+    update?: TransferIntentUpdate; // Missing when the row can't be repaired automatically
+}
+
+export interface ReconciliationReport {
+    startedAt: string;
+    finishedAt: string;
+    dryRun: boolean;
+    checked: number;
+    repaired: number;
+    discrepancies: Discrepancy[];
+    errors: { intentId: string; error: string }[];
+}
+
+export interface ReconcileOptions {
+    dryRun?: boolean; // Report only, without writing repairs
+    limit?: number; // Intents per run, default 500; the least recently checked are taken first
+    signatureLimit?: number; // History depth per escrow, default 25
+}
+
+export class TransferReconciler {
+    /**
+     * Check every open intent against its escrow and repair the database where they disagree
+     */
+    static async run(
+        connection: Connection,
+        store: TransferIntentStore,
+        options: ReconcileOptions = {}
+    ): Promise<ReconciliationReport> {
+        const { dryRun = false, limit = 500, signatureLimit = 25 } = options;
+        const startedAt = new Date().toISOString();
+        const intents = await store.listIntents(limit);
+        const accounts = await this.getEscrowAccounts(connection, intents.map(intent => intent.escrowPda));
+
+        const discrepancies: Discrepancy[] = [];
+        const errors: ReconciliationReport['errors'] = [];
+
+        for (const intent of intents) {
+            try {
+                const account = accounts.get(intent.escrowPda) ?? null;
+
+                // History is only needed when the account alone can't settle the row
+                const chain: EscrowChainState = this.needsHistory(intent, account)
+                    ? await this.getEscrowHistory(connection, new PublicKey(intent.escrowPda), account, signatureLimit)
+                    : { account, historyComplete: true };
+
+                const { discrepancy, update } = this.reconcile(intent, chain);
+                if (!discrepancy) {
+                    continue;
+                }
+
+                const repaired = !dryRun && !!update && await store.updateIntent(intent.id, intent.status, update);
+                discrepancies.push({ ...discrepancy, repaired });
+            } catch (error) {
+                errors.push({ intentId: intent.id, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        // Rows that errored move on too, so one bad escrow can't hold its place at the front of every run
+        if (!dryRun && intents.length > 0) {
+            await store.markReconciled(intents.map(intent => intent.id));
+        }
+
+        return {
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            dryRun,
+            checked: intents.length,
+            repaired: discrepancies.filter(discrepancy => discrepancy.repaired).length,
+            discrepancies,
+            errors
+        };
+    }
+
+    /**
+     * Compare one intent with its escrow and decide the repair, if any
+     */
+    static reconcile(intent: ReconcilableIntent, chain: EscrowChainState): ReconciliationDecision {
+        const { account, claim, reclaim } = chain;
+        const base = {
+            intentId: intent.id,
+            escrowPda: intent.escrowPda,
+            dbStatus: intent.status,
+            chainStatus: account ? account.status : 'closed' as const
+        };
+
+        if (!account) {
+            // A reclaim closes the escrow account, so a closed escrow with a reclaim was returned to the sender
+            if (reclaim) {
+                return {
+                    discrepancy: {
+                        ...base,
+                        kind: 'RECLAIM_NOT_RECORDED',
+                        message: 'Escrow was reclaimed by the sender, but the reclaim was never recorded',
+                        signature: reclaim.signature
+                    },
+                    update: {
+                        status: 'expired',
+                        reclaim_tx_hash: reclaim.signature,
+                        reclaimed_at: this.toTimestamp(reclaim.blockTime)
+                    }
+                };
+            }
+
+            return {
+                discrepancy: {
+                    ...base,
+                    kind: 'ESCROW_MISSING',
+                    message: chain.historyComplete
+                        ? 'No escrow account and no claim or reclaim on-chain'
+                        : 'No escrow account, and no reclaim in the recent history'
+                }
+            };
+        }
+
+        if (account.status === 'active') {
+            // The program stops claims at expires_at too, so a time-expired row agrees with an active escrow
+            if (intent.status !== 'claimed') {
+                return {};
+            }
+
+            return {
+                discrepancy: {
+                    ...base,
+                    kind: 'CLAIM_NOT_ON_CHAIN',
+                    message: 'Marked claimed, but the escrow is still active and can be claimed'
+                },
+                update: { status: 'pending', claimed_by_wallet: null, claim_tx_hash: null, claimed_at: null }
+            };
+        }
+
+        if (account.status === 'claimed') {
+            // The account records the claimer; the signature and time come from the history
+            const claimedBy = account.recipientWallet ?? claim?.wallet ?? null;
+            const update: TransferIntentUpdate = {
+                status: 'claimed',
+                claimed_by_wallet: claimedBy,
+                claim_tx_hash: claim?.signature ?? intent.claimTxHash ?? null,
+                claimed_at: claim ? this.toTimestamp(claim.blockTime) : intent.claimedAt ?? this.toTimestamp(null)
+            };
+
+            if (intent.status !== 'claimed') {
+                return {
+                    discrepancy: {
+                        ...base,
+                        kind: 'CLAIM_NOT_RECORDED',
+                        message: claim
+                            ? `Claimed on-chain, but the intent is still ${intent.status}`
+                            : `Claimed on-chain, but the intent is still ${intent.status}; the claim signature is beyond the recent history`,
+                        signature: claim?.signature
+                    },
+                    update
+                };
+            }
+
+            const walletMismatch = claimedBy !== null && intent.claimedByWallet !== claimedBy;
+            const signatureMismatch = !!claim && intent.claimTxHash !== claim.signature;
+            if (!walletMismatch && !signatureMismatch && intent.claimTxHash) {
+                return {};
+            }
+
+            return {
+                discrepancy: {
+                    ...base,
+                    kind: 'CLAIM_DETAILS_MISMATCH',
+                    message: walletMismatch
+                        ? 'Claimed by a different wallet than recorded'
+                        : intent.claimTxHash ? 'Recorded claim signature does not match the chain' : 'Claim signature was never recorded',
+                    signature: claim?.signature
+                },
+                // Without the signature there's nothing better to write than what is recorded
+                update: claim || walletMismatch ? update : undefined
+            };
+        }
+
+        // Expired is only set by a reclaim, which closes the account in the same instruction
+        return {
+            discrepancy: {
+                ...base,
+                kind: 'ESCROW_MISSING',
+                message: 'Escrow is marked expired but was not closed'
+            }
+        };
+    }
+
+    /**
+     * Decode an EscrowAccount; recipient_wallet is a Borsh Option, so later fields shift when it is None
+     */
+    static decodeEscrowAccount(data: Uint8Array): DecodedEscrowAccount {
+        const buffer = Buffer.from(data);
+        if (!ESCROW_ACCOUNT_DISCRIMINATOR.every((byte, i) => buffer[i] === byte)) {
+            throw new Error('Not an escrow account');
+        }
+
+        let offset = 8;
+        const readKey = () => {
+            const key = new PublicKey(buffer.subarray(offset, offset + 32)).toBase58();
+            offset += 32;
+            return key;
+        };
+        const readI64 = () => {
+            const value = Number(buffer.readBigInt64LE(offset));
+            offset += 8;
+            return value;
+        };
+
+        const sender = readKey();
+        offset += 32; // recipient_email_hash
+        const hasRecipient = buffer[offset++] === 1;
+        const recipientWallet = hasRecipient ? readKey() : undefined;
+        const tokenMint = readKey();
+        offset += 32; // escrow_token_account
+        const amount = Number(buffer.readBigUInt64LE(offset));
+        offset += 8;
+        const createdAt = readI64();
+        const expiresAt = readI64();
+        const status = ESCROW_STATUSES[buffer[offset]];
+        if (!status) {
+            throw new Error('Unknown escrow status');
+        }
+
+        return { sender, recipientWallet, tokenMint, amount, createdAt, expiresAt, status };
+    }
+
+    /**
+     * The claim and reclaim of an escrow among confirmed transactions, resolving lookup table accounts
+     */
+    static findEscrowActions(
+        escrowPda: PublicKey,
+        transactions: (VersionedTransactionResponse | null)[]
+    ): Pick<EscrowChainState, 'claim' | 'reclaim'> {
+        const actions: Pick<EscrowChainState, 'claim' | 'reclaim'> = {};
+
+        transactions.forEach(response => {
+            if (!response || response.meta?.err) {
+                return;
+            }
+
+            const { message, signatures } = response.transaction;
+            const keys = message.getAccountKeys({ accountKeysFromLookups: response.meta?.loadedAddresses });
+
+            message.compiledInstructions.forEach(ix => {
+                const programId = keys.get(ix.programIdIndex);
+                const escrow = keys.get(ix.accountKeyIndexes[ESCROW_ACCOUNT_INDEX]);
+                const actor = keys.get(ix.accountKeyIndexes[ACTOR_ACCOUNT_INDEX]);
+                if (!programId?.equals(FYMONEY_PROGRAM_ID) || !escrow?.equals(escrowPda) || !actor) {
+                    return;
+                }
+
+                const action = { signature: signatures[0], wallet: actor.toBase58(), blockTime: response.blockTime ?? null };
+                if (this.hasDiscriminator(ix.data, FYMONEY_DISCRIMINATORS.claimEscrow)) {
+                    actions.claim = action;
+                } else if (this.hasDiscriminator(ix.data, FYMONEY_DISCRIMINATORS.reclaimExpiredEscrow)) {
+                    actions.reclaim = action;
+                }
+            });
+        });
+
+        return actions;
+    }
+
+    private static needsHistory(intent: ReconcilableIntent, account: DecodedEscrowAccount | null): boolean {
+        if (!account) {
+            return true;
+        }
+        if (account.status !== 'claimed') {
+            return false;
+        }
+        return intent.status !== 'claimed' || !intent.claimTxHash || intent.claimedByWallet !== account.recipientWallet;
+    }
+
+    private static async getEscrowAccounts(connection: Connection, escrowPdas: string[]): Promise<Map<string, DecodedEscrowAccount>> {
+        const accounts = new Map<string, DecodedEscrowAccount>();
+        const unique = [...new Set(escrowPdas)];
+
+        for (let i = 0; i < unique.length; i += ACCOUNT_BATCH_SIZE) {
+            const batch = unique.slice(i, i + ACCOUNT_BATCH_SIZE);
+            const infos = await connection.getMultipleAccountsInfo(batch.map(address => new PublicKey(address)));
+
+            infos.forEach((info, index) => {
+                if (info && info.owner.equals(FYMONEY_PROGRAM_ID)) {
+                    accounts.set(batch[index], this.decodeEscrowAccount(info.data));
+                }
+            });
+        }
+
+        return accounts;
+    }
+
+    private static async getEscrowHistory(
+        connection: Connection,
+        escrowPda: PublicKey,
+        account: DecodedEscrowAccount | null,
+        signatureLimit: number
+    ): Promise<EscrowChainState> {
+        const signatures = await connection.getSignaturesForAddress(escrowPda, { limit: signatureLimit });
+        const confirmed = signatures.filter(info => !info.err).map(info => info.signature);
+        const transactions = confirmed.length > 0
+            ? await connection.getTransactions(confirmed, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' })
+            : [];
+
+        return {
+            account,
+            ...this.findEscrowActions(escrowPda, transactions),
+            historyComplete: signatures.length < signatureLimit
+        };
+    }
+
+    private static hasDiscriminator(data: Uint8Array, discriminator: number[]): boolean {
+        return data.length >= discriminator.length && discriminator.every((byte, i) => data[i] === byte);
+    }
+
+    private static toTimestamp(blockTime: number | null): string {
+        return (blockTime ? new Date(blockTime * 1000) : new Date()).toISOString();
+    }
+}
+
+export default TransferReconciler;
@@ -0,0 +1,111 @@
+// src/services/transferReconciliation.ts
+
+import { getUserAuthHeaders, supabase } from '@/lib/supabase';
+import { Discrepancy, ReconciliationReport } from './transferReconciler';
+
+// Row of transfer_reconciliation_runs as the function returns it
+interface ReconciliationRunRow {
+    id: string;
+    trigger: ReconciliationRun['trigger'];
+    dry_run: boolean;
+    checked: number;
+    repaired: number;
+    discrepancies: Discrepancy[];
+    errors: ReconciliationReport['errors'];
+    started_at: string;
+    finished_at: string;
+}
+
+export interface ReconciliationRun extends ReconciliationReport {
+    id: string | null; // null if the function couldn't record the run
+    trigger: 'manual' | 'scheduled';
+}
+
+/**
+ * Client for the reconcile-transfers edge function and its transfer_reconciliation_runs reports.
+ * Both go through the function, which only answers ops wallets.
+ */
+export class TransferReconciliationService {
+    private static readonly FUNCTION_NAME = 'reconcile-transfers';
+
+    /**
+     * Reconcile now; a dry run only reports what would be repaired
+     */
+    static async run(dryRun = false): Promise<ReconciliationRun> {
+        const { data, error } = await supabase.functions.invoke<ReconciliationReport & { id: string | null }>(this.FUNCTION_NAME, {
+            headers: getUserAuthHeaders(),
+            body: { dryRun, trigger: 'manual' }
+        });
+
+        if (error || !data) {
+            console.error('❌ Reconciliation run failed:', error);
+            throw new TransferReconciliationError(
+                'Reconciliation failed. Please try again.',
+                'FUNCTION_ERROR'
+            );
+        }
+
+        console.log('✅ Reconciliation finished:', data.checked, 'checked,', data.repaired, 'repaired');
+        return { ...data, trigger: 'manual' };
+    }
+
+    /**
+     * Get the most recent run, manual or scheduled
+     */
+    static async getLatestRun(): Promise<ReconciliationRun | null> {
+        try {
+            const { data: response, error } = await supabase.functions.invoke<{ run: ReconciliationRunRow | null }>(this.FUNCTION_NAME, {
+                method: 'GET',
+                headers: getUserAuthHeaders()
+            });
+
+            if (error || !response) {
+                console.error('❌ Reconciliation function error getting reconciliation run:', error);
+                throw new TransferReconciliationError(
+                    'Failed to get reconciliation run',
+                    'FUNCTION_ERROR'
+                );
+            }
+
+            const data = response.run;
+            if (!data) {
+                return null;
+            }
+
+            return {
+                id: data.id,
+                trigger: data.trigger,
+                dryRun: data.dry_run,
+                checked: data.checked,
+                repaired: data.repaired,
+                discrepancies: data.discrepancies,
+                errors: data.errors,
+                startedAt: data.started_at,
+                finishedAt: data.finished_at
+            };
+        } catch (error) {
+            if (error instanceof TransferReconciliationError) {
+                throw error;
+            }
+
+            console.error('❌ Failed to get reconciliation run:', error);
+            throw new TransferReconciliationError(
+                'Failed to get reconciliation run',
+                'UNKNOWN_ERROR'
+            );
+        }
+    }
+}
+
+// Error class for reconciliation operations
+export class TransferReconciliationError extends Error {
+    constructor(
+        message: string,
+        public code: 'FUNCTION_ERROR' | 'UNKNOWN_ERROR'
+    ) {
+        super(message);
+        this.name = 'TransferReconciliationError';
+    }
+}
+
+export default TransferReconciliationService;
@@ -1,27 +1,47 @@
 // src/services/transferService.ts
 
-import { supabase } from '@/lib/supabase';
+import { supabase, TransferIntent as TransferIntentRow } from '@/lib/supabase';
 import EmailNotificationService from './emailNotificationService';
-import { ENV_CONFIG } from '@/config/environment';
+import TokenRegistry, { TokenInfo } from './tokenRegistry';
+import Memo from './memo';
+import EscrowExpiry, { DEFAULT_ESCROW_EXPIRY_HOURS } from './escrowExpiry';
+import SmsNotificationService from './smsNotificationService';
+import identityResolver from './identityProviders';
+
+// Postgres error for a duplicate idempotency_key
+const UNIQUE_VIOLATION = '23505';
+
+// Ends in Z or an offset; transfer_intents columns without a zone hold UTC
+const ZONE_SUFFIX = /(Z|[+-]\d{2}:\d{2})$/i;
 
 export interface TransferIntent {
     id: string;
     senderWalletAddress: string;
-    recipientEmail: string;
-    amount: number; // Amount in USDC base units (6 decimals)
+    recipientType: 'email' | 'phone';
+    recipientEmail: string; // Normalized email, or the E.164 number for phone recipients
+    amount: number; // Amount in the token's base units
+    tokenMint: string;
+    tokenSymbol: string;
+    message?: string; // Sender's note, also written on-chain with the payment
     status: 'pending' | 'claimed' | 'expired';
-    createdAt: string;
+    createdAt: string; // UTC ISO timestamps
     claimedAt?: string;
     expiresAt: string;
     escrowPda?: string; // Optional for backward compatibility
+    reclaimTxHash?: string; // Set once the sender reclaimed the expired escrow
+    idempotencyKey?: string; // Client key of the send attempt that created it
 }
 
 export interface CreateTransferIntentParams {
     senderWalletAddress: string;
     senderEmail?: string; // Optional sender email
-    recipientEmail: string;
-    amount: number; // Amount in USDC base units (6 decimals)
+    recipientEmail: string; // Email or E.164 phone number; phones are invited by SMS
+    amount: number; // Amount in the token's base units
+    tokenMint?: string; // Registry token, default USDC
+    message?: string; // Sender's note
+    expiresAt?: string; // The escrow's on-chain expiry (ISO), so the database and the chain agree
     escrowPda?: string; // Optional escrow PDA (required for new escrow-backed transfers)
+    idempotencyKey?: string; // Client key for the send attempt; a repeat returns the intent already stored
 }
 
 export interface UnclaimedTransfer {
@@ -31,6 +51,7 @@ export interface UnclaimedTransfer {
     fromName?: string;
     message?: string;
     timestamp: Date;
+    expiresAt: Date; // Last moment the escrow can be claimed
     status: 'pending' | 'claimed' | 'cancelled';
     tokenSymbol: string;
     senderWallet: string;
@@ -41,35 +62,64 @@ export class TransferIntentService {
      * Create a new transfer intent for an unregistered recipient
      */
     static async createTransferIntent(params: CreateTransferIntentParams): Promise<TransferIntent> {
-        const { senderWalletAddress, senderEmail, recipientEmail, amount, escrowPda } = params;
+        const { senderWalletAddress, senderEmail, recipientEmail, amount, tokenMint, message, escrowPda, idempotencyKey } = params;
+        // Intents without an escrow get the default claim window
+        const expiresAt = params.expiresAt
+            ? new Date(params.expiresAt)
+            : EscrowExpiry.getExpiresAt(DEFAULT_ESCROW_EXPIRY_HOURS);
+
+        const token = tokenMint ? TokenRegistry.getByMint(tokenMint) : TokenRegistry.getDefaultToken();
+        if (!token) {
+            throw new TransferIntentError('Unsupported token', 'INVALID_INPUT');
+        }
+
+        const recipientType = identityResolver.detect(recipientEmail)?.provider.type === 'phone' ? 'phone' : 'email';
 
         console.log('🎯 Creating transfer intent:', {
             sender: senderWalletAddress,
             recipient: recipientEmail,
-            amount: amount / 1_000_000, // Log in USDC units for readability
+            amount: TokenRegistry.fromBaseUnits(amount, token), // Log in token units for readability
+            token: token.symbol,
+            expiresAt: expiresAt.toISOString(),
             escrowPda
         });
 
         try {
-            // Set expiration to 30 days from now
-            const expiresAt = new Date();
-            expiresAt.setDate(expiresAt.getDate() + 30);
+            // A retried send gets its first intent back, without a second invitation email
+            if (idempotencyKey) {
+                const existing = await this.getTransferIntentByIdempotencyKey(idempotencyKey);
+                if (existing) {
+                    console.log('🔁 Transfer intent already created for this send:', existing.id);
+                    return existing;
+                }
+            }
 
             const { data, error } = await supabase
                 .from('transfer_intents')
                 .insert({
                     sender_wallet: senderWalletAddress,
+                    recipient_type: recipientType,
                     recipient_email: recipientEmail.toLowerCase(),
-                    token_mint: ENV_CONFIG.usdcMintAddress,
-                    token_symbol: 'USDC',
-                    amount: amount / 1_000_000, // Convert to USDC units (numeric with 6 decimals)
+                    token_mint: token.mint.toBase58(),
+                    token_symbol: token.symbol,
+                    amount: TokenRegistry.fromBaseUnits(amount, token), // Convert to token units (numeric with 6 decimals)
+                    message: Memo.normalize(message) ?? null,
                     status: 'pending',
                     expires_at: expiresAt.toISOString(),
-                    escrow_pda: escrowPda || null
+                    escrow_pda: escrowPda || null,
+                    idempotency_key: idempotencyKey ?? null
                 })
                 .select()
                 .single();
 
+            // Lost a race with a concurrent retry of the same send
+            if (error?.code === UNIQUE_VIOLATION && idempotencyKey) {
+                const existing = await this.getTransferIntentByIdempotencyKey(idempotencyKey);
+                if (existing) {
+                    return existing;
+                }
+            }
+
             if (error) {
                 console.error('❌ Supabase error creating transfer intent:', error);
                 throw new TransferIntentError(
@@ -80,17 +130,16 @@ export class TransferIntentService {
 
             console.log('✅ Transfer intent created successfully:', data.id);
 
-            const transferIntent = {
-                id: data.id,
-                senderWalletAddress: data.sender_wallet,
-                recipientEmail: data.recipient_email,
-                amount: Math.round(data.amount * 1_000_000), // Convert back to base units
-                status: data.status,
-                createdAt: data.created_at,
-                claimedAt: data.claimed_at,
-                expiresAt: data.expires_at,
-                escrowPda: data.escrow_pda
-            };
+            const transferIntent = this.mapIntentRow(data);
+
+            // Phone recipients get a text, composed by the send-sms function from the intent we just stored
+            if (recipientType === 'phone') {
+                const smsResult = await SmsNotificationService.sendInvitationSms(data.id);
+                if (!smsResult.success) {
+                    console.warn('⚠️ Failed to send invitation SMS:', smsResult.error);
+                }
+                return transferIntent;
+            }
 
             // Send invitation email automatically
             try {
@@ -100,8 +149,11 @@ export class TransferIntentService {
                         transferIntentId: data.id,
                         senderEmail: senderEmail || `${data.sender_wallet.slice(0, 6)}...${data.sender_wallet.slice(-4)}`,
                         recipientEmail: data.recipient_email,
-                        amount: Math.round(data.amount * 1_000_000), // Convert back to base units
-                        expirationDate: data.expires_at
+                        amount: transferIntent.amount,
+                        tokenSymbol: token.symbol,
+                        decimals: token.decimals,
+                        message: transferIntent.message,
+                        expirationDate: expiresAt.toISOString()
                     });
 
                     if (emailResult.success) {
@@ -152,17 +204,7 @@ export class TransferIntentService {
                 );
             }
 
-            return data.map(item => ({
-                id: item.id,
-                senderWalletAddress: item.sender_wallet,
-                recipientEmail: item.recipient_email,
-                amount: item.amount,
-                status: item.status,
-                createdAt: item.created_at,
-                claimedAt: item.claimed_at,
-                expiresAt: item.expires_at,
-                escrowPda: item.escrow_pda
-            }));
+            return data.map(item => this.mapIntentRow(item));
         } catch (error) {
             if (error instanceof TransferIntentError) {
                 throw error;
@@ -230,6 +272,115 @@ export class TransferIntentService {
         }
     }
 
+    /**
+     * Mark a transfer intent as expired once its escrow has been reclaimed by the sender
+     */
+    static async markTransferIntentExpired(intentId: string, reclaimTxHash: string): Promise<{
+        success: boolean;
+        error?: string;
+    }> {
+        try {
+            // Intents may already be 'expired' by expire_old_transfer_intents() but not yet reclaimed
+            const { data, error } = await supabase
+                .from('transfer_intents')
+                .update({
+                    status: 'expired',
+                    reclaim_tx_hash: reclaimTxHash,
+                    reclaimed_at: new Date().toISOString()
+                })
+                .eq('id', intentId)
+                .in('status', ['pending', 'expired'])
+                .is('reclaim_tx_hash', null)
+                .select()
+                .single();
+
+            if (error) {
+                console.error('❌ Supabase error marking transfer intent expired:', error);
+                return {
+                    success: false,
+                    error: error.message || 'Database update failed'
+                };
+            }
+
+            if (!data) {
+                console.error('❌ No transfer intent found or already reclaimed:', intentId);
+                return {
+                    success: false,
+                    error: 'Transfer not found or already reclaimed'
+                };
+            }
+
+            console.log('✅ Transfer intent marked expired:', { intentId, reclaimTxHash });
+            return { success: true };
+        } catch (error) {
+            console.error('❌ Failed to mark transfer intent expired:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Get every transfer intent created by a sender, newest first
+     */
+    static async getTransferIntentsBySender(senderWalletAddress: string): Promise<TransferIntent[]> {
+        try {
+            const { data, error } = await supabase
+                .from('transfer_intents')
+                .select('*')
+                .eq('sender_wallet', senderWalletAddress)
+                .order('created_at', { ascending: false });
+
+            if (error) {
+                console.error('❌ Supabase error getting sent transfers:', error);
+                throw new TransferIntentError(
+                    'Failed to get sent transfers',
+                    'DATABASE_ERROR'
+                );
+            }
+
+            return data.map(item => this.mapIntentRow(item));
+        } catch (error) {
+            if (error instanceof TransferIntentError) {
+                throw error;
+            }
+
+            console.error('❌ Failed to get sent transfers:', error);
+            throw new TransferIntentError(
+                'Failed to get sent transfers',
+                'UNKNOWN_ERROR'
+            );
+        }
+    }
+
+    /**
+     * Get the transfer intents of a set of escrows, keyed by escrow PDA
+     */
+    static async getTransferIntentsByEscrowPdas(escrowPdas: string[]): Promise<Map<string, TransferIntent>> {
+        const intents = new Map<string, TransferIntent>();
+        if (escrowPdas.length === 0) {
+            return intents;
+        }
+
+        const { data, error } = await supabase
+            .from('transfer_intents')
+            .select('*')
+            .in('escrow_pda', escrowPdas);
+
+        if (error) {
+            console.error('❌ Supabase error getting transfer intents by escrow:', error);
+            throw new TransferIntentError(
+                'Failed to get transfer intents',
+                'DATABASE_ERROR'
+            );
+        }
+
+        data.forEach(item => intents.set(item.escrow_pda, this.mapIntentRow(item)));
+
+        return intents;
+    }
+
     /**
      * Get transfer intent by ID
      */
@@ -245,36 +396,69 @@ export class TransferIntentService {
                 return null;
             }
 
-            return {
-                id: data.id,
-                senderWalletAddress: data.sender_wallet,
-                recipientEmail: data.recipient_email,
-                amount: Math.round(data.amount * 1_000_000), // Convert back to base units
-                status: data.status,
-                createdAt: data.created_at,
-                claimedAt: data.claimed_at,
-                expiresAt: data.expires_at,
-                escrowPda: data.escrow_pda
-            };
+            return this.mapIntentRow(data);
         } catch (error) {
             console.error('❌ Failed to get transfer intent:', error);
             return null;
         }
     }
 
+    /**
+     * Get the transfer intent a send attempt created, if any
+     */
+    static async getTransferIntentByIdempotencyKey(idempotencyKey: string): Promise<TransferIntent | null> {
+        const { data, error } = await supabase
+            .from('transfer_intents')
+            .select('*')
+            .eq('idempotency_key', idempotencyKey)
+            .maybeSingle();
+
+        if (error) {
+            console.error('❌ Supabase error getting transfer intent by idempotency key:', error);
+            throw new TransferIntentError(
+                'Failed to get transfer intent',
+                'DATABASE_ERROR'
+            );
+        }
+
+        if (!data) {
+            return null;
+        }
+
+        return this.mapIntentRow(data);
+    }
+
     /**
      * Get unclaimed transfers by email for receive modal
      */
     static async getUnclaimedTransfersByEmail(email: string): Promise<{
         transfers: UnclaimedTransfer[];
         totalAmount: number;
+    }> {
+        return this.getUnclaimedTransfersForRecipient(email.toLowerCase());
+    }
+
+    /**
+     * Get unclaimed transfers sent to an E.164 phone number; claiming them needs an SMS code
+     */
+    static async getUnclaimedTransfersByPhone(phone: string): Promise<{
+        transfers: UnclaimedTransfer[];
+        totalAmount: number;
+    }> {
+        return this.getUnclaimedTransfersForRecipient(phone);
+    }
+
+    private static async getUnclaimedTransfersForRecipient(recipient: string): Promise<{
+        transfers: UnclaimedTransfer[];
+        totalAmount: number;
     }> {
         try {
             const { data, error } = await supabase
                 .from('transfer_intents')
                 .select('*')
-                .eq('recipient_email', email.toLowerCase())
+                .eq('recipient_email', recipient)
                 .eq('status', 'pending')
+                .gt('expires_at', new Date().toISOString()) // Expired escrows can no longer be claimed
                 .order('created_at', { ascending: false })
                 .limit(5); // Maximum 5 as per requirements
 
@@ -323,6 +507,7 @@ export class TransferIntentService {
                     fromName: undefined,
                     message: item.message || undefined,
                     timestamp: validTimestamp,
+                    expiresAt: new Date(this.toUtcIsoString(item.expires_at)),
                     status: item.status as 'pending' | 'claimed' | 'cancelled',
                     tokenSymbol: item.token_symbol || 'USDC',
                     senderWallet: item.sender_wallet
@@ -335,11 +520,48 @@ export class TransferIntentService {
 
             return { transfers, totalAmount };
         } catch (error) {
-            console.error('❌ Failed to get unclaimed transfers by email:', error);
+            console.error('❌ Failed to get unclaimed transfers for recipient:', error);
             return { transfers: [], totalAmount: 0 };
         }
     }
 
+    /**
+     * The one mapping from a transfer_intents row; amounts come back in the token's base units
+     */
+    private static mapIntentRow(row: TransferIntentRow): TransferIntent {
+        return {
+            id: row.id,
+            senderWalletAddress: row.sender_wallet,
+            recipientType: row.recipient_type ?? 'email',
+            recipientEmail: row.recipient_email,
+            amount: TokenRegistry.toBaseUnits(row.amount, this.getIntentToken(row.token_mint)),
+            tokenMint: row.token_mint,
+            tokenSymbol: row.token_symbol,
+            message: row.message ?? undefined,
+            status: row.status as TransferIntent['status'],
+            createdAt: this.toUtcIsoString(row.created_at),
+            claimedAt: row.claimed_at ? this.toUtcIsoString(row.claimed_at) : undefined,
+            expiresAt: this.toUtcIsoString(row.expires_at),
+            escrowPda: row.escrow_pda ?? undefined,
+            reclaimTxHash: row.reclaim_tx_hash ?? undefined,
+            idempotencyKey: row.idempotency_key ?? undefined
+        };
+    }
+
+    /**
+     * A stored timestamp as a UTC ISO string, so every consumer reads the same instant whatever its local zone
+     */
+    private static toUtcIsoString(value: string): string {
+        return new Date(ZONE_SUFFIX.test(value) ? value : `${value}Z`).toISOString();
+    }
+
+    /**
+     * Registry token of a stored intent; falls back to USDC, whose 6 decimals match the amount column
+     */
+    private static getIntentToken(tokenMint: string | null): TokenInfo {
+        return (tokenMint && TokenRegistry.getByMint(tokenMint)) || TokenRegistry.getDefaultToken();
+    }
+
 }
 
 // Error class for transfer intent operations
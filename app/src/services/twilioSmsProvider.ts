@@ -0,0 +1,68 @@
+// src/services/twilioSmsProvider.ts
+
+// Shared by the edge functions that text users, so keep it free of app aliases and env access.
+import { SmsMessage, SmsProvider, SmsProviderError } from './smsProvider.ts';
+
+export interface TwilioConfig {
+    accountSid: string;
+    authToken: string;
+    messagingServiceSid?: string; // Takes precedence over fromNumber when both are set
+    fromNumber?: string;
+}
+
+/**
+ * Sends through Twilio's Messages API. Only edge functions hold the credentials,
+ * and they only send messages they composed themselves.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+    constructor(private config: TwilioConfig) {}
+
+    /**
+     * Read the TWILIO_* settings; a missing one is an error rather than a silent fallback
+     */
+    static fromEnv(get: (name: string) => string | undefined): TwilioSmsProvider {
+        const accountSid = get('TWILIO_ACCOUNT_SID');
+        const authToken = get('TWILIO_AUTH_TOKEN');
+        const messagingServiceSid = get('TWILIO_MESSAGING_SERVICE_SID');
+        const fromNumber = get('TWILIO_FROM_NUMBER');
+
+        if (!accountSid || !authToken || (!messagingServiceSid && !fromNumber)) {
+            throw new SmsProviderError(
+                'SMS is not configured: set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_MESSAGING_SERVICE_SID or TWILIO_FROM_NUMBER',
+                'NOT_CONFIGURED'
+            );
+        }
+        return new TwilioSmsProvider({ accountSid, authToken, messagingServiceSid, fromNumber });
+    }
+
+    async send(message: SmsMessage): Promise<string> {
+        const { accountSid, authToken, messagingServiceSid, fromNumber } = this.config;
+
+        const form = new URLSearchParams({ To: message.to, Body: message.body });
+        if (messagingServiceSid) {
+            form.set('MessagingServiceSid', messagingServiceSid);
+        } else {
+            form.set('From', fromNumber ?? '');
+        }
+
+        const res = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`
+            },
+            body: form
+        });
+
+        const data = await res.json();
+        if (!res.ok) {
+            // Twilio's error code and message only; never the body we tried to send
+            console.error('❌ Twilio API error:', data.code, data.message);
+            throw new SmsProviderError(data.message ?? 'SMS provider error', 'SEND_FAILED');
+        }
+
+        return data.sid;
+    }
+}
+
+export default TwilioSmsProvider;
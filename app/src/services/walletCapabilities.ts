@@ -0,0 +1,38 @@
+// src/services/walletCapabilities.ts
+
+const LEGACY_ONLY_STORAGE_KEY = 'fy-legacy-only-wallets';
+
+// Wallet errors seen when a signer does not understand v0 messages
+const VERSION_UNSUPPORTED_PATTERN = /version|versioned|unsupported transaction|failed to deserialize/i;
+
+/**
+ * Remembers which wallets could not sign v0 transactions, so later builds fall back to legacy
+ */
+export class WalletCapabilities {
+    static supportsVersionedTransactions(walletAddress: string): boolean {
+        return !this.getLegacyOnlyWallets().includes(walletAddress);
+    }
+
+    static markLegacyOnly(walletAddress: string): void {
+        const wallets = this.getLegacyOnlyWallets();
+        if (!wallets.includes(walletAddress)) {
+            console.warn('⚠️ Wallet cannot sign v0 transactions, using legacy from now on:', walletAddress);
+            localStorage.setItem(LEGACY_ONLY_STORAGE_KEY, JSON.stringify([...wallets, walletAddress]));
+        }
+    }
+
+    static isVersionUnsupportedError(error: unknown): boolean {
+        return error instanceof Error && VERSION_UNSUPPORTED_PATTERN.test(error.message);
+    }
+
+    private static getLegacyOnlyWallets(): string[] {
+        try {
+            const stored = localStorage.getItem(LEGACY_ONLY_STORAGE_KEY);
+            return stored ? JSON.parse(stored) : [];
+        } catch {
+            return [];
+        }
+    }
+}
+
+export default WalletCapabilities;
@@ -1,61 +1,106 @@
-// Fee payer wallet utilities for gasless transactions
-import { Keypair, PublicKey } from '@solana/web3.js';
-import bs58 from 'bs58';
+// Fee payer pool utilities for gasless transactions
+// The pool lives only in the fee-payer-relayer edge function, which sees all traffic and live balances,
+// so it assigns the payer for each transaction; the browser only learns the key it was given.
+import { PublicKey } from '@solana/web3.js';
+import { FeePayerRelayer } from '@/services/feePayerRelayer';
+
+export type GaslessMode = 'enabled' | 'degraded' | 'disabled';
+
+export interface FeePayerStatus {
+  publicKey: string;
+  balance: number; // Lamports, as the relayer read them
+  lastUsedAt: number | null;
+  inRotation: boolean;
+  belowLowWater: boolean;
+}
+
+interface PoolHealth {
+  healthy: boolean;
+  checkedAt: number;
+}
+
+// How long the relayer's last answer is trusted before getGaslessMode asks again
+const HEALTH_TTL_MS = 30_000;
 
 export class FeePayerWallet {
-  private static instance: Keypair | null = null;
+  // Null until the relayer has answered: unknown health counts as degraded
+  private static health: PoolHealth | null = null;
 
   /**
-   * Get the fee payer keypair from environment variable
+   * Have the relayer assign a fee payer for a new transaction: the least recently used payer with enough balance
    */
-  static getFeePayerKeypair(): Keypair {
-    if (this.instance) {
-      return this.instance;
-    }
-
-    const privateKeyString = import.meta.env.VITE_FEE_PAYER_PRIVATE_KEY;
-    
-    if (!privateKeyString) {
-      throw new Error('Service temporarily unavailable. Please try again later.');
-    }
-
+  static async assignFeePayer(): Promise<PublicKey> {
     try {
-      // Decode base58 private key
-      const privateKeyBuffer = bs58.decode(privateKeyString);
-      this.instance = Keypair.fromSecretKey(new Uint8Array(privateKeyBuffer));
-      
-      console.log('💰 Fee payer wallet loaded:', this.instance.publicKey.toString());
-      return this.instance;
+      const assigned = await FeePayerRelayer.assignFeePayer();
+      this.health = { healthy: true, checkedAt: Date.now() };
+
+      console.log('💰 Assigned fee payer:', assigned.toString());
+      return assigned;
     } catch (error) {
-      console.error('❌ Failed to load fee payer wallet:', error);
-      throw new Error('Service temporarily unavailable. Please try again later.');
+      this.health = { healthy: false, checkedAt: Date.now() };
+      console.error('❌ No fee payer assigned:', error);
+      throw error;
     }
   }
 
   /**
-   * Get the fee payer public key
+   * Pool balances and rotation state for the ops view
+   */
+  static async getPoolStatus(): Promise<FeePayerStatus[]> {
+    const statuses = await FeePayerRelayer.getPoolStatus();
+
+    statuses
+      .filter(status => status.belowLowWater)
+      .forEach(status => {
+        console.warn('⚠️ Fee payer below low-water mark:', status.publicKey, status.balance, status.inRotation ? '' : '(out of rotation)');
+      });
+
+    return statuses;
+  }
+
+  /**
+   * Forget the pool's health, e.g. after the relayer reported a payer can't cover a transaction,
+   * so the next check asks the relayer again
+   */
+  static markUnhealthy(): void {
+    this.health = null;
+    console.warn('⚠️ Fee payer pool health unknown until the relayer assigns a payer again');
+  }
+
+  /**
+   * Disabled when not configured; degraded when no payer is healthy, or when the relayer couldn't be asked
    */
-  static getFeePayerPublicKey(): PublicKey {
-    const keypair = this.getFeePayerKeypair();
-    return keypair.publicKey;
+  static async getGaslessMode(): Promise<GaslessMode> {
+    if (import.meta.env.VITE_FEE_PAYER_ENABLED !== 'true') {
+      return 'disabled';
+    }
+
+    if (!this.health || Date.now() - this.health.checkedAt > HEALTH_TTL_MS) {
+      await this.assignFeePayer().catch(() => undefined);
+    }
+
+    return this.health?.healthy ? 'enabled' : 'degraded';
   }
 
   /**
-   * Check if gasless transactions are enabled
+   * Check if gasless transactions are enabled and at least one payer is healthy
    */
-  static isGaslessEnabled(): boolean {
-    const enabled = import.meta.env.VITE_FEE_PAYER_ENABLED;
-    const hasKey = !!import.meta.env.VITE_FEE_PAYER_PRIVATE_KEY;
-    
-    return enabled === 'true' && hasKey;
+  static async isGaslessEnabled(): Promise<boolean> {
+    const mode = await this.getGaslessMode();
+
+    if (mode === 'degraded') {
+      console.warn('⚠️ Gasless transactions degraded: no fee payer with sufficient balance');
+    }
+
+    return mode === 'enabled';
   }
 
   /**
-   * Clear the cached keypair (for testing)
+   * Clear the cached pool health (for testing)
    */
   static clearCache(): void {
-    this.instance = null;
+    this.health = null;
   }
 }
 
-export default FeePayerWallet;
\ No newline at end of file
+export default FeePayerWallet;
@@ -0,0 +1,335 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+// Bare specifiers resolve through the app package.json so the shared policy module uses the same web3.js copy
+import { AddressLookupTableAccount, Connection, Keypair } from "@solana/web3.js";
+import { createClient } from "@supabase/supabase-js";
+import bs58 from "bs58";
+import { Buffer } from "node:buffer";
+import {
+  SponsorshipPolicy,
+  SponsorshipPolicyError,
+  SponsorshipRejectionReason,
+  MIN_FEE_PAYER_LAMPORTS,
+  FEE_PAYER_LOW_WATER_LAMPORTS
+} from "./src/services/sponsorshipPolicy.ts";
+import {
+  DEFAULT_SPONSORSHIP_QUOTA,
+  SPONSORSHIP_LIMIT_MESSAGE,
+  SponsorshipQuota
+} from "./src/services/sponsorshipQuota.ts";
+import { AuthenticatedUser, DynamicAuth, DynamicAuthError, USER_TOKEN_HEADER } from "./src/services/dynamicAuth.ts";
+import {
+  deserializeTransaction,
+  getFeePayer,
+  getFirstSignature,
+  getLookupTableAddresses,
+  isVersionedTransaction,
+  serializeTransaction,
+  SolanaTransaction
+} from "./src/services/transactionFormat.ts";
+
+// The fee payer private keys only ever exist here, never in the Vite bundle.
+// FEE_PAYER_PRIVATE_KEYS is a comma separated pool; FEE_PAYER_PRIVATE_KEY is still accepted for a single payer.
+const FEE_PAYER_PRIVATE_KEYS = Deno.env.get("FEE_PAYER_PRIVATE_KEYS") ?? Deno.env.get("FEE_PAYER_PRIVATE_KEY");
+
+// Every request must carry the signed-in user's Dynamic JWT; quotas are per user, not per signing wallet
+const auth = new DynamicAuth(Deno.env.get("DYNAMIC_ENVIRONMENT_ID")!);
+
+// Wallets allowed to read the pool, like VITE_OPS_WALLETS in the app (comma separated)
+const OPS_WALLETS = (Deno.env.get("OPS_WALLETS") ?? "")
+  .split(",")
+  .map((address) => address.trim())
+  .filter(Boolean);
+
+// Most spend rows one ops request can read
+const MAX_SPEND_ROWS = 500;
+
+const connection = new Connection(Deno.env.get("SOLANA_RPC_URL") ?? "https://api.devnet.solana.com", "confirmed");
+
+// Service role access so spend can be recorded regardless of the caller
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${USER_TOKEN_HEADER}`
+};
+
+let feePayers: Keypair[] | null = null;
+
+function getFeePayers(): Keypair[] {
+  if (!feePayers) {
+    if (!FEE_PAYER_PRIVATE_KEYS) {
+      throw new Error("FEE_PAYER_PRIVATE_KEYS is not configured");
+    }
+    feePayers = FEE_PAYER_PRIVATE_KEYS
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map((key) => Keypair.fromSecretKey(bs58.decode(key)));
+    console.log('💰 Fee payer pool loaded:', feePayers.map((payer) => payer.publicKey.toBase58()));
+  }
+  return feePayers;
+}
+
+interface PayerState {
+  payer: Keypair;
+  balance: number;
+  lastUsedAt: number | null; // Last sponsored transaction across every instance, from the spend ledger
+}
+
+// Live balances and last use of every pool key
+async function getPoolState(payers: Keypair[]): Promise<PayerState[]> {
+  const keys = payers.map((payer) => payer.publicKey.toBase58());
+  const [balances, { data: lastUsed, error }] = await Promise.all([
+    Promise.all(payers.map((payer) => connection.getBalance(payer.publicKey, "confirmed"))),
+    supabase.rpc("fee_payer_last_used", { p_fee_payers: keys })
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to read fee payer usage: ${error.message}`);
+  }
+
+  const lastUsedAt = new Map<string, number>(
+    (lastUsed as { fee_payer: string; last_used_at: string }[])
+      .map((row) => [row.fee_payer, Date.parse(row.last_used_at)])
+  );
+
+  return payers.map((payer, index) => ({
+    payer,
+    balance: balances[index],
+    lastUsedAt: lastUsedAt.get(keys[index]) ?? null
+  }));
+}
+
+function payerUnavailable(): Response {
+  return jsonResponse({
+    error: 'Fee payer unavailable',
+    reason: 'PAYER_UNHEALTHY',
+    message: 'Service temporarily unavailable. Please try again.'
+  }, 503);
+}
+
+function policyRejection(reason: SponsorshipRejectionReason): Response {
+  return jsonResponse({
+    error: 'Sponsorship rejected',
+    reason,
+    message: SponsorshipPolicy.getRejectionMessage(reason)
+  }, 403);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      ...CORS_HEADERS
+    },
+    status
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      headers: {
+        ...CORS_HEADERS,
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS"
+      }
+    });
+  }
+
+  try {
+    let user: AuthenticatedUser;
+    try {
+      user = await auth.authenticate(req);
+    } catch (error) {
+      if (error instanceof DynamicAuthError) {
+        return jsonResponse({ error: error.message, reason: error.code }, 401);
+      }
+      throw error;
+    }
+
+    const payers = getFeePayers();
+
+    // Expose the pool and its health, or spend per user with ?view=spend, to ops
+    if (req.method === "GET") {
+      if (!DynamicAuth.isOps(user, OPS_WALLETS)) {
+        return jsonResponse({ error: 'Not allowed' }, 403);
+      }
+
+      const params = new URL(req.url).searchParams;
+      if (params.get("view") === "spend") {
+        const limit = Math.min(Number(params.get("limit")) || 100, MAX_SPEND_ROWS);
+        const { data: spend, error: spendError } = await supabase
+          .from("fee_payer_spend_by_user")
+          .select("*")
+          .order("total_lamports", { ascending: false })
+          .limit(limit);
+
+        if (spendError) {
+          throw new Error(`Failed to read fee payer spend: ${spendError.message}`);
+        }
+        return jsonResponse({ spend });
+      }
+
+      const pool = await getPoolState(payers);
+      return jsonResponse({
+        payers: pool.map(({ payer, balance, lastUsedAt }) => ({
+          publicKey: payer.publicKey.toBase58(),
+          balance,
+          lastUsedAt,
+          inRotation: balance >= MIN_FEE_PAYER_LAMPORTS,
+          belowLowWater: balance < FEE_PAYER_LOW_WATER_LAMPORTS
+        }))
+      });
+    }
+
+    const body = await req.json();
+
+    // Assign the least recently used payer that can still cover an ATA plus fees
+    if (body.action === "assign") {
+      const candidates = (await getPoolState(payers))
+        .filter(({ balance }) => balance >= MIN_FEE_PAYER_LAMPORTS)
+        .sort((a, b) => (a.lastUsedAt ?? 0) - (b.lastUsedAt ?? 0));
+
+      if (candidates.length === 0) {
+        console.error('❌ No fee payer with sufficient balance left in the pool');
+        return payerUnavailable();
+      }
+
+      candidates
+        .filter(({ balance }) => balance < FEE_PAYER_LOW_WATER_LAMPORTS)
+        .forEach(({ payer, balance }) => console.warn('⚠️ Fee payer below low-water mark:', payer.publicKey.toBase58(), balance));
+
+      return jsonResponse({ publicKey: candidates[0].payer.publicKey.toBase58() });
+    }
+
+    // What the user has been sponsored so far, for the client's precheck
+    if (body.action === "usage") {
+      const { data: usage, error: usageError } = await supabase
+        .rpc("fee_payer_usage", { p_user_email: user.email })
+        .single();
+
+      if (usageError) {
+        throw new Error(`Failed to read sponsorship usage: ${usageError.message}`);
+      }
+
+      return jsonResponse({
+        dailyLamports: Number(usage.daily_lamports),
+        monthlyLamports: Number(usage.monthly_lamports)
+      });
+    }
+
+    if (typeof body.transaction !== "string") {
+      return jsonResponse({ error: 'Missing transaction' }, 400);
+    }
+
+    let transaction: SolanaTransaction;
+    try {
+      transaction = deserializeTransaction(Buffer.from(body.transaction, "base64"));
+    } catch {
+      return policyRejection('INVALID_TRANSACTION');
+    }
+
+    // The transaction names the payer this function assigned when the client built it
+    const feePayer = getFeePayer(transaction);
+    const payer = payers.find((keypair) => feePayer?.equals(keypair.publicKey));
+    if (!payer) {
+      console.warn('⚠️ Rejected transaction with foreign fee payer:', feePayer?.toBase58());
+      return policyRejection('FEE_PAYER_MISMATCH');
+    }
+
+    // v0 transactions are evaluated with their lookup tables resolved from chain
+    const lookupTables: AddressLookupTableAccount[] = [];
+    for (const address of getLookupTableAddresses(transaction)) {
+      const { value: table } = await connection.getAddressLookupTable(address);
+      if (!table) {
+        console.warn('⚠️ Rejected transaction with unknown lookup table:', address.toBase58());
+        return policyRejection('INVALID_TRANSACTION');
+      }
+      lookupTables.push(table);
+    }
+
+    // Decode every instruction before anything is signed
+    let evaluation;
+    try {
+      evaluation = SponsorshipPolicy.evaluate(transaction, payer.publicKey, undefined, lookupTables);
+      console.log('📋 Sponsorship approved:', evaluation);
+    } catch (error) {
+      if (error instanceof SponsorshipPolicyError) {
+        console.warn('⚠️ Sponsorship rejected:', error.code, 'at instruction', error.instructionIndex);
+        return policyRejection(error.code);
+      }
+      throw error;
+    }
+
+    const wallet = SponsorshipPolicy.getSponsoredWallet(transaction, payer.publicKey, lookupTables);
+    if (!wallet) {
+      return jsonResponse({ error: 'Transaction has no user signer' }, 400);
+    }
+
+    // Payers that can't cover an ATA plus fees are out of rotation; the client asks for another one
+    const balance = await connection.getBalance(payer.publicKey, "confirmed");
+    if (balance < Math.max(MIN_FEE_PAYER_LAMPORTS, evaluation.lamportsDrained)) {
+      console.error('❌ Fee payer out of rotation:', payer.publicKey.toBase58(), balance);
+      return payerUnavailable();
+    }
+
+    if (balance < FEE_PAYER_LOW_WATER_LAMPORTS) {
+      console.warn('⚠️ Fee payer below low-water mark:', payer.publicKey.toBase58(), balance);
+    }
+
+    if (isVersionedTransaction(transaction)) {
+      transaction.sign([payer]);
+    } else {
+      transaction.partialSign(payer);
+    }
+
+    const signature = bs58.encode(getFirstSignature(transaction)!);
+    console.log('✍️ Fee payer co-signed transaction:', signature);
+
+    // Check the user's daily and monthly quotas and record the spend in one step, before handing the
+    // signature out, so an unrecorded transaction can never land and concurrent requests can't overspend
+    const { data: quotaReason, error: ledgerError } = await supabase.rpc("fee_payer_record_spend", {
+      p_user_email: user.email,
+      p_wallet: wallet.toBase58(),
+      p_fee_payer: payer.publicKey.toBase58(),
+      p_signature: signature,
+      p_instructions: evaluation.instructions.map((ix) => ix.name),
+      p_fee_lamports: evaluation.feeLamports,
+      p_rent_lamports: evaluation.rentLamports,
+      p_ata_rent_payments: evaluation.ataRentPayments,
+      p_daily_limit: DEFAULT_SPONSORSHIP_QUOTA.dailyLamports,
+      p_monthly_limit: DEFAULT_SPONSORSHIP_QUOTA.monthlyLamports
+    });
+
+    if (ledgerError) {
+      throw new Error(`Failed to record fee payer spend: ${ledgerError.message}`);
+    }
+
+    if (quotaReason && SponsorshipQuota.isQuotaReason(quotaReason)) {
+      console.warn('⚠️ Sponsorship quota reached:', user.email, quotaReason);
+      return jsonResponse({
+        error: 'Sponsorship limit reached',
+        reason: quotaReason,
+        message: SPONSORSHIP_LIMIT_MESSAGE
+      }, 429);
+    }
+
+    return jsonResponse({
+      transaction: serializeTransaction(transaction).toString("base64"),
+      signature
+    });
+
+  } catch (error) {
+    console.error('❌ Relayer error:', error);
+
+    return jsonResponse({
+      error: 'Internal server error',
+      message: error.message
+    }, 500);
+  }
+});
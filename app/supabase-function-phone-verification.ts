@@ -0,0 +1,222 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "@supabase/supabase-js";
+import { AuthenticatedUser, DynamicAuth, DynamicAuthError, USER_TOKEN_HEADER } from "./src/services/dynamicAuth.ts";
+import {
+  CodeCheckFailure,
+  PhoneVerification,
+  PhoneVerificationError,
+  PhoneVerificationRecord,
+  PhoneVerificationStore
+} from "./src/services/phoneVerification.ts";
+import { SMS_HOURLY_LIMITS, SMS_LIMIT_MESSAGE, SmsProviderError } from "./src/services/smsProvider.ts";
+import { TwilioSmsProvider } from "./src/services/twilioSmsProvider.ts";
+
+// Texts and checks claim codes, and links a verified number to the caller's wallet.
+// Codes are generated and compared only here; the browser never sees a code it did not type.
+
+const auth = new DynamicAuth(Deno.env.get("DYNAMIC_ENVIRONMENT_ID")!);
+
+// Service role access: phone_verifications and phone_wallets are closed to the anon key
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${USER_TOKEN_HEADER}`
+};
+
+const store: PhoneVerificationStore = {
+  async get(phoneHash) {
+    const { data, error } = await supabase
+      .from("phone_verifications")
+      .select("*")
+      .eq("phone_hash", phoneHash)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read phone verification: ${error.message}`);
+    }
+    return data && {
+      phoneHash: data.phone_hash,
+      codeHash: data.code_hash,
+      sentAt: new Date(data.sent_at),
+      expiresAt: new Date(data.expires_at),
+      attempts: data.attempts,
+      verifiedAt: data.verified_at ? new Date(data.verified_at) : null
+    };
+  },
+
+  async save(record: PhoneVerificationRecord) {
+    const { error } = await supabase
+      .from("phone_verifications")
+      .upsert({
+        phone_hash: record.phoneHash,
+        code_hash: record.codeHash,
+        sent_at: record.sentAt.toISOString(),
+        expires_at: record.expiresAt.toISOString(),
+        attempts: record.attempts,
+        verified_at: record.verifiedAt?.toISOString() ?? null
+      }, { onConflict: "phone_hash" });
+
+    if (error) {
+      throw new Error(`Failed to save phone verification: ${error.message}`);
+    }
+  },
+
+  // Row-locked in SQL, so a burst of guesses is counted one at a time
+  async checkCode(phoneHash, codeHash, now, maxAttempts) {
+    const { data, error } = await supabase.rpc("phone_verification_check", {
+      p_phone_hash: phoneHash,
+      p_code_hash: codeHash,
+      p_now: now.toISOString(),
+      p_max_attempts: maxAttempts
+    });
+
+    if (error) {
+      throw new Error(`Failed to check phone verification code: ${error.message}`);
+    }
+    return (data as CodeCheckFailure | null) ?? null;
+  }
+};
+
+let verification: PhoneVerification | null = null;
+
+// Built on first use so a missing Twilio setting fails the request instead of the deploy
+function getVerification(): PhoneVerification {
+  if (!verification) {
+    verification = new PhoneVerification(TwilioSmsProvider.fromEnv((name) => Deno.env.get(name)), store);
+  }
+  return verification;
+}
+
+// The number is linked to one of the caller's own wallets; a re-verified number moves to the new wallet
+async function linkPhoneWallet(phone: string, walletAddress: string): Promise<{ walletAddress: string; verifiedAt: string }> {
+  const { data, error } = await supabase
+    .from("phone_wallets")
+    .upsert({
+      phone,
+      wallet_address: walletAddress,
+      verified_at: new Date().toISOString(),
+      is_active: true
+    }, { onConflict: "phone" })
+    .select("wallet_address, verified_at")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to link phone wallet: ${error.message}`);
+  }
+  return { walletAddress: data.wallet_address, verifiedAt: data.verified_at };
+}
+
+// Verified recently, and linked to a wallet the caller holds, so one user's code can't open another's claim
+async function isVerifiedFor(user: AuthenticatedUser, phone: string): Promise<boolean> {
+  if (!await getVerification().isVerified(phone)) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("phone_wallets")
+    .select("wallet_address")
+    .eq("phone_hash", PhoneVerification.hashPhone(phone))
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read phone wallet: ${error.message}`);
+  }
+  return !!data && user.wallets.includes(data.wallet_address);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      ...CORS_HEADERS
+    },
+    status
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      headers: {
+        ...CORS_HEADERS,
+        "Access-Control-Allow-Methods": "POST, OPTIONS"
+      }
+    });
+  }
+
+  try {
+    let user: AuthenticatedUser;
+    try {
+      user = await auth.authenticate(req);
+    } catch (error) {
+      if (error instanceof DynamicAuthError) {
+        return jsonResponse({ error: error.message, reason: error.code }, 401);
+      }
+      throw error;
+    }
+
+    const { action, phone, code, walletAddress } = await req.json();
+    if (typeof phone !== "string") {
+      return jsonResponse({ error: "Missing phone" }, 400);
+    }
+
+    try {
+      if (action === "sendCode") {
+        const { data: limitReason, error: limitError } = await supabase.rpc("sms_record_send", {
+          p_user_email: user.email,
+          p_phone_hash: PhoneVerification.hashPhone(phone),
+          p_kind: "code",
+          p_user_limit: SMS_HOURLY_LIMITS.perUser,
+          p_phone_limit: SMS_HOURLY_LIMITS.perNumber
+        });
+
+        if (limitError) {
+          throw new Error(`Failed to check the SMS limits: ${limitError.message}`);
+        }
+        if (limitReason) {
+          return jsonResponse({ error: SMS_LIMIT_MESSAGE, reason: limitReason }, 429);
+        }
+
+        await getVerification().sendCode(phone);
+        return jsonResponse({ sent: true });
+      }
+
+      if (action === "verifyCode") {
+        if (typeof code !== "string" || typeof walletAddress !== "string") {
+          return jsonResponse({ error: "Missing code or wallet" }, 400);
+        }
+        if (!user.wallets.includes(walletAddress)) {
+          return jsonResponse({ error: "Link a wallet you have signed in with" }, 403);
+        }
+
+        await getVerification().verifyCode(phone, code);
+        return jsonResponse(await linkPhoneWallet(phone, walletAddress));
+      }
+
+      if (action === "status") {
+        return jsonResponse({ verified: await isVerifiedFor(user, phone) });
+      }
+    } catch (error) {
+      if (error instanceof PhoneVerificationError) {
+        return jsonResponse({ error: error.message, reason: error.code }, error.code === "RESEND_TOO_SOON" ? 429 : 400);
+      }
+      throw error;
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    if (error instanceof SmsProviderError) {
+      console.error('❌ SMS failed:', error.code, error.message);
+      return jsonResponse({ error: "We couldn't text this number. Please try again later." }, 502);
+    }
+    console.error('❌ Function error:', error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
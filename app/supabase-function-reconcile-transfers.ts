@@ -0,0 +1,207 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+// Bare specifiers resolve through the app package.json so the shared reconciler uses the same web3.js copy
+import { Connection } from "@solana/web3.js";
+import { createClient } from "@supabase/supabase-js";
+import { AuthenticatedUser, DynamicAuth, DynamicAuthError, USER_TOKEN_HEADER } from "./src/services/dynamicAuth.ts";
+import {
+  ReconcilableIntent,
+  TransferIntentStore,
+  TransferReconciler
+} from "./src/services/transferReconciler.ts";
+
+// Runs on demand from the ops panel and every 15 minutes from pg_cron (see supabase.sql).
+// Only ops wallets and the cron job, which sends the service role key, may read reports or start a run.
+
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const auth = new DynamicAuth(Deno.env.get("DYNAMIC_ENVIRONMENT_ID")!);
+
+// Wallets allowed to reconcile, like VITE_OPS_WALLETS in the app (comma separated)
+const OPS_WALLETS = (Deno.env.get("OPS_WALLETS") ?? "")
+  .split(",")
+  .map((address) => address.trim())
+  .filter(Boolean);
+
+// Most intents one run may check, whatever the caller asks for
+const MAX_INTENTS_PER_RUN = 500;
+
+const connection = new Connection(Deno.env.get("SOLANA_RPC_URL") ?? "https://api.devnet.solana.com", "confirmed");
+
+// Service role access so intents can be repaired regardless of the caller
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  SUPABASE_SERVICE_ROLE_KEY
+);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${USER_TOKEN_HEADER}`
+};
+
+// Expired rows are included until their reclaim is recorded, since a claim may have landed before expire_old_transfer_intents() ran.
+// Settled rows stay selectable, so each run takes the least recently reconciled ones and newer intents are never starved.
+const store: TransferIntentStore = {
+  async listIntents(limit) {
+    const { data, error } = await supabase
+      .from("transfer_intents")
+      .select("id, status, escrow_pda, claimed_by_wallet, claim_tx_hash, claimed_at")
+      .in("status", ["pending", "claimed", "expired"])
+      .is("reclaim_tx_hash", null)
+      .not("escrow_pda", "is", null)
+      .order("last_reconciled_at", { ascending: true, nullsFirst: true })
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to read transfer intents: ${error.message}`);
+    }
+
+    return data.map((row): ReconcilableIntent => ({
+      id: row.id,
+      status: row.status,
+      escrowPda: row.escrow_pda,
+      claimedByWallet: row.claimed_by_wallet,
+      claimTxHash: row.claim_tx_hash,
+      claimedAt: row.claimed_at
+    }));
+  },
+
+  async markReconciled(ids) {
+    const { error } = await supabase
+      .from("transfer_intents")
+      .update({ last_reconciled_at: new Date().toISOString() })
+      .in("id", ids);
+
+    if (error) {
+      throw new Error(`Failed to mark transfer intents reconciled: ${error.message}`);
+    }
+  },
+
+  async updateIntent(id, expectedStatus, update) {
+    const { data, error } = await supabase
+      .from("transfer_intents")
+      .update(update)
+      .eq("id", id)
+      .eq("status", expectedStatus)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to repair transfer intent: ${error.message}`);
+    }
+
+    return data.length > 0;
+  }
+};
+
+// pg_cron calls with the service role key as its bearer token; the app sends the anon key there
+function isCronCaller(req: Request): boolean {
+  return req.headers.get("Authorization") === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      ...CORS_HEADERS
+    },
+    status
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      headers: {
+        ...CORS_HEADERS,
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS"
+      }
+    });
+  }
+
+  try {
+    const fromCron = isCronCaller(req);
+    if (!fromCron) {
+      let user: AuthenticatedUser;
+      try {
+        user = await auth.authenticate(req);
+      } catch (error) {
+        if (error instanceof DynamicAuthError) {
+          return jsonResponse({ error: error.message, reason: error.code }, 401);
+        }
+        throw error;
+      }
+
+      if (!DynamicAuth.isOps(user, OPS_WALLETS)) {
+        return jsonResponse({ error: 'Not allowed' }, 403);
+      }
+    }
+
+    // The latest report, for ops to check without starting a run
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("transfer_reconciliation_runs")
+        .select("*")
+        .order("finished_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to read reconciliation runs: ${error.message}`);
+      }
+
+      return jsonResponse({ run: data });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body.trigger === "scheduled" && !fromCron) {
+      return jsonResponse({ error: 'Only the scheduled job may start a scheduled run' }, 403);
+    }
+    const trigger = body.trigger === "scheduled" ? "scheduled" : "manual";
+
+    const report = await TransferReconciler.run(connection, store, {
+      dryRun: body.dryRun === true,
+      limit: typeof body.limit === "number" && body.limit > 0 ? Math.min(body.limit, MAX_INTENTS_PER_RUN) : undefined
+    });
+
+    console.log('🔍 Reconciled transfer intents:', {
+      trigger,
+      dryRun: report.dryRun,
+      checked: report.checked,
+      discrepancies: report.discrepancies.length,
+      repaired: report.repaired,
+      errors: report.errors.length
+    });
+
+    const { data: run, error: runError } = await supabase
+      .from("transfer_reconciliation_runs")
+      .insert({
+        trigger,
+        dry_run: report.dryRun,
+        checked: report.checked,
+        repaired: report.repaired,
+        discrepancies: report.discrepancies,
+        errors: report.errors,
+        started_at: report.startedAt,
+        finished_at: report.finishedAt
+      })
+      .select("id")
+      .single();
+
+    // The repairs are already written, so a lost report is logged rather than failing the run
+    if (runError) {
+      console.error('❌ Failed to record reconciliation run:', runError);
+    }
+
+    return jsonResponse({ id: run?.id ?? null, ...report });
+
+  } catch (error) {
+    console.error('❌ Reconciliation error:', error);
+
+    return jsonResponse({
+      error: 'Internal server error',
+      message: error.message
+    }, 500);
+  }
+});
@@ -17,7 +17,7 @@ const TRANSFER_INVITATION_TEMPLATE = `<!DOCTYPE html>
     <div style="text-align: center; margin-bottom: 30px;">
         <h1 style="color: #1a1a1a; margin: 0;">You've Received Money!</h1>
         <p style="color: #666; font-size: 18px; margin: 10px 0 0 0;">
-            <strong>{{senderEmail}}</strong> sent you <strong>\${{amount}} USDC</strong>
+            <strong>{{senderEmail}}</strong> sent you <strong>{{amount}} {{tokenSymbol}}</strong>
         </p>
     </div>
 
@@ -28,9 +28,16 @@ const TRANSFER_INVITATION_TEMPLATE = `<!DOCTYPE html>
         </p>
 
         <p style="color: #333; line-height: 1.6; margin-bottom: 20px;">
-            Great news! <strong>{{senderEmail}}</strong> has sent you <strong>\${{amount}} USDC</strong> using our digital wallet platform.
+            Great news! <strong>{{senderEmail}}</strong> has sent you <strong>{{amount}} {{tokenSymbol}}</strong> using our digital wallet platform.
         </p>
 
+        {{#message}}
+        <div style="background: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #1976d2;">
+            <h4 style="color: #1976d2; margin: 0 0 8px 0; font-size: 14px;">Note from {{senderEmail}}:</h4>
+            <p style="color: #333; margin: 0; font-style: italic;">"{{message}}"</p>
+        </div>
+        {{/message}}
+
         <div style="background: #e8f4fd; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="color: #1976d2; margin: 0 0 10px 0; font-size: 16px;">
                 What is USDC?
@@ -52,7 +59,7 @@ const TRANSFER_INVITATION_TEMPLATE = `<!DOCTYPE html>
         <a href="{{claimUrl}}"
            style="background: #1976d2; color: white; padding: 15px 30px; text-decoration: none;
               border-radius: 8px; font-weight: bold; display: inline-block; font-size: 16px;">
-            Claim Your \${{amount}} USDC
+            Claim Your {{amount}} {{tokenSymbol}}
         </a>
     </div>
 
@@ -87,11 +94,11 @@ const TRANSFER_INVITATION_TEMPLATE = `<!DOCTYPE html>
             What happens next?
         </h3>
         <ol style="color: #333; margin: 0; padding-left: 20px; font-size: 14px; line-height: 1.8;">
-            <li>Click the "Claim Your USDC" button above</li>
+            <li>Click the "Claim Your {{tokenSymbol}}" button above</li>
             <li>Sign up with your email address ({{recipientEmail}})</li>
             <li>Your wallet will be created automatically</li>
-            <li>Your \${{amount}} USDC will be waiting for you</li>
-            <li>You can then send, receive, or earn yield on your USDC</li>
+            <li>Your {{amount}} {{tokenSymbol}} will be waiting for you</li>
+            <li>You can then send, receive, or earn yield on your stablecoins</li>
         </ol>
     </div>
 
@@ -123,7 +130,7 @@ const TRANSFER_INVITATION_TEMPLATE = `<!DOCTYPE html>
             <span style="color: #666; font-size: 14px; font-family: Arial, sans-serif;">Amount</span>
           </td>
           <td style="padding: 5px 0; text-align: right; vertical-align: middle;">
-            <span style="color: #333; font-weight: 600; font-size: 16px; font-family: Arial, sans-serif;">\${{amount}} USDC</span>
+            <span style="color: #333; font-weight: 600; font-size: 16px; font-family: Arial, sans-serif;">{{amount}} {{tokenSymbol}}</span>
           </td>
         </tr>
         
@@ -147,6 +154,16 @@ const TRANSFER_INVITATION_TEMPLATE = `<!DOCTYPE html>
           </td>
         </tr>
         
+        <!-- Claim By Row -->
+        <tr>
+          <td style="padding: 5px 0; vertical-align: middle;">
+            <span style="color: #666; font-size: 14px; font-family: Arial, sans-serif;">Claim by</span>
+          </td>
+          <td style="padding: 5px 0; text-align: right; vertical-align: middle;">
+            <span style="color: #333; font-weight: 600; font-size: 14px; font-family: Arial, sans-serif;">{{expirationDate}}</span>
+          </td>
+        </tr>
+        
         <!-- Network Row -->
         <tr>
           <td style="padding: 5px 0; vertical-align: middle;">
@@ -320,6 +337,15 @@ const PAYMENT_REQUEST_TEMPLATE = `<!DOCTYPE html>
 </body>
 </html>`;
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 function replaceTemplatePlaceholders(template: string, data: any, appUrl: string): string {
   let result = template;
   
@@ -330,6 +356,7 @@ function replaceTemplatePlaceholders(template: string, data: any, appUrl: string
       .replace(/\{\{senderEmail\}\}/g, data.senderEmail || '')
       .replace(/\{\{recipientEmail\}\}/g, data.recipientEmail || '')
       .replace(/\{\{amount\}\}/g, data.amount || '0.00')
+      .replace(/\{\{tokenSymbol\}\}/g, data.tokenSymbol || 'USDC')
       .replace(/\{\{claimUrl\}\}/g, claimUrl)
       .replace(/\{\{expirationDate\}\}/g, data.expirationDate || 'N/A');
   }
@@ -343,17 +370,17 @@ function replaceTemplatePlaceholders(template: string, data: any, appUrl: string
       .replace(/\{\{targetEmail\}\}/g, data.targetEmail || '')
       .replace(/\{\{amount\}\}/g, data.amount || '0.00')
       .replace(/\{\{paymentUrl\}\}/g, paymentUrl);
-    
-    // Handle optional message with conditional rendering
-    if (data.message && data.message !== 'No message') {
-      result = result
-        .replace(/\{\{#message\}\}/g, '')
-        .replace(/\{\{\/message\}\}/g, '')
-        .replace(/\{\{message\}\}/g, data.message);
-    } else {
-      // Remove the message section entirely
-      result = result.replace(/\{\{#message\}\}[\s\S]*?\{\{\/message\}\}/g, '');
-    }
+  }
+  
+  // Handle optional message with conditional rendering; it's free text from the sender, so escape it
+  if (data.message && data.message !== 'No message') {
+    result = result
+      .replace(/\{\{#message\}\}/g, '')
+      .replace(/\{\{\/message\}\}/g, '')
+      .replace(/\{\{message\}\}/g, escapeHtml(data.message));
+  } else {
+    // Remove the message section entirely
+    result = result.replace(/\{\{#message\}\}[\s\S]*?\{\{\/message\}\}/g, '');
   }
   
   // Common placeholders
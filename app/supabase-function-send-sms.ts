@@ -0,0 +1,156 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "@supabase/supabase-js";
+import { AuthenticatedUser, DynamicAuth, DynamicAuthError, USER_TOKEN_HEADER } from "./src/services/dynamicAuth.ts";
+import { PhoneVerification } from "./src/services/phoneVerification.ts";
+import { SMS_HOURLY_LIMITS, SMS_LIMIT_MESSAGE, SmsProviderError } from "./src/services/smsProvider.ts";
+import { SmsInvitation } from "./src/services/smsInvitation.ts";
+import { TwilioSmsProvider } from "./src/services/twilioSmsProvider.ts";
+
+// Texts the invitation for a transfer intent sent to a phone number.
+// Callers only name the intent: the number and the text come from the stored intent, never from the request,
+// and only the intent's sender may have it sent. Claim codes are texted by the phone-verification function.
+
+const auth = new DynamicAuth(Deno.env.get("DYNAMIC_ENVIRONMENT_ID")!);
+
+// The claim link in invitations, e.g. https://fymoney.xyz
+const APP_URL = Deno.env.get("APP_URL");
+
+// Service role access to read intents and record texts regardless of the caller
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${USER_TOKEN_HEADER}`
+};
+
+let sms: TwilioSmsProvider | null = null;
+
+// Built on first use so a missing Twilio setting fails the request instead of the deploy
+function getSmsProvider(): TwilioSmsProvider {
+  if (!sms) {
+    sms = TwilioSmsProvider.fromEnv((name) => Deno.env.get(name));
+  }
+  return sms;
+}
+
+async function logNotification(transferIntentId: string, phone: string, status: "sent" | "failed", errorMessage?: string): Promise<void> {
+  const { error } = await supabase
+    .from("transfer_notifications")
+    .insert({
+      transfer_intent_id: transferIntentId,
+      notification_type: "created",
+      channel: "sms",
+      email: phone,
+      status,
+      error_message: errorMessage
+    });
+
+  if (error) {
+    console.error('❌ Failed to log SMS notification:', error);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      ...CORS_HEADERS
+    },
+    status
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      headers: {
+        ...CORS_HEADERS,
+        "Access-Control-Allow-Methods": "POST, OPTIONS"
+      }
+    });
+  }
+
+  try {
+    let user: AuthenticatedUser;
+    try {
+      user = await auth.authenticate(req);
+    } catch (error) {
+      if (error instanceof DynamicAuthError) {
+        return jsonResponse({ error: error.message, reason: error.code }, 401);
+      }
+      throw error;
+    }
+
+    const { transferIntentId } = await req.json();
+    if (typeof transferIntentId !== "string") {
+      return jsonResponse({ error: "Missing transferIntentId" }, 400);
+    }
+
+    const { data: intent, error: intentError } = await supabase
+      .from("transfer_intents")
+      .select("id, sender_wallet, recipient_type, recipient_email, amount, token_symbol, message, status, expires_at")
+      .eq("id", transferIntentId)
+      .maybeSingle();
+
+    if (intentError) {
+      throw new Error(`Failed to read transfer intent: ${intentError.message}`);
+    }
+    if (!intent || intent.recipient_type !== "phone" || intent.status !== "pending") {
+      return jsonResponse({ error: "No pending phone transfer to invite for" }, 404);
+    }
+    if (!user.wallets.includes(intent.sender_wallet)) {
+      return jsonResponse({ error: "Only the sender can send this invitation" }, 403);
+    }
+
+    if (!APP_URL) {
+      throw new Error("APP_URL is not configured");
+    }
+
+    const phone: string = intent.recipient_email;
+    const { data: limitReason, error: limitError } = await supabase.rpc("sms_record_send", {
+      p_user_email: user.email,
+      p_phone_hash: PhoneVerification.hashPhone(phone),
+      p_kind: "invite",
+      p_user_limit: SMS_HOURLY_LIMITS.perUser,
+      p_phone_limit: SMS_HOURLY_LIMITS.perNumber
+    });
+
+    if (limitError) {
+      throw new Error(`Failed to check the SMS limits: ${limitError.message}`);
+    }
+    if (limitReason) {
+      return jsonResponse({ error: SMS_LIMIT_MESSAGE, reason: limitReason }, 429);
+    }
+
+    const body = SmsInvitation.compose({
+      sender: user.email,
+      recipientPhone: phone,
+      amount: Number(intent.amount),
+      tokenSymbol: intent.token_symbol,
+      message: intent.message,
+      expiresAt: new Date(intent.expires_at)
+    }, APP_URL);
+
+    try {
+      const id = await getSmsProvider().send({ to: phone, body });
+      await logNotification(intent.id, phone, "sent");
+
+      console.log('✅ Invitation SMS sent for intent:', intent.id, id);
+      return jsonResponse({ id });
+    } catch (error) {
+      if (error instanceof SmsProviderError) {
+        await logNotification(intent.id, phone, "failed", error.message);
+        return jsonResponse({ error: "We couldn't text this number. Please try again later." }, 502);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('❌ Function error:', error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -15,14 +15,29 @@ create table email_wallets (
                                is_active boolean default true
 );
 
+-- 1b. Phone to Wallet Mapping, written once a claimer verifies the number with an SMS code
+create table phone_wallets (
+                               id uuid primary key default uuid_generate_v4(),
+                               phone text unique not null,      -- E.164, e.g. +14155550123
+                               phone_hash text unique not null, -- For privacy-preserving lookups
+                               wallet_address text not null,
+
+    -- Metadata
+                               verified_at timestamp not null default now(),
+                               first_registered_at timestamp default now(),
+                               last_updated_at timestamp default now(),
+                               is_active boolean default true
+);
+
 -- 2. Transfer Intents
 create table transfer_intents (
                                   id uuid primary key default uuid_generate_v4(),
 
     -- Transfer details
                                   sender_wallet text not null,
-                                  recipient_email text not null,
-                                  recipient_email_hash text not null, -- For efficient lookups
+                                  recipient_type text not null default 'email' check (recipient_type in ('email', 'phone')),
+                                  recipient_email text not null,      -- Normalized email, or the E.164 number for phone recipients
+                                  recipient_email_hash text not null, -- For efficient lookups; the escrow's recipient hash for either type
                                   claimed_by_wallet text, -- Set when claimed
 
     -- Token info
@@ -39,13 +54,17 @@ create table transfer_intents (
     -- Blockchain data
                                   creation_tx_hash text, -- Transaction that created the escrow
                                   claim_tx_hash text,    -- Transaction that claimed the funds
+                                  reclaim_tx_hash text,  -- Transaction that returned expired funds to the sender
                                   escrow_pda text,       -- Escrow Program Derived Address for claims
+                                  idempotency_key text unique, -- Client key of the send attempt, so retries can't create a second intent
+                                  last_reconciled_at timestamp with time zone, -- Last reconciler check; runs take the least recently checked rows first
 
     -- Timing
-                                  expires_at timestamp not null default (now() + interval '7 days'),
+                                  expires_at timestamp with time zone not null default (now() + interval '30 days'), -- The app writes the escrow's on-chain expiry
                                   created_at timestamp default now(),
                                   claimed_at timestamp,
-                                  cancelled_at timestamp
+                                  cancelled_at timestamp,
+                                  reclaimed_at timestamp
 );
 
 -- 3. Simple notification tracking (optional)
@@ -54,7 +73,8 @@ create table transfer_notifications (
                                         transfer_intent_id uuid references transfer_intents(id) on delete cascade,
 
                                         notification_type text not null check (notification_type in ('created', 'reminder', 'expired')),
-                                        email text not null,
+                                        channel text not null default 'email' check (channel in ('email', 'sms')),
+                                        email text not null, -- The E.164 number for sms
 
                                         sent_at timestamp default now(),
                                         status text not null default 'sent' check (status in ('sent', 'failed')),
@@ -63,15 +83,74 @@ create table transfer_notifications (
 
 CREATE TABLE payment_requests (
                                   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+                                  channel TEXT NOT NULL DEFAULT 'email' CHECK (channel IN ('email', 'solana_pay')),
                                   requester_email TEXT NOT NULL,
                                   requester_wallet TEXT NOT NULL,
-                                  target_email TEXT NOT NULL,
+                                  target_email TEXT, -- Null for Solana Pay requests, which anyone with the link or QR code can pay
                                   amount DECIMAL(18,6) NOT NULL,
                                   message TEXT,
-                                  status TEXT NOT NULL DEFAULT 'sent',
+                                  status TEXT NOT NULL DEFAULT 'sent', -- sent, failed, or paid once a Solana Pay reference shows up on-chain
+
+    -- Solana Pay
+                                  reference TEXT UNIQUE, -- Reference key in the request URL, found on the paying transaction
+                                  token_mint TEXT,
+                                  paid_tx_hash TEXT,
+                                  paid_at TIMESTAMP WITH TIME ZONE,
+
                                   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- 4. Fee payer spend ledger, written by the fee-payer-relayer function for every sponsored transaction
+create table fee_payer_spend (
+                                 id uuid primary key default uuid_generate_v4(),
+                                 user_email text not null,     -- Signed-in user the relayer verified; quotas are per user
+                                 wallet_address text not null, -- Sponsored wallet (first non fee payer signer)
+                                 fee_payer text not null,      -- Pool key that paid
+                                 signature text unique not null,
+                                 instructions text[] not null default '{}', -- e.g. {initializeEscrow}
+
+    -- Lamports paid by the fee payer
+                                 fee_lamports bigint not null default 0,
+                                 rent_lamports bigint not null default 0,
+                                 ata_rent_payments integer not null default 0,
+
+                                 created_at timestamp with time zone default now()
+);
+
+-- 5. Transfer reconciliation runs, written by the reconcile-transfers function
+create table transfer_reconciliation_runs (
+                                              id uuid primary key default uuid_generate_v4(),
+                                              trigger text not null check (trigger in ('manual', 'scheduled')),
+                                              dry_run boolean not null default false, -- Reported without repairing
+
+                                              checked integer not null default 0,
+                                              repaired integer not null default 0,
+                                              discrepancies jsonb not null default '[]', -- One entry per intent that disagreed with its escrow
+                                              errors jsonb not null default '[]',
+
+                                              started_at timestamp with time zone not null,
+                                              finished_at timestamp with time zone not null
+);
+
+-- 6. One-time SMS codes for claiming transfers sent to a phone number
+create table phone_verifications (
+                                     phone_hash text primary key, -- One live code per number
+                                     code_hash text,              -- sha256 of the number and code, never the code itself; cleared once used
+                                     attempts integer not null default 0,
+                                     sent_at timestamp with time zone not null,
+                                     expires_at timestamp with time zone not null,
+                                     verified_at timestamp with time zone
+);
+
+-- Texts the edge functions sent, for the per-user and per-number hourly limits
+create table sms_sends (
+                          id uuid primary key default uuid_generate_v4(),
+                          user_email text not null,   -- Signed-in user the text was sent for
+                          phone_hash text not null,   -- Like phone_wallets.phone_hash
+                          kind text not null check (kind in ('invite', 'code')),
+                          created_at timestamp with time zone not null default now()
+);
+
 -- =====================================
 -- INDEXES FOR PERFORMANCE
 -- =====================================
@@ -80,6 +159,14 @@ CREATE TABLE payment_requests (
 create index email_wallets_email_hash_idx on email_wallets(email_hash);
 create index email_wallets_wallet_address_idx on email_wallets(wallet_address);
 
+-- Phone wallets indexes
+create index phone_wallets_phone_hash_idx on phone_wallets(phone_hash);
+create index phone_wallets_wallet_address_idx on phone_wallets(wallet_address);
+
+-- SMS rate limit indexes
+create index sms_sends_user_idx on sms_sends(user_email, created_at desc);
+create index sms_sends_phone_idx on sms_sends(phone_hash, created_at desc);
+
 -- Transfer intents indexes
 create index transfer_intents_recipient_email_hash_idx on transfer_intents(recipient_email_hash);
 create index transfer_intents_sender_wallet_idx on transfer_intents(sender_wallet);
@@ -99,6 +186,17 @@ CREATE INDEX idx_payment_requests_requester_email ON payment_requests(requester_
 CREATE INDEX idx_payment_requests_target_email ON payment_requests(target_email);
 CREATE INDEX idx_payment_requests_status ON payment_requests(status);
 CREATE INDEX idx_payment_requests_created_at ON payment_requests(created_at DESC);
+CREATE INDEX idx_payment_requests_requester_wallet_status ON payment_requests(requester_wallet, status);
+
+-- Reconciliation indexes
+create index transfer_intents_escrow_pda_idx on transfer_intents(escrow_pda);
+create index transfer_intents_last_reconciled_idx on transfer_intents(last_reconciled_at nulls first, created_at);
+create index transfer_reconciliation_runs_finished_at_idx on transfer_reconciliation_runs(finished_at desc);
+
+-- Fee payer spend indexes
+create index fee_payer_spend_wallet_created_idx on fee_payer_spend(wallet_address, created_at desc);
+create index fee_payer_spend_user_created_idx on fee_payer_spend(user_email, created_at desc);
+create index fee_payer_spend_fee_payer_idx on fee_payer_spend(fee_payer, created_at desc);
 
 -- =====================================
 -- FUNCTIONS AND TRIGGERS
@@ -126,7 +224,22 @@ create trigger email_wallets_set_hash
     before insert or update of email on email_wallets
     for each row execute function set_email_hash_wallets();
 
--- Trigger to auto-generate email hash for transfer_intents
+-- Trigger to auto-generate phone hash for phone_wallets; numbers are stored normalized, so no lower/trim
+create or replace function set_phone_hash_wallets()
+returns trigger as $$
+begin
+  NEW.phone_hash = encode(digest(NEW.phone, 'sha256'), 'hex');
+  NEW.last_updated_at = now();
+return NEW;
+end;
+$$ language plpgsql;
+
+create trigger phone_wallets_set_hash
+    before insert or update of phone on phone_wallets
+    for each row execute function set_phone_hash_wallets();
+
+-- Trigger to auto-generate email hash for transfer_intents.
+-- E.164 numbers are unchanged by lower(trim()), so phone intents get the same hash as their escrow.
 create or replace function set_email_hash_intents()
 returns trigger as $$
 begin
@@ -150,3 +263,204 @@ where status = 'pending'
 end;
 $$ language plpgsql;
 
+-- Scheduled reconciliation of transfer intents against their escrows, every 15 minutes.
+-- Needs the pg_cron and pg_net extensions; replace the project ref and service role key before running.
+-- select cron.schedule(
+--     'reconcile-transfers',
+--     '*/15 * * * *',
+--     $$
+--     select net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/reconcile-transfers',
+--         headers := jsonb_build_object(
+--             'Content-Type', 'application/json',
+--             'Authorization', 'Bearer <service-role-key>'
+--         ),
+--         body := '{"trigger": "scheduled"}'::jsonb
+--     );
+--     $$
+-- );
+
+-- Runs are only read and written by the reconcile-transfers function (service role), which serves them to ops
+alter table transfer_reconciliation_runs enable row level security;
+
+-- Sponsored lamports for a user in the current UTC day and month, used for quota checks
+create or replace function fee_payer_usage(p_user_email text)
+returns table (daily_lamports bigint, monthly_lamports bigint) as $$
+begin
+return query
+select
+    coalesce(sum(fee_lamports + rent_lamports) filter (
+        where created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+    ), 0)::bigint,
+    coalesce(sum(fee_lamports + rent_lamports), 0)::bigint
+from fee_payer_spend
+where user_email = p_user_email
+  and created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc';
+end;
+$$ language plpgsql stable;
+
+-- When each pool key last paid for a sponsored transaction, so the relayer assigns the least recently used one
+create or replace function fee_payer_last_used(p_fee_payers text[])
+returns table (fee_payer text, last_used_at timestamp with time zone) as $$
+begin
+return query
+select s.fee_payer, max(s.created_at)
+from fee_payer_spend s
+where s.fee_payer = any(p_fee_payers)
+group by s.fee_payer;
+end;
+$$ language plpgsql stable;
+
+-- Check the quota and record the spend in one step, so concurrent requests from a user can't all pass the check.
+-- Returns null once recorded, or the quota reason when the transaction would take the user over quota.
+create or replace function fee_payer_record_spend(
+    p_user_email text,
+    p_wallet text,
+    p_fee_payer text,
+    p_signature text,
+    p_instructions text[],
+    p_fee_lamports bigint,
+    p_rent_lamports bigint,
+    p_ata_rent_payments integer,
+    p_daily_limit bigint,
+    p_monthly_limit bigint
+)
+returns text as $$
+declare
+current_usage record;
+begin
+  -- Serializes spend per user for the rest of the transaction
+  perform pg_advisory_xact_lock(hashtext('fee_payer_spend:' || p_user_email));
+
+select * into current_usage from fee_payer_usage(p_user_email);
+
+if current_usage.daily_lamports + p_fee_lamports + p_rent_lamports > p_daily_limit then
+    return 'DAILY_QUOTA_EXCEEDED';
+end if;
+if current_usage.monthly_lamports + p_fee_lamports + p_rent_lamports > p_monthly_limit then
+    return 'MONTHLY_QUOTA_EXCEEDED';
+end if;
+
+insert into fee_payer_spend (
+    user_email, wallet_address, fee_payer, signature, instructions, fee_lamports, rent_lamports, ata_rent_payments
+) values (
+    p_user_email, p_wallet, p_fee_payer, p_signature, p_instructions, p_fee_lamports, p_rent_lamports, p_ata_rent_payments
+);
+return null;
+end;
+$$ language plpgsql;
+
+-- Only the relayer (service role) reads and writes spend, including through the ops view below
+alter table fee_payer_spend enable row level security;
+revoke execute on function fee_payer_usage(text) from public, anon, authenticated;
+revoke execute on function fee_payer_last_used(text[]) from public, anon, authenticated;
+revoke execute on function fee_payer_record_spend(text, text, text, text, text[], bigint, bigint, integer, bigint, bigint) from public, anon, authenticated;
+
+-- Wallet for a verified phone number, so senders can pay it directly without reading the table
+create or replace function phone_wallet_lookup(p_phone_hash text)
+returns table (wallet_address text, verified_at timestamp) as $$
+begin
+return query
+select w.wallet_address, w.verified_at
+from phone_wallets w
+where w.phone_hash = p_phone_hash and w.is_active;
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+-- Check the hourly limits and record the text in one step, so parallel requests can't all pass the check.
+-- Returns null once recorded, or the limit the text would break.
+create or replace function sms_record_send(
+    p_user_email text,
+    p_phone_hash text,
+    p_kind text,
+    p_user_limit integer,
+    p_phone_limit integer
+)
+returns text as $$
+begin
+  -- Always user then number, so two requests can't wait on each other
+  perform pg_advisory_xact_lock(hashtext('sms_sends:user:' || p_user_email));
+  perform pg_advisory_xact_lock(hashtext('sms_sends:phone:' || p_phone_hash));
+
+if (select count(*) from sms_sends where user_email = p_user_email and created_at > now() - interval '1 hour') >= p_user_limit then
+    return 'USER_SMS_LIMIT';
+end if;
+if (select count(*) from sms_sends where phone_hash = p_phone_hash and created_at > now() - interval '1 hour') >= p_phone_limit then
+    return 'NUMBER_SMS_LIMIT';
+end if;
+
+insert into sms_sends (user_email, phone_hash, kind) values (p_user_email, p_phone_hash, p_kind);
+return null;
+end;
+$$ language plpgsql;
+
+-- Checks a claim code and counts the attempt under a row lock, so parallel guesses can't exceed the limit.
+-- A match clears the code in the same statement that verifies the number, so it can't be used again.
+-- Returns the failure reason, or null once verified.
+create or replace function phone_verification_check(
+    p_phone_hash text,
+    p_code_hash text,
+    p_now timestamp with time zone,
+    p_max_attempts integer
+)
+returns text as $$
+declare
+  v_record phone_verifications%rowtype;
+begin
+  select * into v_record from phone_verifications where phone_hash = p_phone_hash for update;
+
+if not found or v_record.code_hash is null then
+    return 'NOT_REQUESTED';
+end if;
+if v_record.attempts >= p_max_attempts then
+    return 'TOO_MANY_ATTEMPTS';
+end if;
+if p_now > v_record.expires_at then
+    return 'EXPIRED';
+end if;
+
+if v_record.code_hash <> p_code_hash then
+    update phone_verifications set attempts = attempts + 1 where phone_hash = p_phone_hash;
+    return 'INVALID_CODE';
+end if;
+
+update phone_verifications set verified_at = p_now, code_hash = null where phone_hash = p_phone_hash;
+return null;
+end;
+$$ language plpgsql;
+
+-- Codes and phone links are only written by the phone-verification function (service role) once the code checks out
+alter table phone_verifications enable row level security;
+alter table phone_wallets enable row level security;
+alter table sms_sends enable row level security;
+revoke execute on function phone_wallet_lookup(text) from public;
+grant execute on function phone_wallet_lookup(text) to anon, authenticated;
+revoke execute on function sms_record_send(text, text, text, integer, integer) from public, anon, authenticated;
+revoke execute on function phone_verification_check(text, text, timestamp with time zone, integer) from public, anon, authenticated;
+
+-- =====================================
+-- VIEWS
+-- =====================================
+
+-- Ops view of fee payer spend per wallet and email, served to ops wallets by the fee-payer-relayer GET.
+-- Runs as the caller so the RLS on fee_payer_spend applies, and is closed to the anon and signed-in keys.
+create or replace view fee_payer_spend_by_user with (security_invoker = true) as
+select
+    s.wallet_address,
+    s.user_email as email,
+    count(*) as transaction_count,
+    sum(s.fee_lamports)::bigint as fee_lamports,
+    sum(s.rent_lamports)::bigint as rent_lamports,
+    sum(s.ata_rent_payments)::bigint as ata_rent_payments,
+    sum(s.fee_lamports + s.rent_lamports)::bigint as total_lamports,
+    coalesce(sum(s.fee_lamports + s.rent_lamports) filter (
+        where s.created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+    ), 0)::bigint as daily_lamports,
+    coalesce(sum(s.fee_lamports + s.rent_lamports) filter (
+        where s.created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'
+    ), 0)::bigint as monthly_lamports,
+    max(s.created_at) as last_sponsored_at
+from fee_payer_spend s
+group by s.wallet_address, s.user_email;
+
+revoke select on fee_payer_spend_by_user from anon, authenticated;
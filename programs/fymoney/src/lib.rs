@@ -1,6 +1,9 @@
 use anchor_lang::prelude::*;
 use anchor_spl::associated_token::AssociatedToken;
-use anchor_spl::token::{self, Token, TokenAccount, Transfer, Mint};
+use anchor_spl::token_2022::spl_token_2022::extension::transfer_hook::TransferHook;
+use anchor_spl::token_2022::spl_token_2022::extension::{BaseStateWithExtensions, StateWithExtensions};
+use anchor_spl::token_2022::spl_token_2022::state::Mint as MintState;
+use anchor_spl::token_interface::{self, Mint, TokenAccount, TokenInterface, TransferChecked};
 
 declare_id!("9PbXHvSA4k86YpoJonchC9LHaFNuGv7XiEf8MdD4ZYNp");
 
@@ -15,7 +18,6 @@ pub mod fymoney {
         expires_at: i64,
         nonce: u64,
     ) -> Result<()> {
-        let escrow = &mut ctx.accounts.escrow_account;
         let clock = Clock::get()?;
 
         // Validate inputs
@@ -29,33 +31,52 @@ pub mod fymoney {
         let max_expiration = clock.unix_timestamp + (30 * 24 * 60 * 60);
         require!(expires_at <= max_expiration, EscrowError::ExpirationTooLong);
 
+        // The transfers below pass no hook accounts, so a hooked mint could be escrowed but never claimed
+        require!(
+            !has_transfer_hook(&ctx.accounts.token_mint.to_account_info())?,
+            EscrowError::TransferHookNotSupported
+        );
+
+        // Transfer tokens from sender to escrow
+        let transfer_ctx = CpiContext::new(
+            ctx.accounts.token_program.to_account_info(),
+            TransferChecked {
+                from: ctx.accounts.sender_token_account.to_account_info(),
+                mint: ctx.accounts.token_mint.to_account_info(),
+                to: ctx.accounts.escrow_token_account.to_account_info(),
+                authority: ctx.accounts.sender.to_account_info(),
+            },
+        );
+        let balance_before = ctx.accounts.escrow_token_account.amount;
+        token_interface::transfer_checked(transfer_ctx, amount, ctx.accounts.token_mint.decimals)?;
+
+        // Token-2022 transfer fees are withheld from what arrives, so escrow what was actually received
+        ctx.accounts.escrow_token_account.reload()?;
+        let received = ctx
+            .accounts
+            .escrow_token_account
+            .amount
+            .checked_sub(balance_before)
+            .ok_or(EscrowError::InvalidAmount)?;
+        require!(received > 0, EscrowError::InvalidAmount);
+
         // Initialize escrow account
+        let escrow = &mut ctx.accounts.escrow_account;
         escrow.sender = ctx.accounts.sender.key();
         escrow.recipient_email_hash = recipient_email_hash;
         escrow.recipient_wallet = None;
         escrow.token_mint = ctx.accounts.token_mint.key();
         escrow.escrow_token_account = ctx.accounts.escrow_token_account.key();
-        escrow.amount = amount;
+        escrow.amount = received;
         escrow.created_at = clock.unix_timestamp;
         escrow.expires_at = expires_at;
         escrow.status = EscrowStatus::Active;
         escrow.nonce = nonce;
         escrow.bump = ctx.bumps.escrow_account;
 
-        // Transfer tokens from sender to escrow
-        let transfer_ctx = CpiContext::new(
-            ctx.accounts.token_program.to_account_info(),
-            Transfer {
-                from: ctx.accounts.sender_token_account.to_account_info(),
-                to: ctx.accounts.escrow_token_account.to_account_info(),
-                authority: ctx.accounts.sender.to_account_info(),
-            },
-        );
-        token::transfer(transfer_ctx, amount)?;
-
         msg!(
             "Escrow created: {} tokens for email hash {:?}, expires at {}",
-            amount,
+            received,
             recipient_email_hash,
             expires_at
         );
@@ -114,14 +135,15 @@ pub mod fymoney {
 
         let transfer_ctx = CpiContext::new_with_signer(
             ctx.accounts.token_program.to_account_info(),
-            Transfer {
+            TransferChecked {
                 from: ctx.accounts.escrow_token_account.to_account_info(),
+                mint: ctx.accounts.token_mint.to_account_info(),
                 to: ctx.accounts.recipient_token_account.to_account_info(),
                 authority: ctx.accounts.escrow_account.to_account_info(),
             },
             signer_seeds,
         );
-        token::transfer(transfer_ctx, amount)?;
+        token_interface::transfer_checked(transfer_ctx, amount, ctx.accounts.token_mint.decimals)?;
 
         msg!(
             "Escrow claimed: {} tokens by wallet {}",
@@ -180,14 +202,15 @@ pub mod fymoney {
 
         let transfer_ctx = CpiContext::new_with_signer(
             ctx.accounts.token_program.to_account_info(),
-            Transfer {
+            TransferChecked {
                 from: ctx.accounts.escrow_token_account.to_account_info(),
+                mint: ctx.accounts.token_mint.to_account_info(),
                 to: ctx.accounts.sender_token_account.to_account_info(),
                 authority: ctx.accounts.escrow_account.to_account_info(),
             },
             signer_seeds,
         );
-        token::transfer(transfer_ctx, amount)?;
+        token_interface::transfer_checked(transfer_ctx, amount, ctx.accounts.token_mint.decimals)?;
 
         msg!(
             "Expired escrow reclaimed: {} tokens by sender {}",
@@ -199,6 +222,20 @@ pub mod fymoney {
     }
 }
 
+/// Whether a Token-2022 mint has a transfer hook program set; classic mints never do
+fn has_transfer_hook(mint: &AccountInfo) -> Result<bool> {
+    if *mint.owner != anchor_spl::token_2022::ID {
+        return Ok(false);
+    }
+
+    let data = mint.try_borrow_data()?;
+    let state = StateWithExtensions::<MintState>::unpack(&data)?;
+    Ok(state
+        .get_extension::<TransferHook>()
+        .map(|hook| Option::<Pubkey>::from(hook.program_id).is_some())
+        .unwrap_or(false))
+}
+
 #[derive(Accounts)]
 #[instruction(amount: u64, recipient_email_hash: [u8; 32], expires_at: i64, nonce: u64)]
 pub struct InitializeEscrow<'info> {
@@ -220,25 +257,28 @@ pub struct InitializeEscrow<'info> {
         init_if_needed,
         payer = fee_payer,
         associated_token::mint = token_mint,
-        associated_token::authority = escrow_account
+        associated_token::authority = escrow_account,
+        associated_token::token_program = token_program
     )]
-    pub escrow_token_account: Account<'info, TokenAccount>,
+    pub escrow_token_account: InterfaceAccount<'info, TokenAccount>,
 
     #[account(
         mut,
         associated_token::mint = token_mint,
-        associated_token::authority = sender
+        associated_token::authority = sender,
+        associated_token::token_program = token_program
     )]
-    pub sender_token_account: Account<'info, TokenAccount>,
+    pub sender_token_account: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_mint: Account<'info, Mint>,
+    #[account(mint::token_program = token_program)]
+    pub token_mint: InterfaceAccount<'info, Mint>,
 
     pub sender: Signer<'info>,
 
     #[account(mut)]
     pub fee_payer: Signer<'info>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
     pub rent: Sysvar<'info, Rent>,
@@ -261,24 +301,27 @@ pub struct ClaimEscrow<'info> {
     #[account(
         mut,
         associated_token::mint = token_mint,
-        associated_token::authority = escrow_account
+        associated_token::authority = escrow_account,
+        associated_token::token_program = token_program
     )]
-    pub escrow_token_account: Account<'info, TokenAccount>,
+    pub escrow_token_account: InterfaceAccount<'info, TokenAccount>,
 
     #[account(
         init_if_needed,
         payer = recipient,
         associated_token::mint = token_mint,
-        associated_token::authority = recipient
+        associated_token::authority = recipient,
+        associated_token::token_program = token_program
     )]
-    pub recipient_token_account: Account<'info, TokenAccount>,
+    pub recipient_token_account: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_mint: Account<'info, Mint>,
+    #[account(mint::token_program = token_program)]
+    pub token_mint: InterfaceAccount<'info, Mint>,
 
     #[account(mut)]
     pub recipient: Signer<'info>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
     pub rent: Sysvar<'info, Rent>,
@@ -302,23 +345,26 @@ pub struct ReclaimExpiredEscrow<'info> {
     #[account(
         mut,
         associated_token::mint = token_mint,
-        associated_token::authority = escrow_account
+        associated_token::authority = escrow_account,
+        associated_token::token_program = token_program
     )]
-    pub escrow_token_account: Account<'info, TokenAccount>,
+    pub escrow_token_account: InterfaceAccount<'info, TokenAccount>,
 
     #[account(
         mut,
         associated_token::mint = token_mint,
-        associated_token::authority = sender
+        associated_token::authority = sender,
+        associated_token::token_program = token_program
     )]
-    pub sender_token_account: Account<'info, TokenAccount>,
+    pub sender_token_account: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_mint: Account<'info, Mint>,
+    #[account(mint::token_program = token_program)]
+    pub token_mint: InterfaceAccount<'info, Mint>,
 
     #[account(mut)]
     pub sender: Signer<'info>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
 }
@@ -364,4 +410,6 @@ pub enum EscrowError {
     InvalidRecipient,
     #[msg("Unauthorized sender")]
     UnauthorizedSender,
+    #[msg("Token mints with a transfer hook are not supported")]
+    TransferHookNotSupported,
 }
@@ -0,0 +1,181 @@
+import {
+  ConfirmedSignatureInfo,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  FYMONEY_DISCRIMINATORS,
+  FYMONEY_PROGRAM_ID,
+  YIELD_VAULT_DISCRIMINATORS,
+  YIELD_VAULT_PROGRAM_ID,
+} from "../app/src/services/sponsorshipPolicy";
+import { MEMO_PROGRAM_ID } from "../app/src/services/memo";
+import { ActivityFeed } from "../app/src/services/activityFeed";
+
+describe("Activity Feed", () => {
+  const wallet = Keypair.generate().publicKey;
+  const other = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey.toBase58();
+  const escrowPda = Keypair.generate().publicKey;
+
+  interface Balance {
+    owner: string;
+    pre: number;
+    post: number;
+  }
+
+  // Instruction data with the discriminator first and a u64 amount after it, as Anchor encodes them
+  const withAmount = (discriminator: number[], amount: number) => {
+    const data = Buffer.alloc(16);
+    Buffer.from(discriminator).copy(data);
+    data.writeBigUInt64LE(BigInt(amount), 8);
+    return data;
+  };
+
+  const response = (
+    instructions: TransactionInstruction[],
+    balances: Balance[],
+    options: { err?: unknown; slot?: number } = {}
+  ): VersionedTransactionResponse => {
+    const message = new TransactionMessage({
+      payerKey: wallet,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions,
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+    const tokenBalances = (side: "pre" | "post") => balances.map((balance, accountIndex) => ({
+      accountIndex,
+      mint,
+      owner: balance.owner,
+      uiTokenAmount: { amount: String(balance[side]), decimals: 6, uiAmount: null },
+    }));
+
+    return {
+      slot: options.slot ?? 1,
+      blockTime: 1_700_000_000,
+      transaction: { message, signatures: [`sig-${options.slot ?? 1}`] },
+      meta: {
+        err: options.err ?? null,
+        fee: 5000,
+        preBalances: [],
+        postBalances: [],
+        preTokenBalances: tokenBalances("pre"),
+        postTokenBalances: tokenBalances("post"),
+        loadedAddresses: { writable: [], readonly: [] },
+      },
+      version: transaction.version,
+    } as unknown as VersionedTransactionResponse;
+  };
+
+  // Stands in for the token program; only the balances matter to the parser
+  const transfer = () => new TransactionInstruction({
+    programId: Keypair.generate().publicKey,
+    keys: [{ pubkey: wallet, isSigner: true, isWritable: true }],
+    data: Buffer.alloc(0),
+  });
+
+  const signatures = (prefix: string, slots: number[]): ConfirmedSignatureInfo[] =>
+    slots.map(slot => ({ signature: `${prefix}-${slot}`, slot, err: null, memo: null, blockTime: null }));
+
+  it("Parses plain sends and receives from token balances", () => {
+    const sent = ActivityFeed.parseTransaction(wallet.toBase58(), response([transfer()], [
+      { owner: wallet.toBase58(), pre: 10_000_000, post: 7_500_000 },
+      { owner: other.toBase58(), pre: 0, post: 2_500_000 },
+    ]));
+    assert.equal(sent?.kind, "sent");
+    assert.equal(sent?.amount, 2_500_000);
+    assert.equal(sent?.tokenMint, mint);
+    assert.equal(sent?.counterpartyWallet, other.toBase58());
+
+    const received = ActivityFeed.parseTransaction(wallet.toBase58(), response([transfer()], [
+      { owner: other.toBase58(), pre: 4_000_000, post: 3_000_000 },
+      { owner: wallet.toBase58(), pre: 0, post: 1_000_000 },
+    ]));
+    assert.equal(received?.kind, "received");
+    assert.equal(received?.amount, 1_000_000);
+    assert.equal(received?.counterpartyWallet, other.toBase58());
+  });
+
+  it("Skips failed transactions and ones that did not touch the wallet", () => {
+    const failed = response([transfer()], [{ owner: wallet.toBase58(), pre: 10, post: 5 }], { err: { InstructionError: [0, "Custom"] } });
+    assert.isNull(ActivityFeed.parseTransaction(wallet.toBase58(), failed));
+
+    const unrelated = response([transfer()], [{ owner: other.toBase58(), pre: 10, post: 5 }]);
+    assert.isNull(ActivityFeed.parseTransaction(wallet.toBase58(), unrelated));
+  });
+
+  it("Recognizes escrow creation with its memo", () => {
+    const keys = [escrowPda, Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey, wallet]
+      .map((pubkey, i) => ({ pubkey, isSigner: i === 4, isWritable: true }));
+    const initialize = new TransactionInstruction({
+      programId: FYMONEY_PROGRAM_ID,
+      keys,
+      data: withAmount(FYMONEY_DISCRIMINATORS.initializeEscrow, 5_000_000),
+    });
+    const memo = new TransactionInstruction({ programId: MEMO_PROGRAM_ID, keys: [], data: Buffer.from("Lunch") });
+
+    const entry = ActivityFeed.parseTransaction(wallet.toBase58(), response([initialize, memo], [
+      { owner: wallet.toBase58(), pre: 5_000_000, post: 0 },
+      { owner: escrowPda.toBase58(), pre: 0, post: 5_000_000 },
+    ]));
+
+    assert.equal(entry?.kind, "escrowCreated");
+    assert.equal(entry?.amount, 5_000_000);
+    assert.equal(entry?.escrowPda, escrowPda.toBase58());
+    assert.equal(entry?.memo, "Lunch");
+    assert.isUndefined(entry?.counterpartyWallet);
+  });
+
+  it("Falls back to the instruction amount for vault moves", () => {
+    const deposit = new TransactionInstruction({
+      programId: YIELD_VAULT_PROGRAM_ID,
+      keys: [{ pubkey: wallet, isSigner: true, isWritable: true }],
+      data: withAmount(YIELD_VAULT_DISCRIMINATORS.deposit, 3_000_000),
+    });
+
+    const entry = ActivityFeed.parseTransaction(wallet.toBase58(), response([deposit], []));
+
+    assert.equal(entry?.kind, "vaultDeposit");
+    assert.equal(entry?.amount, 3_000_000);
+    assert.isUndefined(entry?.escrowPda);
+  });
+
+  it("Merges signature pages newest first without duplicates", () => {
+    const walletPage = signatures("wallet", [90, 70, 50]);
+    const tokenPage = [...signatures("token", [80, 60]), walletPage[1]];
+
+    const { signatures: merged, cursors } = ActivityFeed.mergeSignaturePages(
+      { wallet: walletPage, token: tokenPage },
+      5,
+      10
+    );
+
+    assert.deepEqual(merged.map(info => info.slot), [90, 80, 70, 60, 50]);
+    assert.isTrue(cursors.wallet.exhausted);
+    assert.isTrue(cursors.token.exhausted);
+    assert.equal(cursors.token.before, "wallet-70");
+  });
+
+  it("Stops once a full page is used up", () => {
+    const walletPage = signatures("wallet", [90, 80]);
+    const tokenPage = signatures("token", [40, 30]);
+
+    const { signatures: merged, cursors } = ActivityFeed.mergeSignaturePages(
+      { wallet: walletPage, token: tokenPage },
+      2,
+      10
+    );
+
+    // The wallet may have older signatures than 80 that sort before the token's 40
+    assert.deepEqual(merged.map(info => info.slot), [90, 80]);
+    assert.equal(cursors.wallet.before, "wallet-80");
+    assert.isFalse(cursors.wallet.exhausted);
+    assert.isUndefined(cursors.token.before);
+    assert.isFalse(cursors.token.exhausted);
+  });
+});
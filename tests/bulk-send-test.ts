@@ -0,0 +1,90 @@
+import { assert } from "chai";
+import { BulkSend, MAX_BULK_ROWS } from "../app/src/services/bulkSend";
+import { MAX_MEMO_BYTES } from "../app/src/services/memo";
+
+describe("Bulk Send", () => {
+  it("Parses rows and skips the header and blank lines", () => {
+    const csv = [
+      "email,amount,memo",
+      "Alice@Example.com, 12.50, October salary",
+      "",
+      "bob@example.com,3",
+      '"carol@example.com","1.25","Rent, ""flat 2"""',
+    ].join("\r\n");
+
+    const { rows, errors } = BulkSend.parseCsv(csv, 6);
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(rows, [
+      { line: 2, email: "alice@example.com", amount: "12.50", memo: "October salary" },
+      { line: 4, email: "bob@example.com", amount: "3" },
+      { line: 5, email: "carol@example.com", amount: "1.25", memo: 'Rent, "flat 2"' },
+    ]);
+  });
+
+  it("Keeps unquoted commas as part of the memo", () => {
+    const { rows } = BulkSend.parseCsv("dave@example.com,1,Lunch, drinks", 6);
+
+    assert.equal(rows[0].memo, "Lunch, drinks");
+  });
+
+  it("Reports invalid rows by line", () => {
+    const csv = [
+      "not-an-email,1",
+      "erin@example.com,abc",
+      "frank@example.com,0",
+      "grace@example.com,1.1234567",
+      `ivan@example.com,1,${"x".repeat(MAX_MEMO_BYTES + 1)}`,
+      "heidi@example.com,2",
+    ].join("\n");
+
+    const { rows, errors } = BulkSend.parseCsv(csv, 6);
+
+    assert.deepEqual(rows.map(row => row.email), ["heidi@example.com"]);
+    assert.deepEqual(errors.map(error => error.line), [1, 2, 3, 4, 5]);
+    assert.include(errors[3].message, "more than 6 decimals");
+  });
+
+  it("Caps the number of rows in one import", () => {
+    const csv = Array.from({ length: MAX_BULK_ROWS + 5 }, (_, i) => `user${i}@example.com,1`).join("\n");
+
+    const { rows, errors } = BulkSend.parseCsv(csv, 6);
+
+    assert.equal(rows.length, MAX_BULK_ROWS);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].line, MAX_BULK_ROWS + 1);
+  });
+
+  it("Packs items into as few batches as fit", () => {
+    // Each batch holds a total size of at most 10
+    const fits = (batch: number[]) => batch.reduce((sum, size) => sum + size, 0) <= 10;
+
+    const { batches, oversized } = BulkSend.pack([6, 5, 4, 3, 12, 2], fits);
+
+    assert.deepEqual(batches, [[6, 4], [5, 3, 2]]);
+    assert.deepEqual(oversized, [12]);
+  });
+
+  it("Writes a per-row report with escaped fields", () => {
+    const csv = BulkSend.toReportCsv([
+      {
+        line: 2,
+        email: "alice@example.com",
+        amount: "12.50",
+        memo: "Salary, October",
+        type: "escrow",
+        status: "sent",
+        signature: "sig1",
+        transferIntentId: "intent-1",
+        escrowPda: "pda1",
+      },
+      { line: 3, email: "bob@example.com", amount: "3", status: "failed", error: 'Recipient "bob" not found' },
+    ]);
+
+    assert.deepEqual(csv.split("\n"), [
+      "line,email,amount,memo,type,status,signature,transfer_intent_id,escrow_pda,error",
+      '2,alice@example.com,12.50,"Salary, October",escrow,sent,sig1,intent-1,pda1,',
+      '3,bob@example.com,3,,,failed,,,,"Recipient ""bob"" not found"',
+    ]);
+  });
+});
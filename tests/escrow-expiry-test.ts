@@ -0,0 +1,35 @@
+import { assert } from "chai";
+import {
+  EscrowExpiry,
+  ESCROW_EXPIRY_OPTIONS,
+  MAX_ESCROW_EXPIRY_HOURS,
+  MIN_ESCROW_EXPIRY_HOURS,
+} from "../app/src/services/escrowExpiry";
+
+describe("Escrow Expiry", () => {
+  it("Accepts claim windows from 1 hour to 30 days", () => {
+    assert.isTrue(EscrowExpiry.isValid(MIN_ESCROW_EXPIRY_HOURS));
+    assert.isTrue(EscrowExpiry.isValid(MAX_ESCROW_EXPIRY_HOURS));
+    assert.isFalse(EscrowExpiry.isValid(0.5));
+    assert.isFalse(EscrowExpiry.isValid(MAX_ESCROW_EXPIRY_HOURS + 1));
+    assert.isFalse(EscrowExpiry.isValid(NaN));
+    ESCROW_EXPIRY_OPTIONS.forEach(option => assert.isTrue(EscrowExpiry.isValid(option.hours), option.label));
+  });
+
+  it("Truncates the expiry to whole seconds, as the program stores it", () => {
+    const now = Date.UTC(2026, 0, 1, 12, 0, 0, 750);
+
+    const expiresAt = EscrowExpiry.getExpiresAt(1, now);
+
+    assert.equal(expiresAt.getTime(), Date.UTC(2026, 0, 1, 13, 0, 0));
+    assert.equal(expiresAt.getTime() % 1000, 0);
+  });
+
+  it("Counts down to and past the expiry", () => {
+    const expiresAt = new Date(Date.UTC(2026, 0, 2, 0, 0, 0));
+
+    assert.equal(EscrowExpiry.formatCountdown(expiresAt, Date.UTC(2026, 0, 1, 22, 30, 15)), "Expires in 1h 29m 45s");
+    assert.equal(EscrowExpiry.formatCountdown(expiresAt, Date.UTC(2025, 11, 31, 0, 0, 0)), "Expires in 2d 0h 0m");
+    assert.equal(EscrowExpiry.formatCountdown(expiresAt, Date.UTC(2026, 0, 2, 0, 5, 0)), "Expired 0h 5m 0s ago");
+  });
+});
@@ -0,0 +1,103 @@
+import { AccountInfo, Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  findNextNonce,
+  getEscrowPDA,
+  getIdempotentNonce,
+  EscrowNonceError,
+  ESCROW_NONCE_BATCH_SIZE,
+  IDEMPOTENT_NONCE_OFFSET,
+} from "../app/src/services/escrowNonce";
+import { FYMONEY_PROGRAM_ID } from "../app/src/services/sponsorshipPolicy";
+
+describe("Escrow Nonce Allocator", () => {
+  const sender = Keypair.generate().publicKey;
+  const emailHash = Array.from(Buffer.alloc(32, 9));
+
+  const account: AccountInfo<Buffer> = {
+    data: Buffer.alloc(0),
+    executable: false,
+    lamports: 1,
+    owner: FYMONEY_PROGRAM_ID,
+  };
+
+  // Stands in for the RPC connection: nonces in `taken` have an escrow account
+  const fakeConnection = (taken: number[], failures = 0) => {
+    const takenPdas = new Set(
+      taken.map((nonce) => getEscrowPDA(sender, emailHash, nonce, FYMONEY_PROGRAM_ID)[0].toBase58())
+    );
+    const connection = {
+      calls: 0,
+      getMultipleAccountsInfo: async (pdas: PublicKey[]) => {
+        connection.calls++;
+        if (connection.calls <= failures) {
+          throw new Error("fetch failed");
+        }
+        return pdas.map((pda) => (takenPdas.has(pda.toBase58()) ? account : null));
+      },
+    };
+    return connection;
+  };
+
+  const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+  it("Returns nonce 0 for a new sender and email", async () => {
+    const connection = fakeConnection([]);
+
+    assert.equal(await findNextNonce(connection, sender, emailHash, FYMONEY_PROGRAM_ID), 0);
+    assert.equal(connection.calls, 1);
+  });
+
+  it("Finds the next nonce in a single call", async () => {
+    const connection = fakeConnection(range(7));
+
+    assert.equal(await findNextNonce(connection, sender, emailHash, FYMONEY_PROGRAM_ID), 7);
+    assert.equal(connection.calls, 1);
+  });
+
+  it("Reuses the lowest gap left by a reclaimed escrow", async () => {
+    const connection = fakeConnection([0, 1, 3]);
+
+    assert.equal(await findNextNonce(connection, sender, emailHash, FYMONEY_PROGRAM_ID), 2);
+  });
+
+  it("Moves to the next batch once a batch is full", async () => {
+    const connection = fakeConnection(range(ESCROW_NONCE_BATCH_SIZE + 2));
+
+    assert.equal(
+      await findNextNonce(connection, sender, emailHash, FYMONEY_PROGRAM_ID),
+      ESCROW_NONCE_BATCH_SIZE + 2
+    );
+    assert.equal(connection.calls, 2);
+  });
+
+  it("Retries transient RPC errors", async () => {
+    const connection = fakeConnection(range(3), 2);
+
+    assert.equal(await findNextNonce(connection, sender, emailHash, FYMONEY_PROGRAM_ID), 3);
+    assert.equal(connection.calls, 3);
+  });
+
+  it("Fails instead of guessing when the RPC keeps failing", async () => {
+    const connection = fakeConnection([], 10);
+
+    try {
+      await findNextNonce(connection, sender, emailHash, FYMONEY_PROGRAM_ID);
+    } catch (error) {
+      assert.instanceOf(error, EscrowNonceError);
+      assert.equal((error as EscrowNonceError).code, "RPC_ERROR");
+      return;
+    }
+    assert.fail("Expected EscrowNonceError");
+  });
+
+  it("Derives the same escrow for every retry of a send", () => {
+    const key = "6f1c2a9e-3b1d-4c55-9a7e-0d2f8e4b7c10";
+    const nonce = getIdempotentNonce(key);
+
+    assert.equal(getIdempotentNonce(key), nonce);
+    assert.notEqual(getIdempotentNonce("another-attempt"), nonce);
+    assert.isAtLeast(nonce, IDEMPOTENT_NONCE_OFFSET);
+    assert.isAtMost(nonce, Number.MAX_SAFE_INTEGER);
+  });
+});
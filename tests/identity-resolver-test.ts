@@ -0,0 +1,105 @@
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import * as crypto from "crypto";
+import {
+  EmailIdentityProvider,
+  FarcasterIdentityProvider,
+  IdentityMatch,
+  IdentityProvider,
+  IdentityResolver,
+  PhoneIdentityProvider,
+  SnsIdentityProvider,
+  WalletIdentityProvider,
+} from "../app/src/services/identityResolver";
+
+describe("Identity Resolver", () => {
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const unregistered: IdentityMatch = { wallet: null, verification: "unverified" };
+
+  const farcasterLookups: { username?: string; fid?: number }[] = [];
+  const identities = new IdentityResolver([
+    new WalletIdentityProvider(),
+    new EmailIdentityProvider(async (email) => email === "alice@example.com" ? { wallet, verification: "verified" } : unregistered),
+    new PhoneIdentityProvider(async (phone) => phone === "+14155550123" ? { wallet, verification: "unverified" } : unregistered),
+    new SnsIdentityProvider({ resolve: async () => null }),
+    new FarcasterIdentityProvider(async (identity) => {
+      farcasterLookups.push(identity);
+      return identity.username === "alice" || identity.fid === 3 ? { wallet, verification: "verified" } : unregistered;
+    }),
+  ]);
+
+  it("Normalizes each identifier type", () => {
+    const detect = (input: string) => {
+      const detected = identities.detect(input);
+      return detected && [detected.provider.type, detected.value];
+    };
+
+    assert.deepEqual(detect(" Alice@Example.COM "), ["email", "alice@example.com"]);
+    assert.deepEqual(detect("+1 (415) 555-0123"), ["phone", "+14155550123"]);
+    assert.deepEqual(detect("0044 20 7946 0958"), ["phone", "+442079460958"]);
+    assert.deepEqual(detect("@Alice"), ["farcaster", "@alice"]);
+    assert.deepEqual(detect("fid:3"), ["farcaster", "fid:3"]);
+    assert.deepEqual(detect("Pay.Alice.sol"), ["sns", "pay.alice.sol"]);
+    assert.deepEqual(detect(wallet), ["wallet", wallet]);
+
+    // No country code, a leading zero after it, and too many digits are not E.164
+    assert.isNull(detect("415 555 0123"));
+    assert.isNull(detect("+0 415 555 0123"));
+    assert.isNull(detect("+1234567890123456"));
+    assert.isNull(detect("@this-name-is-far-too-long"));
+  });
+
+  it("Resolves wallets with their verification level", async () => {
+    assert.deepEqual(await identities.resolve("alice@example.com"), {
+      type: "email",
+      value: "alice@example.com",
+      wallet,
+      verification: "verified",
+    });
+    assert.equal((await identities.resolve("+1 415 555 0123")).verification, "unverified");
+    assert.equal((await identities.resolve(wallet)).verification, "onchain");
+
+    await identities.resolve("fid:3");
+    await identities.resolve("@alice");
+    assert.deepEqual(farcasterLookups, [{ fid: 3 }, { username: "alice" }]);
+  });
+
+  it("Leaves unregistered emails and phones to an escrow but refuses other unknowns", async () => {
+    assert.isNull((await identities.resolve("bob@example.com")).wallet);
+    assert.isNull((await identities.resolve("+14155550199")).wallet);
+
+    for (const [input, code] of [["@nobody", "NOT_FOUND"], ["nobody.sol", "NOT_FOUND"], ["nobody", "UNSUPPORTED_IDENTITY"]]) {
+      try {
+        await identities.resolve(input);
+        assert.fail("Should have thrown");
+      } catch (error) {
+        assert.equal(error.code, code, input);
+      }
+    }
+  });
+
+  it("Hashes escrow identities the way email escrows always have", () => {
+    const legacy = Array.from(crypto.createHash("sha256").update(" Alice@Example.com ".toLowerCase().trim()).digest());
+
+    assert.deepEqual(identities.getEscrowHash(" Alice@Example.com "), legacy);
+    assert.deepEqual(
+      identities.getEscrowHash("+1 415 555 0123"),
+      Array.from(crypto.createHash("sha256").update("+14155550123").digest())
+    );
+    assert.throws(() => identities.getEscrowHash("@alice"), "until it has a wallet");
+  });
+
+  it("Takes new identity types without touching the rest", async () => {
+    const testNames: IdentityProvider = {
+      type: "sns",
+      label: "Test names",
+      escrowable: false,
+      normalize: (input) => input.endsWith(".test") ? input : null,
+      lookup: async () => ({ wallet, verification: "onchain" }),
+    };
+    const custom = new IdentityResolver([new WalletIdentityProvider()]).register(testNames);
+
+    assert.equal((await custom.resolve("alice.test")).wallet, wallet);
+    assert.isNull(custom.detect("alice@example.com"));
+  });
+});
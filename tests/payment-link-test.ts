@@ -0,0 +1,72 @@
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { PaymentLinks } from "../app/src/services/paymentLink";
+import { SolanaPay } from "../app/src/services/solanaPay";
+
+describe("Payment Links", () => {
+  const recipient = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const reference = Keypair.generate().publicKey;
+
+  const expectCode = (text: string, code: string) => {
+    try {
+      PaymentLinks.parse(text);
+      assert.fail("Should have thrown");
+    } catch (error) {
+      assert.equal(error.code, code, text);
+    }
+  };
+
+  it("Reads the Solana Pay requests the receive screen creates", () => {
+    const url = SolanaPay.encodeURL({
+      recipient,
+      amount: "12.34",
+      splToken: mint,
+      reference: [reference],
+      label: "FY Money",
+      message: "Dinner split",
+    });
+
+    assert.deepEqual(PaymentLinks.parse(url), {
+      source: "solanaPay",
+      recipient: recipient.toBase58(),
+      amount: "12.34",
+      splToken: mint.toBase58(),
+      reference: [reference.toBase58()],
+      memo: "Dinner split",
+      label: "FY Money",
+    });
+
+    // An explicit memo wins over the message
+    const withMemo = `solana:${recipient.toBase58()}?spl-token=${mint.toBase58()}&message=Hi&memo=INV-42`;
+    assert.equal(PaymentLinks.parse(withMemo).memo, "INV-42");
+  });
+
+  it("Reads FY Money links and raw addresses", () => {
+    assert.deepEqual(PaymentLinks.parse("https://fymoney.xyz/?send_to=alice%40example.com&amount=25"), {
+      source: "fyMoney",
+      recipient: "alice@example.com",
+      amount: "25",
+      reference: [],
+    });
+    assert.isUndefined(PaymentLinks.parse("https://fymoney.xyz/?send_to=alice@example.com&amount=lots").amount);
+
+    assert.deepEqual(PaymentLinks.parse(` ${recipient.toBase58()}\n`), {
+      source: "address",
+      recipient: recipient.toBase58(),
+      reference: [],
+    });
+  });
+
+  it("Refuses requests it can't pay and text that isn't a request", () => {
+    expectCode(`solana:${recipient.toBase58()}?amount=1`, "UNSUPPORTED"); // SOL
+    expectCode("solana:https%3A%2F%2Fexample.com%2Fpay", "UNSUPPORTED"); // Transaction request
+    expectCode(`solana:${recipient.toBase58()}?amount=1e3&spl-token=${mint.toBase58()}`, "UNRECOGNIZED");
+    expectCode("solana:not-a-key", "UNRECOGNIZED");
+    expectCode("https://example.com/?amount=5", "UNRECOGNIZED");
+    expectCode("hello", "UNRECOGNIZED");
+
+    assert.isTrue(PaymentLinks.isLink(" solana:abc"));
+    assert.isFalse(PaymentLinks.isLink("alice@example.com"));
+  });
+});
@@ -0,0 +1,185 @@
+import { assert } from "chai";
+import { IdentityResolver } from "../app/src/services/identityResolver";
+import {
+  OTP_MAX_ATTEMPTS,
+  OTP_RESEND_SECONDS,
+  OTP_TTL_MINUTES,
+  PHONE_VERIFIED_MINUTES,
+  PhoneVerification,
+  PhoneVerificationRecord,
+  PhoneVerificationStore,
+} from "../app/src/services/phoneVerification";
+import { SMS_SEGMENT_LENGTH, SmsInvitation } from "../app/src/services/smsInvitation";
+import { FakeSmsProvider } from "./utils/fake-sms-provider";
+
+describe("Phone Verification", () => {
+  const phone = "+14155550123";
+  let now: Date;
+  let sms: FakeSmsProvider;
+  let records: Map<string, PhoneVerificationRecord>;
+  let verification: PhoneVerification;
+
+  // Lets other pending requests run, like a round trip to the database would
+  const roundTrip = () => new Promise((resolve) => setImmediate(resolve));
+
+  // In-memory stand-in for the phone_verifications table; checkCode reads and writes in one step like its SQL function
+  const memoryStore = (): PhoneVerificationStore => ({
+    get: async (phoneHash) => {
+      await roundTrip();
+      return records.get(phoneHash) ?? null;
+    },
+    save: async (record) => {
+      await roundTrip();
+      records.set(record.phoneHash, record);
+    },
+    checkCode: async (phoneHash, codeHash, at, maxAttempts) => {
+      await roundTrip();
+      const record = records.get(phoneHash);
+      if (!record?.codeHash) {
+        return "NOT_REQUESTED";
+      }
+      if (record.attempts >= maxAttempts) {
+        return "TOO_MANY_ATTEMPTS";
+      }
+      if (at > record.expiresAt) {
+        return "EXPIRED";
+      }
+      if (record.codeHash !== codeHash) {
+        records.set(phoneHash, { ...record, attempts: record.attempts + 1 });
+        return "INVALID_CODE";
+      }
+      records.set(phoneHash, { ...record, codeHash: null, verifiedAt: at });
+      return null;
+    },
+  });
+
+  const minutes = (count: number) => count * 60 * 1000;
+  const advance = (ms: number) => { now = new Date(now.getTime() + ms); };
+  const lastCode = () => sms.messagesTo(phone).slice(-1)[0].body.match(/\d{6}/)[0];
+
+  const expectError = async (promise: Promise<unknown>, code: string) => {
+    try {
+      await promise;
+      assert.fail("Should have thrown");
+    } catch (error) {
+      assert.equal(error.code, code);
+    }
+  };
+
+  beforeEach(() => {
+    now = new Date("2026-01-01T12:00:00Z");
+    sms = new FakeSmsProvider();
+    records = new Map();
+    verification = new PhoneVerification(sms, memoryStore(), () => now);
+  });
+
+  it("Texts a code to the fake outbox and verifies it", async () => {
+    await verification.sendCode(phone);
+
+    assert.lengthOf(sms.outbox, 1);
+    assert.equal(sms.outbox[0].to, phone);
+    // Only a hash of the code is stored
+    assert.notInclude(JSON.stringify([...records.values()]), lastCode());
+
+    assert.isFalse(await verification.isVerified(phone));
+    await expectError(verification.assertVerified(phone), "NOT_VERIFIED");
+
+    await verification.verifyCode(phone, lastCode());
+    assert.isTrue(await verification.isVerified(phone));
+    await verification.assertVerified(phone);
+
+    advance(minutes(PHONE_VERIFIED_MINUTES));
+    assert.isFalse(await verification.isVerified(phone));
+  });
+
+  it("Locks the code after too many wrong guesses", async () => {
+    await verification.sendCode(phone);
+    const code = lastCode();
+    const wrong = code === "000000" ? "111111" : "000000";
+
+    for (let attempt = 0; attempt < OTP_MAX_ATTEMPTS; attempt++) {
+      await expectError(verification.verifyCode(phone, wrong), "INVALID_CODE");
+    }
+    await expectError(verification.verifyCode(phone, code), "TOO_MANY_ATTEMPTS");
+    assert.isFalse(await verification.isVerified(phone));
+
+    // A new code starts over
+    advance(OTP_RESEND_SECONDS * 1000);
+    await verification.sendCode(phone);
+    await verification.verifyCode(phone, lastCode());
+    assert.isTrue(await verification.isVerified(phone));
+  });
+
+  it("Only evaluates the allowed number of guesses when they arrive at once", async () => {
+    await verification.sendCode(phone);
+    const code = lastCode();
+    const wrong = code === "000000" ? "111111" : "000000";
+
+    const results = await Promise.allSettled(
+      Array.from({ length: OTP_MAX_ATTEMPTS * 4 }, () => verification.verifyCode(phone, wrong))
+    );
+    const codes = results.map((result) => (result.status === "rejected" ? result.reason.code : "VERIFIED"));
+
+    assert.lengthOf(codes.filter((reason) => reason === "INVALID_CODE"), OTP_MAX_ATTEMPTS);
+    assert.lengthOf(codes.filter((reason) => reason === "TOO_MANY_ATTEMPTS"), OTP_MAX_ATTEMPTS * 3);
+    await expectError(verification.verifyCode(phone, code), "TOO_MANY_ATTEMPTS");
+  });
+
+  it("Accepts a code only once", async () => {
+    await verification.sendCode(phone);
+    const code = lastCode();
+
+    await verification.verifyCode(phone, code);
+    assert.isNull(records.get(PhoneVerification.hashPhone(phone)).codeHash);
+    await expectError(verification.verifyCode(phone, code), "NOT_REQUESTED");
+    assert.isTrue(await verification.isVerified(phone));
+  });
+
+  it("Refuses expired codes and rapid resends", async () => {
+    await expectError(verification.verifyCode(phone, "123456"), "NOT_REQUESTED");
+
+    await verification.sendCode(phone);
+    await expectError(verification.sendCode(phone), "RESEND_TOO_SOON");
+    assert.lengthOf(sms.outbox, 1);
+
+    advance(minutes(OTP_TTL_MINUTES) + 1);
+    await expectError(verification.verifyCode(phone, lastCode()), "EXPIRED");
+  });
+
+  it("Only accepts normalized E.164 numbers", async () => {
+    await expectError(verification.sendCode("+1 415 555 0123"), "INVALID_PHONE");
+    try {
+      await sms.send({ to: "4155550123", body: "hi" });
+      assert.fail("Should have thrown");
+    } catch (error) {
+      assert.equal(error.code, "INVALID_NUMBER");
+    }
+    assert.lengthOf(sms.outbox, 0);
+  });
+
+  it("Hashes numbers the way escrows and phone_wallets do", () => {
+    assert.equal(
+      PhoneVerification.hashPhone(phone),
+      Buffer.from(IdentityResolver.hashEscrowKey(phone)).toString("hex")
+    );
+  });
+
+  it("Drops the sender's note when the invitation would not fit one text", () => {
+    const details = {
+      sender: "alice@example.com",
+      recipientPhone: phone,
+      amount: 12.5,
+      tokenSymbol: "USDC",
+      expiresAt: new Date("2026-01-31T12:00:00Z"),
+    };
+
+    const withNote = SmsInvitation.compose({ ...details, message: "Lunch" }, "https://fymoney.xyz");
+    assert.include(withNote, "12.50 USDC");
+    assert.include(withNote, `https://fymoney.xyz?phone=${encodeURIComponent(phone)}`);
+    assert.include(withNote, '"Lunch"');
+
+    const longNote = SmsInvitation.compose({ ...details, message: "x".repeat(SMS_SEGMENT_LENGTH) }, "https://fymoney.xyz");
+    assert.notInclude(longNote, "xxx");
+    assert.isAtMost(longNote.length, SMS_SEGMENT_LENGTH);
+  });
+});
@@ -0,0 +1,75 @@
+import { Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { assert } from "chai";
+import { MAX_COMPUTE_UNIT_LIMIT, PriorityFees } from "../app/src/services/priorityFees";
+
+describe("Priority Fees", () => {
+  const writable = Keypair.generate().publicKey;
+  const readonly = Keypair.generate().publicKey;
+
+  // Stands in for the RPC connection, recording the accounts it was asked about
+  const fakeConnection = (fees: number[]) => {
+    const connection = {
+      accounts: [] as PublicKey[],
+      getRecentPrioritizationFees: async (config?: { lockedWritableAccounts?: PublicKey[] }) => {
+        connection.accounts = config?.lockedWritableAccounts ?? [];
+        return fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+      },
+    };
+    return connection;
+  };
+
+  it("Takes the nearest-rank percentile of recent fees", () => {
+    const fees = [0, 0, 100, 200, 300, 400, 500, 600, 700, 5000];
+
+    assert.equal(PriorityFees.percentile(fees, 50), 300);
+    assert.equal(PriorityFees.percentile(fees, 90), 700);
+    assert.equal(PriorityFees.percentile(fees, 100), 5000);
+    assert.equal(PriorityFees.percentile([], 90), 0);
+  });
+
+  it("Samples fees for the writable accounts only", async () => {
+    const instruction = new TransactionInstruction({
+      programId: Keypair.generate().publicKey,
+      keys: [
+        { pubkey: writable, isSigner: false, isWritable: true },
+        { pubkey: readonly, isSigner: false, isWritable: false },
+        { pubkey: writable, isSigner: true, isWritable: true },
+      ],
+    });
+    const connection = fakeConnection([10, 20, 30, 40]);
+
+    const microLamports = await PriorityFees.estimateMicroLamports(
+      connection,
+      PriorityFees.getWritableAccounts([instruction]),
+      75
+    );
+
+    assert.equal(microLamports, 30);
+    assert.deepEqual(
+      connection.accounts.map((account) => account.toBase58()),
+      [writable.toBase58()]
+    );
+  });
+
+  it("Derives the compute unit limit from simulated units", () => {
+    assert.equal(PriorityFees.getComputeUnitLimit(50_000), 60_000);
+    assert.equal(PriorityFees.getComputeUnitLimit(1_300_000), MAX_COMPUTE_UNIT_LIMIT);
+    assert.equal(PriorityFees.getComputeUnitLimit(0), MAX_COMPUTE_UNIT_LIMIT);
+  });
+
+  it("Caps the price so the fee stays within the limit", () => {
+    const quote = PriorityFees.quote("fast", 5_000_000, 60_000, 100_000);
+
+    assert.isTrue(quote.capped);
+    assert.equal(quote.microLamports, 1_666_666);
+    assert.isAtMost(quote.lamports, 100_000);
+  });
+
+  it("Keeps prices under the cap unchanged", () => {
+    const quote = PriorityFees.quote("normal", 10_000, 60_000, 100_000);
+
+    assert.isFalse(quote.capped);
+    assert.equal(quote.microLamports, 10_000);
+    assert.equal(quote.lamports, 600);
+  });
+});
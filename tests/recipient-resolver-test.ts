@@ -0,0 +1,127 @@
+import { AccountInfo, Connection, Keypair, PublicKey, SystemProgram } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { assert } from "chai";
+import { DomainResolver, NAME_SERVICE_PROGRAM_ID, SnsDomainResolver } from "../app/src/services/domainResolver";
+import {
+  EmailIdentityProvider,
+  IdentityResolver,
+  SnsIdentityProvider,
+  WalletIdentityProvider,
+} from "../app/src/services/identityResolver";
+import { RecipientResolver } from "../app/src/services/recipientResolver";
+
+describe("Recipient Resolver", () => {
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const domainOwner = Keypair.generate().publicKey.toBase58();
+
+  // Local stand-in for SNS
+  const stubDomains = (domains: Record<string, string>): DomainResolver => ({
+    resolve: async (domain) => domains[domain] ?? null,
+  });
+
+  const account = (owner: PublicKey, overrides: Partial<AccountInfo<Buffer>> = {}): AccountInfo<Buffer> => ({
+    data: Buffer.alloc(0),
+    owner,
+    lamports: 1_000_000,
+    executable: false,
+    ...overrides,
+  });
+
+  const identities = new IdentityResolver([
+    new WalletIdentityProvider(),
+    new EmailIdentityProvider(async (email) => ({ wallet: email === "alice@example.com" ? wallet : null, verification: "verified" })),
+    new SnsIdentityProvider(stubDomains({ "alice.sol": domainOwner })),
+  ]);
+
+  const connection = (accounts: Record<string, AccountInfo<Buffer>> = {}) =>
+    ({ getAccountInfo: async (key: PublicKey) => accounts[key.toBase58()] ?? null } as unknown as Connection);
+
+  const resolve = (input: string, accounts: Record<string, AccountInfo<Buffer>> = {}) =>
+    RecipientResolver.resolve(input, identities, connection(accounts));
+
+  it("Detects emails, addresses and .sol domains", () => {
+    assert.equal(identities.detect("alice@example.com")?.provider.type, "email");
+    assert.equal(identities.detect(` ${wallet} `)?.provider.type, "wallet");
+    assert.equal(identities.detect("alice.sol")?.provider.type, "sns");
+    assert.equal(identities.detect("pay.Alice.SOL")?.value, "pay.alice.sol");
+
+    assert.isNull(identities.detect("alice@"));
+    assert.isNull(identities.detect("alice.eth"));
+    // Base58 has no 0, O, I or l, and 44 z's decode to more than 32 bytes
+    assert.isNull(identities.detect(`0${wallet.slice(1)}`));
+    assert.isNull(identities.detect("z".repeat(44)));
+  });
+
+  it("Resolves emails, leaving unregistered ones to an escrow", async () => {
+    const registered = await resolve("Alice@Example.com");
+    assert.deepEqual(registered, { type: "email", value: "alice@example.com", wallet, verification: "verified", warnings: [] });
+
+    const unregistered = await resolve("bob@example.com");
+    assert.isNull(unregistered.wallet);
+  });
+
+  it("Resolves domains through the pluggable resolver", async () => {
+    const resolved = await resolve("Alice.sol");
+    assert.equal(resolved.type, "sns");
+    assert.equal(resolved.wallet, domainOwner);
+    assert.equal(resolved.verification, "onchain");
+
+    try {
+      await resolve("nobody.sol");
+      assert.fail("Should have thrown");
+    } catch (error) {
+      assert.equal(error.code, "NOT_FOUND");
+    }
+  });
+
+  it("Warns about PDAs and exchange wallets", async () => {
+    const [pda] = PublicKey.findProgramAddressSync([Buffer.from("vault")], SystemProgram.programId);
+    const offCurve = await resolve(pda.toBase58());
+    assert.deepEqual(offCurve.warnings, ["offCurve"]);
+
+    const exchange = await resolve("H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS");
+    assert.deepEqual(exchange.warnings, ["exchange"]);
+    assert.equal(exchange.exchange, "Coinbase");
+
+    const plain = await resolve(wallet, { [wallet]: account(SystemProgram.programId) });
+    assert.deepEqual(plain.warnings, []);
+  });
+
+  it("Refuses programs and token accounts", async () => {
+    const tokenAccount = Keypair.generate().publicKey.toBase58();
+    const program = Keypair.generate().publicKey.toBase58();
+    const accounts = {
+      [tokenAccount]: account(TOKEN_PROGRAM_ID),
+      [program]: account(new PublicKey("BPFLoaderUpgradeab1e11111111111111111111111"), { executable: true }),
+    };
+
+    for (const address of [tokenAccount, program]) {
+      try {
+        await resolve(address, accounts);
+        assert.fail("Should have thrown");
+      } catch (error) {
+        assert.equal(error.code, "NOT_A_WALLET");
+      }
+    }
+  });
+
+  it("Reads the owner of an SNS name account", async () => {
+    // The well-known name account of bonfida.sol
+    assert.equal(SnsDomainResolver.getDomainKey("bonfida.sol").toBase58(), "Crf8hzfthWGbGbLTVCiqRqV5MVnbpHB1L9KQMd6gsinb");
+    assert.notEqual(
+      SnsDomainResolver.getDomainKey("pay.bonfida.sol").toBase58(),
+      SnsDomainResolver.getDomainKey("bonfida.sol").toBase58()
+    );
+
+    const data = Buffer.concat([Buffer.alloc(32), new PublicKey(domainOwner).toBuffer(), Buffer.alloc(32)]);
+    const nameAccount = account(NAME_SERVICE_PROGRAM_ID, { data });
+    const connection = {
+      getAccountInfo: async (key: PublicKey) =>
+        key.equals(SnsDomainResolver.getDomainKey("alice.sol")) ? nameAccount : null,
+    };
+    const sns = new SnsDomainResolver(connection);
+
+    assert.equal(await sns.resolve("alice.sol"), domainOwner);
+    assert.isNull(await sns.resolve("nobody.sol"));
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  ConfirmedSignatureInfo,
+  Keypair,
+  PublicKey,
+  TokenBalance,
+  TransactionError,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import { SolanaPay, SolanaPayConnection } from "../app/src/services/solanaPay";
+
+describe("Solana Pay", () => {
+  const recipient = Keypair.generate().publicKey;
+  const reference = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+
+  const balance = (owner: PublicKey, amount: string, tokenMint = mint): TokenBalance => ({
+    accountIndex: 1,
+    mint: tokenMint.toBase58(),
+    owner: owner.toBase58(),
+    uiTokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: "" },
+  });
+
+  const signed = (signature: string, err: TransactionError | null = null) => ({ signature, err } as ConfirmedSignatureInfo);
+
+  const payment = (
+    pre: TokenBalance[],
+    post: TokenBalance[],
+    err: TransactionError | null = null
+  ): Pick<VersionedTransactionResponse, "meta"> => ({
+    meta: { err, fee: 5000, preBalances: [], postBalances: [], preTokenBalances: pre, postTokenBalances: post },
+  });
+
+  it("Encodes transfer requests per the spec", () => {
+    const url = SolanaPay.encodeURL({
+      recipient,
+      amount: "25.5",
+      splToken: mint,
+      reference: [reference],
+      label: "FY Money",
+      message: "Lunch & coffee",
+    });
+
+    assert.equal(
+      url,
+      `solana:${recipient.toBase58()}?amount=25.5&spl-token=${mint.toBase58()}&reference=${reference.toBase58()}` +
+        "&label=FY%20Money&message=Lunch%20%26%20coffee"
+    );
+    assert.equal(SolanaPay.encodeURL({ recipient }), `solana:${recipient.toBase58()}`);
+  });
+
+  it("Refuses amounts that are not plain decimals", () => {
+    for (const amount of ["-1", "1e3", "1.", ""]) {
+      assert.throws(() => SolanaPay.encodeURL({ recipient, amount }), "Invalid amount");
+    }
+  });
+
+  it("Lists successful transactions with the reference, oldest first", async () => {
+    // RPC order: newest first
+    const signatures = [signed("newest"), signed("failed", { InstructionError: [0, "Custom"] }), signed("first")];
+    const connection = {
+      getSignaturesForAddress: async (address: PublicKey) => address.equals(reference) ? signatures : [],
+    };
+
+    assert.deepEqual((await SolanaPay.findReferences(connection, reference)).map(({ signature }) => signature), ["first", "newest"]);
+    assert.isEmpty(await SolanaPay.findReferences(connection, Keypair.generate().publicKey));
+  });
+
+  it("Skips invalid transactions with the reference to a later valid payment", async () => {
+    const expected = { recipient, splToken: mint, amount: BigInt(25_500_000) };
+    const transactions = new Map([
+      ["short", payment([], [balance(recipient, "1")])],
+      ["paid", payment([], [balance(recipient, "25500000")])],
+    ]);
+    const connection = (signatures: string[]): SolanaPayConnection => ({
+      getSignaturesForAddress: async () => signatures.map(signature => signed(signature)),
+      getTransaction: async (signature: string) => transactions.get(signature) ?? null,
+    });
+
+    // Newest first: someone's short transfer landed before the real payment
+    assert.equal((await SolanaPay.findPayment(connection(["paid", "short"]), reference, expected))?.signature, "paid");
+    assert.isNull(await SolanaPay.findPayment(connection(["short"]), reference, expected));
+  });
+
+  it("Accepts only confirmed transfers of at least the amount", () => {
+    const expected = { recipient, splToken: mint, amount: BigInt(25_500_000) };
+    const sender = Keypair.generate().publicKey;
+
+    // New token account for the recipient, and a top-up of an existing one
+    SolanaPay.validateTransfer(payment([balance(sender, "30000000")], [balance(sender, "4500000"), balance(recipient, "25500000")]), expected);
+    SolanaPay.validateTransfer(payment([balance(recipient, "1000000")], [balance(recipient, "26500000")]), expected);
+
+    const rejections: [ReturnType<typeof payment> | null, string][] = [
+      [null, "TRANSFER_FAILED"],
+      [payment([], [balance(recipient, "25500000")], { InstructionError: [0, "Custom"] }), "TRANSFER_FAILED"],
+      [payment([], [balance(recipient, "25499999")]), "WRONG_TRANSFER"],
+      [payment([], [balance(recipient, "25500000", Keypair.generate().publicKey)]), "WRONG_TRANSFER"],
+      [payment([], [balance(sender, "25500000")]), "WRONG_TRANSFER"],
+    ];
+    for (const [transaction, code] of rejections) {
+      try {
+        SolanaPay.validateTransfer(transaction, expected);
+        assert.fail("Should have thrown");
+      } catch (error) {
+        assert.equal(error.code, code);
+      }
+    }
+  });
+});
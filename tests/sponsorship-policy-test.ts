@@ -0,0 +1,504 @@
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  createTransferCheckedInstruction,
+  createAssociatedTokenAccountInstruction,
+  createCloseAccountInstruction,
+} from "@solana/spl-token";
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  SponsorshipPolicy,
+  SponsorshipPolicyError,
+  SponsorshipRejectionReason,
+  FYMONEY_PROGRAM_ID,
+  YIELD_VAULT_PROGRAM_ID,
+  DEFAULT_SPONSORSHIP_LIMITS,
+} from "../app/src/services/sponsorshipPolicy";
+import { Memo, MEMO_PROGRAM_ID, MAX_MEMO_BYTES } from "../app/src/services/memo";
+
+describe("Sponsorship Policy", () => {
+  const feePayer = Keypair.generate().publicKey;
+  const sender = Keypair.generate().publicKey;
+  const recipient = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const senderTokenAccount = Keypair.generate().publicKey;
+  const recipientTokenAccount = Keypair.generate().publicKey;
+  const recentBlockhash = Keypair.generate().publicKey.toBase58();
+
+  const INITIALIZE_ESCROW = [243, 160, 77, 153, 11, 92, 48, 209];
+  const CLAIM_ESCROW = [200, 80, 182, 159, 61, 75, 9, 205];
+  const DEPOSIT = [242, 35, 198, 137, 82, 225, 242, 182];
+
+  // Serialize unsigned, exactly as the client sends it to the relayer
+  const serialize = (...instructions: TransactionInstruction[]): string => {
+    const transaction = new Transaction();
+    transaction.recentBlockhash = recentBlockhash;
+    transaction.feePayer = feePayer;
+    instructions.forEach((ix) => transaction.add(ix));
+    return transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString("base64");
+  };
+
+  // Managed lookup table holding the static program and mint accounts
+  const lookupTable = new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt("18446744073709551615"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority: feePayer,
+      addresses: [
+        mint,
+        TOKEN_PROGRAM_ID,
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        SystemProgram.programId,
+        SYSVAR_RENT_PUBKEY,
+      ],
+    },
+  });
+
+  const serializeV0 = (...instructions: TransactionInstruction[]): string => {
+    const message = new TransactionMessage({
+      payerKey: feePayer,
+      recentBlockhash,
+      instructions,
+    }).compileToV0Message([lookupTable]);
+    return Buffer.from(new VersionedTransaction(message).serialize()).toString("base64");
+  };
+
+  const u64 = (value: number): Buffer => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32LE(value % 0x100000000, 0);
+    buffer.writeUInt32LE(Math.floor(value / 0x100000000), 4);
+    return buffer;
+  };
+
+  const transferChecked = (amount: number, owner = sender, tokenProgram = TOKEN_PROGRAM_ID) =>
+    createTransferCheckedInstruction(
+      senderTokenAccount,
+      mint,
+      recipientTokenAccount,
+      owner,
+      amount,
+      6,
+      [],
+      tokenProgram
+    );
+
+  const createAta = (payer = feePayer, tokenProgram = TOKEN_PROGRAM_ID, account = recipientTokenAccount) =>
+    createAssociatedTokenAccountInstruction(
+      payer,
+      account,
+      recipient,
+      mint,
+      tokenProgram,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+
+  const initializeEscrow = (amount: number, tokenProgram = TOKEN_PROGRAM_ID) =>
+    new TransactionInstruction({
+      programId: FYMONEY_PROGRAM_ID,
+      keys: [
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: senderTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+        { pubkey: sender, isSigner: true, isWritable: false },
+        { pubkey: feePayer, isSigner: true, isWritable: true },
+        { pubkey: tokenProgram, isSigner: false, isWritable: false },
+        { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+      ],
+      data: Buffer.concat([
+        Buffer.from(INITIALIZE_ESCROW),
+        u64(amount),
+        Buffer.alloc(32, 7),
+        u64(1_700_000_000),
+        u64(0),
+      ]),
+    });
+
+  const claimEscrow = (claimer = recipient) =>
+    new TransactionInstruction({
+      programId: FYMONEY_PROGRAM_ID,
+      keys: [
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: recipientTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+        { pubkey: claimer, isSigner: true, isWritable: true },
+      ],
+      data: Buffer.from(CLAIM_ESCROW),
+    });
+
+  const deposit = (amount: number) =>
+    new TransactionInstruction({
+      programId: YIELD_VAULT_PROGRAM_ID,
+      keys: [
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: senderTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+        { pubkey: sender, isSigner: true, isWritable: false },
+        { pubkey: feePayer, isSigner: true, isWritable: true },
+      ],
+      data: Buffer.concat([Buffer.from(DEPOSIT), u64(amount)]),
+    });
+
+  const expectRejection = (
+    serialized: string,
+    reason: SponsorshipRejectionReason,
+    limits = DEFAULT_SPONSORSHIP_LIMITS
+  ) => {
+    try {
+      SponsorshipPolicy.evaluateSerialized(serialized, feePayer, limits);
+    } catch (error) {
+      assert.instanceOf(error, SponsorshipPolicyError);
+      assert.equal((error as SponsorshipPolicyError).code, reason);
+      assert.equal(
+        (error as SponsorshipPolicyError).message,
+        SponsorshipPolicy.getRejectionMessage(reason)
+      );
+      return;
+    }
+    assert.fail(`Expected rejection with ${reason}`);
+  };
+
+  it("Approves a direct USDC transfer", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(transferChecked(1_000_000)),
+      feePayer
+    );
+
+    assert.equal(evaluation.instructions.length, 1);
+    assert.equal(evaluation.instructions[0].name, "transferChecked");
+    assert.equal(evaluation.instructions[0].amount, 1_000_000);
+    assert.equal(evaluation.ataRentPayments, 0);
+    assert.equal(evaluation.lamportsDrained, 2 * 5000);
+  });
+
+  it("Approves escrow creation and counts the rent it funds", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(initializeEscrow(5_000_000)),
+      feePayer
+    );
+
+    assert.equal(evaluation.instructions[0].name, "initializeEscrow");
+    assert.equal(evaluation.instructions[0].amount, 5_000_000);
+    assert.equal(evaluation.ataRentPayments, 1);
+    assert.equal(evaluation.feeLamports, 2 * 5000);
+    assert.equal(
+      evaluation.rentLamports,
+      SponsorshipPolicy.rentExemptLamports(203) + SponsorshipPolicy.rentExemptLamports(165)
+    );
+    assert.equal(evaluation.lamportsDrained, evaluation.feeLamports + evaluation.rentLamports);
+  });
+
+  it("Approves a Token-2022 transfer", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(transferChecked(1_000_000, sender, TOKEN_2022_PROGRAM_ID)),
+      feePayer
+    );
+
+    assert.equal(evaluation.instructions[0].program, "spl-token-2022");
+    assert.equal(evaluation.instructions[0].name, "transferChecked");
+    assert.equal(evaluation.instructions[0].amount, 1_000_000);
+  });
+
+  it("Sizes Token-2022 accounts with their extensions", () => {
+    const escrow = SponsorshipPolicy.evaluateSerialized(
+      serialize(initializeEscrow(5_000_000, TOKEN_2022_PROGRAM_ID)),
+      feePayer
+    );
+    const claim = SponsorshipPolicy.evaluateSerialized(
+      serialize(createAta(feePayer, TOKEN_2022_PROGRAM_ID), claimEscrow()),
+      feePayer
+    );
+
+    assert.equal(
+      escrow.rentLamports,
+      SponsorshipPolicy.rentExemptLamports(203) + SponsorshipPolicy.rentExemptLamports(187)
+    );
+    assert.equal(claim.rentLamports, SponsorshipPolicy.rentExemptLamports(187));
+  });
+
+  it("Approves a memo signed by the sender", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(transferChecked(1_000_000), Memo.createInstruction("October rent", sender)),
+      feePayer
+    );
+
+    assert.equal(evaluation.instructions[1].program, "memo");
+    assert.equal(evaluation.lamportsDrained, 2 * 5000);
+  });
+
+  it("Rejects memos that are too long or signed by the fee payer", () => {
+    expectRejection(
+      serialize(transferChecked(1_000_000), Memo.createInstruction("x".repeat(MAX_MEMO_BYTES + 1), sender)),
+      "MALFORMED_INSTRUCTION"
+    );
+    expectRejection(
+      serialize(transferChecked(1_000_000), Memo.createInstruction("Thanks", feePayer)),
+      "FEE_PAYER_MISUSE"
+    );
+    expectRejection(
+      serialize(
+        transferChecked(1_000_000),
+        new TransactionInstruction({
+          programId: MEMO_PROGRAM_ID,
+          keys: [{ pubkey: recipient, isSigner: false, isWritable: false }],
+          data: Buffer.from("Thanks"),
+        })
+      ),
+      "MALFORMED_INSTRUCTION"
+    );
+  });
+
+  it("Identifies the sponsored wallet", () => {
+    const transaction = Transaction.from(
+      Buffer.from(serialize(createAta(), claimEscrow()), "base64")
+    );
+
+    assert.isTrue(SponsorshipPolicy.getSponsoredWallet(transaction, feePayer)!.equals(recipient));
+  });
+
+  it("Approves a claim that creates the recipient token account", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(createAta(), claimEscrow()),
+      feePayer
+    );
+
+    assert.deepEqual(
+      evaluation.instructions.map((ix) => ix.name),
+      ["create", "claimEscrow"]
+    );
+    assert.equal(evaluation.ataRentPayments, 1);
+  });
+
+  it("Approves a vault deposit", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(deposit(2_000_000)),
+      feePayer
+    );
+
+    assert.equal(evaluation.instructions[0].program, "yield_vault");
+    assert.equal(evaluation.instructions[0].amount, 2_000_000);
+  });
+
+  it("Approves a v0 escrow creation that loads accounts from the lookup table", () => {
+    const serialized = serializeV0(initializeEscrow(5_000_000));
+    const transaction = VersionedTransaction.deserialize(Buffer.from(serialized, "base64"));
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialized,
+      feePayer,
+      DEFAULT_SPONSORSHIP_LIMITS,
+      [lookupTable]
+    );
+
+    assert.equal(transaction.message.addressTableLookups.length, 1);
+    assert.equal(evaluation.instructions[0].name, "initializeEscrow");
+    assert.equal(evaluation.instructions[0].amount, 5_000_000);
+    assert.equal(evaluation.lamportsDrained, 2 * 5000 + SponsorshipPolicy.rentExemptLamports(203) + SponsorshipPolicy.rentExemptLamports(165));
+    assert.isTrue(SponsorshipPolicy.getSponsoredWallet(transaction, feePayer, [lookupTable])!.equals(sender));
+  });
+
+  it("Rejects a v0 transaction when its lookup table is not supplied", () => {
+    expectRejection(serializeV0(initializeEscrow(5_000_000)), "INVALID_TRANSACTION");
+  });
+
+  it("Applies fee payer checks to v0 transactions", () => {
+    try {
+      SponsorshipPolicy.evaluateSerialized(serializeV0(claimEscrow(feePayer)), feePayer, DEFAULT_SPONSORSHIP_LIMITS, [lookupTable]);
+    } catch (error) {
+      assert.equal((error as SponsorshipPolicyError).code, "FEE_PAYER_MISUSE");
+      return;
+    }
+    assert.fail("Expected rejection with FEE_PAYER_MISUSE");
+  });
+
+  it("Rejects a transaction paid by another fee payer", () => {
+    const transaction = new Transaction();
+    transaction.recentBlockhash = recentBlockhash;
+    transaction.feePayer = sender;
+    transaction.add(transferChecked(1_000_000));
+
+    expectRejection(
+      transaction
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64"),
+      "FEE_PAYER_MISMATCH"
+    );
+  });
+
+  it("Rejects bytes that are not a transaction", () => {
+    expectRejection(Buffer.from("not a transaction").toString("base64"), "INVALID_TRANSACTION");
+  });
+
+  it("Rejects programs outside the allowlist", () => {
+    expectRejection(
+      serialize(SystemProgram.transfer({ fromPubkey: sender, toPubkey: recipient, lamports: 1 })),
+      "PROGRAM_NOT_ALLOWED"
+    );
+  });
+
+  it("Rejects SPL Token instructions other than transferChecked", () => {
+    expectRejection(
+      serialize(createCloseAccountInstruction(senderTokenAccount, recipient, sender)),
+      "INSTRUCTION_NOT_ALLOWED"
+    );
+  });
+
+  it("Rejects unknown program instructions", () => {
+    expectRejection(
+      serialize(
+        new TransactionInstruction({
+          programId: FYMONEY_PROGRAM_ID,
+          keys: [],
+          data: Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]),
+        })
+      ),
+      "INSTRUCTION_NOT_ALLOWED"
+    );
+  });
+
+  it("Rejects truncated instruction data", () => {
+    const ix = initializeEscrow(1_000_000);
+    ix.data = ix.data.subarray(0, 16);
+
+    expectRejection(serialize(ix), "MALFORMED_INSTRUCTION");
+  });
+
+  it("Rejects the fee payer as a token owner", () => {
+    expectRejection(serialize(transferChecked(1_000_000, feePayer)), "FEE_PAYER_MISUSE");
+  });
+
+  it("Rejects the fee payer as an escrow claimant", () => {
+    expectRejection(serialize(claimEscrow(feePayer)), "FEE_PAYER_MISUSE");
+  });
+
+  it("Rejects amounts above the limit", () => {
+    expectRejection(
+      serialize(transferChecked(DEFAULT_SPONSORSHIP_LIMITS.maxTokenAmount + 1)),
+      "AMOUNT_LIMIT_EXCEEDED"
+    );
+    expectRejection(
+      serialize(initializeEscrow(DEFAULT_SPONSORSHIP_LIMITS.maxTokenAmount + 1)),
+      "AMOUNT_LIMIT_EXCEEDED"
+    );
+  });
+
+  it("Rejects amounts beyond the safe integer range", () => {
+    const ix = deposit(0);
+    ix.data.writeUInt32LE(0xffffffff, 12);
+
+    expectRejection(serialize(ix), "AMOUNT_LIMIT_EXCEEDED");
+  });
+
+  it("Rejects too many funded token accounts", () => {
+    expectRejection(serialize(createAta(), createAta(), createAta()), "ATA_RENT_LIMIT_EXCEEDED");
+  });
+
+  it("Rejects funded token accounts the transaction does not pay into", () => {
+    expectRejection(serialize(createAta()), "ATA_NOT_USED");
+    expectRejection(
+      serialize(createAta(feePayer, TOKEN_PROGRAM_ID, Keypair.generate().publicKey), claimEscrow()),
+      "ATA_NOT_USED"
+    );
+
+    // A transfer into the new account is a use, like a claim
+    SponsorshipPolicy.evaluateSerialized(serialize(createAta(), transferChecked(1_000_000)), feePayer);
+  });
+
+  it("Rejects transactions that drain too many lamports", () => {
+    expectRejection(serialize(initializeEscrow(1_000_000)), "LAMPORT_LIMIT_EXCEEDED", {
+      ...DEFAULT_SPONSORSHIP_LIMITS,
+      maxLamportsDrained: 1_000_000,
+    });
+  });
+
+  it("Rejects transactions with too many instructions", () => {
+    expectRejection(
+      serialize(
+        transferChecked(1),
+        transferChecked(1),
+        transferChecked(1),
+        transferChecked(1),
+        transferChecked(1)
+      ),
+      "TOO_MANY_INSTRUCTIONS"
+    );
+  });
+
+  it("Approves compute budget instructions and counts the priority fee", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 50_000 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000_000 }),
+        transferChecked(1),
+        transferChecked(1),
+        transferChecked(1),
+        transferChecked(1)
+      ),
+      feePayer
+    );
+
+    assert.deepEqual(
+      evaluation.instructions.slice(0, 2).map((ix) => ix.name),
+      ["setComputeUnitLimit", "setComputeUnitPrice"]
+    );
+    assert.equal(evaluation.priorityFeeLamports, 50_000);
+    assert.equal(evaluation.feeLamports, 2 * 5000 + 50_000);
+  });
+
+  it("Prices the default compute unit limit when none is set", () => {
+    expectRejection(
+      serialize(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000_000 }),
+        transferChecked(1)
+      ),
+      "PRIORITY_FEE_LIMIT_EXCEEDED"
+    );
+  });
+
+  it("Rejects duplicate compute budget instructions", () => {
+    expectRejection(
+      serialize(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 50_000 }),
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }),
+        transferChecked(1)
+      ),
+      "MALFORMED_INSTRUCTION"
+    );
+  });
+
+  it("Rejects compute budget instructions other than limit and price", () => {
+    expectRejection(
+      serialize(ComputeBudgetProgram.requestHeapFrame({ bytes: 256 * 1024 }), transferChecked(1)),
+      "INSTRUCTION_NOT_ALLOWED"
+    );
+  });
+
+  it("Does not count rent paid by the user", () => {
+    const evaluation = SponsorshipPolicy.evaluateSerialized(
+      serialize(createAta(sender), transferChecked(1_000_000)),
+      feePayer
+    );
+
+    assert.equal(evaluation.ataRentPayments, 0);
+  });
+});
@@ -0,0 +1,65 @@
+import { assert } from "chai";
+import {
+  SponsorshipQuota,
+  SponsorshipQuotaError,
+  DEFAULT_SPONSORSHIP_QUOTA,
+} from "../app/src/services/sponsorshipQuota";
+
+describe("Sponsorship Quota", () => {
+  const limits = { dailyLamports: 1_000_000, monthlyLamports: 5_000_000 };
+
+  const expectQuotaError = (fn: () => void, code: string) => {
+    try {
+      fn();
+    } catch (error) {
+      assert.instanceOf(error, SponsorshipQuotaError);
+      assert.equal((error as SponsorshipQuotaError).code, code);
+      return;
+    }
+    assert.fail(`Expected ${code}`);
+  };
+
+  it("Allows spend up to the daily quota", () => {
+    SponsorshipQuota.assertWithinQuota(
+      { dailyLamports: 900_000, monthlyLamports: 900_000 },
+      100_000,
+      limits
+    );
+  });
+
+  it("Rejects spend over the daily quota", () => {
+    expectQuotaError(
+      () =>
+        SponsorshipQuota.assertWithinQuota(
+          { dailyLamports: 900_000, monthlyLamports: 900_000 },
+          100_001,
+          limits
+        ),
+      "DAILY_QUOTA_EXCEEDED"
+    );
+  });
+
+  it("Rejects spend over the monthly quota", () => {
+    expectQuotaError(
+      () =>
+        SponsorshipQuota.assertWithinQuota(
+          { dailyLamports: 0, monthlyLamports: 4_999_000 },
+          10_000,
+          limits
+        ),
+      "MONTHLY_QUOTA_EXCEEDED"
+    );
+  });
+
+  it("Fits a sponsored escrow into the default daily quota", () => {
+    // Escrow creation is the most expensive sponsored action: fees plus two rent-exempt accounts
+    SponsorshipQuota.assertWithinQuota({ dailyLamports: 0, monthlyLamports: 0 }, 4_353_040);
+    assert.isAbove(DEFAULT_SPONSORSHIP_QUOTA.monthlyLamports, DEFAULT_SPONSORSHIP_QUOTA.dailyLamports);
+  });
+
+  it("Recognises quota reasons returned by the relayer", () => {
+    assert.isTrue(SponsorshipQuota.isQuotaReason("DAILY_QUOTA_EXCEEDED"));
+    assert.isTrue(SponsorshipQuota.isQuotaReason("MONTHLY_QUOTA_EXCEEDED"));
+    assert.isFalse(SponsorshipQuota.isQuotaReason("AMOUNT_LIMIT_EXCEEDED"));
+  });
+});
@@ -0,0 +1,112 @@
+import { assert } from "chai";
+import { ActivityEntry } from "../app/src/services/activityFeed";
+import { StatementExport } from "../app/src/services/statementExport";
+
+describe("Statement Export", () => {
+  const wallet = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+  const token = { mint: "usdc-mint", symbol: "USDC", decimals: 6 };
+  const from = new Date("2026-09-01T00:00:00Z");
+  const to = new Date("2026-10-01T00:00:00Z");
+  const at = (iso: string) => new Date(iso).getTime() / 1000;
+
+  let slot = 0;
+  const entry = (kind: ActivityEntry["kind"], amount: number, blockTime: number | null, overrides: Partial<ActivityEntry> = {}): ActivityEntry => ({
+    signature: `sig-${++slot}`,
+    slot,
+    blockTime,
+    kind,
+    amount,
+    tokenMint: token.mint,
+    ...overrides,
+  });
+
+  // Newest first, as the feed keeps them
+  const entries = [
+    entry("received", 1_000_000, null),
+    entry("sent", 2_000_000, at("2026-10-03T10:00:00Z")),
+    entry("vaultWithdraw", 12_000_000, at("2026-09-20T10:00:00Z")),
+    entry("escrowCreated", 5_000_000, at("2026-09-10T10:00:00Z"), { counterpartyEmail: "bob@example.com", memo: "Rent, September" }),
+    entry("received", 7_000_000, at("2026-09-05T10:00:00Z"), { counterpartyWallet: "Sender111" }),
+    entry("received", 3_000_000, at("2026-09-02T10:00:00Z"), { tokenMint: "eurc-mint" }),
+    entry("vaultDeposit", 10_000_000, at("2026-08-15T10:00:00Z")),
+    entry("received", 50_000_000, at("2026-08-01T10:00:00Z")),
+  ];
+
+  const statement = StatementExport.build({
+    wallet,
+    token,
+    entries,
+    currentBalance: 51_000_000,
+    from,
+    to,
+    generatedAt: new Date("2026-10-18T00:00:00Z"),
+  });
+
+  it("Works out opening and closing balances from the current balance", () => {
+    // 51 now, less 1 received untimed and plus 2 sent after the range
+    assert.equal(statement.closingBalance, 52_000_000);
+    assert.equal(statement.openingBalance, 38_000_000);
+    assert.equal(statement.totalIn, 19_000_000);
+    assert.equal(statement.totalOut, 5_000_000);
+
+    assert.deepEqual(statement.lines.map(line => [line.kind, line.amount, line.balance]), [
+      ["received", 7_000_000, 45_000_000],
+      ["escrowCreated", -5_000_000, 40_000_000],
+      ["vaultWithdraw", 12_000_000, 52_000_000],
+    ]);
+  });
+
+  it("Counts vault withdrawals above the principal as yield", () => {
+    assert.equal(statement.totalYield, 2_000_000);
+    assert.equal(statement.lines[2].yield, 2_000_000);
+  });
+
+  it("Writes CSV with exact amounts and quoted fields", () => {
+    const rows = StatementExport.toCsv(statement).split("\n");
+
+    assert.equal(rows[0], "date,type,counterparty,memo,amount,yield,balance,token,signature");
+    assert.equal(rows[2], `2026-09-10T10:00:00.000Z,Sent to email,bob@example.com,"Rent, September",-5.000000,0.000000,40.000000,USDC,${statement.lines[1].signature}`);
+    assert.lengthOf(rows, 4);
+  });
+
+  it("Writes OFX transactions and the closing balance", () => {
+    const ofx = StatementExport.toOfx(statement);
+
+    assert.isTrue(ofx.startsWith("OFXHEADER:100\nDATA:OFXSGML"));
+    assert.include(ofx, "<CURDEF>USD");
+    assert.include(ofx, "<DTSTART>20260901000000");
+    assert.include(ofx, "<TRNTYPE>DEBIT\n<DTPOSTED>20260910100000\n<TRNAMT>-5.000000");
+    assert.include(ofx, "<NAME>bob@example.com");
+    assert.include(ofx, "<LEDGERBAL>\n<BALAMT>52.000000");
+    assert.equal(ofx.match(/<STMTTRN>/g)?.length, 3);
+  });
+
+  it("Writes a PDF with a valid cross-reference table", () => {
+    const pdf = StatementExport.toPdf(statement);
+
+    assert.isTrue(pdf.startsWith("%PDF-1.4"));
+    assert.include(pdf, "(Opening balance: 38.000000 USDC)");
+    assert.include(pdf, "bob@example.com - Rent");
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    assert.isTrue(pdf.slice(startxref).startsWith("xref"));
+    const offsets = [...pdf.slice(startxref).matchAll(/(\d{10}) 00000 n/g)].map(match => Number(match[1]));
+    offsets.forEach((offset, i) => assert.isTrue(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)));
+  });
+
+  it("Splits long statements across pages", () => {
+    const many = Array.from({ length: 120 }, (_, i) => entry("received", 1_000, at("2026-09-15T00:00:00Z") + i));
+    const long = StatementExport.build({ wallet, token, entries: many, currentBalance: 120_000, from, to });
+    const pdf = StatementExport.toPdf(long);
+
+    assert.equal(long.openingBalance, 0);
+    assert.include(pdf, "/Count 3");
+  });
+
+  it("Formats base units exactly", () => {
+    assert.equal(StatementExport.formatUnits(0, 6), "0.000000");
+    assert.equal(StatementExport.formatUnits(-2_500_000, 6), "-2.500000");
+    assert.equal(StatementExport.formatUnits(123_456_789_012, 6), "123456.789012");
+    assert.equal(StatementExport.formatUnits(42, 0), "42");
+  });
+});
@@ -0,0 +1,250 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program, BN } from "@coral-xyz/anchor";
+import { Fymoney } from "../target/types/fymoney";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  ExtensionType,
+  getMintLen,
+  createInitializeTransferFeeConfigInstruction,
+  createInitializeMintInstruction,
+  createInitializeTransferHookInstruction,
+  createAssociatedTokenAccount,
+  mintTo,
+  getAssociatedTokenAddress,
+} from "@solana/spl-token";
+import {
+  PublicKey,
+  Keypair,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  Transaction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import * as crypto from "crypto";
+import { findNextNonce, getEscrowPDA } from "./utils/nonce-helper";
+
+describe("Token-2022 Escrow", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.Fymoney as Program<Fymoney>;
+  const payer = provider.wallet as anchor.Wallet;
+
+  let tokenMint: PublicKey;
+  let senderTokenAccount: PublicKey;
+  let escrowPDA: PublicKey;
+  let escrowTokenAccount: PublicKey;
+  const recipientKeypair = Keypair.generate();
+
+  const ESCROW_AMOUNT = 5_000_000; // 5 tokens (6 decimals)
+  const TRANSFER_FEE_BASIS_POINTS = 100; // 1%
+  const MAXIMUM_FEE = BigInt(1_000_000);
+  const RECIPIENT_EMAIL = "token-2022-test@example.com";
+  const RECIPIENT_EMAIL_HASH = Array.from(
+    crypto.createHash('sha256').update(RECIPIENT_EMAIL.toLowerCase().trim()).digest()
+  );
+
+  const transferFee = (amount: number) =>
+    Math.min(Math.ceil((amount * TRANSFER_FEE_BASIS_POINTS) / 10_000), Number(MAXIMUM_FEE));
+
+  before(async () => {
+    console.log("🚀 Setting up Token-2022 test environment...");
+
+    // Create a Token-2022 mint with a transfer fee (simulating PYUSD)
+    console.log("📝 Creating Token-2022 mint with transfer fee...");
+    const mintKeypair = Keypair.generate();
+    tokenMint = mintKeypair.publicKey;
+    const mintLen = getMintLen([ExtensionType.TransferFeeConfig]);
+    const lamports = await provider.connection.getMinimumBalanceForRentExemption(mintLen);
+
+    await sendAndConfirmTransaction(
+      provider.connection,
+      new Transaction().add(
+        SystemProgram.createAccount({
+          fromPubkey: payer.publicKey,
+          newAccountPubkey: tokenMint,
+          space: mintLen,
+          lamports,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeTransferFeeConfigInstruction(
+          tokenMint,
+          payer.publicKey,
+          payer.publicKey,
+          TRANSFER_FEE_BASIS_POINTS,
+          MAXIMUM_FEE,
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createInitializeMintInstruction(tokenMint, 6, payer.publicKey, null, TOKEN_2022_PROGRAM_ID)
+      ),
+      [payer.payer, mintKeypair]
+    );
+    console.log("✅ Token-2022 mint created:", tokenMint.toString());
+
+    senderTokenAccount = await createAssociatedTokenAccount(
+      provider.connection,
+      payer.payer,
+      tokenMint,
+      payer.publicKey,
+      undefined,
+      TOKEN_2022_PROGRAM_ID
+    );
+
+    await mintTo(
+      provider.connection,
+      payer.payer,
+      tokenMint,
+      senderTokenAccount,
+      payer.payer,
+      10_000_000,
+      [],
+      undefined,
+      TOKEN_2022_PROGRAM_ID
+    );
+    console.log("✅ 10 tokens minted to sender");
+
+    const airdrop = await provider.connection.requestAirdrop(recipientKeypair.publicKey, 1_000_000_000);
+    await provider.connection.confirmTransaction(airdrop);
+  });
+
+  it("Records the amount received after the transfer fee", async () => {
+    const expiresAt = new BN(Math.floor(Date.now() / 1000) + 86400); // 1 day
+    const nonce = await findNextNonce(payer.publicKey, RECIPIENT_EMAIL_HASH, program);
+    [escrowPDA] = getEscrowPDA(payer.publicKey, RECIPIENT_EMAIL_HASH, nonce, program.programId);
+    escrowTokenAccount = await getAssociatedTokenAddress(tokenMint, escrowPDA, true, TOKEN_2022_PROGRAM_ID);
+
+    const tx = await program.methods
+      .initializeEscrow(new BN(ESCROW_AMOUNT), RECIPIENT_EMAIL_HASH, expiresAt, new BN(nonce))
+      .accounts({
+        escrowAccount: escrowPDA,
+        escrowTokenAccount,
+        senderTokenAccount,
+        tokenMint,
+        sender: payer.publicKey,
+        feePayer: payer.publicKey,
+        tokenProgram: TOKEN_2022_PROGRAM_ID,
+        associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      })
+      .rpc();
+    console.log("✅ Escrow created:", tx);
+
+    const escrowAccount = await program.account.escrowAccount.fetch(escrowPDA);
+    const escrowBalance = await provider.connection.getTokenAccountBalance(escrowTokenAccount);
+    const expected = ESCROW_AMOUNT - transferFee(ESCROW_AMOUNT);
+    console.log("📋 Escrow amount:", escrowAccount.amount.toString(), "expected:", expected);
+
+    assert.equal(escrowAccount.amount.toNumber(), expected, "Escrow should record what arrived");
+    assert.equal(escrowBalance.value.amount, expected.toString(), "Escrow should hold what arrived");
+    assert.equal(escrowAccount.tokenMint.toString(), tokenMint.toString());
+  });
+
+  it("Lets the recipient claim a Token-2022 escrow", async () => {
+    const recipientTokenAccount = await getAssociatedTokenAddress(
+      tokenMint,
+      recipientKeypair.publicKey,
+      false,
+      TOKEN_2022_PROGRAM_ID
+    );
+
+    await program.methods
+      .claimEscrow()
+      .accounts({
+        escrowAccount: escrowPDA,
+        escrowTokenAccount,
+        recipientTokenAccount,
+        tokenMint,
+        recipient: recipientKeypair.publicKey,
+        tokenProgram: TOKEN_2022_PROGRAM_ID,
+        associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      })
+      .signers([recipientKeypair])
+      .rpc();
+
+    const escrowed = ESCROW_AMOUNT - transferFee(ESCROW_AMOUNT);
+    const recipientBalance = await provider.connection.getTokenAccountBalance(recipientTokenAccount);
+    const escrowAccount = await program.account.escrowAccount.fetch(escrowPDA);
+    console.log("💰 Recipient balance:", recipientBalance.value.amount);
+
+    assert.isDefined(escrowAccount.status.claimed, "Escrow should be marked as claimed");
+    assert.equal(
+      recipientBalance.value.amount,
+      (escrowed - transferFee(escrowed)).toString(),
+      "Recipient should receive the escrow less the claim transfer fee"
+    );
+  });
+
+  it("Refuses to escrow a mint with a transfer hook", async () => {
+    // The hook is never run: the program refuses the mint before transferring
+    const hookedMintKeypair = Keypair.generate();
+    const hookedMint = hookedMintKeypair.publicKey;
+    const mintLen = getMintLen([ExtensionType.TransferHook]);
+    const lamports = await provider.connection.getMinimumBalanceForRentExemption(mintLen);
+
+    await sendAndConfirmTransaction(
+      provider.connection,
+      new Transaction().add(
+        SystemProgram.createAccount({
+          fromPubkey: payer.publicKey,
+          newAccountPubkey: hookedMint,
+          space: mintLen,
+          lamports,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeTransferHookInstruction(hookedMint, payer.publicKey, program.programId, TOKEN_2022_PROGRAM_ID),
+        createInitializeMintInstruction(hookedMint, 6, payer.publicKey, null, TOKEN_2022_PROGRAM_ID)
+      ),
+      [payer.payer, hookedMintKeypair]
+    );
+
+    const hookedSenderAccount = await createAssociatedTokenAccount(
+      provider.connection,
+      payer.payer,
+      hookedMint,
+      payer.publicKey,
+      undefined,
+      TOKEN_2022_PROGRAM_ID
+    );
+    await mintTo(
+      provider.connection,
+      payer.payer,
+      hookedMint,
+      hookedSenderAccount,
+      payer.payer,
+      ESCROW_AMOUNT,
+      [],
+      undefined,
+      TOKEN_2022_PROGRAM_ID
+    );
+
+    const expiresAt = new BN(Math.floor(Date.now() / 1000) + 86400);
+    const nonce = await findNextNonce(payer.publicKey, RECIPIENT_EMAIL_HASH, program);
+    const [hookedEscrowPDA] = getEscrowPDA(payer.publicKey, RECIPIENT_EMAIL_HASH, nonce, program.programId);
+
+    try {
+      await program.methods
+        .initializeEscrow(new BN(ESCROW_AMOUNT), RECIPIENT_EMAIL_HASH, expiresAt, new BN(nonce))
+        .accounts({
+          escrowAccount: hookedEscrowPDA,
+          escrowTokenAccount: await getAssociatedTokenAddress(hookedMint, hookedEscrowPDA, true, TOKEN_2022_PROGRAM_ID),
+          senderTokenAccount: hookedSenderAccount,
+          tokenMint: hookedMint,
+          sender: payer.publicKey,
+          feePayer: payer.publicKey,
+          tokenProgram: TOKEN_2022_PROGRAM_ID,
+          associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+          systemProgram: SystemProgram.programId,
+          rent: SYSVAR_RENT_PUBKEY,
+        })
+        .rpc();
+      assert.fail("Should have rejected the hooked mint");
+    } catch (error) {
+      assert.include(error.toString(), "TransferHookNotSupported");
+    }
+  });
+});
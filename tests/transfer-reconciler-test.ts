@@ -0,0 +1,243 @@
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import { FYMONEY_DISCRIMINATORS, FYMONEY_PROGRAM_ID } from "../app/src/services/sponsorshipPolicy";
+import {
+  ReconcilableIntent,
+  TransferIntentStore,
+  TransferIntentUpdate,
+  TransferReconciler,
+} from "../app/src/services/transferReconciler";
+
+describe("Transfer Reconciler", () => {
+  const sender = Keypair.generate().publicKey;
+  const recipient = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const escrowPda = Keypair.generate().publicKey;
+
+  const ESCROW_ACCOUNT = [36, 69, 48, 18, 128, 225, 125, 135];
+  const STATUS = { active: 0, claimed: 1, expired: 2 };
+
+  // EscrowAccount as Anchor lays it out, with recipient_wallet as a Borsh Option
+  const encodeEscrow = (status: keyof typeof STATUS, recipientWallet?: PublicKey) => {
+    const amount = Buffer.alloc(8);
+    amount.writeBigUInt64LE(5_000_000n);
+    const createdAt = Buffer.alloc(8);
+    createdAt.writeBigInt64LE(1_700_000_000n);
+    const expiresAt = Buffer.alloc(8);
+    expiresAt.writeBigInt64LE(1_700_086_400n);
+
+    return Buffer.concat([
+      Buffer.from(ESCROW_ACCOUNT),
+      sender.toBuffer(),
+      Buffer.alloc(32, 7), // recipient_email_hash
+      recipientWallet ? Buffer.concat([Buffer.from([1]), recipientWallet.toBuffer()]) : Buffer.from([0]),
+      mint.toBuffer(),
+      Keypair.generate().publicKey.toBuffer(), // escrow_token_account
+      amount,
+      createdAt,
+      expiresAt,
+      Buffer.from([STATUS[status]]),
+      Buffer.alloc(8, 1), // nonce
+      Buffer.from([254]), // bump
+    ]);
+  };
+
+  const accountInfo = (data: Buffer): AccountInfo<Buffer> => ({
+    data,
+    owner: FYMONEY_PROGRAM_ID,
+    lamports: 1_000_000,
+    executable: false,
+  });
+
+  // A confirmed claim or reclaim with the escrow first and the actor fifth, as the program orders them
+  const escrowTransaction = (discriminator: number[], actor: PublicKey, blockTime: number): VersionedTransactionResponse => {
+    const keys = [escrowPda, Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey, actor]
+      .map((pubkey, i) => ({ pubkey, isSigner: i === 4, isWritable: true }));
+    const message = new TransactionMessage({
+      payerKey: actor,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [new TransactionInstruction({ programId: FYMONEY_PROGRAM_ID, keys, data: Buffer.from(discriminator) })],
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+
+    return {
+      slot: 1,
+      blockTime,
+      transaction: { message, signatures: [`sig-${actor.toBase58().slice(0, 8)}-${blockTime}`] },
+      meta: { err: null, fee: 5000, preBalances: [], postBalances: [], loadedAddresses: { writable: [], readonly: [] } },
+      version: transaction.version,
+    } as unknown as VersionedTransactionResponse;
+  };
+
+  const intent = (overrides: Partial<ReconcilableIntent> = {}): ReconcilableIntent => ({
+    id: "intent-1",
+    status: "pending",
+    escrowPda: escrowPda.toBase58(),
+    ...overrides,
+  });
+
+  it("Decodes escrow accounts with and without a recipient", () => {
+    const active = TransferReconciler.decodeEscrowAccount(encodeEscrow("active"));
+    assert.equal(active.status, "active");
+    assert.isUndefined(active.recipientWallet);
+    assert.equal(active.sender, sender.toBase58());
+    assert.equal(active.tokenMint, mint.toBase58());
+    assert.equal(active.amount, 5_000_000);
+    assert.equal(active.expiresAt, 1_700_086_400);
+
+    const claimed = TransferReconciler.decodeEscrowAccount(encodeEscrow("claimed", recipient));
+    assert.equal(claimed.status, "claimed");
+    assert.equal(claimed.recipientWallet, recipient.toBase58());
+    assert.equal(claimed.tokenMint, mint.toBase58());
+    assert.equal(claimed.expiresAt, 1_700_086_400);
+
+    assert.throws(() => TransferReconciler.decodeEscrowAccount(Buffer.alloc(200)), "Not an escrow account");
+  });
+
+  it("Finds the claim of an escrow among its transactions", () => {
+    const claimTx = escrowTransaction(FYMONEY_DISCRIMINATORS.claimEscrow, recipient, 1_700_001_000);
+    const otherTx = escrowTransaction(FYMONEY_DISCRIMINATORS.initializeEscrow, sender, 1_700_000_000);
+
+    const actions = TransferReconciler.findEscrowActions(escrowPda, [claimTx, otherTx, null]);
+
+    assert.equal(actions.claim?.wallet, recipient.toBase58());
+    assert.equal(actions.claim?.signature, claimTx.transaction.signatures[0]);
+    assert.isUndefined(actions.reclaim);
+  });
+
+  it("Repairs a claim that was never recorded", () => {
+    const account = TransferReconciler.decodeEscrowAccount(encodeEscrow("claimed", recipient));
+    const claim = { signature: "claim-sig", wallet: recipient.toBase58(), blockTime: 1_700_001_000 };
+
+    for (const status of ["pending", "expired"] as const) {
+      const { discrepancy, update } = TransferReconciler.reconcile(intent({ status }), { account, claim, historyComplete: true });
+
+      assert.equal(discrepancy?.kind, "CLAIM_NOT_RECORDED");
+      assert.deepEqual(update, {
+        status: "claimed",
+        claimed_by_wallet: recipient.toBase58(),
+        claim_tx_hash: "claim-sig",
+        claimed_at: new Date(1_700_001_000 * 1000).toISOString(),
+      });
+    }
+  });
+
+  it("Leaves matching rows alone", () => {
+    const active = TransferReconciler.decodeEscrowAccount(encodeEscrow("active"));
+    const claimed = TransferReconciler.decodeEscrowAccount(encodeEscrow("claimed", recipient));
+
+    assert.deepEqual(TransferReconciler.reconcile(intent(), { account: active, historyComplete: true }), {});
+    assert.deepEqual(TransferReconciler.reconcile(intent({ status: "expired" }), { account: active, historyComplete: true }), {});
+    assert.deepEqual(TransferReconciler.reconcile(
+      intent({ status: "claimed", claimedByWallet: recipient.toBase58(), claimTxHash: "claim-sig" }),
+      { account: claimed, historyComplete: true }
+    ), {});
+  });
+
+  it("Reverts a claim that is not on-chain and records reclaims", () => {
+    const active = TransferReconciler.decodeEscrowAccount(encodeEscrow("active"));
+    const reverted = TransferReconciler.reconcile(
+      intent({ status: "claimed", claimedByWallet: recipient.toBase58(), claimTxHash: "bogus" }),
+      { account: active, historyComplete: true }
+    );
+    assert.equal(reverted.discrepancy?.kind, "CLAIM_NOT_ON_CHAIN");
+    assert.deepEqual(reverted.update, { status: "pending", claimed_by_wallet: null, claim_tx_hash: null, claimed_at: null });
+
+    const reclaim = { signature: "reclaim-sig", wallet: sender.toBase58(), blockTime: 1_700_090_000 };
+    const reclaimed = TransferReconciler.reconcile(intent(), { account: null, reclaim, historyComplete: true });
+    assert.equal(reclaimed.discrepancy?.kind, "RECLAIM_NOT_RECORDED");
+    assert.equal(reclaimed.update?.status, "expired");
+    assert.equal(reclaimed.update?.reclaim_tx_hash, "reclaim-sig");
+  });
+
+  it("Reports missing escrows without repairing them", () => {
+    const { discrepancy, update } = TransferReconciler.reconcile(intent(), { account: null, historyComplete: true });
+
+    assert.equal(discrepancy?.kind, "ESCROW_MISSING");
+    assert.isUndefined(update);
+  });
+
+  it("Runs against the chain and repairs through the store", async () => {
+    const claimTx = escrowTransaction(FYMONEY_DISCRIMINATORS.claimEscrow, recipient, 1_700_001_000);
+    const updates: { id: string; expectedStatus: string; update: TransferIntentUpdate }[] = [];
+    const store: TransferIntentStore = {
+      listIntents: async () => [intent()],
+      markReconciled: async () => {},
+      updateIntent: async (id, expectedStatus, update) => {
+        updates.push({ id, expectedStatus, update });
+        return true;
+      },
+    };
+    const connection = {
+      getMultipleAccountsInfo: async () => [accountInfo(encodeEscrow("claimed", recipient))],
+      getSignaturesForAddress: async () => [{ signature: claimTx.transaction.signatures[0], err: null }],
+      getTransactions: async () => [claimTx],
+    } as unknown as Connection;
+
+    const dryRun = await TransferReconciler.run(connection, store, { dryRun: true });
+    assert.equal(dryRun.checked, 1);
+    assert.equal(dryRun.discrepancies.length, 1);
+    assert.equal(dryRun.repaired, 0);
+    assert.lengthOf(updates, 0);
+
+    const report = await TransferReconciler.run(connection, store);
+    assert.equal(report.repaired, 1);
+    assert.isTrue(report.discrepancies[0].repaired);
+    assert.deepEqual(updates.map(entry => [entry.id, entry.expectedStatus, entry.update.claim_tx_hash]), [
+      ["intent-1", "pending", claimTx.transaction.signatures[0]],
+    ]);
+  });
+
+  it("Moves on to newer intents once the limit is filled with rows that already match", async () => {
+    const claimedEscrow = Keypair.generate().publicKey;
+    const pendingEscrow = Keypair.generate().publicKey;
+
+    // In-memory transfer_intents, ordered like the edge function's query
+    const rows: { intent: ReconcilableIntent; lastReconciledAt: number | null }[] = ["settled-1", "settled-2"].map((id) => ({
+      intent: intent({ id, status: "claimed", escrowPda: claimedEscrow.toBase58(), claimedByWallet: recipient.toBase58(), claimTxHash: "claim-sig" }),
+      lastReconciledAt: null,
+    }));
+    let clock = 0;
+    const checked: string[][] = [];
+    const store: TransferIntentStore = {
+      listIntents: async (limit) => {
+        const selected = [...rows]
+          .sort((a, b) => (a.lastReconciledAt ?? -1) - (b.lastReconciledAt ?? -1))
+          .slice(0, limit)
+          .map((row) => row.intent);
+        checked.push(selected.map((row) => row.id));
+        return selected;
+      },
+      markReconciled: async (ids) => {
+        clock++;
+        rows.filter((row) => ids.includes(row.intent.id)).forEach((row) => (row.lastReconciledAt = clock));
+      },
+      updateIntent: async () => true,
+    };
+    const connection = {
+      getMultipleAccountsInfo: async (addresses: PublicKey[]) =>
+        addresses.map((address) =>
+          accountInfo(address.equals(claimedEscrow) ? encodeEscrow("claimed", recipient) : encodeEscrow("active"))
+        ),
+    } as unknown as Connection;
+
+    const first = await TransferReconciler.run(connection, store, { limit: 2 });
+    assert.equal(first.checked, 2);
+    assert.lengthOf(first.discrepancies, 0);
+
+    // A newer intent arrives while the settled rows would still fill the limit
+    rows.push({ intent: intent({ id: "new-pending", escrowPda: pendingEscrow.toBase58() }), lastReconciledAt: null });
+
+    await TransferReconciler.run(connection, store, { limit: 2 });
+    assert.include(checked[1], "new-pending");
+  });
+});
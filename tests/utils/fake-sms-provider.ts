@@ -0,0 +1,26 @@
+import { E164_PATTERN } from "../../app/src/services/identityResolver";
+import { SmsMessage, SmsProvider, SmsProviderError } from "../../app/src/services/smsProvider";
+
+/**
+ * Keeps messages in an in-memory outbox instead of sending them
+ * Never logs: bodies carry claim codes and links, so tests read the outbox instead
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly outbox: (SmsMessage & { id: string; sentAt: Date })[] = [];
+
+  async send(message: SmsMessage): Promise<string> {
+    if (!E164_PATTERN.test(message.to)) {
+      throw new SmsProviderError(`${message.to} is not an E.164 phone number`, "INVALID_NUMBER");
+    }
+    const id = `fake-sms-${this.outbox.length + 1}`;
+    this.outbox.push({ ...message, id, sentAt: new Date() });
+    return id;
+  }
+
+  /**
+   * Messages sent to a number, oldest first
+   */
+  messagesTo(phone: string): SmsMessage[] {
+    return this.outbox.filter((message) => message.to === phone);
+  }
+}
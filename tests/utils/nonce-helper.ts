@@ -1,55 +1,24 @@
-import { Program, BN } from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
 import { PublicKey } from "@solana/web3.js";
 import { Fymoney } from "../../target/types/fymoney";
+import {
+  findNextNonce as findNextEscrowNonce,
+  getEscrowPDA,
+} from "../../app/src/services/escrowNonce";
+
+// Derives the PDA for an escrow given sender, email hash, and nonce
+export { getEscrowPDA };
 
 /**
  * Finds the next available nonce for creating an escrow
- * Uses simple sequential strategy: 0, 1, 2, etc.
+ * Uses the app's batched allocator: one getMultipleAccountsInfo call per 100 nonces
  */
 export async function findNextNonce(
   sender: PublicKey,
   emailHash: number[],
   program: Program<Fymoney>
 ): Promise<number> {
-  let nonce = 0;
-  
-  while (true) {
-    try {
-      const [escrowPDA] = PublicKey.findProgramAddressSync([
-        Buffer.from("escrow"),
-        sender.toBuffer(),
-        Buffer.from(emailHash),
-        new BN(nonce).toBuffer('le', 8)
-      ], program.programId);
-      
-      // Check if account exists
-      const existing = await program.account.escrowAccount.fetchNullable(escrowPDA);
-      if (!existing) {
-        return nonce; // Found available nonce
-      }
-      
-      nonce++;
-    } catch (error) {
-      return nonce; // Account doesn't exist, use this nonce
-    }
-  }
-}
-
-/**
- * Derives the PDA for an escrow given sender, email hash, and nonce
- */
-export function getEscrowPDA(
-  sender: PublicKey,
-  emailHash: number[],
-  nonce: number,
-  programId: PublicKey
-): [PublicKey, number] {
-  return PublicKey.findProgramAddressSync([
-    Buffer.from("escrow"),
-    sender.toBuffer(),
-    Buffer.from(emailHash),
-    new BN(nonce).toBuffer('le', 8)
-  ], programId);
+  return findNextEscrowNonce(program.provider.connection, sender, emailHash, program.programId);
 }
 
 /**